@@ -1,10 +1,23 @@
 'use client';
 
 import React, { useState } from 'react';
+import { PriceImportDiff, PriceImportParseError } from '@/types/pricing';
+import { getAdminAuthHeader } from '@/lib/admin/auth-utils';
+import PriceDiffTable from '@/components/admin/PriceDiffTable';
+
+interface ImportPreview {
+  count: number;
+  prefixCount: number;
+  errorCount: number;
+  diff: PriceImportDiff;
+  baselineHash: string; // Live pricing the diff was computed against; sent back on commit
+  parseErrors: PriceImportParseError[];
+}
 
 export default function CSVImportSection() {
   const [file, setFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
   const [result, setResult] = useState<{
     success: boolean;
     message: string;
@@ -13,52 +26,90 @@ export default function CSVImportSection() {
     errorCount?: number;
   } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [effectiveAt, setEffectiveAt] = useState<string>(''); // Empty means apply immediately on commit
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       setFile(e.target.files[0]);
+      setPreview(null);
       setResult(null);
       setError(null);
     }
   };
 
-  const handleUpload = async () => {
+  // Send the file to the import endpoint in either preview or commit mode
+  const submitImport = async (mode: 'preview' | 'commit') => {
     if (!file) {
       setError('Please select a CSV file first');
-      return;
+      return null;
     }
 
     if (!file.name.toLowerCase().endsWith('.csv')) {
       setError('Please select a CSV file');
-      return;
+      return null;
+    }
+
+    const formData = new FormData();
+    formData.append('csvFile', file);
+    formData.append('mode', mode);
+    if (mode === 'commit' && preview) {
+      formData.append('baselineHash', preview.baselineHash);
+    }
+    if (mode === 'commit' && effectiveAt) {
+      // datetime-local values are in the admin's local time zone
+      formData.append('effectiveAt', new Date(effectiveAt).toISOString());
+    }
+
+    const response = await fetch('/api/admin/pricing/csv-import', {
+      method: 'POST',
+      headers: {
+        'Authorization': await getAdminAuthHeader()
+      },
+      body: formData
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error || 'Failed to import pricing data');
+      return null;
     }
 
+    return data;
+  };
+
+  const handlePreview = async () => {
     setIsLoading(true);
     setError(null);
+    setPreview(null);
     setResult(null);
 
     try {
-      const formData = new FormData();
-      formData.append('csvFile', file);
-
-      // Get admin auth token from environment variable
-      const adminToken = process.env.NEXT_PUBLIC_ADMIN_TOKEN || '';
-      
-      if (!adminToken) {
-        throw new Error('Admin token is not configured. Please check your .env.local file.');
+      const data = await submitImport('preview');
+      if (data) {
+        setPreview({
+          count: data.count,
+          prefixCount: data.prefixCount ?? 0,
+          errorCount: data.errorCount,
+          diff: data.diff,
+          baselineHash: data.baselineHash,
+          parseErrors: data.parseErrors ?? []
+        });
       }
-      
-      const response = await fetch('/api/admin/pricing/csv-import', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${adminToken}`
-        },
-        body: formData
-      });
-
-      const data = await response.json();
-
-      if (response.ok) {
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await submitImport('commit');
+      if (data) {
         setResult({
           success: data.success,
           message: data.message,
@@ -66,8 +117,7 @@ export default function CSVImportSection() {
           successCount: data.successCount,
           errorCount: data.errorCount
         });
-      } else {
-        setError(data.error || 'Failed to import pricing data');
+        setPreview(null);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
@@ -76,24 +126,29 @@ export default function CSVImportSection() {
     }
   };
 
+  const changedCount = preview
+    ? preview.diff.added.length + preview.diff.removed.length + preview.diff.increased.length + preview.diff.decreased.length
+    : 0;
+
   return (
     <div className="bg-white rounded-lg shadow mb-6 p-6 border border-gray-200">
       <h2 className="text-xl font-semibold mb-4">Import Pricing from CSV</h2>
-      
+
       <p className="text-gray-600 mb-4">
-        Upload a CSV file with Twilio pricing data. The file should include columns for country name, 
+        Upload a CSV file with Twilio pricing data. The file should include columns for country name,
         country code, and price. All prices should be in USD.
       </p>
-      
+
       <div className="mb-4">
         <h3 className="font-medium mb-2">Instructions:</h3>
         <ol className="list-decimal ml-5 text-gray-600">
           <li>Download the International Termination Rate Sheet CSV from the Twilio Console</li>
-          <li>Ensure the CSV has columns for country name, country code, and price</li>
-          <li>Upload the file below</li>
+          <li>Ensure the CSV has columns for country name, country code, and the Twilio base price (<code>Price / min</code>)</li>
+          <li>Preview the changes, review the diff, then commit the import</li>
+          <li>To apply a rate change Twilio has announced in advance, set an effective date before committing</li>
         </ol>
       </div>
-      
+
       <div className="flex flex-wrap items-center gap-4 mb-4">
         <label className="inline-block">
           <span className="bg-blue-100 text-blue-700 px-4 py-2 rounded cursor-pointer hover:bg-blue-200 transition flex items-center gap-2">
@@ -109,23 +164,23 @@ export default function CSVImportSection() {
             onChange={handleFileChange}
           />
         </label>
-        
+
         {file && (
           <span className="text-sm text-gray-600">
             Selected file: <span className="font-medium">{file.name}</span>
           </span>
         )}
-        
+
         <button
-          onClick={handleUpload}
+          onClick={handlePreview}
           disabled={!file || isLoading}
           className={`px-4 py-2 rounded ${
-            !file || isLoading 
-              ? 'bg-gray-300 text-gray-500 cursor-not-allowed' 
+            !file || isLoading
+              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
               : 'bg-blue-600 text-white hover:bg-blue-700'
           } transition flex items-center gap-2`}
         >
-          {isLoading ? (
+          {isLoading && !preview ? (
             <>
               <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -134,11 +189,11 @@ export default function CSVImportSection() {
               Processing...
             </>
           ) : (
-            'Upload and Import'
+            'Preview Changes'
           )}
         </button>
       </div>
-      
+
       {error && (
         <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-4">
           <div className="flex">
@@ -153,7 +208,80 @@ export default function CSVImportSection() {
           </div>
         </div>
       )}
-      
+
+      {preview && (
+        <div className="border border-gray-200 rounded-md p-4 mb-4">
+          <h3 className="font-medium mb-3">Import Preview</h3>
+
+          <div className="flex flex-wrap gap-2 mb-4 text-xs font-semibold">
+            <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-700">{preview.count} countries</span>
+            <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-700">{preview.prefixCount} prefixes</span>
+            <span className="px-2 py-1 rounded-full bg-green-100 text-green-800">{preview.diff.added.length} added</span>
+            <span className="px-2 py-1 rounded-full bg-gray-200 text-gray-800">{preview.diff.removed.length} removed</span>
+            <span className="px-2 py-1 rounded-full bg-red-100 text-red-800">{preview.diff.increased.length} increased</span>
+            <span className="px-2 py-1 rounded-full bg-blue-100 text-blue-800">{preview.diff.decreased.length} decreased</span>
+            <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-700">{preview.diff.unchangedCount} unchanged</span>
+            {preview.errorCount > 0 && (
+              <span className="px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">{preview.errorCount} parse errors</span>
+            )}
+          </div>
+
+          <PriceDiffTable title="Price increases" entries={preview.diff.increased} colorClass="text-red-600" />
+          <PriceDiffTable title="Price decreases" entries={preview.diff.decreased} colorClass="text-blue-600" />
+          <PriceDiffTable title="New countries" entries={preview.diff.added} colorClass="text-green-600" />
+          <PriceDiffTable title="Countries removed (not in file)" entries={preview.diff.removed} colorClass="text-gray-600" />
+
+          {preview.parseErrors.length > 0 && (
+            <div className="mb-4">
+              <h4 className="text-sm font-medium mb-2 text-yellow-700">Parse errors ({preview.parseErrors.length})</h4>
+              <ul className="max-h-40 overflow-y-auto text-sm text-gray-600 border border-gray-200 rounded-md p-2 space-y-1">
+                {preview.parseErrors.map(parseError => (
+                  <li key={parseError.line}>
+                    <span className="font-mono text-gray-500">Line {parseError.line}:</span> {parseError.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {changedCount === 0 && (
+            <p className="text-sm text-gray-500 mb-4">No country prices change with this file.</p>
+          )}
+
+          <label className="block text-sm text-gray-700 mb-4">
+            Effective at (optional)
+            <input
+              type="datetime-local"
+              value={effectiveAt}
+              onChange={(e) => setEffectiveAt(e.target.value)}
+              className="block mt-1 px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <span className="text-xs text-gray-500">Leave empty to make the new prices live immediately.</span>
+          </label>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleCommit}
+              disabled={isLoading}
+              className={`px-4 py-2 rounded ${
+                isLoading ? 'bg-gray-300 text-gray-500 cursor-not-allowed' : 'bg-green-600 text-white hover:bg-green-700'
+              } transition`}
+            >
+              {isLoading
+                ? 'Importing...'
+                : `${effectiveAt ? 'Schedule' : 'Commit'} Import (${preview.count} countries)`}
+            </button>
+            <button
+              onClick={() => setPreview(null)}
+              disabled={isLoading}
+              className="px-4 py-2 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {result && (
         <div className={`${
           result.success ? 'bg-green-50 border-green-500' : 'bg-yellow-50 border-yellow-500'
@@ -185,4 +313,4 @@ export default function CSVImportSection() {
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
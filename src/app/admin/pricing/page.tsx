@@ -1,6 +1,12 @@
 import PricingDashboard from '@/components/admin/PricingDashboard';
+import MarkupSettings from '@/components/admin/MarkupSettings';
+import PricingPlansManager from '@/components/admin/PricingPlansManager';
+import ExchangeRatesSettings from '@/components/admin/ExchangeRatesSettings';
+import PriceChangeAlerts from '@/components/admin/PriceChangeAlerts';
+import UpcomingPriceChanges from '@/components/admin/UpcomingPriceChanges';
+import PriceBookHistory from '@/components/admin/PriceBookHistory';
 import { Metadata } from 'next';
-import { CSVImport } from './components/CSVImport';
+import CSVImportContainer from './components/CSVImportContainer';
 import { TwilioPriceData } from '@/types/pricing';
 
 export const metadata: Metadata = {
@@ -17,7 +23,28 @@ export default async function PricingPage() {
       <h1 className="text-2xl font-bold text-gray-900 mb-8">Call Pricing Management</h1>
       
       {/* Add CSV Import Section */}
-      <CSVImport />
+      <CSVImportContainer />
+      
+      <div className="mb-6">
+        <MarkupSettings />
+      </div>
+      
+      <div className="mb-6">
+        <PricingPlansManager />
+      </div>
+      
+      <div className="mb-6">
+        <ExchangeRatesSettings />
+      </div>
+      
+      <div className="mb-6 grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <UpcomingPriceChanges />
+        <PriceChangeAlerts />
+      </div>
+      
+      <div className="mb-6">
+        <PriceBookHistory />
+      </div>
       
       <PricingDashboard pricingData={emptyPricingData} />
     </div>
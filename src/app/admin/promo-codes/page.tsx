@@ -0,0 +1,309 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/context/AuthContext';
+import { PromoCode, PromoCodeType, PROMO_CODE_TYPE_LABELS } from '@/types/promo';
+
+// Promo code as returned by the API (dates serialized as ISO strings)
+type PromoCodeData = Omit<PromoCode, 'expiresAt' | 'createdAt'> & {
+  expiresAt: string | null;
+  createdAt: string;
+};
+
+interface PromoCodeForm {
+  code: string;
+  type: PromoCodeType;
+  value: string;
+  maxRedemptions: string; // Empty for unlimited
+  perUserLimit: string;
+  expiresAt: string;      // yyyy-MM-dd, empty for no expiry
+  newUsersOnly: boolean;
+}
+
+const EMPTY_FORM: PromoCodeForm = {
+  code: '',
+  type: 'fixed_credit',
+  value: '',
+  maxRedemptions: '',
+  perUserLimit: '1',
+  expiresAt: '',
+  newUsersOnly: false,
+};
+
+export default function PromoCodesPage() {
+  const { user } = useAuth();
+  const [promoCodes, setPromoCodes] = useState<PromoCodeData[]>([]);
+  const [form, setForm] = useState<PromoCodeForm>(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [updatingCode, setUpdatingCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const callApi = useCallback(async (path: string, init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data;
+  }, [user]);
+
+  const loadPromoCodes = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callApi('/api/admin/promo-codes');
+      setPromoCodes(data.promoCodes);
+    } catch (err) {
+      console.error('[Promo Codes Page] Error loading promo codes:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [callApi]);
+
+  useEffect(() => {
+    loadPromoCodes();
+  }, [loadPromoCodes]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setError(null);
+      await callApi('/api/admin/promo-codes', {
+        method: 'POST',
+        body: JSON.stringify({
+          code: form.code,
+          type: form.type,
+          value: parseFloat(form.value),
+          maxRedemptions: form.maxRedemptions ? parseInt(form.maxRedemptions, 10) : null,
+          perUserLimit: parseInt(form.perUserLimit, 10),
+          // Codes stay valid until the end of the chosen day (UTC)
+          expiresAt: form.expiresAt ? `${form.expiresAt}T23:59:59.999Z` : null,
+          newUsersOnly: form.newUsersOnly,
+        }),
+      });
+      setForm(EMPTY_FORM);
+      await loadPromoCodes();
+    } catch (err) {
+      console.error('[Promo Codes Page] Error creating promo code:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (promoCode: PromoCodeData) => {
+    try {
+      setUpdatingCode(promoCode.code);
+      setError(null);
+      await callApi('/api/admin/promo-codes', {
+        method: 'PATCH',
+        body: JSON.stringify({ code: promoCode.code, active: !promoCode.active }),
+      });
+      await loadPromoCodes();
+    } catch (err) {
+      console.error('[Promo Codes Page] Error updating promo code:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setUpdatingCode(null);
+    }
+  };
+
+  const formatValue = (promoCode: Pick<PromoCodeData, 'type' | 'value'>) =>
+    promoCode.type === 'fixed_credit' ? `$${promoCode.value.toFixed(2)}` : `${promoCode.value}% bonus`;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Promo Codes</h1>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-4" role="alert">
+          <strong className="font-bold">Error: </strong>
+          <span className="block sm:inline">{error}</span>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg mb-6">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">New Code</h2>
+          <p className="text-sm text-gray-500">
+            Fixed credits are added as soon as a user redeems them. Top-up bonuses add a percentage of the next top-up paid with the code.
+          </p>
+        </div>
+        <form onSubmit={handleCreate} className="px-6 py-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+            <input
+              type="text"
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+              placeholder="WELCOME5"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as PromoCodeType })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {Object.entries(PROMO_CODE_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {form.type === 'fixed_credit' ? 'Credit (USD)' : 'Bonus (%)'}
+            </label>
+            <input
+              type="number"
+              min="0"
+              step={form.type === 'fixed_credit' ? '0.01' : '1'}
+              value={form.value}
+              onChange={(e) => setForm({ ...form, value: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max Redemptions</label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={form.maxRedemptions}
+              onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+              placeholder="Unlimited"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Uses per User</label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={form.perUserLimit}
+              onChange={(e) => setForm({ ...form, perUserLimit: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+            <input
+              type="date"
+              value={form.expiresAt}
+              onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div className="md:col-span-2 flex items-center">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.newUsersOnly}
+                onChange={(e) => setForm({ ...form, newUsersOnly: e.target.checked })}
+                className="mr-2"
+              />
+              New users only (hasn&apos;t topped up before)
+            </label>
+          </div>
+          <div className="flex justify-end items-end">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              {isSaving ? 'Creating...' : 'Create Code'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">All Codes</h2>
+        </div>
+        <div className="px-6 py-4">
+          {isLoading ? (
+            <div className="text-center py-10">
+              <div className="loading loading-spinner loading-lg text-blue-500"></div>
+              <p className="mt-2">Loading promo codes...</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Redeemed</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Limits</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {promoCodes.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-center">No promo codes yet.</td>
+                    </tr>
+                  ) : (
+                    promoCodes.map((promoCode) => (
+                      <tr key={promoCode.code} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium font-mono text-gray-900">
+                          {promoCode.code}
+                          <div className="text-xs text-gray-400 font-sans">{PROMO_CODE_TYPE_LABELS[promoCode.type]}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatValue(promoCode)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {promoCode.redemptionCount}{promoCode.maxRedemptions !== null && ` / ${promoCode.maxRedemptions}`}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {promoCode.perUserLimit} per user
+                          {promoCode.newUsersOnly && <div className="text-xs text-gray-400">New users only</div>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {promoCode.expiresAt ? format(new Date(promoCode.expiresAt), 'yyyy-MM-dd') : 'Never'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <span className={promoCode.active ? 'text-green-600' : 'text-gray-400'}>
+                            {promoCode.active ? 'Active' : 'Inactive'}
+                          </span>
+                          <button
+                            onClick={() => handleToggleActive(promoCode)}
+                            disabled={updatingCode !== null}
+                            className="ml-3 text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                          >
+                            {updatingCode === promoCode.code ? 'Saving...' : (promoCode.active ? 'Deactivate' : 'Activate')}
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
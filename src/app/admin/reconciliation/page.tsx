@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/context/AuthContext';
+import { BalanceDrift } from '@/types/ledger';
+
+// Report as returned by the API (dates serialized as ISO strings)
+interface ReportData {
+  id: string;
+  runAt: string;
+  triggeredBy: string;
+  usersChecked: number;
+  tolerance: number;
+  drifts: (Omit<BalanceDrift, 'correctedAt'> & { correctedAt?: string })[];
+  completedAt: string | null;
+}
+
+export default function ReconciliationPage() {
+  const { user } = useAuth();
+  const [report, setReport] = useState<ReportData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [correctingUserId, setCorrectingUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const callApi = useCallback(async (path: string, init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data;
+  }, [user]);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callApi('/api/admin/reconciliation');
+      setReport(data.report);
+    } catch (err) {
+      console.error('[Reconciliation Page] Error loading report:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [callApi]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleRunNow = async () => {
+    try {
+      setIsRunning(true);
+      setError(null);
+      const data = await callApi('/api/admin/reconciliation', { method: 'POST' });
+      setReport(data.report);
+    } catch (err) {
+      console.error('[Reconciliation Page] Error running reconciliation:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleCorrect = async (drift: ReportData['drifts'][number]) => {
+    if (!report) return;
+    if (!window.confirm(`Record a ${drift.drift.toFixed(4)} USD adjustment so ${drift.email || drift.userId}'s transaction history matches their balance?`)) {
+      return;
+    }
+
+    try {
+      setCorrectingUserId(drift.userId);
+      setError(null);
+      await callApi('/api/admin/reconciliation/correct', {
+        method: 'POST',
+        body: JSON.stringify({ reportId: report.id, targetUserId: drift.userId }),
+      });
+      await loadReport();
+    } catch (err) {
+      console.error('[Reconciliation Page] Error correcting drift:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setCorrectingUserId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Balance Reconciliation</h1>
+
+      <div className="bg-white shadow-md rounded-lg mb-6">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">Drift Report</h2>
+            {report && (
+              <p className="text-sm text-gray-500">
+                Last run {format(new Date(report.runAt), 'yyyy-MM-dd HH:mm')} by {report.triggeredBy === 'cron' ? 'the nightly job' : report.triggeredBy}.
+                {report.completedAt
+                  ? ` Checked ${report.usersChecked} users;`
+                  : ` In progress: ${report.usersChecked} users checked so far;`}
+                {' '}differences under ${report.tolerance.toFixed(2)} are ignored.
+              </p>
+            )}
+          </div>
+          <button
+            onClick={handleRunNow}
+            disabled={isRunning || isLoading}
+            className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+          >
+            {isRunning ? 'Running...' : report && !report.completedAt ? 'Continue Run' : 'Run Now'}
+          </button>
+        </div>
+        <div className="px-6 py-4">
+          {isLoading && (
+            <div className="text-center py-10">
+              <div className="loading loading-spinner loading-lg text-blue-500"></div>
+              <p className="mt-2">Loading report...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-4" role="alert">
+              <strong className="font-bold">Error: </strong>
+              <span className="block sm:inline">{error}</span>
+            </div>
+          )}
+
+          {!isLoading && !report && !error && (
+            <p className="text-center py-10 text-gray-500">No reconciliation has run yet.</p>
+          )}
+
+          {!isLoading && report && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stored Balance</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ledger Balance</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Drift</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {report.drifts.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-center">All balances match their transaction history.</td>
+                    </tr>
+                  ) : (
+                    report.drifts.map((drift) => (
+                      <tr key={drift.userId} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {drift.email || 'No email'}
+                          <div className="text-xs text-gray-400 font-mono">{drift.userId}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">${drift.storedBalance.toFixed(4)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">${drift.ledgerBalance.toFixed(4)}</td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold ${drift.drift > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {drift.drift > 0 ? '+' : ''}{drift.drift.toFixed(4)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {drift.correctedAt ? (
+                            <span className="text-gray-500">Corrected {format(new Date(drift.correctedAt), 'yyyy-MM-dd HH:mm')}</span>
+                          ) : (
+                            <button
+                              onClick={() => handleCorrect(drift)}
+                              disabled={correctingUserId !== null}
+                              className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                            >
+                              {correctingUserId === drift.userId ? 'Recording...' : 'Record Adjustment'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
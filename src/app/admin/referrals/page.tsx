@@ -0,0 +1,251 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/context/AuthContext';
+import {
+  DEFAULT_REFERRAL_SETTINGS,
+  Referral,
+  ReferralSettings,
+  REFERRAL_REJECTED_REASON_LABELS
+} from '@/types/referral';
+
+// Referral as returned by the API (dates serialized as ISO strings)
+type ReferralData = Omit<Referral, 'createdAt' | 'settledAt' | 'reversedAt'> & {
+  createdAt: string;
+  settledAt: string | null;
+  reversedAt: string | null;
+  referrerEmail: string | null;
+  refereeEmail: string | null;
+};
+
+export default function ReferralsPage() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<ReferralSettings>(DEFAULT_REFERRAL_SETTINGS);
+  const [referrals, setReferrals] = useState<ReferralData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const callApi = useCallback(async (path: string, init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data;
+  }, [user]);
+
+  const loadReferrals = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callApi('/api/admin/referrals');
+      setSettings(data.settings);
+      setReferrals(data.referrals);
+    } catch (err) {
+      console.error('[Referrals Page] Error loading referrals:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [callApi]);
+
+  useEffect(() => {
+    loadReferrals();
+  }, [loadReferrals]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setError(null);
+      setSavedMessage(null);
+      await callApi('/api/admin/referrals', {
+        method: 'PUT',
+        body: JSON.stringify(settings),
+      });
+      setSavedMessage('Settings saved.');
+    } catch (err) {
+      console.error('[Referrals Page] Error saving settings:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const rewarded = referrals.filter(referral => referral.status === 'rewarded');
+  const totalPaidOut = rewarded.reduce((sum, referral) => sum + referral.referrerReward + referral.refereeReward, 0);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Referrals</h1>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-4" role="alert">
+          <strong className="font-bold">Error: </strong>
+          <span className="block sm:inline">{error}</span>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg mb-6">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">Program Settings</h2>
+          <p className="text-sm text-gray-500">
+            Both users are credited when the new user&apos;s first paid top-up clears, unless they paid with a card the referrer has used.
+          </p>
+        </div>
+        <form onSubmit={handleSave} className="px-6 py-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="flex items-center">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+                disabled={isLoading}
+                className="mr-2"
+              />
+              Program enabled
+            </label>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Referrer Reward (USD)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={settings.referrerReward}
+              onChange={(e) => setSettings({ ...settings, referrerReward: parseFloat(e.target.value) || 0 })}
+              disabled={isLoading}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">New User Reward (USD)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={settings.refereeReward}
+              onChange={(e) => setSettings({ ...settings, refereeReward: parseFloat(e.target.value) || 0 })}
+              disabled={isLoading}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max Rewards per Referrer</label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={settings.maxRewardsPerReferrer}
+              onChange={(e) => setSettings({ ...settings, maxRewardsPerReferrer: parseInt(e.target.value, 10) || 1 })}
+              disabled={isLoading}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div className="md:col-span-4 flex justify-end items-center gap-3">
+            {savedMessage && <span className="text-sm text-green-600">{savedMessage}</span>}
+            <button
+              type="submit"
+              disabled={isSaving || isLoading}
+              className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              {isSaving ? 'Saving...' : 'Save Settings'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">Payout Report</h2>
+          {!isLoading && (
+            <p className="text-sm text-gray-500">
+              {referrals.length} referrals, {rewarded.length} rewarded, ${totalPaidOut.toFixed(2)} paid out.
+            </p>
+          )}
+        </div>
+        <div className="px-6 py-4">
+          {isLoading ? (
+            <div className="text-center py-10">
+              <div className="loading loading-spinner loading-lg text-blue-500"></div>
+              <p className="mt-2">Loading referrals...</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Referrer</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">New User</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Signed Up</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Paid Out</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {referrals.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-center">No referrals yet.</td>
+                    </tr>
+                  ) : (
+                    referrals.map((referral) => (
+                      <tr key={referral.refereeId} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {referral.referrerEmail || 'No email'}
+                          <div className="text-xs text-gray-400 font-mono">{referral.code}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {referral.refereeEmail || 'No email'}
+                          <div className="text-xs text-gray-400 font-mono">{referral.refereeId}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {format(new Date(referral.createdAt), 'yyyy-MM-dd HH:mm')}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {referral.status === 'rewarded' && <span className="text-green-600">Rewarded</span>}
+                          {referral.status === 'pending' && <span className="text-gray-500">Waiting for top-up</span>}
+                          {referral.status === 'reversed' && (
+                            <span className="text-red-600">
+                              Reversed
+                              <span className="block text-xs">Top-up refunded or disputed</span>
+                            </span>
+                          )}
+                          {referral.status === 'rejected' && (
+                            <span className="text-red-600">
+                              Rejected
+                              {referral.rejectedReason && (
+                                <span className="block text-xs">{REFERRAL_REJECTED_REASON_LABELS[referral.rejectedReason]}</span>
+                              )}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {referral.status === 'rewarded'
+                            ? `$${referral.referrerReward.toFixed(2)} + $${referral.refereeReward.toFixed(2)}`
+                            : '—'}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { TaxRate } from '@/types/tax';
+
+const EMPTY_RATE: TaxRate = { country: '', name: 'VAT', rate: 0, reverseCharge: false };
+
+export default function TaxRatesPage() {
+  const { user } = useAuth();
+  const [rates, setRates] = useState<TaxRate[]>([]);
+  const [newRate, setNewRate] = useState<TaxRate>(EMPTY_RATE);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const callApi = useCallback(async (path: string, init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data;
+  }, [user]);
+
+  const loadRates = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callApi('/api/admin/tax-rates');
+      setRates(data.rates);
+    } catch (err) {
+      console.error('[Tax Rates Page] Error loading rates:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [callApi]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  // Every change saves the whole list, so the API validates it as one
+  const saveRates = async (updatedRates: TaxRate[], message: string) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      setSavedMessage(null);
+      await callApi('/api/admin/tax-rates', {
+        method: 'PUT',
+        body: JSON.stringify({ rates: updatedRates }),
+      });
+      setSavedMessage(message);
+      await loadRates();
+      return true;
+    } catch (err) {
+      console.error('[Tax Rates Page] Error saving rates:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const country = newRate.country.trim().toUpperCase();
+    const updatedRates = [...rates.filter(rate => rate.country !== country), { ...newRate, country }];
+    if (await saveRates(updatedRates, `${country} saved.`)) {
+      setNewRate(EMPTY_RATE);
+    }
+  };
+
+  const handleRemove = (country: string) => {
+    if (!confirm(`Stop charging tax to customers in ${country}?`)) {
+      return;
+    }
+    saveRates(rates.filter(rate => rate.country !== country), `${country} removed.`);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Tax Rates</h1>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-4" role="alert">
+          <strong className="font-bold">Error: </strong>
+          <span className="block sm:inline">{error}</span>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg mb-6">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">Add or Update a Rate</h2>
+          <p className="text-sm text-gray-500">
+            Tax is added on top of top-ups from customers whose billing country has a rate. Saving a country that already has a rate replaces it.
+          </p>
+        </div>
+        <form onSubmit={handleAdd} className="px-6 py-4 grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Country Code</label>
+            <input
+              type="text"
+              maxLength={2}
+              value={newRate.country}
+              onChange={(e) => setNewRate({ ...newRate, country: e.target.value.toUpperCase() })}
+              placeholder="GB"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tax Name</label>
+            <input
+              type="text"
+              maxLength={20}
+              value={newRate.name}
+              onChange={(e) => setNewRate({ ...newRate, name: e.target.value })}
+              placeholder="VAT"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Rate (%)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={newRate.rate}
+              onChange={(e) => setNewRate({ ...newRate, rate: parseFloat(e.target.value) || 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div className="flex items-center">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={newRate.reverseCharge}
+                onChange={(e) => setNewRate({ ...newRate, reverseCharge: e.target.checked })}
+                className="mr-2"
+              />
+              Reverse charge with VAT ID
+            </label>
+          </div>
+          <div className="flex justify-end items-end gap-3">
+            <button
+              type="submit"
+              disabled={isSaving || isLoading}
+              className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              {isSaving ? 'Saving...' : 'Save Rate'}
+            </button>
+          </div>
+        </form>
+        {savedMessage && <p className="px-6 pb-4 text-sm text-green-600">{savedMessage}</p>}
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">Jurisdictions</h2>
+          <p className="text-sm text-gray-500">
+            Customers in other countries aren&apos;t charged tax. With reverse charge on, business customers who enter a VAT ID aren&apos;t charged either.
+          </p>
+        </div>
+        <div className="px-6 py-4">
+          {isLoading ? (
+            <div className="text-center py-10">
+              <div className="loading loading-spinner loading-lg text-blue-500"></div>
+              <p className="mt-2">Loading tax rates...</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Country</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tax</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reverse Charge</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {rates.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-center">No tax rates configured.</td>
+                    </tr>
+                  ) : (
+                    rates.map((rate) => (
+                      <tr key={rate.country} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 font-mono">{rate.country}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rate.name}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rate.rate}%</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{rate.reverseCharge ? 'Yes' : 'No'}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <button
+                            onClick={() => setNewRate(rate)}
+                            disabled={isSaving}
+                            className="text-blue-600 hover:text-blue-800 mr-4 disabled:opacity-50"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleRemove(rate.country)}
+                            disabled={isSaving}
+                            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
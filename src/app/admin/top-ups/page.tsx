@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { DEFAULT_TOP_UP_POLICY, TopUpPolicy } from '@/types/billing';
+
+// Number fields on the form, besides the list of offered amounts
+const LIMIT_FIELDS: { key: Exclude<keyof TopUpPolicy, 'amounts'>; label: string; help: string }[] = [
+  { key: 'minAmount', label: 'Minimum Top-Up', help: 'In the checkout currency' },
+  { key: 'maxAmount', label: 'Maximum Top-Up', help: 'In the checkout currency' },
+  { key: 'dailyLimit', label: 'Daily Limit (USD)', help: 'Per user, per UTC day' },
+  { key: 'monthlyLimit', label: 'Monthly Limit (USD)', help: 'Per user, per UTC month' },
+  { key: 'firstTopUpMaxAmount', label: 'First Top-Up Limit (USD)', help: "Caps a new user's first top-up" },
+];
+
+export default function TopUpsPage() {
+  const { user } = useAuth();
+  const [policy, setPolicy] = useState<TopUpPolicy>(DEFAULT_TOP_UP_POLICY);
+  const [amountsInput, setAmountsInput] = useState(DEFAULT_TOP_UP_POLICY.amounts.join(', '));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const callApi = useCallback(async (path: string, init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data;
+  }, [user]);
+
+  const loadPolicy = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callApi('/api/admin/top-up-policy');
+      setPolicy(data.policy);
+      setAmountsInput(data.policy.amounts.join(', '));
+    } catch (err) {
+      console.error('[Top-Ups Page] Error loading policy:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [callApi]);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setError(null);
+      setSavedMessage(null);
+      const amounts = amountsInput.split(',').map(value => parseFloat(value.trim())).filter(value => !isNaN(value));
+      await callApi('/api/admin/top-up-policy', {
+        method: 'PUT',
+        body: JSON.stringify({ ...policy, amounts }),
+      });
+      setSavedMessage('Policy saved.');
+      await loadPolicy();
+    } catch (err) {
+      console.error('[Top-Ups Page] Error saving policy:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Top-Up Limits</h1>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-4" role="alert">
+          <strong className="font-bold">Error: </strong>
+          <span className="block sm:inline">{error}</span>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">Top-Up Policy</h2>
+          <p className="text-sm text-gray-500">
+            Applied to Checkout top-ups, auto-recharges and direct credits. The Add Funds modal offers the amounts below, hiding any over the user&apos;s remaining limit.
+          </p>
+        </div>
+        <form onSubmit={handleSave} className="px-6 py-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-3">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Offered Amounts</label>
+            <input
+              type="text"
+              value={amountsInput}
+              onChange={(e) => setAmountsInput(e.target.value)}
+              disabled={isLoading}
+              placeholder="5, 10, 20, 50"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">Comma-separated, in the checkout currency. Each must be between the minimum and maximum.</p>
+          </div>
+          {LIMIT_FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={policy[field.key]}
+                onChange={(e) => setPolicy({ ...policy, [field.key]: parseFloat(e.target.value) || 0 })}
+                disabled={isLoading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">{field.help}</p>
+            </div>
+          ))}
+          <div className="md:col-span-3 flex justify-end items-center gap-3">
+            {savedMessage && <span className="text-sm text-green-600">{savedMessage}</span>}
+            <button
+              type="submit"
+              disabled={isSaving || isLoading}
+              className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              {isSaving ? 'Saving...' : 'Save Policy'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
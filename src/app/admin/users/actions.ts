@@ -1,6 +1,7 @@
 'use server';
 
 import { getAdminFirestore } from '@/lib/firebase-admin';
+import { getPricingPlans } from '@/lib/pricing/pricing-db-admin';
 
 /**
  * Fetches the total count of documents in the 'users' collection.
@@ -35,6 +36,7 @@ export interface AdminUserRecord {
   photoURL?: string | null; // Add photoURL if needed based on original API
   isAdmin: boolean;
   balance: number;
+  pricingPlanId: string | null; // null means standard rates
   lastLogin: string | null;
   createdAt: string | null;
 }
@@ -85,6 +87,7 @@ export async function getAdminUsers(limit: number = 1000): Promise<AdminUserReco
         photoURL: data.photoURL || null, // Include photoURL if it was in the original
         isAdmin: data.isAdmin || false,
         balance: typeof data.balance === 'number' ? data.balance : 0,
+        pricingPlanId: data.pricingPlanId || null,
         lastLogin: formatFirestoreTimestamp(data.lastLogin),
         createdAt: formatFirestoreTimestamp(data.createdAt),
       };
@@ -97,4 +100,18 @@ export async function getAdminUsers(limit: number = 1000): Promise<AdminUserReco
     console.error('[Admin Actions] Error fetching users list from Firestore:', error);
     return []; // Return empty array on error
   }
-} 
\ No newline at end of file
+}
+
+// Pricing plan choices for the user table
+export interface PricingPlanOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * Fetches the pricing plans that can be assigned to users.
+ */
+export async function getPricingPlanOptions(): Promise<PricingPlanOption[]> {
+  const plans = await getPricingPlans();
+  return plans.map(plan => ({ id: plan.id, name: plan.name }));
+}
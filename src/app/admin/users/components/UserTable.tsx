@@ -2,34 +2,41 @@
 
 import React, { useState } from 'react';
 import { useAuth } from '@/context/AuthContext';
-import { AdminUserRecord } from '../actions'; // Use the type from actions
+import { AdminUserRecord, PricingPlanOption } from '../actions'; // Use the types from actions
 import MobileCardView from '@/components/admin/MobileCardView';
+import { ADJUSTMENT_CATEGORY_LABELS, AdjustmentCategory } from '@/types/ledger';
 
-// State to manage which user is being edited and the new balance value
+// State to manage which user is being adjusted and the adjustment details
 interface EditState {
   userId: string | null;
   currentBalance: number;
-  inputBalance: string; // Store input as string for flexibility
+  inputAmount: string; // Signed change, stored as string for flexibility
+  category: AdjustmentCategory;
+  reason: string;
 }
 
 interface UserTableProps {
   initialUsers: AdminUserRecord[];
+  pricingPlans: PricingPlanOption[];
 }
 
-export default function UserTable({ initialUsers }: UserTableProps) {
+export default function UserTable({ initialUsers, pricingPlans }: UserTableProps) {
   const { user } = useAuth(); // Needed for auth token when updating balance
   const [users, setUsers] = useState<AdminUserRecord[]>(initialUsers);
   const [editState, setEditState] = useState<EditState | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
   const [updateError, setUpdateError] = useState<string | null>(null);
+  const [planUpdatingUserId, setPlanUpdatingUserId] = useState<string | null>(null);
 
-  // Function to initiate editing for a user
+  // Function to initiate an adjustment for a user
   const handleEditBalanceClick = (targetUser: AdminUserRecord) => {
     setUpdateError(null); // Clear previous update errors
     setEditState({
       userId: targetUser.uid,
       currentBalance: targetUser.balance,
-      inputBalance: targetUser.balance.toFixed(2), // Initialize input with current balance
+      inputAmount: '',
+      category: 'goodwill_credit',
+      reason: '',
     });
   };
 
@@ -39,25 +46,33 @@ export default function UserTable({ initialUsers }: UserTableProps) {
     setUpdateError(null);
   };
 
-  // Function to handle input change
-  const handleBalanceInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Function to handle changes to the adjustment fields
+  const handleEditStateChange = (changes: Partial<EditState>) => {
     if (editState) {
-      setEditState({ ...editState, inputBalance: e.target.value });
+      setEditState({ ...editState, ...changes });
     }
   };
 
-  // Function to save the updated balance
+  // Function to save the balance adjustment
   const handleSaveBalance = async () => {
     if (!editState || !user) return; // Check for user auth context
 
-    const { userId, inputBalance } = editState;
+    const { userId, inputAmount, currentBalance, category, reason } = editState;
     if (userId === null) return;
 
-    const newBalanceNum = parseFloat(inputBalance);
+    const amountNum = parseFloat(inputAmount);
 
     // Validate input
-    if (isNaN(newBalanceNum) || newBalanceNum < 0) {
-      setUpdateError('Invalid balance. Please enter a non-negative number.');
+    if (isNaN(amountNum) || amountNum === 0) {
+      setUpdateError('Invalid amount. Enter a positive amount to credit or a negative amount to debit.');
+      return;
+    }
+    if (currentBalance + amountNum < 0) {
+      setUpdateError('Adjustment would make the balance negative.');
+      return;
+    }
+    if (!reason.trim()) {
+      setUpdateError('Please enter a reason for the adjustment.');
       return;
     }
 
@@ -74,7 +89,9 @@ export default function UserTable({ initialUsers }: UserTableProps) {
         },
         body: JSON.stringify({
           targetUserId: userId,
-          newBalance: newBalanceNum,
+          amount: amountNum,
+          category,
+          reason: reason.trim(),
         }),
       });
 
@@ -104,6 +121,107 @@ export default function UserTable({ initialUsers }: UserTableProps) {
     }
   };
 
+  // Function to assign a pricing plan (empty value returns the user to standard rates)
+  const handlePricingPlanChange = async (targetUserId: string, pricingPlanId: string) => {
+    if (!user) return;
+
+    setPlanUpdatingUserId(targetUserId);
+    setUpdateError(null);
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch('/api/admin/users/pricing-plan', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          targetUserId,
+          pricingPlanId: pricingPlanId || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to update pricing plan: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      setUsers(currentUsers =>
+        currentUsers.map(u =>
+          u.uid === targetUserId ? { ...u, pricingPlanId: data.pricingPlanId } : u
+        )
+      );
+    } catch (err: unknown) {
+      console.error('Error updating pricing plan:', err);
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred.';
+      setUpdateError(errorMessage);
+    } finally {
+      setPlanUpdatingUserId(null);
+    }
+  };
+
+  // Pricing plan selector shared by the desktop and mobile views
+  const renderPricingPlanSelect = (u: AdminUserRecord) => (
+    <select
+      value={u.pricingPlanId ?? ''}
+      onChange={(e) => handlePricingPlanChange(u.uid, e.target.value)}
+      disabled={planUpdatingUserId === u.uid}
+      className="px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm disabled:opacity-50"
+    >
+      <option value="">Standard</option>
+      {pricingPlans.map(plan => (
+        <option key={plan.id} value={plan.id}>{plan.name}</option>
+      ))}
+      {/* Keep a deleted plan visible so the assignment isn't silently hidden */}
+      {u.pricingPlanId && !pricingPlans.some(plan => plan.id === u.pricingPlanId) && (
+        <option value={u.pricingPlanId}>{u.pricingPlanId} (deleted)</option>
+      )}
+    </select>
+  );
+
+  // Adjustment fields shared by the desktop and mobile views
+  const renderAdjustmentEditor = (state: EditState) => {
+    const amountNum = parseFloat(state.inputAmount);
+    return (
+      <div className="flex flex-col space-y-1">
+        <input 
+          type="number"
+          value={state.inputAmount}
+          onChange={(e) => handleEditStateChange({ inputAmount: e.target.value })}
+          onKeyDown={(e) => e.key === 'Enter' && handleSaveBalance()}
+          placeholder="+5.00 or -2.50"
+          className="w-32 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+          step="0.01"
+          autoFocus
+        />
+        <select
+          value={state.category}
+          onChange={(e) => handleEditStateChange({ category: e.target.value as AdjustmentCategory })}
+          className="w-32 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+        >
+          {(Object.keys(ADJUSTMENT_CATEGORY_LABELS) as AdjustmentCategory[]).map(category => (
+            <option key={category} value={category}>{ADJUSTMENT_CATEGORY_LABELS[category]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={state.reason}
+          onChange={(e) => handleEditStateChange({ reason: e.target.value })}
+          onKeyDown={(e) => e.key === 'Enter' && handleSaveBalance()}
+          placeholder="Reason (shown to the user)"
+          className="w-48 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+        />
+        <span className="text-xs text-gray-400">
+          ${state.currentBalance.toFixed(2)}
+          {!isNaN(amountNum) && amountNum !== 0 && ` → $${(state.currentBalance + amountNum).toFixed(2)}`}
+        </span>
+      </div>
+    );
+  };
+
   // Helper to format date strings
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'N/A';
@@ -123,20 +241,12 @@ export default function UserTable({ initialUsers }: UserTableProps) {
       { 
         label: 'Balance', 
         value: editState?.userId === u.uid ? (
-          <input 
-            type="number"
-            value={editState.inputBalance}
-            onChange={handleBalanceInputChange}
-            onKeyDown={(e) => e.key === 'Enter' && handleSaveBalance()}
-            className="w-24 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm"
-            step="0.01"
-            min="0"
-            autoFocus
-          />
+          renderAdjustmentEditor(editState)
         ) : (
           `$${u.balance.toFixed(2)}`
         )
       },
+      { label: 'Pricing Plan', value: renderPricingPlanSelect(u) },
       { label: 'Admin', value: u.isAdmin ? 'Yes' : 'No' },
       { label: 'Last Login', value: formatDate(u.lastLogin) },
     ],
@@ -162,7 +272,7 @@ export default function UserTable({ initialUsers }: UserTableProps) {
         onClick={() => handleEditBalanceClick(u)}
         className="text-indigo-600 hover:text-indigo-900 px-3 py-1 text-sm border border-indigo-200 rounded hover:bg-indigo-50"
       >
-        Edit Balance
+        Adjust Balance
       </button>
     )
   }));
@@ -185,6 +295,7 @@ export default function UserTable({ initialUsers }: UserTableProps) {
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pricing Plan</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Admin</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Login</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
@@ -193,7 +304,7 @@ export default function UserTable({ initialUsers }: UserTableProps) {
           <tbody className="bg-white divide-y divide-gray-200">
             {users.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-center">No users found.</td>
+                <td colSpan={7} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-center">No users found.</td>
               </tr>
             ) : (
               users.map((u) => (
@@ -202,20 +313,12 @@ export default function UserTable({ initialUsers }: UserTableProps) {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{u.displayName}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {editState?.userId === u.uid ? (
-                      <input 
-                        type="number"
-                        value={editState.inputBalance}
-                        onChange={handleBalanceInputChange}
-                        onKeyDown={(e) => e.key === 'Enter' && handleSaveBalance()}
-                        className="w-20 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                        step="0.01"
-                        min="0"
-                        autoFocus
-                      />
+                      renderAdjustmentEditor(editState)
                     ) : (
                       `$${u.balance.toFixed(2)}`
                     )}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{renderPricingPlanSelect(u)}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{u.isAdmin ? 'Yes' : 'No'}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(u.lastLogin)}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
@@ -241,7 +344,7 @@ export default function UserTable({ initialUsers }: UserTableProps) {
                         onClick={() => handleEditBalanceClick(u)}
                         className="text-indigo-600 hover:text-indigo-900"
                       >
-                        Edit Balance
+                        Adjust Balance
                       </button>
                     )}
                   </td>
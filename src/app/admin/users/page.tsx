@@ -2,7 +2,7 @@ import React from 'react';
 import AdminAccessOnly from '@/components/admin/AdminAccessOnly';
 import TotalUsersWidget from '@/components/admin/TotalUsersWidget'; // Import the new widget
 import UserTable from './components/UserTable'; // Import the new client component
-import { getAdminUsers, getTotalUsers, AdminUserRecord } from './actions'; // Import server actions and type
+import { getAdminUsers, getTotalUsers, getPricingPlanOptions, AdminUserRecord, PricingPlanOption } from './actions'; // Import server actions and type
 
 // Static metadata can be used in Server Components
 import { Metadata } from 'next';
@@ -15,14 +15,16 @@ export const dynamic = 'force-dynamic';
 
 export default async function UserManagementPage() {
   let users: AdminUserRecord[] = [];
+  let pricingPlans: PricingPlanOption[] = [];
   let error: string | null = null;
 
   // Fetch data on the server
   try {
-    // Use Promise.all but only destructure the first element
-    [users] = await Promise.all([
+    // Use Promise.all but skip the total count (the widget loads its own)
+    [users, , pricingPlans] = await Promise.all([
       getAdminUsers(), // Consider adding pagination/limits later
-      getTotalUsers()
+      getTotalUsers(),
+      getPricingPlanOptions()
     ]);
   } catch (err) {
     console.error('Failed to fetch user data on server:', err);
@@ -52,7 +54,7 @@ export default async function UserManagementPage() {
         )}
 
         {/* Render the Client Component Table, passing initial data */} 
-        {!error && <UserTable initialUsers={users} />}
+        {!error && <UserTable initialUsers={users} pricingPlans={pricingPlans} />}
 
       </div>
     </AdminAccessOnly>
@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/context/AuthContext';
+import { DEFAULT_VIRTUAL_NUMBER_SETTINGS, VirtualNumberSettings } from '@/types/virtual-number';
+
+// Rental as returned by the API (dates serialized as ISO strings)
+interface RentalData {
+  number: string;
+  userId: string;
+  monthlyFee: number;
+  rentedAt: string;
+  renewsAt: string;
+}
+
+export default function VirtualNumbersPage() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<VirtualNumberSettings>(DEFAULT_VIRTUAL_NUMBER_SETTINGS);
+  const [rentals, setRentals] = useState<RentalData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const callApi = useCallback(async (path: string, init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data;
+  }, [user]);
+
+  const loadVirtualNumbers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callApi('/api/admin/virtual-numbers');
+      setSettings(data.settings);
+      setRentals(data.rentals);
+    } catch (err) {
+      console.error('[Virtual Numbers Page] Error loading virtual numbers:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [callApi]);
+
+  useEffect(() => {
+    loadVirtualNumbers();
+  }, [loadVirtualNumbers]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setError(null);
+      setSavedMessage(null);
+      await callApi('/api/admin/virtual-numbers', {
+        method: 'PUT',
+        body: JSON.stringify({
+          enabled: settings.enabled,
+          monthlyFee: settings.monthlyFee,
+          inboundRatePerMinute: settings.inboundRatePerMinute
+        }),
+      });
+      setSavedMessage('Settings saved.');
+      await loadVirtualNumbers();
+    } catch (err) {
+      console.error('[Virtual Numbers Page] Error saving settings:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Virtual Numbers</h1>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-4" role="alert">
+          <strong className="font-bold">Error: </strong>
+          <span className="block sm:inline">{error}</span>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg mb-6">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">Rental Settings</h2>
+          <p className="text-sm text-gray-500">
+            Users rent unused pool numbers and receive calls to them in the browser. A new monthly fee applies from each rental&apos;s next renewal.
+          </p>
+        </div>
+        <form onSubmit={handleSave} className="px-6 py-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Monthly Fee (USD)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={settings.monthlyFee}
+              onChange={(e) => setSettings({ ...settings, monthlyFee: parseFloat(e.target.value) || 0 })}
+              disabled={isLoading}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">Charged from the balance when rented and on each renewal</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Inbound Rate (USD/min)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.0001"
+              value={settings.inboundRatePerMinute}
+              onChange={(e) => setSettings({ ...settings, inboundRatePerMinute: parseFloat(e.target.value) || 0 })}
+              disabled={isLoading}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">Per started minute of answered calls</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">New Rentals</label>
+            <label className="inline-flex items-center text-sm text-gray-700 mt-2">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+                disabled={isLoading}
+                className="mr-2"
+              />
+              Users can rent numbers
+            </label>
+            <p className="mt-1 text-xs text-gray-500">Existing rentals keep renewing either way</p>
+          </div>
+          <div className="md:col-span-3 flex justify-end items-center gap-3">
+            {savedMessage && <span className="text-sm text-green-600">{savedMessage}</span>}
+            <button
+              type="submit"
+              disabled={isSaving || isLoading}
+              className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              {isSaving ? 'Saving...' : 'Save Settings'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">Rented Numbers</h2>
+          {!isLoading && (
+            <p className="text-sm text-gray-500">{rentals.length} rented, soonest renewal first.</p>
+          )}
+        </div>
+        <div className="px-6 py-4">
+          {isLoading ? (
+            <div className="text-center py-10">
+              <div className="loading loading-spinner loading-lg text-blue-500"></div>
+              <p className="mt-2">Loading rentals...</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Number</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rented</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Renews</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Monthly Fee</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {rentals.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-center">No numbers rented yet.</td>
+                    </tr>
+                  ) : (
+                    rentals.map((rental) => (
+                      <tr key={rental.number} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 font-mono">{rental.number}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono">{rental.userId}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {format(new Date(rental.rentedAt), 'yyyy-MM-dd')}
+                        </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm ${new Date(rental.renewsAt) < new Date() ? 'text-red-600' : 'text-gray-500'}`}>
+                          {format(new Date(rental.renewsAt), 'yyyy-MM-dd HH:mm')}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">${rental.monthlyFee.toFixed(2)}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { updateCountryPrice } from '@/lib/pricing/pricing-db-admin';
+import { getCountryPricing } from '@/lib/pricing/pricing-db-client';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+/**
+ * POST handler to change a country's billing increments and connection fee
+ * Body: { countryCode, initialIncrement, subsequentIncrement, connectionFee }
+ * Saved as a new price book so the change shows in the price book history.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/billing-settings] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/billing-settings] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+    
+    const body = await request.json();
+    const { countryCode, initialIncrement, subsequentIncrement, connectionFee } = body;
+    
+    if (typeof countryCode !== 'string' || !countryCode) {
+      return NextResponse.json({ error: 'countryCode is required' }, { status: 400 });
+    }
+    
+    if (!Number.isInteger(initialIncrement) || initialIncrement < 1 ||
+        !Number.isInteger(subsequentIncrement) || subsequentIncrement < 1) {
+      return NextResponse.json(
+        { error: 'Increments must be whole numbers of seconds, at least 1' },
+        { status: 400 }
+      );
+    }
+    
+    if (typeof connectionFee !== 'number' || isNaN(connectionFee) || connectionFee < 0) {
+      return NextResponse.json({ error: 'connectionFee must be a non-negative number' }, { status: 400 });
+    }
+    
+    const pricingCache = await getCountryPricing();
+    const currentPriceData = pricingCache?.data?.[countryCode];
+    
+    if (!currentPriceData) {
+      return NextResponse.json({ error: `No pricing found for ${countryCode}` }, { status: 404 });
+    }
+    
+    const updatedBy = decodedToken.email ?? requesterUid;
+    const success = await updateCountryPrice(
+      countryCode,
+      { ...currentPriceData, initialIncrement, subsequentIncrement, connectionFee },
+      updatedBy
+    );
+    
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to save billing settings' }, { status: 500 });
+    }
+    
+    console.log(`[API /admin/pricing/billing-settings] ${countryCode} now billed ${initialIncrement}/${subsequentIncrement} with connection fee ${connectionFee}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving billing settings:', error);
+    return NextResponse.json({ error: 'Failed to save billing settings' }, { status: 500 });
+  }
+}
@@ -1,33 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { CountryPricingCache, TwilioPriceData } from '@/types/pricing';
-import { saveCountryPricing } from '@/lib/pricing/pricing-db-admin';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { activatePriceBook, createPriceBook, schedulePriceBook } from '@/lib/pricing/pricing-db-admin';
+import { getCountryPricing } from '@/lib/pricing/pricing-db-client';
+import { carryOverBillingSettings, hashPricingBaseline, parsePricingCSV } from '@/lib/pricing/csv-import';
+import { computePriceDiff } from '@/lib/pricing/price-diff';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
 
 /**
  * POST handler for importing pricing data from a Twilio CSV file
  * This is a more accurate method than fetching from the Twilio API directly
+ *
+ * Form fields:
+ * - csvFile: the Twilio CSV export
+ * - mode: "preview" (default) returns a diff against current prices and the baselineHash of those prices;
+ *   "commit" saves them as a new price book and makes it active
+ * - baselineHash (commit only): from the preview; the commit is refused with 409 if live pricing has changed since
+ * - effectiveAt (optional, commit only): ISO date; the price book is scheduled to take effect
+ *   then instead of being activated immediately
  */
 export async function POST(request: NextRequest) {
   try {
-    // Basic authentication check
-    const authHeader = request.headers.get('Authorization');
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' }, 
-        { status: 401 }
-      );
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
     }
+    const idToken = authorization.split('Bearer ')[1];
     
-    const token = authHeader.split(' ')[1];
-    
-    // Check against environment variable
-    const adminSecret = process.env.ADMIN_API_SECRET;
-    
-    if (!adminSecret || token !== adminSecret) {
-      return NextResponse.json(
-        { error: 'Invalid token' }, 
-        { status: 401 }
-      );
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/csv-import] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/csv-import] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
     }
     
     // Get the CSV data from the request
@@ -41,166 +55,146 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Read the CSV file
-    const csvText = await csvFile.text();
-    const lines = csvText.split('\n');
+    // "preview" (default) only returns a diff; "commit" writes the prices
+    const mode = formData.get('mode') === 'commit' ? 'commit' : 'preview';
+    
+    const effectiveAtValue = formData.get('effectiveAt') as string | null;
+    const effectiveAt = effectiveAtValue ? new Date(effectiveAtValue) : null;
     
-    // Skip header row and parse data
-    if (lines.length <= 1) {
+    if (effectiveAt && (isNaN(effectiveAt.getTime()) || effectiveAt.getTime() <= Date.now())) {
       return NextResponse.json(
-        { error: 'CSV file is empty or invalid' },
+        { error: 'effectiveAt must be a valid date in the future' },
         { status: 400 }
       );
     }
     
-    // Expected Twilio Programmable Voice Outbound prices CSV format:
-    // Contains columns like: ISO, Country, Description, Price / min, Origination Prefixes, Destination Prefixes
+    // Read and parse the CSV file
+    const csvText = await csvFile.text();
+    const now = new Date();
+    const parsed = parsePricingCSV(csvText, now);
     
-    // Parse header to figure out column positions
-    const header = parseCSVLine(lines[0]);
-    console.log('CSV Headers:', header);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error, foundColumns: parsed.foundColumns },
+        { status: 400 }
+      );
+    }
     
-    const isoIndex = findColumnIndex(header, ['iso']);
-    const countryNameIndex = findColumnIndex(header, ['country']);
-    const priceIndex = findColumnIndex(header, ['our price']);
+    const { prefixRates, successCount, parseErrors } = parsed;
+    const errorCount = parseErrors.length;
+    const prefixCount = Object.values(prefixRates).reduce((total, rates) => total + rates.length, 0);
+    parseErrors.forEach(parseError => console.error(`Line ${parseError.line}: ${parseError.message}`));
     
-    if (countryNameIndex === -1 || priceIndex === -1) {
+    // Check if we have any valid pricing data
+    if (Object.keys(parsed.pricing).length === 0) {
       return NextResponse.json(
-        { 
-          error: 'CSV file is missing required columns (Country and Our Price)', 
-          foundColumns: header
-        },
+        { error: 'No valid pricing data found in the CSV file', parseErrors },
         { status: 400 }
       );
     }
     
-    // Process CSV data
-    const allPricing: Record<string, TwilioPriceData> = {};
-    const now = new Date();
-    let successCount = 0;
-    let errorCount = 0;
+    // Billing increments and connection fees are not in the CSV; keep the current ones
+    const currentPricing = await getCountryPricing();
+    const allPricing = carryOverBillingSettings(parsed.pricing, currentPricing?.data ?? {});
+    const baselineHash = hashPricingBaseline(currentPricing?.data ?? {});
     
-    for (let i = 1; i < lines.length; i++) {
-      if (!lines[i].trim()) continue; // Skip empty lines
+    if (mode === 'preview') {
+      // Diff against what is live right now; nothing is written
+      const diff = computePriceDiff(currentPricing?.data ?? {}, allPricing);
       
-      try {
-        const values = parseCSVLine(lines[i]);
-        
-        // Skip rows with not enough columns
-        if (values.length < Math.max(countryNameIndex, priceIndex) + 1) {
-          console.error(`Line ${i + 1}: Not enough columns`);
-          errorCount++;
-          continue;
-        }
-        
-        const countryName = values[countryNameIndex].replace(/"/g, '').trim();
-        
-        // Skip if country name is missing or is a header
-        if (!countryName || countryName.toLowerCase() === 'country') {
-          continue;
-        }
-        
-        // Get the country code either from ISO column or extract from country name
-        let countryCode = "";
-        if (isoIndex !== -1 && values.length > isoIndex) {
-          countryCode = values[isoIndex].replace(/"/g, '').trim();
-        }
-        
-        // If ISO column is empty, try to extract from country name
-        if (!countryCode || countryCode.length !== 2) {
-          countryCode = extractCountryCode(countryName);
-        }
-        
-        if (!countryCode) {
-          console.error(`Line ${i + 1}: Could not determine country code for ${countryName}`);
-          errorCount++;
-          continue;
-        }
-        
-        const priceStr = values[priceIndex].replace(/"/g, '').trim();
-        
-        // Skip rows without price
-        if (!priceStr) {
-          console.error(`Line ${i + 1}: Missing price for ${countryName}`);
-          errorCount++;
-          continue;
-        }
-        
-        // Parse price - handle different formats (e.g., 0.0112, $0.0112, etc.)
-        const finalPrice = parseFloat(priceStr.replace(/[^0-9.]/g, ''));
-        
-        if (isNaN(finalPrice)) {
-          console.error(`Line ${i + 1}: Invalid price format "${priceStr}" for ${countryName}`);
-          errorCount++;
-          continue;
-        }
-        
-        const previousEntryExists = !!allPricing[countryCode];
-        allPricing[countryCode] = {
-          countryCode,
-          countryName,
-          finalPrice,
-          currency: 'USD',  // Assume USD for now, adjust if needed
-          lastUpdated: now
-        };
-        
-        if (!previousEntryExists) {
-          successCount++;
-        }
-      } catch (error) {
-        console.error(`Error parsing line ${i + 1}:`, error);
-        errorCount++;
-      }
+      return NextResponse.json({
+        success: true,
+        mode,
+        message: 'Preview generated. No prices have been changed.',
+        count: Object.keys(allPricing).length,
+        prefixCount,
+        successCount,
+        errorCount,
+        diff,
+        baselineHash,
+        parseErrors,
+        timestamp: now.toISOString()
+      });
     }
     
-    // Check if we have any valid pricing data
-    if (Object.keys(allPricing).length === 0) {
+    // Only commit the diff the admin approved: prices or billing settings may have changed since the preview
+    if (formData.get('baselineHash') !== baselineHash) {
       return NextResponse.json(
-        { error: 'No valid pricing data found in the CSV file' },
-        { status: 400 }
+        { error: 'Live pricing has changed since this import was previewed. Preview it again before committing.' },
+        { status: 409 }
       );
     }
     
-    // Create the pricing cache object
-    const pricingCache: CountryPricingCache = {
-      version: 2,
-      lastUpdated: now,
-      data: allPricing
-    };
-    
-    // Save to Firestore
+    // Save as a new immutable price book, then make it the live pricing data
     try {
-      console.log('Trying to save pricing data from CSV import...');
-      const success = await saveCountryPricing(pricingCache);
+      console.log('Creating price book from CSV import...');
+      const createdBy = decodedToken.email ?? requesterUid;
+      const version = await createPriceBook({
+        data: allPricing,
+        prefixRates,
+        source: 'csv_import',
+        createdBy,
+        sourceFileName: csvFile.name,
+        rowErrorCount: errorCount
+      });
+      
+      if (version === null) {
+        throw new Error('Failed to create price book');
+      }
+      
+      if (effectiveAt) {
+        const scheduledChangeId = await schedulePriceBook(version, effectiveAt, createdBy);
+        
+        if (!scheduledChangeId) {
+          throw new Error(`Price book v${version} was created but could not be scheduled`);
+        }
+        
+        return NextResponse.json({
+          success: true,
+          mode,
+          message: `Pricing data saved as price book v${version}, effective ${effectiveAt.toISOString()}`,
+          version,
+          scheduledChangeId,
+          count: Object.keys(allPricing).length,
+          prefixCount,
+          successCount,
+          errorCount,
+          timestamp: now.toISOString()
+        });
+      }
+      
+      // Activation also records a PriceUpdateRecord for every base price that changed
+      const success = await activatePriceBook(version, createdBy);
       
       if (success) {
-        console.log('Successfully saved pricing data from CSV import');
+        console.log(`Successfully imported pricing data as price book v${version}`);
         
         return NextResponse.json({
           success: true,
-          message: 'Pricing data imported and saved successfully',
+          mode,
+          message: `Pricing data imported as price book v${version}`,
+          version,
           count: Object.keys(allPricing).length,
+          prefixCount,
           successCount,
           errorCount,
           timestamp: now.toISOString()
         });
       } else {
-        throw new Error('Failed to save pricing data');
+        throw new Error(`Price book v${version} was created but could not be activated`);
       }
     } catch (saveError) {
       console.error('Error saving to Firestore:', saveError);
       
-      // If saving fails, return the data directly
-      return NextResponse.json({
-        success: true,
-        message: 'Pricing data imported but could not be saved to Firestore',
-        count: Object.keys(allPricing).length,
-        successCount,
-        errorCount,
-        timestamp: now.toISOString(),
-        data: pricingCache,
-        saveError: saveError instanceof Error ? saveError.message : String(saveError)
-      });
+      return NextResponse.json(
+        {
+          success: false,
+          mode,
+          error: 'Pricing data was parsed but could not be saved to Firestore',
+          saveError: saveError instanceof Error ? saveError.message : String(saveError)
+        },
+        { status: 500 }
+      );
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -214,162 +208,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-/**
- * Helper function to find the index of a column by its name
- */
-function findColumnIndex(headers: string[], possibleNames: string[]): number {
-  for (const name of possibleNames) {
-    const index = headers.findIndex(h => 
-      h.toLowerCase().includes(name.toLowerCase())
-    );
-    if (index !== -1) return index;
-  }
-  return -1;
-}
-
-/**
- * Parse a CSV line correctly handling quoted values
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let currentValue = '';
-  let insideQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      insideQuotes = !insideQuotes;
-    } else if (char === ',' && !insideQuotes) {
-      result.push(currentValue);
-      currentValue = '';
-    } else {
-      currentValue += char;
-    }
-  }
-  
-  // Don't forget the last value
-  result.push(currentValue);
-  
-  return result;
-}
-
-/**
- * Extract country code from country name
- */
-function extractCountryCode(countryName: string): string {
-  // Common country codes mapping
-  const countryMap: Record<string, string> = {
-    'united states': 'US',
-    'united kingdom': 'GB',
-    'canada': 'CA',
-    'australia': 'AU',
-    'germany': 'DE',
-    'france': 'FR',
-    'spain': 'ES',
-    'italy': 'IT',
-    'japan': 'JP',
-    'china': 'CN',
-    'brazil': 'BR',
-    'india': 'IN',
-    'mexico': 'MX',
-    'russia': 'RU',
-    'south korea': 'KR',
-    'netherlands': 'NL',
-    'switzerland': 'CH',
-    'sweden': 'SE',
-    'norway': 'NO',
-    'denmark': 'DK',
-    'finland': 'FI',
-    'ireland': 'IE',
-    'belgium': 'BE',
-    'austria': 'AT',
-    'portugal': 'PT',
-    'greece': 'GR',
-    'new zealand': 'NZ',
-    'singapore': 'SG',
-    'hong kong': 'HK',
-    'south africa': 'ZA',
-    'israel': 'IL',
-    'poland': 'PL',
-    'turkey': 'TR',
-    'argentina': 'AR',
-    'chile': 'CL',
-    'colombia': 'CO',
-    'peru': 'PE',
-    'venezuela': 'VE',
-    'thailand': 'TH',
-    'malaysia': 'MY',
-    'philippines': 'PH',
-    'indonesia': 'ID',
-    'vietnam': 'VN',
-    'pakistan': 'PK',
-    'bangladesh': 'BD',
-    'sri lanka': 'LK',
-    'nepal': 'NP',
-    'egypt': 'EG',
-    'nigeria': 'NG',
-    'kenya': 'KE',
-    'ghana': 'GH',
-    'morocco': 'MA',
-    'algeria': 'DZ',
-    'tunisia': 'TN',
-    'saudi arabia': 'SA',
-    'united arab emirates': 'AE',
-    'jordan': 'JO',
-    'lebanon': 'LB',
-    'qatar': 'QA',
-    'kuwait': 'KW',
-    'oman': 'OM',
-    'bahrain': 'BH',
-    'iran': 'IR',
-    'ukraine': 'UA',
-    'czech republic': 'CZ',
-    'romania': 'RO',
-    'hungary': 'HU',
-    'bulgaria': 'BG',
-    'slovakia': 'SK',
-    'croatia': 'HR',
-    'slovenia': 'SI',
-    'serbia': 'RS',
-    'bosnia': 'BA',
-    'albania': 'AL',
-    'lithuania': 'LT',
-    'latvia': 'LV',
-    'estonia': 'EE',
-    'malta': 'MT',
-    'cyprus': 'CY',
-    'iceland': 'IS',
-    'luxembourg': 'LU',
-    'monaco': 'MC',
-    'andorra': 'AD',
-    'liechtenstein': 'LI',
-    'san marino': 'SM',
-    'vatican city': 'VA',
-    'gibraltar': 'GI',
-  };
-  
-  // Try direct lookup in our mapping
-  const normalizedName = countryName.toLowerCase().trim();
-  
-  // Check for exact match first
-  if (countryMap[normalizedName]) {
-    return countryMap[normalizedName];
-  }
-  
-  // Check for partial matches
-  for (const [key, code] of Object.entries(countryMap)) {
-    if (normalizedName.includes(key) || key.includes(normalizedName)) {
-      return code;
-    }
-  }
-  
-  // Look for country code in parentheses - common format in some CSVs
-  const codeMatch = countryName.match(/\(([A-Z]{2})\)/);
-  if (codeMatch && codeMatch[1]) {
-    return codeMatch[1];
-  }
-  
-  return '';
-} 
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { saveExchangeRates } from '@/lib/pricing/pricing-db-admin';
+import { SUPPORTED_CURRENCIES } from '@/types/pricing';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+/**
+ * POST handler to save the exchange rates used for display prices and wallet top-ups
+ * Body: { rates: { EUR: 0.92, ... } } - units of each currency per 1 USD
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/exchange-rates] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/exchange-rates] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+    
+    const body = await request.json();
+    
+    if (!body.rates || typeof body.rates !== 'object') {
+      return NextResponse.json({ error: 'rates is required' }, { status: 400 });
+    }
+    
+    const rates: Record<string, number> = { USD: 1 };
+    for (const [currency, rate] of Object.entries(body.rates as Record<string, unknown>)) {
+      if (!SUPPORTED_CURRENCIES.includes(currency)) {
+        return NextResponse.json({ error: `Unsupported currency: ${currency}` }, { status: 400 });
+      }
+      if (typeof rate !== 'number' || isNaN(rate) || rate <= 0) {
+        return NextResponse.json({ error: `Rate for ${currency} must be a positive number` }, { status: 400 });
+      }
+      if (currency !== 'USD') {
+        rates[currency] = rate;
+      }
+    }
+    
+    const updatedBy = decodedToken.email ?? requesterUid;
+    const success = await saveExchangeRates({
+      baseCurrency: 'USD',
+      rates,
+      updatedAt: new Date(),
+      updatedBy
+    });
+    
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to save exchange rates' }, { status: 500 });
+    }
+    
+    console.log(`[API /admin/pricing/exchange-rates] Rates updated by ${updatedBy}:`, rates);
+    return NextResponse.json({ success: true, rates });
+  } catch (error) {
+    console.error('Error saving exchange rates:', error);
+    return NextResponse.json({ error: 'Failed to save exchange rates' }, { status: 500 });
+  }
+}
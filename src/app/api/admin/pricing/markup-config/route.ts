@@ -1,21 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
 import { MarkupConfig } from '@/types/pricing';
 import { saveMarkupConfig } from '@/lib/pricing/pricing-db-admin'; // Import from admin DB file
 
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
 /**
  * POST handler for updating markup configuration
  */
 export async function POST(request: NextRequest) {
   try {
-    // 1. Authentication Check (Admin Token)
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized: Missing token' }, { status: 401 });
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/markup-config] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
     }
-    const token = authHeader.split(' ')[1];
-    const adminSecret = process.env.ADMIN_API_SECRET;
-    if (!adminSecret || token !== adminSecret) {
-      return NextResponse.json({ error: 'Unauthorized: Invalid token' }, { status: 401 });
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/markup-config] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
     }
 
     // 2. Parse Request Body
@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { deletePricingPlan, getPricingPlans, savePricingPlan } from '@/lib/pricing/pricing-db-admin';
+import { PricingPlan } from '@/types/pricing';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+/**
+ * Parse a country code -> number map, returning null if any entry is invalid
+ */
+function parseCountryRates(value: unknown): Record<string, number> | null {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  
+  const rates: Record<string, number> = {};
+  for (const [countryCode, rate] of Object.entries(value as Record<string, unknown>)) {
+    if (!/^[A-Z]{2}$/.test(countryCode) || typeof rate !== 'number' || isNaN(rate) || rate < 0) {
+      return null;
+    }
+    rates[countryCode] = rate;
+  }
+  return rates;
+}
+
+/**
+ * GET handler to list pricing plans
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/plans] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/plans] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+    
+    const plans = await getPricingPlans();
+    return NextResponse.json({ plans });
+  } catch (error) {
+    console.error('Error fetching pricing plans:', error);
+    return NextResponse.json({ error: 'Failed to fetch pricing plans' }, { status: 500 });
+  }
+}
+
+/**
+ * POST handler to create or update a pricing plan
+ * Body: { id, name, description?, defaultMarkup: number | null, countryMarkups?, fixedRates? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/plans] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/plans] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+    
+    const body = await request.json();
+    
+    if (typeof body.id !== 'string' || !/^[a-z0-9_-]+$/.test(body.id)) {
+      return NextResponse.json(
+        { error: 'id must contain only lowercase letters, numbers, dashes and underscores' },
+        { status: 400 }
+      );
+    }
+    
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+    
+    const defaultMarkup = body.defaultMarkup ?? null;
+    if (defaultMarkup !== null && (typeof defaultMarkup !== 'number' || isNaN(defaultMarkup))) {
+      return NextResponse.json({ error: 'defaultMarkup must be a number or null' }, { status: 400 });
+    }
+    
+    const countryMarkups = parseCountryRates(body.countryMarkups);
+    const fixedRates = parseCountryRates(body.fixedRates);
+    
+    if (!countryMarkups || !fixedRates) {
+      return NextResponse.json(
+        { error: 'countryMarkups and fixedRates must map 2-letter country codes to non-negative numbers' },
+        { status: 400 }
+      );
+    }
+    
+    const plan: PricingPlan = {
+      id: body.id,
+      name: body.name.trim(),
+      description: typeof body.description === 'string' ? body.description.trim() : undefined,
+      defaultMarkup,
+      countryMarkups,
+      fixedRates,
+      updatedAt: new Date()
+    };
+    
+    const success = await savePricingPlan(plan);
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to save pricing plan' }, { status: 500 });
+    }
+    
+    return NextResponse.json({ success: true, plan });
+  } catch (error) {
+    console.error('Error saving pricing plan:', error);
+    return NextResponse.json({ error: 'Failed to save pricing plan' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE handler to remove a pricing plan
+ * Query: ?id=<plan id>
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/plans] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/plans] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+    
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    
+    const success = await deletePricingPlan(id);
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to delete pricing plan' }, { status: 500 });
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting pricing plan:', error);
+    return NextResponse.json({ error: 'Failed to delete pricing plan' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { getPriceBook } from '@/lib/pricing/pricing-db-admin';
+import { computePriceDiff } from '@/lib/pricing/price-diff';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+/**
+ * GET handler comparing two price book versions
+ * Query params: from (older version), to (newer version)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/price-books/compare] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/price-books/compare] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+    
+    const searchParams = request.nextUrl.searchParams;
+    const fromVersion = parseInt(searchParams.get('from') || '', 10);
+    const toVersion = parseInt(searchParams.get('to') || '', 10);
+    
+    if (isNaN(fromVersion) || isNaN(toVersion)) {
+      return NextResponse.json({ error: 'Both from and to versions are required' }, { status: 400 });
+    }
+    
+    const [fromBook, toBook] = await Promise.all([getPriceBook(fromVersion), getPriceBook(toVersion)]);
+    
+    if (!fromBook || !toBook) {
+      return NextResponse.json({ error: 'Price book not found' }, { status: 404 });
+    }
+    
+    // Return summaries only; the full price data is large
+    const { data: fromData, ...fromSummary } = fromBook;
+    const { data: toData, ...toSummary } = toBook;
+    
+    return NextResponse.json({
+      from: fromSummary,
+      to: toSummary,
+      diff: computePriceDiff(fromData, toData)
+    });
+  } catch (error) {
+    console.error('Error comparing price books:', error);
+    return NextResponse.json({ error: 'Failed to compare price books' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { activatePriceBook, getPriceBook } from '@/lib/pricing/pricing-db-admin';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+/**
+ * POST handler to make a previous price book version active again
+ * Body: { version: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/price-books/rollback] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/price-books/rollback] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+    
+    const body = await request.json();
+    const version = Number(body.version);
+    
+    if (!Number.isInteger(version) || version <= 0) {
+      return NextResponse.json({ error: 'A valid version is required' }, { status: 400 });
+    }
+    
+    const priceBook = await getPriceBook(version);
+    if (!priceBook) {
+      return NextResponse.json({ error: `Price book v${version} not found` }, { status: 404 });
+    }
+    
+    if (priceBook.isActive) {
+      return NextResponse.json({ error: `Price book v${version} is already active` }, { status: 400 });
+    }
+    
+    const activatedBy = decodedToken.email ?? requesterUid;
+    const success = await activatePriceBook(version, activatedBy);
+    
+    if (!success) {
+      return NextResponse.json({ error: `Failed to activate price book v${version}` }, { status: 500 });
+    }
+    
+    console.log(`[API /admin/pricing/price-books/rollback] Rolled back to price book v${version}`);
+    return NextResponse.json({ success: true, version });
+  } catch (error) {
+    console.error('Error rolling back price book:', error);
+    return NextResponse.json({ error: 'Failed to roll back price book' }, { status: 500 });
+  }
+}
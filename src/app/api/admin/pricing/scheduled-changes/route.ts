@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import {
+  cancelScheduledPriceChange,
+  getPriceBook,
+  scheduleCountryPriceChange,
+  schedulePriceBook
+} from '@/lib/pricing/pricing-db-admin';
+import { getCountryPricing } from '@/lib/pricing/pricing-db-client';
+import { TwilioPriceData } from '@/types/pricing';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+/**
+ * POST handler to schedule a price change for a future effective date
+ * Body:
+ * - { type: 'price_book', version: number, effectiveAt: string }
+ * - { type: 'country', countryCode: string, basePrice: number, countryName?: string, effectiveAt: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/scheduled-changes] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/scheduled-changes] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+    
+    const body = await request.json();
+    const effectiveAt = new Date(body.effectiveAt);
+    
+    if (isNaN(effectiveAt.getTime())) {
+      return NextResponse.json({ error: 'A valid effectiveAt date is required' }, { status: 400 });
+    }
+    
+    if (effectiveAt.getTime() <= Date.now()) {
+      return NextResponse.json({ error: 'effectiveAt must be in the future' }, { status: 400 });
+    }
+    
+    const createdBy = decodedToken.email ?? requesterUid;
+    
+    if (body.type === 'price_book') {
+      const version = Number(body.version);
+      
+      if (!Number.isInteger(version) || version <= 0) {
+        return NextResponse.json({ error: 'A valid version is required' }, { status: 400 });
+      }
+      
+      const priceBook = await getPriceBook(version);
+      if (!priceBook) {
+        return NextResponse.json({ error: `Price book v${version} not found` }, { status: 404 });
+      }
+      
+      const id = await schedulePriceBook(version, effectiveAt, createdBy);
+      if (!id) {
+        return NextResponse.json({ error: 'Failed to schedule price book' }, { status: 500 });
+      }
+      
+      return NextResponse.json({ success: true, id });
+    }
+    
+    if (body.type === 'country') {
+      const countryCode = typeof body.countryCode === 'string' ? body.countryCode.trim().toUpperCase() : '';
+      const basePrice = Number(body.basePrice);
+      
+      if (!/^[A-Z]{2}$/.test(countryCode)) {
+        return NextResponse.json({ error: 'A valid 2-letter country code is required' }, { status: 400 });
+      }
+      
+      if (isNaN(basePrice) || basePrice < 0) {
+        return NextResponse.json({ error: 'A valid base price is required' }, { status: 400 });
+      }
+      
+      // Keep the country's other fields; only the base price changes
+      const pricingCache = await getCountryPricing();
+      const currentPriceData = pricingCache?.data?.[countryCode];
+      const countryName = currentPriceData?.countryName || body.countryName;
+      
+      if (!countryName) {
+        return NextResponse.json(
+          { error: `${countryCode} has no current price; countryName is required` },
+          { status: 400 }
+        );
+      }
+      
+      const priceData: TwilioPriceData = {
+        ...currentPriceData, // Keeps billing increments and connection fee
+        countryCode,
+        countryName,
+        currency: currentPriceData?.currency || 'USD',
+        basePrice,
+        lastUpdated: effectiveAt
+      };
+      
+      const id = await scheduleCountryPriceChange(countryCode, priceData, effectiveAt, createdBy);
+      if (!id) {
+        return NextResponse.json({ error: 'Failed to schedule price change' }, { status: 500 });
+      }
+      
+      return NextResponse.json({ success: true, id });
+    }
+    
+    return NextResponse.json({ error: "type must be 'price_book' or 'country'" }, { status: 400 });
+  } catch (error) {
+    console.error('Error scheduling price change:', error);
+    return NextResponse.json({ error: 'Failed to schedule price change' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE handler to cancel a pending scheduled price change
+ * Query: ?id=<scheduled change id>
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/pricing/scheduled-changes] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/pricing/scheduled-changes] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+    
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    
+    const success = await cancelScheduledPriceChange(id);
+    if (!success) {
+      return NextResponse.json({ error: 'Scheduled change not found or no longer pending' }, { status: 404 });
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling scheduled price change:', error);
+    return NextResponse.json({ error: 'Failed to cancel scheduled price change' }, { status: 500 });
+  }
+}
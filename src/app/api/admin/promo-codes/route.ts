@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { createPromoCode, listPromoCodes, setPromoCodeActive } from '@/lib/promo-codes';
+import { PromoCodeInput } from '@/types/promo';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+/**
+ * GET handler to list all promo codes
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/promo-codes] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/promo-codes] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Load the codes
+    const promoCodes = await listPromoCodes();
+    return NextResponse.json({ promoCodes });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/promo-codes] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load promo codes: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * POST handler to create a promo code
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/promo-codes] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/promo-codes] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Create the code
+    const input = (await req.json()) as PromoCodeInput;
+    const error = await createPromoCode(input, requesterUid);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    console.log(`[API /admin/promo-codes] Admin ${requesterUid} created promo code ${input.code}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/promo-codes] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to create promo code: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH handler to activate or deactivate a promo code
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/promo-codes] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/promo-codes] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Validate Input
+    const { code, active } = await req.json();
+    if (typeof code !== 'string' || typeof active !== 'boolean') {
+      return NextResponse.json({ error: 'Invalid input: code and active are required.' }, { status: 400 });
+    }
+
+    // 3. Update the code
+    const updated = await setPromoCodeActive(code, active);
+    if (!updated) {
+      return NextResponse.json({ error: 'Promo code not found.' }, { status: 404 });
+    }
+
+    console.log(`[API /admin/promo-codes] Admin ${requesterUid} set promo code ${code} active=${active}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/promo-codes] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to update promo code: ${errorMessage}` }, { status: 500 });
+  }
+}
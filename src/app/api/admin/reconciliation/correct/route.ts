@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { correctBalanceDrift } from '@/lib/reconciliation';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+interface CorrectDriftRequest {
+  reportId: string;
+  targetUserId: string;
+}
+
+/**
+ * POST handler to record a corrective adjustment for a user flagged by reconciliation
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/reconciliation/correct] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/reconciliation/correct] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Get and Validate Request Body
+    const { reportId, targetUserId } = (await req.json()) as CorrectDriftRequest;
+
+    if (!reportId || typeof reportId !== 'string') {
+      return NextResponse.json({ error: 'Missing or invalid reportId' }, { status: 400 });
+    }
+    if (!targetUserId || typeof targetUserId !== 'string') {
+      return NextResponse.json({ error: 'Missing or invalid targetUserId' }, { status: 400 });
+    }
+
+    // 3. Record the adjustment
+    const amount = await correctBalanceDrift(reportId, targetUserId, requesterUid);
+    return NextResponse.json({ success: true, updatedUserId: targetUserId, amount });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/reconciliation/correct] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to correct balance: ${errorMessage}` }, { status: 500 });
+  }
+}
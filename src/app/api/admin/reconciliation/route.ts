@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { getLatestReconciliationReport, reconcileBalances } from '@/lib/reconciliation';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+// A run checks users for up to 40 seconds per request (see reconcileBalances)
+export const maxDuration = 60;
+
+/**
+ * GET handler to fetch the latest balance reconciliation report
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/reconciliation] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/reconciliation] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Load the report
+    const report = await getLatestReconciliationReport();
+    return NextResponse.json({ report });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/reconciliation] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load reconciliation report: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * POST handler to run a reconciliation now instead of waiting for the nightly job
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/reconciliation] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/reconciliation] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Start a run, or carry on the one in progress
+    console.log(`[API /admin/reconciliation] Admin ${requesterUid} started or continued a reconciliation run`);
+    const report = await reconcileBalances(requesterUid);
+    return NextResponse.json({ report });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/reconciliation] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to run reconciliation: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { getReferralSettings, listReferrals, saveReferralSettings } from '@/lib/referrals';
+import { ReferralSettings } from '@/types/referral';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the referral program settings and the payout report
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/referrals] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/referrals] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Load settings and referrals
+    const [settings, referrals] = await Promise.all([getReferralSettings(), listReferrals()]);
+    return NextResponse.json({ settings, referrals });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/referrals] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load referrals: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * PUT handler to save the referral program settings
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/referrals] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/referrals] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Save the settings
+    const settings = (await req.json()) as ReferralSettings;
+    const error = await saveReferralSettings(settings, requesterUid);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    console.log(`[API /admin/referrals] Admin ${requesterUid} updated referral settings`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/referrals] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to save referral settings: ${errorMessage}` }, { status: 500 });
+  }
+}
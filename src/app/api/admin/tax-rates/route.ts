@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { getTaxRates, saveTaxRates } from '@/lib/tax';
+import { TaxRate } from '@/types/tax';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the VAT/GST rates
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/tax-rates] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/tax-rates] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Load the rates
+    const rates = await getTaxRates();
+    return NextResponse.json({ rates });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/tax-rates] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load tax rates: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * PUT handler to replace the VAT/GST rates
+ * Body: { rates: TaxRate[] }
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/tax-rates] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/tax-rates] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Save the rates
+    const { rates } = (await req.json()) as { rates: TaxRate[] };
+    const error = await saveTaxRates(rates, requesterUid);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    console.log(`[API /admin/tax-rates] Admin ${requesterUid} updated tax rates`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/tax-rates] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to save tax rates: ${errorMessage}` }, { status: 500 });
+  }
+}
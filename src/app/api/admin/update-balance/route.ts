@@ -1,18 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { recordLedgerEntry } from '@/lib/ledger';
+import { ADJUSTMENT_CATEGORY_LABELS, AdjustmentCategory, LedgerAccount } from '@/types/ledger';
 
 // Ensure Firebase Admin is initialized
 initializeFirebaseAdmin();
 
 interface UpdateBalanceRequest {
   targetUserId: string;
-  newBalance: number;
+  amount: number; // Signed change to the balance, e.g. -2.50
+  category: AdjustmentCategory;
+  reason: string;
 }
 
-// Define a custom error interface for Firestore errors
-interface FirestoreError extends Error {
-  code?: number;
-}
+// Refunds reverse call revenue, goodwill credit is free credit, corrections are plain adjustments
+const COUNTER_ACCOUNTS: Record<AdjustmentCategory, LedgerAccount> = {
+  refund: 'revenue',
+  goodwill_credit: 'promo_liability',
+  correction: 'adjustments'
+};
 
 export async function POST(req: NextRequest) {
   try {
@@ -42,37 +48,61 @@ export async function POST(req: NextRequest) {
     }
 
     // 2. Get and Validate Request Body
-    const { targetUserId, newBalance } = (await req.json()) as UpdateBalanceRequest;
+    const { targetUserId, amount, category, reason } = (await req.json()) as UpdateBalanceRequest;
 
     if (!targetUserId || typeof targetUserId !== 'string') {
       return NextResponse.json({ error: 'Missing or invalid targetUserId' }, { status: 400 });
     }
     
-    // Validate newBalance - must be a number, potentially non-negative
-    if (typeof newBalance !== 'number' || !Number.isFinite(newBalance) || newBalance < 0) {
-        console.warn(`[API /admin/update-balance] Invalid newBalance value received: ${newBalance}`);
-        return NextResponse.json({ error: 'Invalid newBalance value. Must be a non-negative number.' }, { status: 400 });
+    // Validate amount - a non-zero signed number
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount === 0) {
+        console.warn(`[API /admin/update-balance] Invalid amount value received: ${amount}`);
+        return NextResponse.json({ error: 'Invalid amount. Must be a non-zero number.' }, { status: 400 });
+    }
+
+    if (!Object.keys(ADJUSTMENT_CATEGORY_LABELS).includes(category)) {
+      return NextResponse.json({ error: `Invalid category. Must be one of: ${Object.keys(ADJUSTMENT_CATEGORY_LABELS).join(', ')}` }, { status: 400 });
     }
-    
-    // Ensure admin is not accidentally modifying their own balance via this specific route? (Optional check)
-    // if (requesterUid === targetUserId) {
-    //   return NextResponse.json({ error: 'Cannot modify own balance via this route.' }, { status: 400 });
-    // }
 
-    // 3. Update Target User's Balance
-    console.log(`[API /admin/update-balance] Admin ${requesterUid} attempting to set balance for user ${targetUserId} to ${newBalance}`);
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json({ error: 'A reason is required for balance adjustments.' }, { status: 400 });
+    }
+
+    // 3. Record the adjustment against the target user's balance
+    console.log(`[API /admin/update-balance] Admin ${requesterUid} adjusting balance for user ${targetUserId} by ${amount} (${category}: ${reason.trim()})`);
     const targetUserRef = db.collection('users').doc(targetUserId);
     
+    let newBalance: number;
     try {
-      await targetUserRef.update({ 
-        balance: newBalance 
+      newBalance = await db.runTransaction(async (transaction) => {
+        const targetUserSnap = await transaction.get(targetUserRef);
+        if (!targetUserSnap.exists) {
+          throw new Error('User document does not exist.');
+        }
+        const currentBalance = targetUserSnap.data()?.balance || 0;
+        if (currentBalance + amount < 0) {
+          throw new Error('Adjustment would make the balance negative.');
+        }
+        return recordLedgerEntry(transaction, targetUserSnap, {
+          type: 'adjustment',
+          amount,
+          counterAccount: COUNTER_ACCOUNTS[category],
+          source: 'admin',
+          details: {
+            category,
+            reason: reason.trim(),
+            adminUid: requesterUid
+          }
+        });
       });
       console.log(`[API /admin/update-balance] Successfully updated balance for user ${targetUserId} to ${newBalance}`);
     } catch (error: unknown) {
         // Check if the error is because the user document doesn't exist
-        if (error instanceof Error && 'code' in error && (error as FirestoreError).code === 5) { // Firestore error code for NOT_FOUND
+        if (error instanceof Error && error.message === 'User document does not exist.') {
              console.error(`[API /admin/update-balance] Target user document not found: ${targetUserId}`);
              return NextResponse.json({ error: `Target user with ID ${targetUserId} not found.` }, { status: 404 });
+        } else if (error instanceof Error && error.message === 'Adjustment would make the balance negative.') {
+             return NextResponse.json({ error: error.message }, { status: 400 });
         } else {
              // Re-throw for the outer catch block to handle generic errors
              throw error;
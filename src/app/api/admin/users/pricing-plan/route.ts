@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { getPricingPlan } from '@/lib/pricing/pricing-db-admin';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+interface UpdatePricingPlanRequest {
+  targetUserId: string;
+  pricingPlanId: string | null; // null returns the user to standard rates
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/users/pricing-plan] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const db = getAdminFirestore();
+    const requesterSnap = await db.collection('users').doc(requesterUid).get();
+
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/users/pricing-plan] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Get and Validate Request Body
+    const { targetUserId, pricingPlanId } = (await req.json()) as UpdatePricingPlanRequest;
+
+    if (!targetUserId || typeof targetUserId !== 'string') {
+      return NextResponse.json({ error: 'Missing or invalid targetUserId' }, { status: 400 });
+    }
+
+    if (pricingPlanId !== null && typeof pricingPlanId !== 'string') {
+      return NextResponse.json({ error: 'pricingPlanId must be a string or null' }, { status: 400 });
+    }
+
+    if (pricingPlanId && !(await getPricingPlan(pricingPlanId))) {
+      return NextResponse.json({ error: `Pricing plan ${pricingPlanId} not found` }, { status: 404 });
+    }
+
+    // 3. Assign the plan
+    const targetUserRef = db.collection('users').doc(targetUserId);
+    const targetUserSnap = await targetUserRef.get();
+    if (!targetUserSnap.exists) {
+      return NextResponse.json({ error: `Target user with ID ${targetUserId} not found.` }, { status: 404 });
+    }
+
+    await targetUserRef.update({ pricingPlanId: pricingPlanId || null });
+    console.log(`[API /admin/users/pricing-plan] Admin ${requesterUid} set pricing plan for user ${targetUserId} to ${pricingPlanId || 'standard'}`);
+
+    return NextResponse.json({ success: true, updatedUserId: targetUserId, pricingPlanId: pricingPlanId || null });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/users/pricing-plan] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to update pricing plan: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { getVirtualNumberSettings, listRentals, saveVirtualNumberSettings } from '@/lib/virtual-numbers';
+import { VirtualNumberSettings } from '@/types/virtual-number';
+
+// Ensure Firebase Admin is initialized
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the virtual number settings and current rentals
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/virtual-numbers] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/virtual-numbers] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Load the settings and rentals
+    const [settings, rentals] = await Promise.all([getVirtualNumberSettings(), listRentals()]);
+    return NextResponse.json({ settings, rentals });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/virtual-numbers] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load virtual numbers: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * PUT handler to save the virtual number settings
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    // 1. Verify Requester is Admin
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /admin/virtual-numbers] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const requesterUid = decodedToken.uid;
+
+    const requesterSnap = await getAdminFirestore().collection('users').doc(requesterUid).get();
+    if (!requesterSnap.exists || !requesterSnap.data()?.isAdmin) {
+      console.warn(`[API /admin/virtual-numbers] Unauthorized access attempt by user: ${requesterUid}`);
+      return NextResponse.json({ error: 'Forbidden: Administrator access required' }, { status: 403 });
+    }
+
+    // 2. Save the settings
+    const settings = (await req.json()) as VirtualNumberSettings;
+    const error = await saveVirtualNumberSettings(settings, requesterUid);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    console.log(`[API /admin/virtual-numbers] Admin ${requesterUid} updated the virtual number settings`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /admin/virtual-numbers] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to save virtual number settings: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { getBillingDetails, saveBillingDetails } from '@/lib/tax';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the user's billing country and VAT ID
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /billing-details] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Load the details
+    const billingDetails = await getBillingDetails(decodedToken.uid);
+    return NextResponse.json({ billingDetails });
+
+  } catch (error: unknown) {
+    console.error('[API /billing-details] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load billing details: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * PUT handler to save the user's billing details
+ * Body: { country, vatId? }
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /billing-details] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Validate and save
+    const { country, vatId } = await req.json();
+    const validationError = await saveBillingDetails(decodedToken.uid, { country, vatId });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const billingDetails = await getBillingDetails(decodedToken.uid);
+    return NextResponse.json({ success: true, billingDetails });
+
+  } catch (error: unknown) {
+    console.error('[API /billing-details] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to save billing details: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { initializeFirebaseAdmin, getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { recordLedgerEntry } from '@/lib/ledger';
 import { CallHistoryEntry } from '@/components/CallHistory'; // Reuse the type from frontend
 
 // Ensure Firebase Admin is initialized
@@ -121,31 +122,21 @@ export async function POST(req: NextRequest) {
         deleted: false, 
       };
       
-      // Create a reference for the new transaction document in the user's subcollection
-      const transactionRef = userRef.collection('transactions').doc(); // Auto-generate ID
-      
-      // Prepare transaction data for saving
-      const transactionDataToSave = {
+      // Perform the updates within the transaction
+      // 1. Save Call History (to separate collection)
+      transaction.set(callHistoryRef, historyDataToSave); 
+      // 2. Deduct the cost from the wallet as revenue and save the transaction record
+      newCalculatedBalance = recordLedgerEntry(transaction, userDoc, {
           type: 'call', 
           amount: -finalRecordedCost, // Store as negative value for deduction
-          currency: 'usd', // Assuming USD
-          status: 'completed',
+          counterAccount: 'revenue',
           source: 'system', // Indicate it was an automatic deduction
-          callId: callData.id, // Link to the call history document
-          phoneNumber: callData.phoneNumber, // Include relevant details
-          durationSeconds: callData.duration, // Include relevant details
-          createdAt: FieldValue.serverTimestamp()
-      };
-
-      // Perform the updates within the transaction
-      // 1. Update Balance
-      transaction.update(userRef, {
-        balance: FieldValue.increment(-costToDeduct) 
+          details: {
+              callId: callData.id, // Link to the call history document
+              phoneNumber: callData.phoneNumber, // Include relevant details
+              durationSeconds: callData.duration, // Include relevant details
+          }
       });
-      // 2. Save Call History (to separate collection)
-      transaction.set(callHistoryRef, historyDataToSave); 
-      // 3. Save Transaction Record (to user's subcollection)
-      transaction.set(transactionRef, transactionDataToSave);
 
       // Return the calculated new balance
       return newCalculatedBalance; 
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { getVerifiedCallerIds, removeCallerId } from '@/lib/caller-id';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the user's verified caller IDs
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /caller-ids] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Load the caller IDs
+    const callerIds = await getVerifiedCallerIds(decodedToken.uid);
+    return NextResponse.json({ callerIds });
+
+  } catch (error: unknown) {
+    console.error('[API /caller-ids] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load caller IDs: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE handler to remove a verified caller ID (?number=+E164)
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /caller-ids] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Remove the number
+    const number = req.nextUrl.searchParams.get('number');
+    if (!number) {
+      return NextResponse.json({ error: 'number is required.' }, { status: 400 });
+    }
+
+    const removed = await removeCallerId(decodedToken.uid, number);
+    if (!removed) {
+      return NextResponse.json({ error: 'Caller ID not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /caller-ids] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to remove caller ID: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { confirmCallerIdVerification, startCallerIdVerification } from '@/lib/caller-id';
+import { CallerIdVerificationChannel } from '@/types/caller-id';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * POST handler to send a verification code
+ * Body: { phoneNumber, channel: 'sms' | 'call' }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /caller-ids/verify] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Send the code
+    const { phoneNumber, channel } = (await req.json()) as { phoneNumber?: string; channel?: CallerIdVerificationChannel };
+    if (!phoneNumber || !channel) {
+      return NextResponse.json({ error: 'phoneNumber and channel are required.' }, { status: 400 });
+    }
+
+    const error = await startCallerIdVerification(decodedToken.uid, phoneNumber, channel);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /caller-ids/verify] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to send verification code: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * PUT handler to confirm a verification code
+ * Body: { phoneNumber, code }
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /caller-ids/verify] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Check the code
+    const { phoneNumber, code } = (await req.json()) as { phoneNumber?: string; code?: string };
+    if (!phoneNumber || !code) {
+      return NextResponse.json({ error: 'phoneNumber and code are required.' }, { status: 400 });
+    }
+
+    const error = await confirmCallerIdVerification(decodedToken.uid, phoneNumber, code);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /caller-ids/verify] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to verify caller ID: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { listContacts } from '@/lib/contacts';
+import { toContactsCsv, toVCards } from '@/lib/contact-formats';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler to download the user's contacts (?format=vcard or ?format=csv)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /contacts/export] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Build the file
+    const format = req.nextUrl.searchParams.get('format') || 'vcard';
+    if (format !== 'vcard' && format !== 'csv') {
+      return NextResponse.json({ error: "format must be 'vcard' or 'csv'" }, { status: 400 });
+    }
+
+    const contacts = await listContacts(decodedToken.uid);
+    const body = format === 'vcard' ? toVCards(contacts) : toContactsCsv(contacts);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'vcard' ? 'text/vcard; charset=utf-8' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="contacts.${format === 'vcard' ? 'vcf' : 'csv'}"`
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('[API /contacts/export] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to export contacts: ${errorMessage}` }, { status: 500 });
+  }
+}
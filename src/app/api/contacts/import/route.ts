@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { importContacts } from '@/lib/contacts';
+import { parseContactsCsv, parseVCards } from '@/lib/contact-formats';
+import { ContactFileFormat } from '@/types/contact';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+// Larger files are almost certainly not an address book
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+/**
+ * POST handler to import contacts from a vCard or CSV file
+ * Body: { format: 'vcard' | 'csv', data: file contents }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /contacts/import] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Parse the file
+    const { format, data } = (await req.json()) as { format: ContactFileFormat; data: string };
+    if (format !== 'vcard' && format !== 'csv') {
+      return NextResponse.json({ error: "format must be 'vcard' or 'csv'" }, { status: 400 });
+    }
+    if (typeof data !== 'string' || !data.trim()) {
+      return NextResponse.json({ error: 'The file is empty.' }, { status: 400 });
+    }
+    if (data.length > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'The file is too large (2 MB max).' }, { status: 400 });
+    }
+
+    const parsed = format === 'vcard' ? parseVCards(data) : parseContactsCsv(data);
+    if (parsed.length === 0) {
+      return NextResponse.json({ error: 'No contacts found in the file.' }, { status: 400 });
+    }
+
+    // 3. Save the valid ones
+    const result = await importContacts(decodedToken.uid, parsed);
+    console.log(`[API /contacts/import] Imported ${result.imported} of ${parsed.length} contacts for user ${decodedToken.uid}`);
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error: unknown) {
+    console.error('[API /contacts/import] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to import contacts: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { createContact, deleteContact, listContacts, updateContact } from '@/lib/contacts';
+import { ContactInput } from '@/types/contact';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the user's contacts
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /contacts] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Load the contacts
+    const contacts = await listContacts(decodedToken.uid);
+    return NextResponse.json({ contacts });
+
+  } catch (error: unknown) {
+    console.error('[API /contacts] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load contacts: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * POST handler to create a contact
+ * Body: { name, numbers: [{ label, number }], notes, favorite }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /contacts] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Validate and save
+    const input = (await req.json()) as Partial<ContactInput>;
+    const result = await createContact(decodedToken.uid, input);
+    if (typeof result === 'string') {
+      return NextResponse.json({ error: result }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, contact: result });
+
+  } catch (error: unknown) {
+    console.error('[API /contacts] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to create contact: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * PUT handler to update a contact (?contactId=...)
+ * Body: the full contact, as for POST
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /contacts] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Validate and save
+    const contactId = req.nextUrl.searchParams.get('contactId');
+    if (!contactId) {
+      return NextResponse.json({ error: 'contactId is required.' }, { status: 400 });
+    }
+
+    const input = (await req.json()) as Partial<ContactInput>;
+    const error = await updateContact(decodedToken.uid, contactId, input);
+    if (error) {
+      return NextResponse.json({ error }, { status: error === 'Contact not found' ? 404 : 400 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /contacts] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to update contact: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE handler to remove a contact (?contactId=...)
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /contacts] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Delete the contact
+    const contactId = req.nextUrl.searchParams.get('contactId');
+    if (!contactId) {
+      return NextResponse.json({ error: 'contactId is required.' }, { status: 400 });
+    }
+
+    const deleted = await deleteContact(decodedToken.uid, contactId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /contacts] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to delete contact: ${errorMessage}` }, { status: 500 });
+  }
+}
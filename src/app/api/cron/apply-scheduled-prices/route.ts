@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyDueScheduledPriceChanges } from '@/lib/pricing/pricing-db-admin';
+
+/**
+ * GET handler run on a schedule to apply scheduled price changes that are due
+ * Authenticated with the CRON_SECRET bearer token (sent automatically by Vercel Cron)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const appliedCount = await applyDueScheduledPriceChanges();
+    console.log(`[API /cron/apply-scheduled-prices] Applied ${appliedCount} scheduled price change(s)`);
+    
+    return NextResponse.json({ success: true, appliedCount });
+  } catch (error) {
+    console.error('Error applying scheduled price changes:', error);
+    return NextResponse.json({ error: 'Failed to apply scheduled price changes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reconcileBalances } from '@/lib/reconciliation';
+
+// Each request checks users for up to 40 seconds, then the next one carries on
+export const maxDuration = 60;
+
+/**
+ * GET handler run every few minutes overnight to compare users' balances with their transaction history
+ * Starts one run per UTC day and carries it on a page of users at a time until every user is checked.
+ * Authenticated with the CRON_SECRET bearer token (sent automatically by Vercel Cron)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const report = await reconcileBalances('cron');
+    console.log(`[API /cron/reconcile-balances] Report ${report.id}: ${report.drifts.length} drift(s) across ${report.usersChecked} users${report.completedAt ? '' : ' so far'}`);
+    
+    return NextResponse.json({
+      success: true,
+      reportId: report.id,
+      driftCount: report.drifts.length,
+      completed: Boolean(report.completedAt)
+    });
+  } catch (error) {
+    console.error('Error reconciling balances:', error);
+    return NextResponse.json({ error: 'Failed to reconcile balances' }, { status: 500 });
+  }
+}
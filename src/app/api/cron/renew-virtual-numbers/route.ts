@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renewDueVirtualNumbers } from '@/lib/virtual-numbers';
+
+/**
+ * GET handler run daily to charge the monthly fee for rented numbers that are due
+ * Authenticated with the CRON_SECRET bearer token (sent automatically by Vercel Cron)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const summary = await renewDueVirtualNumbers();
+    console.log(`[API /cron/renew-virtual-numbers] Renewed ${summary.renewed}, unpaid ${summary.unpaid}, released ${summary.released}`);
+    
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error renewing virtual numbers:', error);
+    return NextResponse.json({ error: 'Failed to renew virtual numbers' }, { status: 500 });
+  }
+}
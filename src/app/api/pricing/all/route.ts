@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getCountryPricing } from '@/lib/pricing/pricing-db-client';
+import { getCountryPricing, getMarkupConfig } from '@/lib/pricing/pricing-db-client';
+import { applyMarkup } from '@/lib/pricing/pricing-engine';
 import { CountryPricingCache } from '@/types/pricing';
 
 /**
@@ -31,9 +32,19 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Apply the live markup so the public list matches what users are charged.
+    // Only customer-facing fields are returned (never the raw Twilio base cost).
+    const markupConfig = await getMarkupConfig();
+    const publicPrices = Object.fromEntries(
+      Object.entries(pricingCache.data).map(([countryCode, priceData]) => {
+        const { countryName, finalPrice, currency, lastUpdated } = applyMarkup(priceData, markupConfig);
+        return [countryCode, { countryCode, countryName, finalPrice, currency, lastUpdated }];
+      })
+    );
+
     // Return the dictionary of country prices
     // The structure will be { "US": { countryCode: "US", ... }, "GB": { ... } }
-    return NextResponse.json(pricingCache.data, { headers: corsHeaders });
+    return NextResponse.json(publicPrices, { headers: corsHeaders });
 
   } catch (error) {
     console.error('Error fetching all pricing data:', error);
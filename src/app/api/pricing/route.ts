@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPriceForPhoneNumber, calculateCallCost, getPricesForCountries } from '@/lib/pricing/pricing-engine';
+import { getUserPricingPlan } from '@/lib/pricing/pricing-db-admin';
+import { verifyIdToken } from '@/lib/firebase-admin';
 
 /**
  * GET handler for retrieving price for a specific phone number
  * Query params:
  * - phoneNumber: E.164 formatted phone number to get pricing for
  * - duration: (optional) Call duration in seconds to calculate cost
+ * Headers:
+ * - Authorization: (optional) Bearer Firebase ID token; quotes include the user's pricing plan
  */
 export async function GET(request: NextRequest) {
   // Define CORS headers - REPLACE '*' with your specific marketing domain
@@ -41,8 +45,22 @@ export async function GET(request: NextRequest) {
       }
     }
     
+    // Signed-in users are quoted with their pricing plan; anonymous quotes use standard rates
+    let plan = null;
+    const authHeader = request.headers.get('Authorization');
+    if (authHeader?.startsWith('Bearer ')) {
+      const decodedToken = await verifyIdToken(authHeader.split('Bearer ')[1]);
+      if (!decodedToken) {
+        return NextResponse.json(
+          { error: 'Invalid authentication token' },
+          { status: 401, headers: corsHeaders }
+        );
+      }
+      plan = await getUserPricingPlan(decodedToken.uid);
+    }
+    
     // Get pricing for the phone number
-    const pricing = await getPriceForPhoneNumber(phoneNumber);
+    const pricing = await getPriceForPhoneNumber(phoneNumber, { plan });
     
     if (!pricing) {
       return NextResponse.json(
@@ -56,7 +74,9 @@ export async function GET(request: NextRequest) {
       const cost = calculateCallCost(
         pricing.finalPrice, 
         duration, 
-        pricing.billingIncrement
+        pricing.billingIncrement,
+        pricing.initialIncrement,
+        pricing.connectionFee
       );
       
       return NextResponse.json({
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { checkPromoCode, redeemPromoCode } from '@/lib/promo-codes';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+interface RedeemRequest {
+  code: string;
+}
+
+/**
+ * POST handler to redeem a promo code
+ * Fixed credits are added to the balance straight away. Top-up bonus codes are only
+ * checked here; the bonus is added when a top-up made with the code is paid.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /promo-codes/redeem] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const userId = decodedToken.uid;
+
+    // 2. Validate Input
+    const { code } = (await req.json()) as RedeemRequest;
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'Enter a promo code.' }, { status: 400 });
+    }
+
+    // 3. Check the code, and redeem it if it's a fixed credit
+    const check = await checkPromoCode(userId, code);
+    if (!check.success) {
+      return NextResponse.json({ error: check.error }, { status: 400 });
+    }
+
+    if (check.promo.type === 'percentage_bonus') {
+      return NextResponse.json({ code: check.promo.code, type: check.promo.type, value: check.promo.value });
+    }
+
+    const redemption = await redeemPromoCode(userId, code);
+    if (!redemption.success) {
+      return NextResponse.json({ error: redemption.error }, { status: 400 });
+    }
+
+    console.log(`[API /promo-codes/redeem] User ${userId} redeemed ${redemption.promo.code} for $${redemption.credit}`);
+    return NextResponse.json({
+      code: redemption.promo.code,
+      type: redemption.promo.type,
+      value: redemption.promo.value,
+      credit: redemption.credit
+    });
+
+  } catch (error: unknown) {
+    console.error('[API /promo-codes/redeem] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to redeem promo code: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { buildReceiptPdf, emailPdf } from '@/lib/receipts';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler to download the PDF receipt for a top-up (?transactionId=...)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /receipts] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Build the receipt
+    const transactionId = req.nextUrl.searchParams.get('transactionId');
+    if (!transactionId) {
+      return NextResponse.json({ error: 'transactionId is required.' }, { status: 400 });
+    }
+
+    const file = await buildReceiptPdf(decodedToken.uid, transactionId);
+    if (!file) {
+      return NextResponse.json({ error: 'Receipt not found.' }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(file.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${file.filename}"`
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('[API /receipts] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to create receipt: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * POST handler to email the PDF receipt for a top-up to the user
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /receipts] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    if (!decodedToken.email) {
+      return NextResponse.json({ error: 'Your account has no email address.' }, { status: 400 });
+    }
+
+    // 2. Build and send the receipt
+    const { transactionId } = await req.json();
+    if (typeof transactionId !== 'string' || !transactionId) {
+      return NextResponse.json({ error: 'transactionId is required.' }, { status: 400 });
+    }
+
+    const file = await buildReceiptPdf(decodedToken.uid, transactionId);
+    if (!file) {
+      return NextResponse.json({ error: 'Receipt not found.' }, { status: 404 });
+    }
+
+    const sent = await emailPdf(decodedToken.email, 'receipt', file, `Receipt ${transactionId}`);
+    if (!sent) {
+      return NextResponse.json({ error: 'Email could not be sent. Please download the receipt instead.' }, { status: 503 });
+    }
+
+    console.log(`[API /receipts] Emailed receipt ${transactionId} to user ${decodedToken.uid}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /receipts] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to email receipt: ${errorMessage}` }, { status: 500 });
+  }
+}
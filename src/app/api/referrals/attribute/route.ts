@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { attributeReferral } from '@/lib/referrals';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+interface AttributeRequest {
+  code: string;
+}
+
+/**
+ * POST handler to record the referral code a new user signed up with
+ * Called by ensureUserDocument right after the user's document is created.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /referrals/attribute] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    const userId = decodedToken.uid;
+
+    // 2. Validate Input
+    const { code } = (await req.json()) as AttributeRequest;
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'Invalid input: code is required.' }, { status: 400 });
+    }
+
+    // 3. Attribute the referral
+    const error = await attributeReferral(userId, code);
+    if (error) {
+      console.log(`[API /referrals/attribute] Referral code ${code} not attributed to user ${userId}: ${error}`);
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    console.log(`[API /referrals/attribute] User ${userId} attributed to referral code ${code}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /referrals/attribute] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to record referral: ${errorMessage}` }, { status: 500 });
+  }
+}
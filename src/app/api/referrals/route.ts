@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { getReferralSummary } from '@/lib/referrals';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the user's referral code, the current rewards and what they've earned
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /referrals] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Load the summary (creates the code the first time)
+    const summary = await getReferralSummary(decodedToken.uid);
+    return NextResponse.json({
+      code: summary.code,
+      enabled: summary.settings.enabled,
+      referrerReward: summary.settings.referrerReward,
+      refereeReward: summary.settings.refereeReward,
+      referredCount: summary.referredCount,
+      rewardedCount: summary.rewardedCount,
+      totalEarned: summary.totalEarned
+    });
+
+  } catch (error: unknown) {
+    console.error('[API /referrals] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load referrals: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { buildStatementPdf, emailPdf, parseStatementMonth } from '@/lib/receipts';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler to download a monthly statement PDF (?month=YYYY-MM)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /statements] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Build the statement
+    const month = req.nextUrl.searchParams.get('month') || '';
+    if (!parseStatementMonth(month)) {
+      return NextResponse.json({ error: 'month must be a past or current month as YYYY-MM.' }, { status: 400 });
+    }
+
+    const file = await buildStatementPdf(decodedToken.uid, month);
+    if (!file) {
+      return NextResponse.json({ error: 'Statement not found.' }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(file.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${file.filename}"`
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('[API /statements] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to create statement: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * POST handler to email a monthly statement PDF to the user
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /statements] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+    if (!decodedToken.email) {
+      return NextResponse.json({ error: 'Your account has no email address.' }, { status: 400 });
+    }
+
+    // 2. Build and send the statement
+    const { month } = await req.json();
+    const period = typeof month === 'string' ? parseStatementMonth(month) : null;
+    if (!period) {
+      return NextResponse.json({ error: 'month must be a past or current month as YYYY-MM.' }, { status: 400 });
+    }
+
+    const file = await buildStatementPdf(decodedToken.uid, month);
+    if (!file) {
+      return NextResponse.json({ error: 'Statement not found.' }, { status: 404 });
+    }
+
+    const sent = await emailPdf(decodedToken.email, 'statement', file, `Statement for ${period.label}`);
+    if (!sent) {
+      return NextResponse.json({ error: 'Email could not be sent. Please download the statement instead.' }, { status: 503 });
+    }
+
+    console.log(`[API /statements] Emailed ${month} statement to user ${decodedToken.uid}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /statements] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to email statement: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import {
+  createAutoRechargeSetupSession,
+  removeAutoRechargePaymentMethod,
+  updateAutoRechargeSettings
+} from '@/lib/auto-recharge';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+interface AutoRechargeSettingsRequest {
+  enabled: boolean;
+  threshold: number; // USD
+  amount: number;    // USD
+}
+
+/**
+ * POST handler to start saving a card for auto-recharge
+ * Returns the Stripe Checkout (setup mode) URL to redirect the user to.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API auto-recharge] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // Server-side APP_URL takes precedence, as for top-up checkout
+    const appUrl = process.env.APP_URL || process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin;
+    const url = await createAutoRechargeSetupSession(decodedToken.uid, decodedToken.email, appUrl);
+
+    console.log(`[API auto-recharge] Created card setup session for user ${decodedToken.uid}`);
+    return NextResponse.json({ url });
+  } catch (error: unknown) {
+    console.error('[API auto-recharge] Error creating setup session:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to start card setup: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * PUT handler to save the threshold and amount and turn auto-recharge on or off
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API auto-recharge] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    const { enabled, threshold, amount } = (await req.json()) as AutoRechargeSettingsRequest;
+    const validationError = await updateAutoRechargeSettings(decodedToken.uid, { enabled, threshold, amount });
+
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    console.log(`[API auto-recharge] User ${decodedToken.uid} set auto-recharge ${enabled ? 'on' : 'off'}: below $${threshold} add $${amount}`);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('[API auto-recharge] Error saving settings:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to save auto-recharge settings: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE handler to remove the saved card and turn auto-recharge off
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API auto-recharge] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    await removeAutoRechargePaymentMethod(decodedToken.uid);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('[API auto-recharge] Error removing card:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to remove card: ${errorMessage}` }, { status: 500 });
+  }
+}
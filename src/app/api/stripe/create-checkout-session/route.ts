@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin'; // Needed to verify user token
+import { getExchangeRates } from '@/lib/pricing/pricing-db-client';
+import { getExchangeRate } from '@/lib/pricing/pricing-engine';
+import { SUPPORTED_CURRENCIES } from '@/types/pricing';
+import { checkPromoCode, normalizePromoCode } from '@/lib/promo-codes';
+import { quoteTax, taxQuoteMetadata } from '@/lib/tax';
+import { releaseTopUpReservation, reserveTopUp } from '@/lib/top-up-policy';
 
 // Initialize Firebase Admin (needed for auth check)
 initializeFirebaseAdmin();
@@ -17,7 +23,9 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
 });
 
 interface CheckoutRequest {
-  amount: number; // Amount in dollars
+  amount: number; // Amount in the checkout currency (e.g., 20 for $20 or €20)
+  currency?: string; // ISO currency code to charge in; defaults to USD
+  promoCode?: string; // Top-up bonus code, redeemed by the webhook once paid
 }
 
 export async function POST(req: NextRequest) {
@@ -45,21 +53,53 @@ export async function POST(req: NextRequest) {
     const userEmail = decodedToken.email; // Get email for Stripe session (optional but good)
 
     // 2. Get and Validate Amount
-    const { amount } = (await req.json()) as CheckoutRequest;
+    const { amount, currency: requestedCurrency, promoCode: requestedPromoCode } = (await req.json()) as CheckoutRequest;
+    const currency = (requestedCurrency || 'USD').toUpperCase();
 
     if (typeof amount !== 'number' || amount <= 0 || !Number.isFinite(amount)) {
       return NextResponse.json({ error: 'Invalid amount specified. Amount must be a positive number.' }, { status: 400 });
     }
-    
-    // Simple validation (align with modal validation if possible)
-    const MIN_ADD_AMOUNT = 5;
-    const MAX_ADD_AMOUNT = 100;
-    const INCREMENT = 5;
-    if (amount < MIN_ADD_AMOUNT || amount > MAX_ADD_AMOUNT || (amount * 100) % (INCREMENT * 100) !== 0) {
-        return NextResponse.json({ error: `Invalid amount. Must be between $${MIN_ADD_AMOUNT}-${MAX_ADD_AMOUNT} in increments of $${INCREMENT}.` }, { status: 400 });
+    if (Math.round(amount * 100) !== amount * 100) {
+      return NextResponse.json({ error: 'Invalid amount. Use at most two decimal places.' }, { status: 400 });
+    }
+
+    if (!SUPPORTED_CURRENCIES.includes(currency)) {
+        return NextResponse.json({ error: `Unsupported currency: ${currency}` }, { status: 400 });
+    }
+
+    // Balances are kept in USD, so convert at today's admin-set rate and record both amounts
+    const exchangeRate = getExchangeRate(currency, await getExchangeRates());
+    if (exchangeRate === null) {
+        return NextResponse.json({ error: `No exchange rate is set for ${currency}` }, { status: 400 });
+    }
+    const amountUsd = Math.round((amount / exchangeRate) * 100) / 100;
+
+    // Bonus codes are checked now so the user isn't charged expecting a bonus they won't get
+    const promoCode = requestedPromoCode ? normalizePromoCode(requestedPromoCode) : null;
+    if (promoCode) {
+        const promoCheck = await checkPromoCode(userId, promoCode, amountUsd);
+        if (!promoCheck.success) {
+            return NextResponse.json({ error: promoCheck.error }, { status: 400 });
+        }
+        if (promoCheck.promo.type !== 'percentage_bonus') {
+            return NextResponse.json({ error: 'This promo code adds credit directly. Redeem it without topping up.' }, { status: 400 });
+        }
+    }
+
+    // VAT/GST is added on top of the top-up based on the user's billing country
+    const taxQuote = await quoteTax(userId, amount, exchangeRate);
+    if (!taxQuote.country) {
+        return NextResponse.json({ error: 'Add your billing country in Account Details before topping up.' }, { status: 400 });
     }
 
-    // Convert amount to cents for Stripe
+    // Amounts and per-user limits come from the admin-set top-up policy.
+    // The amount is held against the limits until the session is paid or expires, so open sessions can't stack up.
+    const reservation = await reserveTopUp(userId, amount, amountUsd);
+    if (typeof reservation === 'string') {
+        return NextResponse.json({ error: reservation }, { status: 400 });
+    }
+
+    // Convert amount to cents (or the currency's minor unit) for Stripe
     const amountInCents = Math.round(amount * 100);
 
     // 3. Define URLs - PRIORITIZE SERVER-SIDE APP_URL
@@ -94,7 +134,7 @@ export async function POST(req: NextRequest) {
     console.log(`[API create-checkout] Success redirect URL: ${successUrl}`);
     console.log(`[API create-checkout] Cancel redirect URL: ${cancelUrl}`);
 
-    console.log(`[API create-checkout] Creating session for user ${userId} to add $${amount}`);
+    console.log(`[API create-checkout] Creating session for user ${userId} to add ${amount} ${currency} ($${amountUsd}) plus ${taxQuote.taxAmount} ${currency} tax`);
 
     // 4. Create Stripe Checkout Session
     const session = await stripe.checkout.sessions.create({
@@ -102,29 +142,64 @@ export async function POST(req: NextRequest) {
       line_items: [
         {
           price_data: {
-            currency: 'usd',
+            currency: currency.toLowerCase(),
             product_data: {
               name: 'ZippCall Funds',
-              description: `Add $${amount.toFixed(2)} to your ZippCall balance.`,
+              description: currency === 'USD'
+                ? `Add $${amount.toFixed(2)} to your ZippCall balance.`
+                : `Add ${amount.toFixed(2)} ${currency} (US$${amountUsd.toFixed(2)}) to your ZippCall balance.`,
               // Add images if desired: images: ['your_logo_url.png'],
             },
             unit_amount: amountInCents, // Amount in cents
           },
           quantity: 1,
         },
+        // Shown as its own line so the user sees the tax separately from the credit
+        ...(taxQuote.taxAmount > 0 ? [{
+          price_data: {
+            currency: currency.toLowerCase(),
+            product_data: {
+              name: `${taxQuote.taxName} (${taxQuote.taxRate}%)`,
+            },
+            unit_amount: Math.round(taxQuote.taxAmount * 100),
+          },
+          quantity: 1,
+        }] : []),
       ],
       mode: 'payment',
       success_url: successUrl,
       cancel_url: cancelUrl,
+      // Expires with the reservation, so an abandoned session can't be paid after its hold is gone
+      expires_at: Math.floor(reservation.expiresAt.getTime() / 1000),
       // Pre-fill email if available
       customer_email: userEmail,
       // IMPORTANT: Attach metadata to link session back to your user and the amount
       metadata: {
         userId: userId, 
-        amountToAdd: amount.toString(), // Store original dollar amount as string
+        amountToAdd: amountUsd.toString(), // USD amount credited to the balance, as string
+        // Non-USD top-ups also record the amount charged and the rate used
+        ...(currency !== 'USD' && {
+          originalAmount: amount.toString(),
+          originalCurrency: currency,
+          exchangeRate: exchangeRate.toString(),
+        }),
+        ...(promoCode && { promoCode }),
+        ...taxQuoteMetadata(taxQuote),
+        topUpReservationId: reservation.reservationId,
+      },
+      // Copied to the PaymentIntent so refunds and disputes on the charge can be traced back to the user
+      payment_intent_data: {
+        metadata: {
+          userId: userId,
+          amountToAdd: amountUsd.toString(),
+        },
       },
       // Use client_reference_id if you only need the userId
       // client_reference_id: userId,
+    }).catch(async (error) => {
+      // Nothing will pay for this hold, so give the allowance back
+      await releaseTopUpReservation(userId, reservation.reservationId);
+      throw error;
     });
 
     // 5. Return the Session ID
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { getExchangeRates } from '@/lib/pricing/pricing-db-client';
+import { getExchangeRate } from '@/lib/pricing/pricing-engine';
+import { quoteTax } from '@/lib/tax';
+import { SUPPORTED_CURRENCIES } from '@/types/pricing';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the VAT/GST on a top-up before checkout (?amount=20&currency=EUR)
+ * Uses the same calculation as create-checkout-session.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /tax-quote] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Validate the amount and currency
+    const amount = parseFloat(req.nextUrl.searchParams.get('amount') || '');
+    const currency = (req.nextUrl.searchParams.get('currency') || 'USD').toUpperCase();
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json({ error: 'Invalid amount specified. Amount must be a positive number.' }, { status: 400 });
+    }
+    if (!SUPPORTED_CURRENCIES.includes(currency)) {
+      return NextResponse.json({ error: `Unsupported currency: ${currency}` }, { status: 400 });
+    }
+
+    const exchangeRate = getExchangeRate(currency, await getExchangeRates());
+    if (exchangeRate === null) {
+      return NextResponse.json({ error: `No exchange rate is set for ${currency}` }, { status: 400 });
+    }
+
+    // 3. Quote the tax
+    const quote = await quoteTax(decodedToken.uid, amount, exchangeRate);
+    return NextResponse.json(quote);
+
+  } catch (error: unknown) {
+    console.error('[API /tax-quote] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to calculate tax: ${errorMessage}` }, { status: 500 });
+  }
+}
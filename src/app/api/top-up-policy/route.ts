@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { getExchangeRates } from '@/lib/pricing/pricing-db-client';
+import { getExchangeRate } from '@/lib/pricing/pricing-engine';
+import { getRemainingTopUpAllowance, getTopUpPolicy } from '@/lib/top-up-policy';
+import { TopUpAllowance } from '@/types/billing';
+import { SUPPORTED_CURRENCIES } from '@/types/pricing';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the amounts the user can top up right now (?currency=EUR)
+ * The Add Funds modal renders from this; create-checkout-session enforces the same policy.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /top-up-policy] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Resolve the checkout currency
+    const currency = (req.nextUrl.searchParams.get('currency') || 'USD').toUpperCase();
+    if (!SUPPORTED_CURRENCIES.includes(currency)) {
+      return NextResponse.json({ error: `Unsupported currency: ${currency}` }, { status: 400 });
+    }
+    const exchangeRate = getExchangeRate(currency, await getExchangeRates());
+    if (exchangeRate === null) {
+      return NextResponse.json({ error: `No exchange rate is set for ${currency}` }, { status: 400 });
+    }
+
+    // 3. Combine the policy with the user's remaining limits (kept in USD)
+    const policy = await getTopUpPolicy();
+    const { remaining, limitReason } = await getRemainingTopUpAllowance(decodedToken.uid, policy);
+    const remainingInCurrency = Math.floor(remaining * exchangeRate * 100) / 100;
+    const allowance: TopUpAllowance = {
+      amounts: policy.amounts,
+      minAmount: policy.minAmount,
+      maxAmount: Math.min(policy.maxAmount, remainingInCurrency),
+      limitReason: remainingInCurrency < policy.maxAmount ? limitReason : null
+    };
+    return NextResponse.json(allowance);
+
+  } catch (error: unknown) {
+    console.error('[API /top-up-policy] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load top-up limits: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -9,17 +9,26 @@ initializeFirebaseAdmin();
 // Match the fields we are saving in the other API routes
 interface TransactionData {
   id: string; // Document ID
-  type: 'deposit' | 'call' | 'adjustment'; // Add more types as needed
+  type: 'deposit' | 'call' | 'number_rental' | 'adjustment' | 'refund' | 'dispute' | 'promo' | 'referral'; // Add more types as needed
   amount: number;
   currency: string;
   status: string;
   source: string;
   createdAt: string; // ISO string format for frontend
+  balanceAfter?: number; // Balance once this transaction was applied (ledger entries only)
   // Optional fields based on type
   stripeSessionId?: string;
   callId?: string;
   phoneNumber?: string;
   durationSeconds?: number;
+  direction?: 'incoming'; // Calls: set for inbound calls to a rented number
+  category?: string; // Adjustments: refund, goodwill_credit or correction
+  reason?: string;   // Adjustments: why the balance was changed
+  promoCode?: string; // Promo credits: the code redeemed
+  // Set when the user paid in another currency
+  originalAmount?: number;
+  originalCurrency?: string;
+  exchangeRate?: number;
 }
 
 const MAX_TRANSACTIONS_TO_FETCH = 50; // Limit the number of transactions fetched
@@ -71,10 +80,20 @@ export async function GET(req: NextRequest) {
             source: data.source || 'unknown',
             createdAt: createdAtIso,
             // Include optional fields if they exist
+            ...(typeof data.balanceAfter === 'number' && { balanceAfter: data.balanceAfter }),
             ...(data.stripeSessionId && { stripeSessionId: data.stripeSessionId }),
             ...(data.callId && { callId: data.callId }),
             ...(data.phoneNumber && { phoneNumber: data.phoneNumber }),
             ...(data.durationSeconds !== undefined && { durationSeconds: data.durationSeconds }),
+            ...(data.direction === 'incoming' && { direction: data.direction }),
+            ...(data.category && { category: data.category }),
+            ...(data.reason && { reason: data.reason }),
+            ...(data.promoCode && { promoCode: data.promoCode }),
+            ...(data.originalCurrency && {
+                originalAmount: data.originalAmount,
+                originalCurrency: data.originalCurrency,
+                exchangeRate: data.exchangeRate,
+            }),
         });
     });
 
@@ -4,6 +4,11 @@ import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin
 import { FieldValue } from 'firebase-admin/firestore';
 // Import pricing functions
 import { getPriceForPhoneNumber, calculateCallCost } from '@/lib/pricing/pricing-engine';
+import { getUserPricingPlan } from '@/lib/pricing/pricing-db-admin';
+import { recordLedgerEntry } from '@/lib/ledger';
+import { maybeTriggerAutoRecharge } from '@/lib/auto-recharge';
+import { getVirtualNumberSettings } from '@/lib/virtual-numbers';
+import { INBOUND_BILLING_INCREMENT } from '@/types/virtual-number';
 // Import twilio library for validation
 import twilio from 'twilio';
 
@@ -70,12 +75,17 @@ export async function POST(req: NextRequest) {
         const callSid = body.CallSid;
         const callStatus = body.CallStatus;
         const callDurationStr = body.CallDuration; // Duration in seconds (string)
-        const to = body.To; // The number that was called
-        const from = body.From; // The caller ID used
+        const to = body.To; // The number that was called (client:<userId> for incoming calls)
+        const from = body.From; // The caller ID used (the caller's number for incoming calls)
         const accountSid = body.AccountSid;
 
         // Get UserId from query param using the validated url
-        const userId = new URL(url).searchParams.get('UserId');
+        const searchParams = new URL(url).searchParams;
+        const userId = searchParams.get('UserId');
+        // Incoming calls to a rented number are flagged by /api/voice, along with the number called
+        const direction: 'incoming' | 'outgoing' = searchParams.get('Direction') === 'incoming' ? 'incoming' : 'outgoing';
+        const virtualNumber = searchParams.get('VirtualNumber');
+        const otherParty = direction === 'incoming' ? from : to; // Who the user talked to
         
         console.log(`PUBLIC CALLBACK Processing: CallSid=${callSid}, Status=${callStatus}, Duration=${callDurationStr}s, UserId=${userId}`);
 
@@ -116,7 +126,8 @@ export async function POST(req: NextRequest) {
             case 'no-answer': appStatus = 'missed'; break;
             case 'busy': appStatus = 'rejected'; break;
             case 'failed': appStatus = 'failed'; break;
-            case 'canceled': appStatus = 'canceled'; break;
+            // An incoming call the caller hung up on before it was answered was missed by the user
+            case 'canceled': appStatus = direction === 'incoming' ? 'missed' : 'canceled'; break;
             default: 
                 console.warn(`[Public Callback] Unknown Twilio status: ${callStatus} for CallSid: ${callSid}`);
                 appStatus = 'unknown'; // Handle unexpected statuses
@@ -125,23 +136,50 @@ export async function POST(req: NextRequest) {
 
         // --- Add Cost Calculation Logic --- 
         let finalCost = 0;
+        let ratePerMinute: number | null = null; // Marked-up rate the call was billed at
+        let destinationDescription: string | null = null; // e.g. "United Kingdom - Mobile" when billed by prefix
+        let priceBookVersion: number | null = null; // Price book that priced this call
+        let pricingPlanId: string | null = null; // Custom pricing plan the user was billed under
         // Only calculate cost if the call was answered and had duration
         if (appStatus === 'answered' && durationToSave > 0) {
-            try {
-                const pricingInfo = await getPriceForPhoneNumber(to);
-                if (pricingInfo && !pricingInfo.isUnsupported) {
-                    finalCost = calculateCallCost(
-                        pricingInfo.finalPrice, // Use the calculated final price from pricing engine
-                        durationToSave,
-                        pricingInfo.billingIncrement
-                    );
-                    console.log(`[Public Callback] Calculated cost for ${durationToSave}s to ${to}: ${finalCost}`);
-                } else {
-                    console.warn(`[Public Callback] Could not get pricing or country unsupported for ${to}. Setting cost to 0 for CallSid: ${callSid}`);
+            if (direction === 'incoming') {
+                // Incoming minutes are billed at the flat inbound rate, per started minute
+                try {
+                    const settings = await getVirtualNumberSettings();
+                    ratePerMinute = settings.inboundRatePerMinute;
+                    destinationDescription = 'Incoming call';
+                    finalCost = calculateCallCost(settings.inboundRatePerMinute, durationToSave, INBOUND_BILLING_INCREMENT);
+                    console.log(`[Public Callback] Calculated cost for ${durationToSave}s incoming from ${from}: ${finalCost}`);
+                } catch (pricingError) {
+                    console.error(`[Public Callback] Error loading inbound rate for CallSid ${callSid}:`, pricingError);
+                }
+            } else {
+                try {
+                    // Price at the call's start so a scheduled change mid-call doesn't reprice it
+                    const callStartTime = new Date(Date.now() - durationToSave * 1000);
+                    const plan = await getUserPricingPlan(userId);
+                    const pricingInfo = await getPriceForPhoneNumber(to, { at: callStartTime, plan });
+                    if (pricingInfo && !pricingInfo.isUnsupported) {
+                        // finalPrice already has the live markup config (and the user's plan) applied by the pricing engine
+                        ratePerMinute = pricingInfo.finalPrice;
+                        destinationDescription = pricingInfo.description ?? null;
+                        priceBookVersion = pricingInfo.priceBookVersion ?? null;
+                        pricingPlanId = pricingInfo.pricingPlanId ?? null;
+                        finalCost = calculateCallCost(
+                            pricingInfo.finalPrice, // Use the calculated final price from pricing engine
+                            durationToSave,
+                            pricingInfo.billingIncrement,
+                            pricingInfo.initialIncrement,
+                            pricingInfo.connectionFee
+                        );
+                        console.log(`[Public Callback] Calculated cost for ${durationToSave}s to ${to}: ${finalCost}`);
+                    } else {
+                        console.warn(`[Public Callback] Could not get pricing or country unsupported for ${to}. Setting cost to 0 for CallSid: ${callSid}`);
+                    }
+                } catch (pricingError) {
+                     console.error(`[Public Callback] Error fetching or calculating pricing for ${to}:`, pricingError);
+                     // Keep cost at 0 if pricing fails
                 }
-            } catch (pricingError) {
-                 console.error(`[Public Callback] Error fetching or calculating pricing for ${to}:`, pricingError);
-                 // Keep cost at 0 if pricing fails
             }
         } else {
              console.log(`[Public Callback] Call status is '${appStatus}' or duration is 0. Setting cost to 0 for CallSid: ${callSid}`);
@@ -154,9 +192,13 @@ export async function POST(req: NextRequest) {
             status: appStatus, // Use our mapped status
             duration: durationToSave,
             cost: finalCost, // Use the calculated cost
-            phoneNumber: to,
-            callerId: from,
-            direction: 'outgoing',
+            ratePerMinute: ratePerMinute,
+            destinationDescription: destinationDescription,
+            priceBookVersion: priceBookVersion,
+            pricingPlanId: pricingPlanId,
+            phoneNumber: otherParty,
+            callerId: direction === 'incoming' ? virtualNumber : from,
+            direction: direction,
             timestamp: FieldValue.serverTimestamp(), // Use server timestamp for the event time
             twilioStatus: callStatus, // Store the original Twilio status
             accountSid: accountSid,
@@ -195,12 +237,10 @@ export async function POST(req: NextRequest) {
                     }
                     // --- End Idempotency Check --- 
 
-                    // Check for sufficient funds (add tolerance for floating point)
-                    const tolerance = 0.0001;
-                    let insufficientFunds = false;
-                    if (currentBalance < finalCost - tolerance) {
-                        console.warn(`[Public Callback] Transaction: User ${userId} has insufficient funds (${currentBalance}) for call cost (${finalCost}). Balance will not be deducted.`);
-                        insufficientFunds = true;
+                    // Calls that ran past the timeLimit estimate, or raced another call, can cost more than the balance.
+                    // The full cost is still charged and the balance goes negative (as refunds can), so the call isn't free.
+                    if (currentBalance < finalCost) {
+                        console.warn(`[Public Callback] Transaction: User ${userId} balance (${currentBalance}) is below call cost (${finalCost}). Charging in full; balance goes negative.`);
                     }
 
                     // Always update Call History within the transaction
@@ -208,36 +248,26 @@ export async function POST(req: NextRequest) {
                     transaction.set(callHistoryRef, callDataToUpdate, { merge: true }); 
                     console.log(`[Public Callback] Transaction: Updated call history for ${callSid}.`);
 
-                    let deductedAmount = 0;
-                    // Update Balance & create transaction record ONLY if sufficient funds AND idempotency check passed
-                    if (!insufficientFunds) {
-                        transaction.update(userRef, {
-                            balance: FieldValue.increment(-finalCost)
-                        });
-                        deductedAmount = finalCost;
-                        console.log(`[Public Callback] Transaction: Decremented balance by ${finalCost} for user ${userId}.`);
-                        
-                        // Create a transaction record for the deduction
-                        const transactionRef = userRef.collection('transactions').doc(); 
-                        transaction.set(transactionRef, {
-                            type: 'call',
-                            amount: -finalCost,
-                            currency: 'usd',
-                            status: 'completed',
-                            source: 'system',
+                    // Deduct the cost from the wallet as revenue (idempotency check passed)
+                    const balanceAfter = recordLedgerEntry(transaction, userDoc, {
+                        type: 'call',
+                        amount: -finalCost,
+                        counterAccount: 'revenue',
+                        source: 'system',
+                        details: {
                             callId: callSid,
-                            phoneNumber: to,
+                            phoneNumber: otherParty,
                             durationSeconds: durationToSave,
-                            createdAt: FieldValue.serverTimestamp()
-                        });
-                         console.log(`[Public Callback] Transaction: Created transaction record for call ${callSid}.`);
-                    } else {
-                         // Insufficient funds case handled above
-                    }
-
-                    return currentBalance - deductedAmount; 
+                            ...(direction === 'incoming' && { direction })
+                        }
+                    });
+                    console.log(`[Public Callback] Transaction: Decremented balance by ${finalCost} for user ${userId} and created transaction record for call ${callSid}.`);
+                    return balanceAfter;
                 });
                 console.log(`[Public Callback] Transaction successful for CallSid: ${callSid}. User ${userId} new balance approx: ${newBalance}`);
+
+                // Top up from the saved card if this call took the balance below the user's threshold
+                await maybeTriggerAutoRecharge(userId, newBalance);
             } else {
                 // If cost is 0, just record the call history directly. Idempotency still matters for the record itself.
                 console.log(`[Public Callback] Cost is 0 for CallSid: ${callSid}. Recording history directly.`);
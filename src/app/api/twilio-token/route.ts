@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import twilio from 'twilio';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
 
 // Your Twilio credentials should be stored in environment variables
 const accountSid = process.env.TWILIO_ACCOUNT_SID;
@@ -9,14 +13,22 @@ const twimlAppSid = process.env.TWILIO_TWIML_APP_SID;
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId } = await request.json();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      );
+    // 1. Verify User Authentication
+    // The token's identity is who /api/voice bills and rings for the rented number, so it must be the signed-in user
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /twilio-token] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
     }
+    const userId = decodedToken.uid;
     
     // Ensure all required env variables are present
     if (!accountSid || !apiKey || !apiSecret || !twimlAppSid) {
@@ -34,7 +46,7 @@ export async function POST(request: NextRequest) {
     // Create a Voice grant for this token
     const voiceGrant = new VoiceGrant({
       outgoingApplicationSid: twimlAppSid,
-      incomingAllow: false,
+      incomingAllow: true, // Rings for calls to the user's rented number
     });
 
     // Create an access token which we will sign and return to the client
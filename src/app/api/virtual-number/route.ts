@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import {
+  getUserVirtualNumber,
+  getVirtualNumberSettings,
+  listAvailableVirtualNumbers,
+  releaseVirtualNumber,
+  rentVirtualNumber
+} from '@/lib/virtual-numbers';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the user's rented number, the current fees, and numbers available to rent
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /virtual-number] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Load the rental and, if the user has none, what they could rent
+    const [virtualNumber, settings] = await Promise.all([
+      getUserVirtualNumber(decodedToken.uid),
+      getVirtualNumberSettings()
+    ]);
+    const available = !virtualNumber && settings.enabled ? await listAvailableVirtualNumbers() : [];
+
+    return NextResponse.json({
+      virtualNumber,
+      enabled: settings.enabled,
+      monthlyFee: settings.monthlyFee,
+      inboundRatePerMinute: settings.inboundRatePerMinute,
+      available
+    });
+
+  } catch (error: unknown) {
+    console.error('[API /virtual-number] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load virtual number: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * POST handler to rent a number ({ number }), charging the first month from the balance
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /virtual-number] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Rent the number
+    const { number } = await req.json();
+    if (typeof number !== 'string' || !number) {
+      return NextResponse.json({ error: 'number is required.' }, { status: 400 });
+    }
+
+    const result = await rentVirtualNumber(decodedToken.uid, number);
+    if (typeof result === 'string') {
+      return NextResponse.json({ error: result }, { status: 400 });
+    }
+
+    return NextResponse.json({ virtualNumber: result }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('[API /virtual-number] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to rent number: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE handler to release the user's rented number (the current month isn't refunded)
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /virtual-number] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Release the number
+    const released = await releaseVirtualNumber(decodedToken.uid, 'released by user');
+    if (!released) {
+      return NextResponse.json({ error: 'You don\'t rent a number' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /virtual-number] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to release number: ${errorMessage}` }, { status: 500 });
+  }
+}
@@ -1,29 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
 import twilio from 'twilio';
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { getPriceForPhoneNumber, calculateMaxCallDuration } from '@/lib/pricing/pricing-engine';
+import { getUserPricingPlan } from '@/lib/pricing/pricing-db-admin';
+import { isCallerIdAllowed } from '@/lib/caller-id';
+import { selectPoolNumber } from '@/lib/twilio-numbers';
+import { getRentalForNumber, getVirtualNumberSettings } from '@/lib/virtual-numbers';
+import { INBOUND_BILLING_INCREMENT } from '@/types/virtual-number';
+import { appendVoicemailPrompt } from '@/lib/voicemail';
 
 // FIXED: Force using the production URL for callbacks
 // Instead of using VERCEL_URL which gives us preview URLs that have auth requirements
 const appBaseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://app.zippcall.com';
 // Avoid using this: process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : process.env.NEXT_PUBLIC_APP_URL
 
+// How long an inbound call rings the user's browser before going to voicemail
+const INBOUND_RING_SECONDS = 30;
+
 console.log(`[voice] Using base URL for callbacks: ${appBaseUrl}`);
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const to = formData.get('To') as string;
-    // Get caller ID from formData if provided, fall back to environment variable
-    const callerId = formData.get('CallerId') as string || process.env.TWILIO_CALLER_ID;
-    // --- Added: Get UserId from the form data ---
-    const userId = formData.get('UserId') as string;
+    // Browser (Voice SDK) calls come from client:<userId>; anything else is a call to one of our numbers
+    const from = formData.get('From') as string;
+    const isFromBrowser = !!from?.startsWith('client:');
+    // Verified caller ID chosen by the user, if any; checked below
+    const requestedCallerId = formData.get('CallerId') as string;
+    // The caller is the identity in the signed access token (/api/twilio-token), which Twilio sends as From.
+    // Never trust a user ID from the client's call params: it picks who is billed and whose caller IDs apply.
+    const userId = isFromBrowser ? from.slice('client:'.length) : '';
     
     const twiml = new twilio.twiml.VoiceResponse();
 
-    // If the request contains a To parameter, we are making an outbound call
-    if (to) {
-      // --- Added: Check if UserId was provided ---
+    // If the browser sent a To parameter, we are making an outbound call
+    if (to && isFromBrowser) {
       if (!userId) {
-          console.error('[voice] Missing UserId parameter for outgoing call.');
+          console.error('[voice] Missing client identity for outgoing call.');
           twiml.say('Error: Missing user identification.');
           twiml.hangup();
           return new NextResponse(twiml.toString(), {
@@ -36,24 +50,72 @@ export async function POST(request: NextRequest) {
       const statusCallbackUrl = `${appBaseUrl}/api/twilio-public-callback?UserId=${encodeURIComponent(userId)}`;
       console.log(`[voice] Setting statusCallbackUrl: ${statusCallbackUrl}`);
 
-      // If the To parameter starts with client:, we're making a client-to-client call
-      // Note: Status callbacks might work differently or not be needed for client calls
-      if (to.startsWith('client:')) {
-        const clientId = to.replace('client:', '');
-        // Consider if status callbacks are needed/supported for client dialing
-        twiml.dial().client(clientId);
+      // Browsers only dial phone numbers. Another user's browser rings through the number they rent,
+      // which is billed; dialing their client identity directly would be free and anonymous.
+      if (to.trim().startsWith('client:')) {
+        console.warn(`[voice] UserId ${userId} tried to dial client identity ${to}. Refusing call.`);
+        twiml.say('Sorry, this call cannot be completed.');
+        twiml.hangup();
       } else {
         // Otherwise, we're making a call to a regular phone number
-        // Use provided caller ID or fall back to default
+
+        // Ensure the phone number is properly formatted without leading spaces
+        const formattedNumber = to.trim();
+
+        // --- Balance Check: limit the call to what the user's balance can pay for ---
+        initializeFirebaseAdmin();
+        const userDoc = await getAdminFirestore().collection('users').doc(userId).get();
+        const balance = userDoc.exists ? (userDoc.data()?.balance || 0) : 0;
+        const plan = await getUserPricingPlan(userId);
+        const pricingInfo = await getPriceForPhoneNumber(formattedNumber, { plan });
+
+        if (!pricingInfo || pricingInfo.isUnsupported) {
+          console.warn(`[voice] No pricing available for ${formattedNumber}. Refusing call for UserId: ${userId}`);
+          twiml.say('Sorry, calls to this destination are not supported.');
+          twiml.hangup();
+          return new NextResponse(twiml.toString(), {
+            headers: { 'Content-Type': 'text/xml' },
+          });
+        }
+
+        const timeLimit = calculateMaxCallDuration(
+          pricingInfo.finalPrice,
+          balance,
+          pricingInfo.billingIncrement,
+          pricingInfo.initialIncrement,
+          pricingInfo.connectionFee
+        );
+
+        if (timeLimit <= 0) {
+          console.warn(`[voice] UserId ${userId} balance (${balance}) can't cover the first billing increment to ${formattedNumber}. Refusing call.`);
+          twiml.say('Your balance is too low to make this call. Please add funds and try again.');
+          twiml.hangup();
+          return new NextResponse(twiml.toString(), {
+            headers: { 'Content-Type': 'text/xml' },
+          });
+        }
+        // --- End Balance Check ---
+
+        // --- Caller ID: the user's verified number, otherwise a pool number picked for the destination ---
+        let callerId: string | undefined;
+        if (requestedCallerId) {
+          if (await isCallerIdAllowed(userId, requestedCallerId)) {
+            callerId = requestedCallerId;
+          } else {
+            console.warn(`[voice] UserId ${userId} requested caller ID ${requestedCallerId} they haven't verified. Using a pool number.`);
+          }
+        }
+        if (!callerId) {
+          callerId = await selectPoolNumber(formattedNumber);
+        }
+        // --- End Caller ID Check ---
         
         // Create the Dial verb, only passing attributes valid for <Dial> itself
         const dial = twiml.dial({ 
-            callerId: callerId 
+            callerId: callerId,
+            timeLimit: timeLimit // Ends the call when the balance runs out
             // Remove status attributes from here
         });
-
-        // Ensure the phone number is properly formatted without leading spaces
-        const formattedNumber = to.trim();
         
         // Add the <Number> noun with its specific attributes, including status callbacks
         // Type definitions correctly handle attributes here, but statusCallbackEvent needs to be an array.
@@ -65,14 +127,50 @@ export async function POST(request: NextRequest) {
         }, formattedNumber); // Phone number is the second argument
 
         // Log which caller ID is being used
-        console.log(`[voice] Making outgoing call to ${formattedNumber} with caller ID: ${callerId} for UserId: ${userId}`);
+        console.log(`[voice] Making outgoing call to ${formattedNumber} with caller ID: ${callerId} for UserId: ${userId} (time limit ${timeLimit}s)`);
       }
     } else {
-      // If there's no To parameter, we're receiving an incoming call
-      // Reject incoming calls with a message
-      twiml.say({ voice: 'alice', language: 'en-US' }, 
-        'This number belongs to Zipp Call Dot Com and does not accept incoming calls. If you were called from this number then someone was using our service to call you. Please visit our website Zipp Call Dot Come to make calls using our service.');
-      twiml.hangup();
+      // Otherwise we're receiving an incoming call: ring the browser of the user renting the number
+      const rental = to ? await getRentalForNumber(to) : null;
+
+      if (!rental) {
+        // Pool numbers nobody rents don't accept incoming calls
+        twiml.say({ voice: 'alice', language: 'en-US' }, 
+          'This number belongs to Zipp Call Dot Com and does not accept incoming calls. If you were called from this number then someone was using our service to call you. Please visit our website Zipp Call Dot Come to make calls using our service.');
+        twiml.hangup();
+      } else {
+        // --- Balance Check: inbound minutes are billed to the renter ---
+        initializeFirebaseAdmin();
+        const settings = await getVirtualNumberSettings();
+        const renterDoc = await getAdminFirestore().collection('users').doc(rental.userId).get();
+        const balance = renterDoc.exists ? (renterDoc.data()?.balance || 0) : 0;
+        const timeLimit = calculateMaxCallDuration(settings.inboundRatePerMinute, balance, INBOUND_BILLING_INCREMENT);
+
+        if (timeLimit <= 0) {
+          console.warn(`[voice] Renter ${rental.userId} of ${to} can't cover an inbound minute (balance ${balance}). Sending call from ${from} to voicemail.`);
+          appendVoicemailPrompt(twiml, rental.userId, to, from);
+        } else {
+          const statusCallbackUrl = `${appBaseUrl}/api/twilio-public-callback?UserId=${encodeURIComponent(rental.userId)}&Direction=incoming&VirtualNumber=${encodeURIComponent(to)}`;
+          // Twilio requests this when the dial ends, to take a message if the browser didn't answer
+          const voicemailUrl = `${appBaseUrl}/api/voice/voicemail?UserId=${encodeURIComponent(rental.userId)}&VirtualNumber=${encodeURIComponent(to)}`;
+
+          // The caller hears ringing until the browser answers
+          const dial = twiml.dial({
+            timeLimit: timeLimit,
+            timeout: INBOUND_RING_SECONDS,
+            answerOnBridge: true,
+            action: voicemailUrl,
+            method: 'POST'
+          });
+          dial.client({
+            statusCallback: statusCallbackUrl,
+            statusCallbackMethod: 'POST',
+            statusCallbackEvent: ['answered', 'completed']
+          }, rental.userId); // Twilio client identity is the user ID
+
+          console.log(`[voice] Ringing UserId ${rental.userId} for incoming call from ${from} to ${to} (time limit ${timeLimit}s)`);
+        }
+      }
     }
 
     return new NextResponse(twiml.toString(), {
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import twilio from 'twilio';
+import { appendVoicemailPrompt } from '@/lib/voicemail';
+
+/**
+ * Dial action for calls to a rented number, requested by Twilio when the browser stops ringing
+ * Takes a message unless the user answered.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const dialCallStatus = formData.get('DialCallStatus') as string;
+    const from = formData.get('From') as string;
+    const searchParams = request.nextUrl.searchParams;
+    const userId = searchParams.get('UserId');
+    const virtualNumber = searchParams.get('VirtualNumber');
+
+    const twiml = new twilio.twiml.VoiceResponse();
+
+    if (dialCallStatus === 'completed' || dialCallStatus === 'answered' || !userId || !virtualNumber) {
+      // The user took the call (or this isn't a call we rang), so there's nothing more to do
+      twiml.hangup();
+    } else {
+      // no-answer, busy (rejected in the browser) or failed (browser not signed in)
+      console.log(`[voice/voicemail] Call from ${from} to ${virtualNumber} not answered (${dialCallStatus}). Taking a message for UserId ${userId}.`);
+      appendVoicemailPrompt(twiml, userId, virtualNumber, from);
+    }
+
+    return new NextResponse(twiml.toString(), {
+      headers: {
+        'Content-Type': 'text/xml',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating voicemail TwiML:', error);
+
+    const twiml = new twilio.twiml.VoiceResponse();
+    twiml.say('An error occurred. Please try again later.');
+
+    return new NextResponse(twiml.toString(), {
+      headers: {
+        'Content-Type': 'text/xml',
+      },
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import twilio from 'twilio';
+import { saveVoicemailRecording, saveVoicemailTranscription } from '@/lib/voicemail';
+
+// Get Twilio Auth Token from environment variables
+const twilioAuthToken = process.env.TWILIO_AUTH_TOKEN;
+
+/**
+ * Recording status and transcription callbacks for voicemails (see appendVoicemailPrompt)
+ * The query string carries the user, the rented number and the caller, plus Event=recording|transcription.
+ */
+export async function POST(req: NextRequest) {
+    // --- Twilio Request Validation ---
+    const signature = req.headers.get('x-twilio-signature');
+    const url = req.url;
+    const rawBody = await req.text();
+
+    const params = new URLSearchParams(rawBody);
+    const body: Record<string, string> = {};
+    params.forEach((value, key) => {
+        body[key] = value;
+    });
+
+    if (!twilioAuthToken) {
+        console.error('[Voicemail Callback] CRITICAL: TWILIO_AUTH_TOKEN not set. Cannot validate request.');
+        return new NextResponse('Server Configuration Error', { status: 500 });
+    }
+    if (!signature) {
+        console.warn('[Voicemail Callback] WARNING: Missing X-Twilio-Signature. Rejecting request.');
+        return new NextResponse('Missing Signature', { status: 400 });
+    }
+    if (!twilio.validateRequest(twilioAuthToken, signature, url, body)) {
+        console.warn('[Voicemail Callback] WARNING: Invalid Twilio signature. Rejecting request.');
+        return new NextResponse('Invalid Signature', { status: 403 });
+    }
+    // --- End Twilio Request Validation ---
+
+    try {
+        const searchParams = new URL(url).searchParams;
+        const userId = searchParams.get('UserId');
+        const event = searchParams.get('Event');
+        const recordingSid = body.RecordingSid;
+
+        if (!userId || !recordingSid) {
+            console.error('[Voicemail Callback] Missing UserId or RecordingSid.', { userId, recordingSid });
+            return new NextResponse('Missing UserId or RecordingSid', { status: 400 });
+        }
+
+        if (event === 'transcription') {
+            const transcribed = body.TranscriptionStatus === 'completed' && body.TranscriptionText;
+            await saveVoicemailTranscription(userId, recordingSid, transcribed ? body.TranscriptionText : null);
+            console.log(`[Voicemail Callback] Transcription ${body.TranscriptionStatus} for ${recordingSid}`);
+        } else {
+            const durationSeconds = parseInt(body.RecordingDuration, 10) || 0;
+            // Callers who hang up at the tone leave an empty recording
+            if (body.RecordingStatus !== 'completed' || durationSeconds < 1) {
+                console.log(`[Voicemail Callback] Ignoring ${recordingSid}: status ${body.RecordingStatus}, ${durationSeconds}s`);
+                return new NextResponse('OK', { status: 200 });
+            }
+            await saveVoicemailRecording(userId, {
+                recordingSid,
+                recordingUrl: body.RecordingUrl,
+                durationSeconds,
+                from: searchParams.get('From') || '',
+                to: searchParams.get('VirtualNumber') || '',
+                callSid: body.CallSid
+            });
+        }
+
+        return new NextResponse('OK', { status: 200 });
+    } catch (error) {
+        console.error('[Voicemail Callback] Error saving voicemail:', error);
+        return new NextResponse('Internal Server Error', { status: 500 });
+    }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { fetchVoicemailAudio } from '@/lib/voicemail';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler to play a voicemail (?voicemailId=), streamed from Twilio as MP3
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /voicemails/recording] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Fetch the audio
+    const voicemailId = req.nextUrl.searchParams.get('voicemailId');
+    if (!voicemailId) {
+      return NextResponse.json({ error: 'voicemailId is required.' }, { status: 400 });
+    }
+
+    const audio = await fetchVoicemailAudio(decodedToken.uid, voicemailId);
+    if (!audio) {
+      return NextResponse.json({ error: 'Voicemail not found' }, { status: 404 });
+    }
+    if (!audio.ok || !audio.body) {
+      console.error(`[API /voicemails/recording] Twilio returned ${audio.status} for voicemail ${voicemailId}`);
+      return NextResponse.json({ error: 'Recording is not available' }, { status: 502 });
+    }
+
+    return new NextResponse(audio.body, {
+      headers: {
+        'Content-Type': 'audio/mpeg',
+        'Cache-Control': 'private, max-age=3600'
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('[API /voicemails/recording] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load recording: ${errorMessage}` }, { status: 500 });
+  }
+}
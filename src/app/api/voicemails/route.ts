@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeFirebaseAdmin, getAdminAuth } from '@/lib/firebase-admin';
+import { listVoicemails, setVoicemailRead } from '@/lib/voicemail';
+
+// Initialize Firebase Admin (needed for auth check)
+initializeFirebaseAdmin();
+
+/**
+ * GET handler for the user's voicemail inbox
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /voicemails] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Load the voicemails (recording URLs stay server-side; audio goes through /api/voicemails/recording)
+    const voicemails = await listVoicemails(decodedToken.uid);
+    return NextResponse.json({
+      voicemails: voicemails.map(voicemail => ({ ...voicemail, recordingUrl: undefined }))
+    });
+
+  } catch (error: unknown) {
+    console.error('[API /voicemails] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to load voicemails: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH handler to mark a voicemail as read or unread (?voicemailId=, body { read })
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    // 1. Verify User Authentication
+    const authorization = req.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+
+    let decodedToken;
+    try {
+      decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    } catch (error) {
+      console.error('[API /voicemails] Error verifying auth token:', error);
+      return NextResponse.json({ error: 'Invalid authentication token' }, { status: 403 });
+    }
+
+    // 2. Update the voicemail
+    const voicemailId = req.nextUrl.searchParams.get('voicemailId');
+    if (!voicemailId) {
+      return NextResponse.json({ error: 'voicemailId is required.' }, { status: 400 });
+    }
+    const { read } = await req.json();
+    if (typeof read !== 'boolean') {
+      return NextResponse.json({ error: 'read must be true or false' }, { status: 400 });
+    }
+
+    const updated = await setVoicemailRead(decodedToken.uid, voicemailId, read);
+    if (!updated) {
+      return NextResponse.json({ error: 'Voicemail not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    console.error('[API /voicemails] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to update voicemail: ${errorMessage}` }, { status: 500 });
+  }
+}
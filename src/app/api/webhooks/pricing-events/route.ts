@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PriceUpdateRecord } from '@/types/pricing';
 import { savePriceUpdateRecord } from '@/lib/pricing/pricing-db-admin';
+import { buildPriceUpdateRecord } from '@/lib/pricing/price-diff';
 
 /**
  * POST handler for pricing webhook events
@@ -37,28 +37,12 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Calculate percentage change
-    const previousPrice = body.previousBasePrice;
-    const newPrice = body.newBasePrice;
-    const percentageChange = previousPrice > 0 
-      ? ((newPrice - previousPrice) / previousPrice) * 100
-      : 0;
-    
-    // Determine if the change is significant (more than 5% or from/to zero)
-    const isSignificant = Math.abs(percentageChange) > 5 || 
-                         previousPrice === 0 || 
-                         newPrice === 0;
-    
-    // Create the price update record
-    const priceUpdate: PriceUpdateRecord = {
-      id: `${body.countryCode}-${Date.now()}`,
-      timestamp: new Date(),
-      countryCode: body.countryCode,
-      previousBasePrice: previousPrice,
-      newBasePrice: newPrice,
-      percentageChange,
-      isSignificant
-    };
+    // Create the price update record (percentage change and significance are computed for us)
+    const priceUpdate = buildPriceUpdateRecord(
+      body.countryCode,
+      body.previousBasePrice,
+      body.newBasePrice
+    );
     
     // Save the update record to the database
     await savePriceUpdateRecord(priceUpdate);
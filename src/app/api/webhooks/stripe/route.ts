@@ -1,10 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
-import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
 import { FieldValue } from 'firebase-admin/firestore';
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { postLedgerEntryOnce } from '@/lib/ledger';
+import { redeemPromoCode } from '@/lib/promo-codes';
+import { recordCardFingerprint, reverseReferral, settleReferral } from '@/lib/referrals';
+import { parseTaxMetadata } from '@/lib/tax';
+import { extendTopUpReservation, releaseTopUpReservation } from '@/lib/top-up-policy';
+import { LedgerEntryInput } from '@/types/ledger';
+import {
+  AUTO_RECHARGE_PURPOSE,
+  AUTO_RECHARGE_SETUP_PURPOSE,
+  creditAutoRecharge,
+  recordAutoRechargeDecline,
+  saveAutoRechargePaymentMethod
+} from '@/lib/auto-recharge';
 
 // Initialize Firebase Admin for Firestore access
 initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+// Processed events and payments, keyed by Stripe event ID or e.g. session_{id}, so redeliveries are ignored
+const STRIPE_EVENTS_COLLECTION = 'stripe_events';
+const USERS_COLLECTION = 'users';
+const TRANSACTIONS_SUBCOLLECTION = 'transactions';
 
 // Ensure Stripe keys are available
 if (!process.env.STRIPE_SECRET_KEY) {
@@ -53,6 +72,338 @@ async function buffer(readable: ReadableStream<Uint8Array>) {
   return Buffer.concat(chunks);
 }
 
+// The user and USD credit behind a Stripe payment, used to size refunds and disputes
+interface PaymentOwner {
+  userId: string;
+  amountUsd: number;     // USD credited to the balance for the payment
+  amountCharged: number; // Amount charged, in the payment currency's minor unit
+}
+
+/**
+ * Look up who a payment belongs to and what it credited
+ * Newer top-ups carry the metadata on the PaymentIntent; older ones only on their Checkout Session.
+ */
+async function getPaymentOwner(paymentIntentId: string): Promise<PaymentOwner | null> {
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  let metadata: Stripe.Metadata | null = paymentIntent.metadata;
+  let amountCharged = paymentIntent.amount;
+
+  if (!metadata?.userId || !metadata?.amountToAdd) {
+    const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 });
+    const session = sessions.data[0];
+    metadata = session?.metadata || null;
+    amountCharged = session?.amount_total || amountCharged;
+  }
+
+  const amountUsd = metadata?.amountToAdd ? parseFloat(metadata.amountToAdd) : NaN;
+  if (!metadata?.userId || isNaN(amountUsd) || amountCharged <= 0) {
+    return null;
+  }
+  return { userId: metadata.userId, amountUsd, amountCharged };
+}
+
+/**
+ * Convert part of a payment (e.g. a partial refund) to the USD it credited
+ */
+function toUsd(owner: PaymentOwner, amount: number): number {
+  return Math.round((owner.amountUsd * amount / owner.amountCharged) * 100) / 100;
+}
+
+/**
+ * Post a ledger entry once for the given processed-event keys
+ * @returns True if posted, false if one of the keys had already been processed
+ */
+async function postOnce(
+  userId: string,
+  entry: LedgerEntryInput,
+  keys: string[],
+  event: Stripe.Event
+): Promise<boolean> {
+  const refs = keys.map(key => adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(key));
+  const balanceAfter = await postLedgerEntryOnce(userId, entry, refs, { eventId: event.id, eventType: event.type });
+  if (balanceAfter === null) {
+    console.log(`[Webhook /stripe] ${keys.join(', ')} already processed. Skipping.`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Record the card behind a paid top-up and settle the user's referral, if they were referred
+ * The top-up is already credited, so failures are logged rather than retried.
+ */
+async function settleReferralForTopUp(userId: string, session: Stripe.Checkout.Session): Promise<void> {
+  try {
+    let cardFingerprint: string | null = null;
+    if (typeof session.payment_intent === 'string') {
+      const paymentIntent = await stripe.paymentIntents.retrieve(session.payment_intent, {
+        expand: ['payment_method']
+      });
+      cardFingerprint = (paymentIntent.payment_method as Stripe.PaymentMethod | null)?.card?.fingerprint || null;
+      if (cardFingerprint) {
+        await recordCardFingerprint(userId, cardFingerprint);
+      }
+    }
+
+    const referral = await settleReferral(userId, session.id, cardFingerprint);
+    if (referral) {
+      console.log(`[Webhook /stripe] Referral for user ${userId} settled as ${referral.status}${referral.rejectedReason ? ` (${referral.rejectedReason})` : ''}.`);
+    }
+  } catch (error: unknown) {
+    console.error(`[Webhook /stripe] Failed to settle referral for user ${userId}:`, error);
+  }
+}
+
+/**
+ * Stop holding a Checkout Session's amount against the user's top-up limits
+ * Once credited, the deposit itself counts; failed and expired sessions add nothing.
+ */
+async function releaseSessionReservation(session: Stripe.Checkout.Session): Promise<void> {
+  const userId = session.metadata?.userId;
+  const reservationId = session.metadata?.topUpReservationId;
+  if (userId && reservationId) {
+    await releaseTopUpReservation(userId, reservationId);
+  }
+}
+
+/**
+ * Credit a paid Checkout Session to the user's balance
+ * Used for both checkout.session.completed and checkout.session.async_payment_succeeded;
+ * keyed by session ID so whichever arrives second does nothing.
+ * The deposit isn't keyed on the event ID: the event is only marked processed once the promo bonus
+ * is applied too, so a redelivery after a failure here finishes the follow-ups.
+ */
+async function creditCheckoutSession(session: Stripe.Checkout.Session, event: Stripe.Event): Promise<NextResponse | null> {
+  // Extract metadata
+  const userId = session.metadata?.userId;
+  const amountToAddString = session.metadata?.amountToAdd;
+
+  if (!userId || !amountToAddString) {
+    console.error(`[Webhook /stripe] Missing metadata (userId or amountToAdd) in session: ${session.id}`);
+    // Return 500 because this is an issue with how we created the session
+    return NextResponse.json({ error: 'Internal Server Error: Missing required metadata.' }, { status: 500 });
+  }
+
+  const amountToAdd = parseFloat(amountToAddString);
+  if (isNaN(amountToAdd) || amountToAdd <= 0) {
+    console.error(`[Webhook /stripe] Invalid amountToAdd metadata (${amountToAddString}) in session: ${session.id}`);
+    return NextResponse.json({ error: 'Internal Server Error: Invalid amount in metadata.' }, { status: 500 });
+  }
+
+  // Sessions charged in another currency record what was charged and the rate used
+  const originalAmount = session.metadata?.originalAmount ? parseFloat(session.metadata.originalAmount) : null;
+  const originalCurrency = session.metadata?.originalCurrency || null;
+  const exchangeRate = session.metadata?.exchangeRate ? parseFloat(session.metadata.exchangeRate) : null;
+  // VAT/GST charged on top is stored on the deposit but not credited
+  const tax = parseTaxMetadata(session.metadata);
+
+  // --- Update Firestore Balance & Record Transaction --- 
+  try {
+    console.log(`[Webhook /stripe] Crediting balance and creating transaction record for user ${userId}`);
+
+    // Top-ups move money from Stripe clearing into the user's wallet
+    const credited = await postOnce(userId, {
+      type: 'deposit', // Identify the transaction type
+      amount: amountToAdd, // Positive value for deposits
+      counterAccount: 'stripe_clearing',
+      source: 'stripe',
+      taxAmount: tax.taxAmount,
+      details: {
+        ...tax.details,
+        stripeSessionId: session.id, // Link back to Stripe session
+        ...(typeof session.payment_intent === 'string' && { stripePaymentIntentId: session.payment_intent }),
+        ...(originalCurrency && {
+          originalAmount,
+          originalCurrency: originalCurrency.toLowerCase(),
+          exchangeRate
+        })
+      }
+    }, [`session_${session.id}`], event);
+
+    if (credited) {
+      console.log(`[Webhook /stripe] Firestore transaction successful for user ${userId} (Balance updated & transaction recorded).`);
+      await settleReferralForTopUp(userId, session);
+    }
+    await releaseSessionReservation(session);
+
+    // Top-up bonus codes are checked at checkout but only redeemed once the payment arrives
+    const promoCode = session.metadata?.promoCode;
+    if (promoCode) {
+      const redemption = await redeemPromoCode(userId, promoCode, {
+        topUpAmount: amountToAdd,
+        stripeSessionId: session.id,
+        idempotencyRef: adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(`promo_${session.id}`)
+      });
+      if (redemption.success) {
+        console.log(`[Webhook /stripe] Applied promo code ${promoCode} to session ${session.id}: +$${redemption.credit}`);
+      } else {
+        // The top-up itself is credited; a code that ran out in the meantime just doesn't apply
+        console.warn(`[Webhook /stripe] Promo code ${promoCode} not applied to session ${session.id}: ${redemption.error}`);
+      }
+    }
+
+  } catch (error: unknown) {
+    console.error(`[Webhook /stripe] Firestore transaction failed for user ${userId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: `Failed to update user balance or record transaction. Error: ${errorMessage}` }, { status: 500 });
+  }
+
+  return null;
+}
+
+/**
+ * Take back the promo bonus and referral rewards a Checkout top-up paid out, once the top-up itself is fully refunded or lost to a dispute
+ * Reversed against promo_liability, once per session; balances can go below zero if the credit was already spent.
+ */
+async function reverseTopUpBonuses(
+  userId: string,
+  paymentIntentId: string,
+  reason: 'refund' | 'dispute_lost',
+  event: Stripe.Event
+): Promise<void> {
+  // Auto-recharges have no Checkout Session and never carry a bonus
+  const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 });
+  const session = sessions.data[0];
+  if (!session) {
+    return;
+  }
+
+  // The bonus is credited after the deposit with the same stripeSessionId (see creditCheckoutSession)
+  const sessionTransactions = await adminDb.collection(USERS_COLLECTION).doc(userId).collection(TRANSACTIONS_SUBCOLLECTION)
+    .where('stripeSessionId', '==', session.id)
+    .get();
+  const promoCredit = sessionTransactions.docs
+    .map(doc => doc.data())
+    .find(data => data.type === 'promo' && data.amount > 0);
+
+  if (promoCredit) {
+    const reversed = await postOnce(userId, {
+      type: 'promo',
+      amount: -promoCredit.amount,
+      counterAccount: 'promo_liability',
+      source: 'stripe',
+      details: {
+        promoCode: promoCredit.promoCode,
+        promoType: promoCredit.promoType,
+        stripeSessionId: session.id,
+        stripePaymentIntentId: paymentIntentId,
+        reversalReason: reason
+      }
+    }, [`promo_${session.id}_reversal`], event);
+    if (reversed) {
+      console.log(`[Webhook /stripe] Reversed promo bonus of $${promoCredit.amount} on session ${session.id} (${reason}).`);
+    }
+  }
+
+  // Only the referee's first top-up settles a referral, so this does nothing for other sessions
+  const referral = await reverseReferral(userId, session.id);
+  if (referral) {
+    console.log(`[Webhook /stripe] Reversed referral rewards for user ${userId} and referrer ${referral.referrerId} (${reason}).`);
+  }
+}
+
+/**
+ * Debit each succeeded refund on a charge, once per refund
+ * Refunds can take the balance below zero if the refunded credit was already spent.
+ * Once the charge is fully refunded, the top-up's bonus is taken back too.
+ */
+async function debitRefunds(charge: Stripe.Charge, event: Stripe.Event): Promise<void> {
+  if (typeof charge.payment_intent !== 'string') {
+    console.log(`[Webhook /stripe] Charge ${charge.id} has no payment intent. Ignoring refund.`);
+    return;
+  }
+
+  const owner = await getPaymentOwner(charge.payment_intent);
+  if (!owner) {
+    console.log(`[Webhook /stripe] Charge ${charge.id} is not a balance top-up. Ignoring refund.`);
+    return;
+  }
+
+  const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+  for (const refund of refunds.data) {
+    if (refund.status !== 'succeeded') {
+      continue;
+    }
+    await postOnce(owner.userId, {
+      type: 'refund',
+      amount: -toUsd(owner, refund.amount),
+      counterAccount: 'stripe_clearing',
+      source: 'stripe',
+      details: { stripeRefundId: refund.id, stripeChargeId: charge.id, stripePaymentIntentId: charge.payment_intent }
+    }, [`refund_${refund.id}`], event);
+  }
+
+  // Partial refunds keep the bonus; a full refund takes it back
+  if (charge.refunded) {
+    await reverseTopUpBonuses(owner.userId, charge.payment_intent, 'refund', event);
+  }
+}
+
+/**
+ * Hold the disputed funds when a dispute is opened, and give them back if we win it
+ * A lost dispute keeps the hold, since Stripe has returned the money to the cardholder, and takes back the top-up's bonus.
+ */
+async function handleDispute(dispute: Stripe.Dispute, event: Stripe.Event): Promise<void> {
+  if (typeof dispute.payment_intent !== 'string') {
+    console.log(`[Webhook /stripe] Dispute ${dispute.id} has no payment intent. Ignoring.`);
+    return;
+  }
+
+  const owner = await getPaymentOwner(dispute.payment_intent);
+  if (!owner) {
+    console.log(`[Webhook /stripe] Dispute ${dispute.id} is not on a balance top-up. Ignoring.`);
+    return;
+  }
+
+  const amountUsd = toUsd(owner, dispute.amount);
+  const details = { stripeDisputeId: dispute.id, stripePaymentIntentId: dispute.payment_intent, disputeStatus: dispute.status };
+
+  if (event.type === 'charge.dispute.created') {
+    await postOnce(owner.userId, {
+      type: 'dispute',
+      amount: -amountUsd,
+      counterAccount: 'stripe_clearing',
+      source: 'stripe',
+      details
+    }, [`dispute_${dispute.id}_hold`], event);
+    return;
+  }
+
+  if (dispute.status !== 'won') {
+    console.log(`[Webhook /stripe] Dispute ${dispute.id} closed as ${dispute.status}. Keeping the hold.`);
+    if (dispute.status === 'lost') {
+      await reverseTopUpBonuses(owner.userId, dispute.payment_intent, 'dispute_lost', event);
+    }
+    return;
+  }
+
+  // Only release funds we actually held
+  const holdSnap = await adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(`dispute_${dispute.id}_hold`).get();
+  if (!holdSnap.exists) {
+    console.log(`[Webhook /stripe] No hold recorded for dispute ${dispute.id}. Nothing to release.`);
+    return;
+  }
+
+  await postOnce(owner.userId, {
+    type: 'dispute',
+    amount: amountUsd,
+    counterAccount: 'stripe_clearing',
+    source: 'stripe',
+    details
+  }, [`dispute_${dispute.id}_release`], event);
+}
+
+/**
+ * Mark an event as processed when its handler doesn't post a single keyed ledger entry
+ */
+async function markEventProcessed(event: Stripe.Event): Promise<void> {
+  await adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(event.id).set({
+    eventId: event.id,
+    eventType: event.type,
+    processedAt: FieldValue.serverTimestamp()
+  }, { merge: true });
+}
+
 // --- REMOVE TEMPORARY DIAGNOSTIC GET HANDLER --- 
 // export async function GET(req: NextRequest) {
 //   console.log('[Webhook /stripe] GET request received (for diagnostics)');
@@ -88,84 +439,160 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: `Webhook Error: ${errorMessage}` }, { status: 400 });
   }
 
+  // Stripe redelivers events; anything already processed is acknowledged without handling it again.
+  // The ledger writes below also re-check their keys inside the Firestore transaction.
+  try {
+    const processedSnap = await adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(event.id).get();
+    if (processedSnap.exists) {
+      console.log(`[Webhook /stripe] Event ${event.id} already processed. Acknowledging.`);
+      return NextResponse.json({ received: true });
+    }
+  } catch (error: unknown) {
+    console.error(`[Webhook /stripe] Failed to check processed events for ${event.id}:`, error);
+    return NextResponse.json({ error: 'Failed to check processed events.' }, { status: 500 });
+  }
+
   // Handle the event
   switch (event.type) {
     case 'checkout.session.completed': {
       const session = event.data.object as Stripe.Checkout.Session;
       console.log(`[Webhook /stripe] Handling checkout.session.completed for session: ${session.id}`);
 
+      // Setup-mode sessions save a card for auto-recharge rather than adding funds
+      if (session.mode === 'setup' && session.metadata?.purpose === AUTO_RECHARGE_SETUP_PURPOSE) {
+        const setupUserId = session.metadata.userId;
+        if (!setupUserId || typeof session.setup_intent !== 'string') {
+          console.error(`[Webhook /stripe] Missing userId or setup_intent in setup session: ${session.id}`);
+          return NextResponse.json({ error: 'Internal Server Error: Invalid setup session.' }, { status: 500 });
+        }
+        try {
+          await saveAutoRechargePaymentMethod(setupUserId, session.setup_intent);
+        } catch (error: unknown) {
+          console.error(`[Webhook /stripe] Failed to save auto-recharge card for user ${setupUserId}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+          return NextResponse.json({ error: `Failed to save card. Error: ${errorMessage}` }, { status: 500 });
+        }
+        break;
+      }
+
       // Check if payment status is paid (important!)
+      // Delayed payment methods complete as 'unpaid' and are credited on async_payment_succeeded
       if (session.payment_status !== 'paid') {
-        console.log(`[Webhook /stripe] Session ${session.id} payment status is ${session.payment_status}. Ignoring.`);
+        console.log(`[Webhook /stripe] Session ${session.id} payment status is ${session.payment_status}. Waiting for the payment.`);
+        // Keep the top-up counted against the user's limits until the payment succeeds or fails
+        if (session.metadata?.userId && session.metadata?.topUpReservationId) {
+          await extendTopUpReservation(session.metadata.userId, session.metadata.topUpReservationId);
+        }
         break; // Exit switch, acknowledge webhook below
       }
 
-      // Extract metadata
-      const userId = session.metadata?.userId;
-      const amountToAddString = session.metadata?.amountToAdd;
+      const errorResponse = await creditCheckoutSession(session, event);
+      if (errorResponse) {
+        return errorResponse;
+      }
+      break; // Exit switch after handling
+    }
+    case 'checkout.session.async_payment_succeeded': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      console.log(`[Webhook /stripe] Handling async payment success for session: ${session.id}`);
 
-      if (!userId || !amountToAddString) {
-        console.error(`[Webhook /stripe] Missing metadata (userId or amountToAdd) in session: ${session.id}`);
-        // Return 500 because this is an issue with how we created the session
-        return NextResponse.json({ error: 'Internal Server Error: Missing required metadata.' }, { status: 500 });
+      const errorResponse = await creditCheckoutSession(session, event);
+      if (errorResponse) {
+        return errorResponse;
       }
+      break;
+    }
+    case 'checkout.session.async_payment_failed': {
+      // Nothing was credited for the session, so there is nothing to reverse
+      const session = event.data.object as Stripe.Checkout.Session;
+      console.log(`[Webhook /stripe] Async payment failed for session ${session.id} (user ${session.metadata?.userId}).`);
+      await releaseSessionReservation(session);
+      break;
+    }
+    case 'checkout.session.expired': {
+      // Abandoned before payment; give back the allowance it was holding
+      const session = event.data.object as Stripe.Checkout.Session;
+      console.log(`[Webhook /stripe] Session ${session.id} expired unpaid (user ${session.metadata?.userId}).`);
+      await releaseSessionReservation(session);
+      break;
+    }
+    case 'payment_intent.succeeded': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
 
-      const amountToAdd = parseFloat(amountToAddString);
-      if (isNaN(amountToAdd) || amountToAdd <= 0) {
-        console.error(`[Webhook /stripe] Invalid amountToAdd metadata (${amountToAddString}) in session: ${session.id}`);
-        return NextResponse.json({ error: 'Internal Server Error: Invalid amount in metadata.' }, { status: 500 });
+      // Checkout top-ups are credited from checkout.session.completed; only auto-recharges are handled here
+      if (paymentIntent.metadata?.purpose !== AUTO_RECHARGE_PURPOSE) {
+        break;
       }
 
-      // --- Update Firestore Balance & Record Transaction --- 
       try {
-        const db = getAdminFirestore();
-        const userRef = db.collection('users').doc(userId);
-        // Create a reference for the new transaction document in the subcollection
-        const transactionRef = userRef.collection('transactions').doc(); // Auto-generate ID
-        
-        // Run as a Firestore transaction
-        await db.runTransaction(async (t) => {
-          // Read the user document within the transaction (optional, could be used for pre-checks)
-          // const userSnap = await t.get(userRef);
-          // if (!userSnap.exists) {
-          //   throw new Error(`User document ${userId} not found during transaction.`);
-          // }
-
-          console.log(`[Webhook /stripe Transaction] Updating balance and creating transaction record for user ${userId}`);
-
-          // 1. Update user's balance
-          t.update(userRef, {
-            balance: FieldValue.increment(amountToAdd)
-          });
-
-          // 2. Create the transaction record
-          t.set(transactionRef, {
-            type: 'deposit', // Identify the transaction type
-            amount: amountToAdd, // Positive value for deposits
-            currency: 'usd', // Assuming USD
-            status: 'completed', // From Stripe event
-            source: 'stripe', 
-            stripeSessionId: session.id, // Link back to Stripe session
-            createdAt: FieldValue.serverTimestamp() // Use server timestamp
-          });
-        });
-        
-        console.log(`[Webhook /stripe] Firestore transaction successful for user ${userId} (Balance updated & transaction recorded).`);
+        await creditAutoRecharge(paymentIntent, [
+          adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(event.id),
+          adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(`payment_intent_${paymentIntent.id}`)
+        ]);
+      } catch (error: unknown) {
+        console.error(`[Webhook /stripe] Failed to credit auto-recharge ${paymentIntent.id}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+        return NextResponse.json({ error: `Failed to credit auto-recharge. Error: ${errorMessage}` }, { status: 500 });
+      }
+      break;
+    }
+    case 'payment_intent.payment_failed': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+      // Checkout top-ups fail inside the Checkout page; only auto-recharges are recorded here
+      if (paymentIntent.metadata?.purpose !== AUTO_RECHARGE_PURPOSE) {
+        break;
+      }
 
+      try {
+        await recordAutoRechargeDecline(paymentIntent);
       } catch (error: unknown) {
-        console.error(`[Webhook /stripe] Firestore transaction failed for user ${userId}:`, error);
+        console.error(`[Webhook /stripe] Failed to record auto-recharge decline ${paymentIntent.id}:`, error);
         const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-        return NextResponse.json({ error: `Failed to update user balance or record transaction. Error: ${errorMessage}` }, { status: 500 });
+        return NextResponse.json({ error: `Failed to record auto-recharge decline. Error: ${errorMessage}` }, { status: 500 });
       }
-      
-      break; // Exit switch after handling
+      break;
+    }
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      console.log(`[Webhook /stripe] Handling charge.refunded for charge: ${charge.id}`);
+
+      try {
+        await debitRefunds(charge, event);
+      } catch (error: unknown) {
+        console.error(`[Webhook /stripe] Failed to debit refund for charge ${charge.id}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+        return NextResponse.json({ error: `Failed to debit refund. Error: ${errorMessage}` }, { status: 500 });
+      }
+      break;
+    }
+    case 'charge.dispute.created':
+    case 'charge.dispute.closed': {
+      const dispute = event.data.object as Stripe.Dispute;
+      console.log(`[Webhook /stripe] Handling ${event.type} for dispute: ${dispute.id}`);
+
+      try {
+        await handleDispute(dispute, event);
+      } catch (error: unknown) {
+        console.error(`[Webhook /stripe] Failed to handle dispute ${dispute.id}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+        return NextResponse.json({ error: `Failed to handle dispute. Error: ${errorMessage}` }, { status: 500 });
+      }
+      break;
     }
     // ... handle other event types if needed ...
-    // E.g., payment_intent.succeeded, payment_intent.payment_failed
     default:
       console.log(`[Webhook /stripe] Unhandled event type: ${event.type}`);
   }
 
+  // Only auto-recharge deposits are keyed on the event ID; record the rest once every step above succeeded
+  try {
+    await markEventProcessed(event);
+  } catch (error: unknown) {
+    // Every handler above is safe to repeat, so a redelivery is harmless
+    console.error(`[Webhook /stripe] Failed to record event ${event.id} as processed:`, error);
+  }
+
   // Return a 200 response to acknowledge receipt of the event
   console.log(`[Webhook /stripe] Acknowledging event: ${event.id}`);
   return NextResponse.json({ received: true });
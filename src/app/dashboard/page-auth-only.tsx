@@ -1,10 +1,11 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState, useRef, useCallback } from 'react';
 import { useAuth } from '@/context/AuthContext';
 import { useRouter } from 'next/navigation';
 import VoiceCall, { VoiceCallHandle } from '@/components/VoiceCall';
 import CallHistory, { CallHistoryEntry } from '@/components/CallHistory';
+import ContactsCard from '@/components/ContactsCard';
 import { getUserCallHistory, deleteCallHistoryEntry } from '@/lib/call-history-db';
 import { doc, onSnapshot, collection, query, orderBy, limit, Timestamp, where } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
@@ -13,8 +14,25 @@ import { loadStripe } from '@stripe/stripe-js';
 import { formatDistanceToNow } from 'date-fns';
 import Footer from '@/components/Footer';
 import AccountDetailsCard from '@/components/AccountDetailsCard';
+import AutoRechargeCard from '@/components/AutoRechargeCard';
+import CallerIdCard from '@/components/CallerIdCard';
+import VirtualNumberCard from '@/components/VirtualNumberCard';
+import VoicemailCard from '@/components/VoicemailCard';
 import Header from '@/components/Header';
+import ReferralCard from '@/components/ReferralCard';
+import StatementsCard from '@/components/StatementsCard';
 import SupportCard from '@/components/SupportCard';
+import { useBillingDocuments } from '@/hooks/useBillingDocuments';
+import { useCallerIds } from '@/hooks/useCallerIds';
+import { useContacts } from '@/hooks/useContacts';
+import { useVirtualNumber } from '@/hooks/useVirtualNumber';
+import { useVoicemails } from '@/hooks/useVoicemails';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
+import { formatPrice } from '@/lib/pricing/pricing-engine';
+import { ADJUSTMENT_CATEGORY_LABELS, AdjustmentCategory } from '@/types/ledger';
+import { PromoCodeRedemption } from '@/types/promo';
+import { TaxQuote } from '@/types/tax';
+import { TopUpAllowance } from '@/types/billing';
 
 // Load Stripe promise outside component to avoid recreating on render
 // Ensure your publishable key is in .env.local as NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY
@@ -35,7 +53,7 @@ const MAX_TRANSACTIONS_TO_FETCH = 50;
 // Define transaction type locally (matching API response)
 interface TransactionData {
   id: string;
-  type: 'deposit' | 'call' | 'adjustment' | 'unknown';
+  type: 'deposit' | 'call' | 'number_rental' | 'adjustment' | 'refund' | 'dispute' | 'promo' | 'referral' | 'unknown';
   amount: number;
   currency: string;
   status: string;
@@ -45,11 +63,28 @@ interface TransactionData {
   callId?: string;
   phoneNumber?: string;
   durationSeconds?: number;
+  direction?: 'incoming';        // Calls to the user's rented number
+  category?: AdjustmentCategory; // Adjustments only
+  reason?: string;               // Adjustments only
+  promoCode?: string;            // Promo credits only
+  // Set when the user paid in another currency
+  originalAmount?: number;
+  originalCurrency?: string;
+  exchangeRate?: number;
+  // Set when VAT/GST was charged on top of a top-up (USD, not credited)
+  taxAmount?: number;
+  taxName?: string;
 }
 
 export default function DashboardAuthOnly() {
   const { user, loading } = useAuth();
   const router = useRouter();
+  const { walletCurrency, formatAmount } = useDisplayCurrency();
+  const receipts = useBillingDocuments();
+  const contacts = useContacts();
+  const callerIds = useCallerIds();
+  const virtualNumber = useVirtualNumber();
+  const voicemails = useVoicemails();
   const [callHistory, setCallHistory] = useState<CallHistoryEntry[]>([]);
   const [userBalance, setUserBalance] = useState<number | null>(null);
   const [isLoadingBalance, setIsLoadingBalance] = useState(true);
@@ -57,6 +92,7 @@ export default function DashboardAuthOnly() {
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [paymentError, setPaymentError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [topUpAllowance, setTopUpAllowance] = useState<TopUpAllowance | null>(null);
   const voiceCallRef = useRef<VoiceCallHandle>(null);
 
   // State for transaction history
@@ -232,6 +268,18 @@ export default function DashboardAuthOnly() {
                 ...(data.callId && { callId: data.callId }),
                 ...(data.phoneNumber && { phoneNumber: data.phoneNumber }),
                 ...(data.durationSeconds !== undefined && { durationSeconds: data.durationSeconds }),
+                ...(data.category && { category: data.category }),
+                ...(data.reason && { reason: data.reason }),
+                ...(data.promoCode && { promoCode: data.promoCode }),
+                ...(data.originalCurrency && {
+                    originalAmount: data.originalAmount,
+                    originalCurrency: data.originalCurrency,
+                    exchangeRate: data.exchangeRate,
+                }),
+                ...(data.taxAmount && {
+                    taxAmount: data.taxAmount,
+                    taxName: data.taxName,
+                }),
             });
         });
         setTransactions(fetchedTransactions);
@@ -255,12 +303,66 @@ export default function DashboardAuthOnly() {
 
   }, [user]); // Re-run listener setup if user changes
 
-  const openAddFundsModal = () => {
+  const openAddFundsModal = async () => {
     setPaymentError(null);
+    setTopUpAllowance(null);
     setIsModalOpen(true);
+    if (!user) return;
+
+    // Amounts and the user's remaining limits come from the admin-set top-up policy
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/top-up-policy?currency=${walletCurrency}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load top-up limits');
+      }
+      setTopUpAllowance(data);
+    } catch (error) {
+      console.error('[Dashboard] Error loading top-up policy:', error);
+      setPaymentError(error instanceof Error ? error.message : 'Failed to load top-up limits');
+    }
   };
 
-  const handleConfirmAddFunds = async (amount: number) => {
+  const handleApplyPromoCode = async (code: string): Promise<PromoCodeRedemption> => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch('/api/promo-codes/redeem', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ code }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to apply promo code');
+    }
+    return data;
+  };
+
+  // Memoized because the modal re-quotes whenever this changes
+  const handleQuoteTax = useCallback(async (amount: number): Promise<TaxQuote> => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(`/api/tax-quote?amount=${amount}&currency=${walletCurrency}`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to calculate tax');
+    }
+    return data;
+  }, [user, walletCurrency]);
+
+  const handleConfirmAddFunds = async (amount: number, promoCode?: string) => {
     if (!user) return; 
 
     setIsProcessingPayment(true);
@@ -280,7 +382,7 @@ export default function DashboardAuthOnly() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ amount }), 
+        body: JSON.stringify({ amount, currency: walletCurrency, promoCode }), 
       });
 
       const data = await response.json();
@@ -389,11 +491,30 @@ export default function DashboardAuthOnly() {
           description = `Deposit via ${tx.source}`; 
           amountStyle = 'text-green-600';
       } else if (tx.type === 'call') {
-          description = tx.phoneNumber ? `Call to ${tx.phoneNumber}` : 'Phone Call';
+          description = tx.phoneNumber ? `Call ${tx.direction === 'incoming' ? 'from' : 'to'} ${tx.phoneNumber}` : 'Phone Call';
           amountStyle = 'text-red-600';
           amountPrefix = ''; // Amount is already negative
+      } else if (tx.type === 'number_rental') {
+          description = tx.phoneNumber ? `Number Rental (${tx.phoneNumber})` : 'Number Rental';
+          amountStyle = 'text-red-600';
+          amountPrefix = '';
       } else if (tx.type === 'adjustment') {
-          description = `Balance Adjustment (${tx.source})`;
+          description = tx.category
+            ? `${ADJUSTMENT_CATEGORY_LABELS[tx.category] ?? 'Balance Adjustment'}${tx.reason ? `: ${tx.reason}` : ''}`
+            : `Balance Adjustment (${tx.source})`;
+          amountStyle = tx.amount >= 0 ? 'text-green-600' : 'text-red-600';
+      } else if (tx.type === 'promo') {
+          description = tx.promoCode ? `Promo Code ${tx.promoCode}` : 'Promo Credit';
+          amountStyle = 'text-green-600';
+      } else if (tx.type === 'referral') {
+          description = 'Referral Reward';
+          amountStyle = 'text-green-600';
+      } else if (tx.type === 'refund') {
+          description = 'Top-up Refunded';
+          amountStyle = 'text-red-600';
+      } else if (tx.type === 'dispute') {
+          // Held when a chargeback is opened, returned if it's resolved in our favour
+          description = tx.amount >= 0 ? 'Disputed Payment Released' : 'Disputed Payment Held';
           amountStyle = tx.amount >= 0 ? 'text-green-600' : 'text-red-600';
       }
       
@@ -409,9 +530,10 @@ export default function DashboardAuthOnly() {
               <div className="flex items-center space-x-4">
                   <div className="flex-shrink-0">
                       {/* Simple icon based on type */} 
-                      {tx.type === 'deposit' && <span className="text-green-500">↑</span>}
-                      {tx.type === 'call' && <span className="text-red-500">↓</span>}
+                      {(tx.type === 'deposit' || tx.type === 'promo' || tx.type === 'referral') && <span className="text-green-500">↑</span>}
+                      {(tx.type === 'call' || tx.type === 'number_rental') && <span className="text-red-500">↓</span>}
                       {tx.type === 'adjustment' && <span className="text-blue-500">↕</span>}
+                      {(tx.type === 'refund' || tx.type === 'dispute') && <span className="text-red-500">↺</span>}
                   </div>
                   <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-gray-900 truncate">
@@ -419,10 +541,31 @@ export default function DashboardAuthOnly() {
                       </p>
                       <p className="text-sm text-gray-500 truncate">
                           {formattedDate}
+                          {tx.originalCurrency && tx.originalAmount !== undefined &&
+                            ` · paid ${formatPrice(tx.originalAmount, tx.originalCurrency.toUpperCase())}`}
+                          {tx.taxAmount !== undefined && ` · plus ${formatPrice(tx.taxAmount, 'USD')} ${tx.taxName || 'tax'}`}
                       </p>
+                      {tx.type === 'deposit' && (
+                        <p className="text-xs space-x-2">
+                          <button
+                            onClick={() => receipts.download(`receipt-${tx.id}`, `/api/receipts?transactionId=${tx.id}`, `receipt-${tx.id}.pdf`)}
+                            disabled={receipts.busyKey !== null}
+                            className="text-blue-500 hover:text-blue-700 disabled:opacity-50"
+                          >
+                            {receipts.busyKey === `receipt-${tx.id}` ? 'Preparing...' : 'Receipt'}
+                          </button>
+                          <button
+                            onClick={() => receipts.email(`receipt-email-${tx.id}`, '/api/receipts', { transactionId: tx.id })}
+                            disabled={receipts.busyKey !== null}
+                            className="text-blue-500 hover:text-blue-700 disabled:opacity-50"
+                          >
+                            {receipts.busyKey === `receipt-email-${tx.id}` ? 'Sending...' : 'Email receipt'}
+                          </button>
+                        </p>
+                      )}
                   </div>
                   <div className={`inline-flex items-center text-sm font-semibold ${amountStyle}`}>
-                      {amountPrefix}${(Math.abs(tx.amount)).toFixed(2)}
+                      {amountPrefix}{formatAmount(Math.abs(tx.amount))}
                   </div>
               </div>
           </li>
@@ -443,6 +586,11 @@ export default function DashboardAuthOnly() {
               userId={user.uid}
               title="Phone" 
               hideHistory={true}
+              contactNames={contacts.contactNames}
+              callerIds={[
+                ...(virtualNumber.virtualNumber ? [virtualNumber.virtualNumber.number] : []),
+                ...callerIds.callerIds.map(callerId => callerId.number)
+              ]}
             />
           </div>
           
@@ -480,7 +628,7 @@ export default function DashboardAuthOnly() {
                   ) : (
                     <p className="text-3xl font-bold text-blue-600">
                       {userBalance !== null 
-                        ? `$${userBalance.toFixed(2)}` 
+                        ? formatAmount(userBalance) 
                         : '$0.00'}
                     </p>
                   )}
@@ -488,6 +636,21 @@ export default function DashboardAuthOnly() {
               </div>
             </div>
             
+            {/* Auto-Recharge Card */}
+            <AutoRechargeCard />
+            
+            {/* Contacts Card */}
+            {/* Voicemail Card: for users with a rented number, or messages left before they released it */}
+            {(virtualNumber.virtualNumber || voicemails.voicemails.length > 0) && (
+              <VoicemailCard
+                voicemails={voicemails}
+                onCall={handleHistoryItemClick}
+                contactNames={contacts.contactNames}
+              />
+            )}
+
+            <ContactsCard contacts={contacts} onCall={handleHistoryItemClick} />
+
             {/* Call History Card (Now Collapsible) */}
             <div className="bg-white rounded-lg shadow-md p-4">
               <div className="flex justify-between items-center mb-4">
@@ -517,6 +680,7 @@ export default function DashboardAuthOnly() {
                       calls={callHistory}
                       onCallClick={handleHistoryItemClick}
                       onDeleteClick={handleHistoryItemDelete}
+                      contactNames={contacts.contactNames}
                     />
                   ) : (
                     <div className="text-center py-8 text-gray-500">
@@ -564,6 +728,12 @@ export default function DashboardAuthOnly() {
                         Error loading history: {transactionsError}
                       </div>
                     )}
+                    {receipts.error && (
+                      <div className="mb-3 p-2 bg-red-100 text-red-700 text-sm rounded-md">
+                        Error: {receipts.error}
+                      </div>
+                    )}
+                    {receipts.message && <p className="mb-3 text-sm text-green-600">{receipts.message}</p>}
                     {!isLoadingTransactions && !transactionsError && (
                         <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
                             {transactions.length === 0 ? (
@@ -580,6 +750,18 @@ export default function DashboardAuthOnly() {
             {/* Account Details Card - NEW */} 
             <AccountDetailsCard />
 
+            {/* Caller ID Card */}
+            <CallerIdCard callerIds={callerIds} />
+
+            {/* Virtual Number Card */}
+            <VirtualNumberCard virtualNumber={virtualNumber} />
+
+            {/* Referral Card */}
+            <ReferralCard />
+
+            {/* Statements Card */}
+            <StatementsCard />
+
             {/* Support Card - NEW */} 
             <SupportCard />
           </div>
@@ -590,7 +772,11 @@ export default function DashboardAuthOnly() {
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         onAmountSelected={handleConfirmAddFunds}
+        onApplyPromoCode={handleApplyPromoCode}
+        onQuoteTax={handleQuoteTax}
+        allowance={topUpAllowance}
         isProcessing={isProcessingPayment}
+        currency={walletCurrency}
       />
       
       <Footer />
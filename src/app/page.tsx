@@ -21,6 +21,7 @@ import Footer from '@/components/Footer';
 import LegalModal from '@/components/LegalModal';
 import PrivacyPolicyContent from '@/components/PrivacyPolicyContent';
 import TermsOfServiceContent from '@/components/TermsOfServiceContent';
+import { REFERRAL_CODE_STORAGE_KEY } from '@/types/referral';
 
 export default function Home() {
   const [email, setEmail] = useState('');
@@ -41,6 +42,14 @@ export default function Home() {
     }
   }, [user, loading, router]);
 
+  // Keep a ?ref= referral code until sign-up finishes (email links come back without it)
+  useEffect(() => {
+    const referralCode = new URLSearchParams(window.location.search).get('ref');
+    if (referralCode) {
+      localStorage.setItem(REFERRAL_CODE_STORAGE_KEY, referralCode);
+    }
+  }, []);
+
   // Check if the current URL contains a sign-in link
   useEffect(() => {
     // Only run on client side
@@ -1,11 +1,83 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/context/AuthContext';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
+import { updateCurrencyPreferences } from '@/lib/user-db';
+import { SUPPORTED_CURRENCIES } from '@/types/pricing';
+import { BillingDetails } from '@/types/tax';
 
 export default function AccountDetailsCard() {
   const { user, loading: authLoading } = useAuth();
+  const { displayCurrency, walletCurrency, exchangeRates } = useDisplayCurrency();
   const [isOpen, setIsOpen] = useState(false);
+  const [isSavingCurrency, setIsSavingCurrency] = useState(false);
+  const [billingCountry, setBillingCountry] = useState('');
+  const [vatId, setVatId] = useState('');
+  const [isSavingBilling, setIsSavingBilling] = useState(false);
+  const [billingMessage, setBillingMessage] = useState<string | null>(null);
+  const [billingError, setBillingError] = useState<string | null>(null);
+
+  // Only offer currencies the admins have set an exchange rate for
+  const availableCurrencies = SUPPORTED_CURRENCIES.filter(
+    currency => currency === 'USD' || exchangeRates?.rates[currency]
+  );
+
+  const handleCurrencyChange = async (preferences: { displayCurrency?: string; walletCurrency?: string }) => {
+    if (!user) return;
+    setIsSavingCurrency(true);
+    await updateCurrencyPreferences(user.uid, preferences);
+    setIsSavingCurrency(false);
+  };
+
+  // Billing details are written by the server, which validates them
+  const callBillingApi = useCallback(async (init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch('/api/billing-details', {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data as { billingDetails: BillingDetails | null };
+  }, [user]);
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    callBillingApi()
+      .then(({ billingDetails }) => {
+        setBillingCountry(billingDetails?.country || '');
+        setVatId(billingDetails?.vatId || '');
+      })
+      .catch(err => setBillingError(err instanceof Error ? err.message : 'Could not load billing details.'));
+  }, [isOpen, user, callBillingApi]);
+
+  const handleSaveBilling = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingBilling(true);
+    setBillingMessage(null);
+    setBillingError(null);
+    try {
+      const { billingDetails } = await callBillingApi({
+        method: 'PUT',
+        body: JSON.stringify({ country: billingCountry, vatId }),
+      });
+      setVatId(billingDetails?.vatId || '');
+      setBillingMessage('Billing details saved.');
+    } catch (err) {
+      setBillingError(err instanceof Error ? err.message : 'Could not save billing details.');
+    } finally {
+      setIsSavingBilling(false);
+    }
+  };
 
   // Don't render card if loading or no user
   if (authLoading || !user) {
@@ -41,10 +113,71 @@ export default function AccountDetailsCard() {
                 <dd className="text-gray-800 font-medium mb-2">{user.email || 'N/A'}</dd>
                 
                 <dt className="text-gray-500">User ID:</dt>
-                <dd className="text-gray-800 font-mono text-xs break-all">{user.uid}</dd>
+                <dd className="text-gray-800 font-mono text-xs break-all mb-2">{user.uid}</dd>
                 
-                {/* Add other details here if needed later */}
+                <dt className="text-gray-500">Display currency:</dt>
+                <dd className="mb-2">
+                  <select
+                    value={displayCurrency}
+                    onChange={(e) => handleCurrencyChange({ displayCurrency: e.target.value })}
+                    disabled={isSavingCurrency}
+                    className="mt-1 px-2 py-1 border border-gray-300 rounded-md text-gray-800"
+                  >
+                    {availableCurrencies.map(currency => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                </dd>
+                
+                <dt className="text-gray-500">Pay top-ups in:</dt>
+                <dd>
+                  <select
+                    value={walletCurrency}
+                    onChange={(e) => handleCurrencyChange({ walletCurrency: e.target.value })}
+                    disabled={isSavingCurrency}
+                    className="mt-1 px-2 py-1 border border-gray-300 rounded-md text-gray-800"
+                  >
+                    {availableCurrencies.map(currency => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">Your balance is kept in USD and converted at the current rate.</p>
+                </dd>
             </dl>
+
+            <form onSubmit={handleSaveBilling} className="mt-4 pt-3 border-t border-gray-100 text-sm">
+              <p className="text-gray-500 mb-2">Billing details (used for VAT/GST and shown on receipts):</p>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="text"
+                  maxLength={2}
+                  value={billingCountry}
+                  onChange={(e) => setBillingCountry(e.target.value.toUpperCase())}
+                  placeholder="Country (e.g. GB)"
+                  aria-label="Billing country code"
+                  disabled={isSavingBilling}
+                  className="w-36 px-2 py-1 border border-gray-300 rounded-md text-gray-800 font-mono"
+                />
+                <input
+                  type="text"
+                  value={vatId}
+                  onChange={(e) => setVatId(e.target.value)}
+                  placeholder="VAT ID (optional)"
+                  aria-label="VAT ID"
+                  disabled={isSavingBilling}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-gray-800 font-mono"
+                />
+                <button
+                  type="submit"
+                  disabled={isSavingBilling || !billingCountry}
+                  className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 font-medium disabled:opacity-50"
+                >
+                  {isSavingBilling ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+              {billingMessage && <p className="mt-2 text-green-600">{billingMessage}</p>}
+              {billingError && <p className="mt-2 text-red-600">{billingError}</p>}
+            </form>
             {/* Add Sign Out button here too? Or other account links */} 
           </div>
         )}
@@ -1,40 +1,99 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import { formatPrice } from '@/lib/pricing/pricing-engine';
+import { PromoCodeRedemption } from '@/types/promo';
+import { TaxQuote } from '@/types/tax';
+import { TopUpAllowance } from '@/types/billing';
 
 interface AddFundsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAmountSelected: (amount: number) => void; // Callback with the chosen amount
+  onAmountSelected: (amount: number, promoCode?: string) => void; // Callback with the chosen amount and any bonus code
+  onApplyPromoCode?: (code: string) => Promise<PromoCodeRedemption>; // Redeems fixed credits, checks bonus codes
+  onQuoteTax?: (amount: number) => Promise<TaxQuote>; // VAT/GST due on top of the selected amount
   isProcessing?: boolean; // Optional: Parent can indicate processing state
+  currency?: string; // Currency the top-up is charged in (defaults to USD)
+  allowance?: TopUpAllowance | null; // Amounts to offer and the user's remaining limit; null while loading
 }
 
-// Updated predefined amounts
-const PREDEFINED_AMOUNTS = [5, 10, 15, 20, 30, 50];
-
 export default function AddFundsModal({ 
   isOpen, 
   onClose, 
   onAmountSelected, 
-  isProcessing = false // Default to not processing
+  onApplyPromoCode,
+  onQuoteTax,
+  isProcessing = false, // Default to not processing
+  currency = 'USD',
+  allowance = null
 }: AddFundsModalProps) {
   const [selectedPredefined, setSelectedPredefined] = useState<number | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [bonusPromo, setBonusPromo] = useState<PromoCodeRedemption | null>(null); // Applied to this top-up
+  const [promoMessage, setPromoMessage] = useState<string | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const [taxQuote, setTaxQuote] = useState<TaxQuote | null>(null);
+  const [taxError, setTaxError] = useState<string | null>(null);
 
   // Reset state when modal opens/closes
   useEffect(() => {
     if (isOpen) {
       setSelectedPredefined(null);
+      setPromoInput('');
+      setBonusPromo(null);
+      setPromoMessage(null);
+      setPromoError(null);
+      setTaxQuote(null);
+      setTaxError(null);
     }
   }, [isOpen]);
 
+  // Quote the tax whenever the amount changes, so the total is known before checkout
+  useEffect(() => {
+    if (!onQuoteTax || selectedPredefined === null) return;
+    let cancelled = false;
+    setTaxQuote(null);
+    setTaxError(null);
+    onQuoteTax(selectedPredefined)
+      .then(quote => { if (!cancelled) setTaxQuote(quote); })
+      .catch(error => { if (!cancelled) setTaxError(error instanceof Error ? error.message : 'Could not calculate tax.'); });
+    return () => { cancelled = true; };
+  }, [onQuoteTax, selectedPredefined]);
+
   const handlePredefinedClick = (amount: number) => {
     setSelectedPredefined(amount);
   };
 
+  const handleApplyPromo = async () => {
+    if (!onApplyPromoCode || !promoInput.trim()) return;
+
+    setIsApplyingPromo(true);
+    setPromoError(null);
+    setPromoMessage(null);
+    try {
+      const result = await onApplyPromoCode(promoInput.trim());
+      if (result.type === 'percentage_bonus') {
+        setBonusPromo(result);
+        setPromoMessage(`${result.value}% bonus will be added to this top-up.`);
+      } else {
+        // Fixed credits are already on the balance, so there's nothing to carry to checkout
+        setBonusPromo(null);
+        setPromoInput('');
+        setPromoMessage(`${formatPrice(result.credit ?? result.value, 'USD')} has been added to your balance.`);
+      }
+    } catch (error) {
+      setBonusPromo(null);
+      setPromoError(error instanceof Error ? error.message : 'Could not apply promo code.');
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
+
   const handleConfirm = () => {
     if (selectedPredefined !== null) {
         console.log(`[AddFundsModal] Confirming amount: ${selectedPredefined}`);
-        onAmountSelected(selectedPredefined);
+        onAmountSelected(selectedPredefined, bonusPromo?.code);
     } else {
         // Although the button should be disabled, add a safeguard
         console.warn("[AddFundsModal] Confirm clicked without a selected amount.");
@@ -46,7 +105,10 @@ export default function AddFundsModal({
   }
 
   // Update confirm button disabled logic
-  const isConfirmDisabled = isProcessing || selectedPredefined === null;
+  // Top-ups need a billing country so the right tax can be charged
+  const needsBillingCountry = Boolean(onQuoteTax) && (taxQuote === null || taxQuote.country === null);
+  const isConfirmDisabled = isProcessing || selectedPredefined === null || needsBillingCountry;
+  const total = taxQuote?.total ?? selectedPredefined;
 
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex justify-center items-center">
@@ -64,27 +126,92 @@ export default function AddFundsModal({
         {/* Predefined Amounts - Allow wrapping */}
         <div className="mb-6"> {/* Increased bottom margin */} 
           <p className="text-sm font-medium text-gray-700 mb-2">Select amount:</p>
+          {!allowance && <p className="text-sm text-gray-500">Loading amounts...</p>}
           {/* Use flex-wrap to allow buttons onto next line if needed */}
           <div className="flex flex-wrap gap-3"> 
-            {PREDEFINED_AMOUNTS.map(amount => (
+            {allowance?.amounts.map(amount => (
               <button
                 key={amount}
                 onClick={() => handlePredefinedClick(amount)}
-                disabled={isProcessing}
+                disabled={isProcessing || amount > allowance.maxAmount}
                 className={`px-4 py-2 rounded-md border transition-colors text-sm font-medium 
                   ${selectedPredefined === amount 
                     ? 'bg-blue-500 text-white border-blue-500' 
                     : 'bg-white text-blue-700 border-gray-300 hover:bg-gray-50'} 
                   disabled:opacity-50 disabled:cursor-not-allowed`}
               >
-                ${amount}
+                {formatPrice(amount, currency).replace(/\.00$/, '')}
               </button>
             ))}
           </div>
+          {allowance?.limitReason && (
+            <p className="mt-2 text-sm text-gray-500">
+              {allowance.limitReason}: you can add up to {formatPrice(allowance.maxAmount, currency)} right now.
+            </p>
+          )}
         </div>
 
         {/* Removed Custom Amount Input Section */}
 
+        {/* Promo Code */}
+        {onApplyPromoCode && (
+          <div className="mb-6">
+            <label htmlFor="promo-code" className="block text-sm font-medium text-gray-700 mb-2">Promo code:</label>
+            <div className="flex gap-2">
+              <input
+                id="promo-code"
+                type="text"
+                value={promoInput}
+                onChange={(e) => {
+                  setPromoInput(e.target.value.toUpperCase());
+                  setBonusPromo(null);
+                }}
+                disabled={isProcessing || isApplyingPromo}
+                placeholder="Enter code"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono disabled:opacity-50"
+              />
+              <button
+                onClick={handleApplyPromo}
+                disabled={isProcessing || isApplyingPromo || !promoInput.trim()}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm font-medium disabled:opacity-50"
+              >
+                {isApplyingPromo ? 'Applying...' : 'Apply'}
+              </button>
+            </div>
+            {promoMessage && <p className="mt-2 text-sm text-green-600">{promoMessage}</p>}
+            {promoError && <p className="mt-2 text-sm text-red-600">{promoError}</p>}
+          </div>
+        )}
+
+        {/* Tax Summary */}
+        {onQuoteTax && selectedPredefined !== null && (
+          <div className="mb-6 text-sm">
+            {taxError && <p className="text-red-600">{taxError}</p>}
+            {!taxError && !taxQuote && <p className="text-gray-500">Calculating tax...</p>}
+            {taxQuote && taxQuote.country === null && (
+              <p className="text-red-600">Add your billing country in Account Details before topping up.</p>
+            )}
+            {taxQuote && taxQuote.country !== null && (
+              <dl className="space-y-1">
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Added to balance</dt>
+                  <dd>{formatPrice(selectedPredefined, currency)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">
+                    {taxQuote.reverseCharge ? `${taxQuote.taxName} (reverse charge)` : `${taxQuote.taxName} (${taxQuote.taxRate}%)`}
+                  </dt>
+                  <dd>{formatPrice(taxQuote.taxAmount, currency)}</dd>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <dt>Total charged</dt>
+                  <dd>{formatPrice(taxQuote.total, currency)}</dd>
+                </div>
+              </dl>
+            )}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex justify-end items-center pt-4 border-t space-x-3">
           <button 
@@ -100,7 +227,7 @@ export default function AddFundsModal({
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {/* Update confirm button text */}
-            {isProcessing ? 'Processing...' : (selectedPredefined ? `Confirm $${selectedPredefined}` : 'Select Amount') }
+            {isProcessing ? 'Processing...' : (total ? `Confirm ${formatPrice(total, currency)}` : 'Select Amount') }
           </button>
         </div>
       </div>
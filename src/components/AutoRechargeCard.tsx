@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/AuthContext';
+import {
+  AUTO_RECHARGE_MAX_THRESHOLD,
+  AUTO_RECHARGE_MIN_THRESHOLD,
+  AutoRechargeSettings,
+  TopUpAllowance
+} from '@/types/billing';
+
+export default function AutoRechargeCard() {
+  const { user, loading: authLoading } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<Partial<AutoRechargeSettings> | null>(null);
+  const [threshold, setThreshold] = useState('5');
+  const [amount, setAmount] = useState(20);
+  const [amounts, setAmounts] = useState<number[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the saved settings so webhook updates (card saved, declines) show immediately
+  useEffect(() => {
+    if (!user) {
+      setSettings(null);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(doc(db, 'users', user.uid),
+      (docSnap) => {
+        const autoRecharge = docSnap.data()?.autoRecharge as Partial<AutoRechargeSettings> | undefined;
+        setSettings(autoRecharge ?? null);
+        if (autoRecharge?.threshold) setThreshold(String(autoRecharge.threshold));
+        if (autoRecharge?.amount) setAmount(autoRecharge.amount);
+      },
+      (err) => {
+        console.error('[AutoRechargeCard] Error listening to auto-recharge settings:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  // Recharge amounts are the USD top-up amounts the admin-set policy offers
+  useEffect(() => {
+    if (!user) return;
+
+    const loadAmounts = async () => {
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch('/api/top-up-policy?currency=USD', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load top-up amounts');
+        }
+        const { amounts: offered } = data as TopUpAllowance;
+        setAmounts(offered);
+        setAmount(current => (offered.includes(current) || offered.length === 0 ? current : offered[0]));
+      } catch (err) {
+        console.error('[AutoRechargeCard] Error loading top-up amounts:', err);
+      }
+    };
+    loadAmounts();
+  }, [user]);
+
+  // Don't render card if loading or no user
+  if (authLoading || !user) {
+    return null;
+  }
+
+  const callApi = async (method: 'POST' | 'PUT' | 'DELETE', body?: object) => {
+    const token = await user.getIdToken();
+    const response = await fetch('/api/stripe/auto-recharge', {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('[AutoRechargeCard] Error:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveCard = () => runAction(async () => {
+    const { url } = await callApi('POST');
+    window.location.href = url; // Stripe Checkout in setup mode
+  });
+
+  const handleSaveSettings = (enabled: boolean) => runAction(async () => {
+    await callApi('PUT', { enabled, threshold: parseFloat(threshold), amount });
+  });
+
+  const handleRemoveCard = () => runAction(async () => {
+    if (!window.confirm('Remove your saved card? Auto-recharge will be turned off.')) return;
+    await callApi('DELETE');
+  });
+
+  const hasCard = Boolean(settings?.paymentMethodId);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">
+            Auto-Recharge
+            <span className={`ml-2 text-xs font-medium px-2 py-0.5 rounded-full ${settings?.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
+              {settings?.enabled ? 'On' : 'Off'}
+            </span>
+          </h2>
+          <button 
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-blue-500 hover:text-blue-700 text-sm font-medium focus:outline-none"
+            aria-expanded={isOpen}
+            aria-controls="auto-recharge-card-content"
+          >
+            {isOpen ? 'Hide' : 'Show'}
+            <svg 
+              xmlns="http://www.w3.org/2000/svg" 
+              className={`inline-block h-4 w-4 ml-1 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+              fill="none" viewBox="0 0 24 24" stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
+        
+        {/* Collapsible Content */}
+        {isOpen && (
+          <div id="auto-recharge-card-content" className="pt-2 border-t border-gray-100 text-sm">
+            {error && (
+              <div className="mb-3 p-2 bg-red-100 text-red-700 text-sm rounded-md">
+                Error: {error}
+              </div>
+            )}
+
+            {settings?.lastFailureReason && (
+              <div className="mb-3 p-2 bg-yellow-100 text-yellow-800 text-sm rounded-md">
+                Last auto-recharge failed: {settings.lastFailureReason}
+                {!settings.enabled && ' Auto-recharge has been turned off.'}
+              </div>
+            )}
+
+            {!hasCard ? (
+              <div>
+                <p className="text-gray-500 mb-3">Save a card to top up automatically when your balance runs low.</p>
+                <button
+                  onClick={handleSaveCard}
+                  disabled={isSaving}
+                  className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-1 rounded-md text-sm transition-colors disabled:opacity-50"
+                >
+                  {isSaving ? 'Redirecting...' : 'Save a Card'}
+                </button>
+              </div>
+            ) : (
+              <div>
+                <p className="text-gray-700 mb-3">
+                  Card: <span className="font-medium capitalize">{settings?.cardBrand}</span> ending {settings?.cardLast4}
+                  <button onClick={handleRemoveCard} disabled={isSaving} className="ml-3 text-red-600 hover:text-red-800 disabled:opacity-50">
+                    Remove
+                  </button>
+                </p>
+                <div className="flex flex-wrap items-center gap-2 mb-3 text-gray-700">
+                  <span>When balance drops below $</span>
+                  <input
+                    type="number"
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                    min={AUTO_RECHARGE_MIN_THRESHOLD}
+                    max={AUTO_RECHARGE_MAX_THRESHOLD}
+                    step="1"
+                    className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                  <span>add</span>
+                  <select
+                    value={amount}
+                    onChange={(e) => setAmount(Number(e.target.value))}
+                    className="px-2 py-1 border border-gray-300 rounded-md"
+                  >
+                    {amounts.map(value => (
+                      <option key={value} value={value}>${value}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleSaveSettings(true)}
+                    disabled={isSaving}
+                    className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-1 rounded-md text-sm transition-colors disabled:opacity-50"
+                  >
+                    {settings?.enabled ? 'Update' : 'Turn On'}
+                  </button>
+                  {settings?.enabled && (
+                    <button
+                      onClick={() => handleSaveSettings(false)}
+                      disabled={isSaving}
+                      className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-4 py-1 rounded-md text-sm transition-colors disabled:opacity-50"
+                    >
+                      Turn Off
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-3">Charged in USD. Auto-recharge turns off after 3 declined charges in a row.</p>
+              </div>
+            )}
+          </div>
+        )}
+    </div>
+  );
+}
@@ -15,9 +15,10 @@ interface CallHistoryProps {
   calls: CallHistoryEntry[];
   onCallClick: (phoneNumber: string) => void;
   onDeleteClick?: (callId: string) => void;
+  contactNames?: Record<string, string>; // E.164 number -> contact name
 }
 
-const CallHistory: React.FC<CallHistoryProps> = ({ calls, onCallClick, onDeleteClick }) => {
+const CallHistory: React.FC<CallHistoryProps> = ({ calls, onCallClick, onDeleteClick, contactNames = {} }) => {
   // Format timestamp to readable date/time
   const formatTimestamp = (timestamp: number): string => {
     const date = new Date(timestamp);
@@ -109,7 +110,10 @@ const CallHistory: React.FC<CallHistoryProps> = ({ calls, onCallClick, onDeleteC
               <div className="flex-1 min-w-0">
                 <div className="flex items-center justify-between">
                   <div className="truncate">
-                    <span className="font-medium text-sm">{call.phoneNumber}</span>
+                    <span className="font-medium text-sm">{contactNames[call.phoneNumber] || call.phoneNumber}</span>
+                    {contactNames[call.phoneNumber] && (
+                      <span className="ml-2 text-xs text-gray-500">{call.phoneNumber}</span>
+                    )}
                     <span className={`ml-2 text-xs ${
                       call.status === 'missed' ? 'text-red-500' : 'text-gray-500'
                     }`}>
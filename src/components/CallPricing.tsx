@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { PhoneNumberPriceResponse } from '@/types/pricing';
-import { calculateCallCost, formatPrice } from '@/lib/pricing/pricing-engine';
+import { calculateCallCost } from '@/lib/pricing/pricing-engine';
+import { useAuth } from '@/context/AuthContext';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
 
 interface CallPricingProps {
   phoneNumber: string;
@@ -24,6 +26,8 @@ export default function CallPricing({
   userBalance,
   isLoadingBalance,
 }: CallPricingProps) {
+  const { user } = useAuth(); // Signed-in quotes include the user's pricing plan
+  const { formatAmount } = useDisplayCurrency();
   const [pricing, setPricing] = useState<PhoneNumberPriceResponse | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
@@ -42,7 +46,8 @@ export default function CallPricing({
       setError(null);
       
       try {
-        const response = await fetch(`/api/pricing?phoneNumber=${encodeURIComponent(phoneNumber)}`);
+        const headers: HeadersInit = user ? { 'Authorization': `Bearer ${await user.getIdToken()}` } : {};
+        const response = await fetch(`/api/pricing?phoneNumber=${encodeURIComponent(phoneNumber)}`, { headers });
         
         if (!response.ok) {
           throw new Error(`Error ${response.status}: ${response.statusText}`);
@@ -59,7 +64,7 @@ export default function CallPricing({
     };
     
     fetchPricing();
-  }, [phoneNumber]);
+  }, [phoneNumber, user]);
   
   // Update cost during an active call
   useEffect(() => {
@@ -80,7 +85,9 @@ export default function CallPricing({
       const cost = calculateCallCost(
         pricing.finalPrice,
         callDuration,
-        pricing.billingIncrement
+        pricing.billingIncrement,
+        pricing.initialIncrement,
+        pricing.connectionFee
       );
       setCurrentCost(cost);
       
@@ -103,7 +110,9 @@ export default function CallPricing({
       const cost = calculateCallCost(
         pricing.finalPrice,
         duration,
-        pricing.billingIncrement
+        pricing.billingIncrement,
+        pricing.initialIncrement,
+        pricing.connectionFee
       );
       
       setCurrentCost(cost);
@@ -132,9 +141,11 @@ export default function CallPricing({
 
     return (
       <div className="text-sm text-gray-600">
-        Rate: <span className="font-semibold">{formatPrice(pricing.finalPrice)}</span> / min
-        {pricing.billingIncrement !== 60 && 
-          <span className="text-xs text-gray-500 ml-1">(billed per {pricing.billingIncrement}s)</span>}
+        Rate: <span className="font-semibold">{formatAmount(pricing.finalPrice)}</span> / min
+        {(pricing.billingIncrement !== 60 || (pricing.initialIncrement ?? 60) !== 60) && 
+          <span className="text-xs text-gray-500 ml-1">(billed {pricing.initialIncrement ?? pricing.billingIncrement}s then per {pricing.billingIncrement}s)</span>}
+        {!!pricing.connectionFee && 
+          <span className="text-xs text-gray-500 ml-1">+ {formatAmount(pricing.connectionFee)} connection fee</span>}
       </div>
     );
   };
@@ -219,8 +230,8 @@ export default function CallPricing({
             </span>
           ) : (
             <span>
-              Cost: <span className="font-semibold">{formatPrice(currentCost)}</span> 
-              ({formatPrice(pricing.finalPrice)}/min, {formatDuration(durationSeconds)})
+              Cost: <span className="font-semibold">{formatAmount(currentCost)}</span> 
+              ({formatAmount(pricing.finalPrice)}/min, {formatDuration(durationSeconds)})
             </span>
           )
         ) : (
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/context/AuthContext';
+import { CallerIdsState } from '@/hooks/useCallerIds';
+import { CALLER_ID_CODE_LENGTH, CallerIdVerificationChannel, MAX_VERIFIED_CALLER_IDS } from '@/types/caller-id';
+
+interface CallerIdCardProps {
+  callerIds: CallerIdsState; // From useCallerIds, shared with the dialer
+}
+
+export default function CallerIdCard({ callerIds }: CallerIdCardProps) {
+  const { user, loading: authLoading } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [channel, setChannel] = useState<CallerIdVerificationChannel>('sms');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Don't render card if loading or no user
+  if (authLoading || !user) {
+    return null;
+  }
+
+  const submit = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    setFormError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSendCode = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    submit(async () => {
+      await callerIds.sendCode(phoneNumber, channel);
+      setCodeSent(true);
+      setCode('');
+      setMessage(channel === 'sms' ? 'We sent you a text with a code.' : 'We\'re calling you with a code.');
+    });
+  };
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(async () => {
+      await callerIds.confirmCode(phoneNumber, code);
+      setMessage(`${phoneNumber} is verified. Choose it under "Call from" in the dialer.`);
+      setPhoneNumber('');
+      setCode('');
+      setCodeSent(false);
+    });
+  };
+
+  const handleRemove = (number: string) => {
+    if (!confirm(`Stop using ${number} as your caller ID?`)) return;
+    submit(() => callerIds.removeCallerId(number));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Caller ID</h2>
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-blue-500 hover:text-blue-700 text-sm font-medium focus:outline-none"
+            aria-expanded={isOpen}
+            aria-controls="caller-id-card-content"
+          >
+            {isOpen ? 'Hide' : 'Show'}
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className={`inline-block h-4 w-4 ml-1 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+              fill="none" viewBox="0 0 24 24" stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Collapsible Content */}
+        {isOpen && (
+          <div id="caller-id-card-content" className="pt-2 border-t border-gray-100 text-sm space-y-3">
+            <p className="text-gray-600">
+              Calls show a ZippCall number by default. Verify your own phone number to show it instead.
+            </p>
+
+            {callerIds.error && (
+              <div className="p-2 bg-red-100 text-red-700 text-sm rounded-md">
+                Error: {callerIds.error}
+              </div>
+            )}
+
+            {callerIds.isLoading ? (
+              <p className="text-gray-500">Loading...</p>
+            ) : callerIds.callerIds.length > 0 && (
+              <ul className="divide-y divide-gray-100">
+                {callerIds.callerIds.map(callerId => (
+                  <li key={callerId.number} className="flex items-center justify-between py-2">
+                    <span>
+                      <span className="font-mono">{callerId.number}</span>
+                      <span className="ml-2 text-xs text-gray-500">
+                        Verified {new Date(callerId.verifiedAt).toLocaleDateString()}
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => handleRemove(callerId.number)}
+                      disabled={isSubmitting}
+                      className="p-1 bg-red-100 text-red-600 rounded hover:bg-red-200 transition-colors disabled:opacity-50"
+                      title="Remove this caller ID"
+                    >
+                      <TrashIcon className="h-3 w-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {callerIds.callerIds.length < MAX_VERIFIED_CALLER_IDS && (
+              codeSent ? (
+                <form onSubmit={handleConfirm} className="space-y-2">
+                  <label htmlFor="caller-id-code" className="block text-gray-700">
+                    Enter the code sent to <span className="font-mono">{phoneNumber}</span>
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      id="caller-id-code"
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                      maxLength={CALLER_ID_CODE_LENGTH}
+                      required
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono tracking-widest"
+                    />
+                    <button
+                      type="submit"
+                      disabled={isSubmitting || code.length !== CALLER_ID_CODE_LENGTH}
+                      className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 font-medium disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Checking...' : 'Verify'}
+                    </button>
+                  </div>
+                  <div className="flex gap-3 text-blue-500">
+                    <button type="button" onClick={() => handleSendCode()} disabled={isSubmitting} className="hover:text-blue-700">
+                      Resend code
+                    </button>
+                    <button type="button" onClick={() => { setCodeSent(false); setFormError(null); setMessage(null); }} className="hover:text-blue-700">
+                      Use a different number
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <form onSubmit={handleSendCode} className="space-y-2">
+                  <input
+                    type="tel"
+                    value={phoneNumber}
+                    onChange={(e) => setPhoneNumber(e.target.value)}
+                    placeholder="+44 20 7946 0000"
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono"
+                  />
+                  <div className="flex items-center justify-between">
+                    <div className="flex gap-4 text-gray-700">
+                      <label className="inline-flex items-center">
+                        <input type="radio" checked={channel === 'sms'} onChange={() => setChannel('sms')} className="mr-1" />
+                        Text me
+                      </label>
+                      <label className="inline-flex items-center">
+                        <input type="radio" checked={channel === 'call'} onChange={() => setChannel('call')} className="mr-1" />
+                        Call me
+                      </label>
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={isSubmitting || !phoneNumber.trim()}
+                      className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 font-medium disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Sending...' : 'Send code'}
+                    </button>
+                  </div>
+                </form>
+              )
+            )}
+
+            {formError && <p className="text-red-600">{formError}</p>}
+            {message && <p className="text-green-600">{message}</p>}
+          </div>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+'use client';
+
+import React, { useState, useRef } from 'react';
+import { PhoneIcon, PencilIcon, TrashIcon, StarIcon } from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import { useAuth } from '@/context/AuthContext';
+import { ContactData, ContactsState } from '@/hooks/useContacts';
+import {
+  CONTACT_NUMBER_LABELS,
+  ContactInput,
+  ContactNumberLabel,
+  MAX_CONTACT_NUMBERS
+} from '@/types/contact';
+
+interface ContactsCardProps {
+  contacts: ContactsState;              // From useContacts, shared with call history
+  onCall: (phoneNumber: string) => void; // Prepares the call in VoiceCall
+}
+
+const EMPTY_CONTACT: ContactInput = {
+  name: '',
+  numbers: [{ label: 'mobile', number: '' }],
+  notes: '',
+  favorite: false
+};
+
+export default function ContactsCard({ contacts, onCall }: ContactsCardProps) {
+  const { user, loading: authLoading } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<{ id?: string; input: ContactInput } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Don't render card if loading or no user
+  if (authLoading || !user) {
+    return null;
+  }
+
+  const runAction = async (action: () => Promise<string | void>) => {
+    setMessage(null);
+    setActionError(null);
+    try {
+      const result = await action();
+      if (result) setMessage(result);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await contacts.saveContact(editing.input, editing.id);
+      setEditing(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not save contact.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    runAction(async () => {
+      const result = await contacts.importFile(file);
+      return `Imported ${result.imported} contact${result.imported === 1 ? '' : 's'}` +
+        (result.skipped.length ? `, skipped ${result.skipped.length} (${result.skipped.slice(0, 3).map(entry => `${entry.name}: ${entry.reason}`).join('; ')}${result.skipped.length > 3 ? '...' : ''}).` : '.');
+    });
+  };
+
+  const toggleFavorite = (contact: ContactData) => runAction(() => contacts.saveContact({
+    name: contact.name,
+    numbers: contact.numbers,
+    notes: contact.notes,
+    favorite: !contact.favorite
+  }, contact.id));
+
+  const handleDelete = (contact: ContactData) => {
+    if (!confirm(`Delete ${contact.name} from your contacts?`)) return;
+    runAction(() => contacts.deleteContact(contact.id));
+  };
+
+  const updateNumber = (index: number, changes: { label?: ContactNumberLabel; number?: string }) => {
+    if (!editing) return;
+    const numbers = editing.input.numbers.map((entry, i) => (i === index ? { ...entry, ...changes } : entry));
+    setEditing({ ...editing, input: { ...editing.input, numbers } });
+  };
+
+  const searchTerm = search.trim().toLowerCase();
+  const visibleContacts = contacts.contacts.filter(contact =>
+    !searchTerm ||
+    contact.name.toLowerCase().includes(searchTerm) ||
+    contact.numbers.some(number => number.number.includes(searchTerm.replace(/[^\d+]/g, '') || searchTerm))
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Contacts</h2>
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-blue-500 hover:text-blue-700 text-sm font-medium focus:outline-none"
+            aria-expanded={isOpen}
+            aria-controls="contacts-card-content"
+          >
+            {isOpen ? 'Hide' : 'Show'}
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className={`inline-block h-4 w-4 ml-1 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+              fill="none" viewBox="0 0 24 24" stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Collapsible Content */}
+        {isOpen && (
+          <div id="contacts-card-content" className="pt-2 border-t border-gray-100 text-sm">
+            {(contacts.error || actionError) && (
+              <div className="mb-3 p-2 bg-red-100 text-red-700 text-sm rounded-md">
+                Error: {actionError || contacts.error}
+              </div>
+            )}
+            {message && <p className="mb-3 text-green-600">{message}</p>}
+
+            {editing ? (
+              <form onSubmit={handleSave} className="space-y-3">
+                <input
+                  type="text"
+                  value={editing.input.name}
+                  onChange={(e) => setEditing({ ...editing, input: { ...editing.input, name: e.target.value } })}
+                  placeholder="Name"
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+                {editing.input.numbers.map((entry, index) => (
+                  <div key={index} className="flex gap-2">
+                    <select
+                      value={entry.label}
+                      onChange={(e) => updateNumber(index, { label: e.target.value as ContactNumberLabel })}
+                      className="px-2 py-2 border border-gray-300 rounded-md"
+                    >
+                      {Object.entries(CONTACT_NUMBER_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="tel"
+                      value={entry.number}
+                      onChange={(e) => updateNumber(index, { number: e.target.value })}
+                      placeholder="+44 20 7946 0000"
+                      required
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono"
+                    />
+                    {editing.input.numbers.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setEditing({ ...editing, input: { ...editing.input, numbers: editing.input.numbers.filter((_, i) => i !== index) } })}
+                        className="p-2 text-red-600 hover:text-red-800"
+                        title="Remove this number"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {editing.input.numbers.length < MAX_CONTACT_NUMBERS && (
+                  <button
+                    type="button"
+                    onClick={() => setEditing({ ...editing, input: { ...editing.input, numbers: [...editing.input.numbers, { label: 'mobile', number: '' }] } })}
+                    className="text-blue-500 hover:text-blue-700"
+                  >
+                    + Add number
+                  </button>
+                )}
+                <textarea
+                  value={editing.input.notes}
+                  onChange={(e) => setEditing({ ...editing, input: { ...editing.input, notes: e.target.value } })}
+                  placeholder="Notes"
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <label className="inline-flex items-center text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={editing.input.favorite}
+                    onChange={(e) => setEditing({ ...editing, input: { ...editing.input, favorite: e.target.checked } })}
+                    className="mr-2"
+                  />
+                  Favorite
+                </label>
+                {formError && <p className="text-red-600">{formError}</p>}
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditing(null)}
+                    disabled={isSaving}
+                    className="px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 font-medium disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 font-medium disabled:opacity-50"
+                  >
+                    {isSaving ? 'Saving...' : 'Save Contact'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <>
+                <div className="flex gap-2 mb-3">
+                  <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search contacts"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <button
+                    onClick={() => { setFormError(null); setEditing({ input: EMPTY_CONTACT }); }}
+                    className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 font-medium"
+                  >
+                    Add
+                  </button>
+                </div>
+
+                {contacts.isLoading ? (
+                  <p className="text-gray-500 text-center py-4">Loading contacts...</p>
+                ) : visibleContacts.length === 0 ? (
+                  <p className="text-gray-500 text-center py-4">
+                    {contacts.contacts.length === 0 ? 'No contacts yet. Add one or import a vCard or CSV file.' : 'No matching contacts.'}
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+                    {visibleContacts.map(contact => (
+                      <li key={contact.id} className="py-2">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center min-w-0">
+                            <button
+                              onClick={() => toggleFavorite(contact)}
+                              className="mr-2 text-yellow-500 hover:text-yellow-600"
+                              title={contact.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                            >
+                              {contact.favorite ? <StarSolidIcon className="h-4 w-4" /> : <StarIcon className="h-4 w-4" />}
+                            </button>
+                            <span className="font-medium truncate">{contact.name}</span>
+                          </div>
+                          <div className="flex shrink-0 space-x-1">
+                            <button
+                              onClick={() => { setFormError(null); setEditing({ id: contact.id, input: { name: contact.name, numbers: contact.numbers, notes: contact.notes, favorite: contact.favorite } }); }}
+                              className="p-1 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 transition-colors"
+                              title="Edit contact"
+                            >
+                              <PencilIcon className="h-3 w-3" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(contact)}
+                              className="p-1 bg-red-100 text-red-600 rounded hover:bg-red-200 transition-colors"
+                              title="Delete contact"
+                            >
+                              <TrashIcon className="h-3 w-3" />
+                            </button>
+                          </div>
+                        </div>
+                        {contact.numbers.map(number => (
+                          <div key={number.number} className="flex items-center justify-between ml-6 mt-1 text-gray-600">
+                            <span>
+                              <span className="text-xs text-gray-400 mr-2">{CONTACT_NUMBER_LABELS[number.label]}</span>
+                              <span className="font-mono">{number.number}</span>
+                            </span>
+                            <button
+                              onClick={() => onCall(number.number)}
+                              className="p-1 bg-blue-100 text-blue-600 rounded hover:bg-blue-200 transition-colors"
+                              title={`Call ${contact.name}`}
+                            >
+                              <PhoneIcon className="h-3 w-3" />
+                            </button>
+                          </div>
+                        ))}
+                        {contact.notes && <p className="ml-6 mt-1 text-xs text-gray-400 truncate">{contact.notes}</p>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex flex-wrap gap-3 mt-3 pt-3 border-t border-gray-100 text-blue-500">
+                  <button onClick={() => fileInputRef.current?.click()} className="hover:text-blue-700">
+                    Import vCard / CSV
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".vcf,.vcard,.csv,text/vcard,text/csv"
+                    onChange={handleImport}
+                    className="hidden"
+                  />
+                  <button onClick={() => runAction(() => contacts.exportContacts('vcard'))} className="hover:text-blue-700">
+                    Export vCard
+                  </button>
+                  <button onClick={() => runAction(() => contacts.exportContacts('csv'))} className="hover:text-blue-700">
+                    Export CSV
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/context/AuthContext';
+
+interface ReferralSummary {
+  code: string;
+  enabled: boolean;
+  referrerReward: number;
+  refereeReward: number;
+  referredCount: number;
+  rewardedCount: number;
+  totalEarned: number;
+}
+
+export default function ReferralCard() {
+  const { user, loading: authLoading } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [summary, setSummary] = useState<ReferralSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load when first opened, so a code is only created for users who look for it
+  useEffect(() => {
+    if (!isOpen || !user || summary) {
+      return;
+    }
+
+    const loadSummary = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch('/api/referrals', {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Request failed');
+        }
+        setSummary(data);
+      } catch (err) {
+        console.error('[ReferralCard] Error loading referrals:', err);
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSummary();
+  }, [isOpen, user, summary]);
+
+  // Don't render card if loading or no user
+  if (authLoading || !user) {
+    return null;
+  }
+
+  const referralLink = summary ? `${window.location.origin}/?ref=${summary.code}` : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(referralLink);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('[ReferralCard] Error copying link:', err);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Refer a Friend</h2>
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-blue-500 hover:text-blue-700 text-sm font-medium focus:outline-none"
+            aria-expanded={isOpen}
+            aria-controls="referral-card-content"
+          >
+            {isOpen ? 'Hide' : 'Show'}
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className={`inline-block h-4 w-4 ml-1 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+              fill="none" viewBox="0 0 24 24" stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Collapsible Content */}
+        {isOpen && (
+          <div id="referral-card-content" className="pt-2 border-t border-gray-100 text-sm">
+            {error && (
+              <div className="mb-3 p-2 bg-red-100 text-red-700 text-sm rounded-md">
+                Error: {error}
+              </div>
+            )}
+
+            {isLoading && <p className="text-gray-500">Loading...</p>}
+
+            {summary && !summary.enabled && (
+              <p className="text-gray-500">The referral program isn&apos;t running right now.</p>
+            )}
+
+            {summary && summary.enabled && (
+              <div>
+                <p className="text-gray-600 mb-3">
+                  Share your link. When a friend signs up and makes their first top-up, you get ${summary.referrerReward.toFixed(2)} and they get ${summary.refereeReward.toFixed(2)}.
+                </p>
+                <div className="flex gap-2 mb-3">
+                  <input
+                    type="text"
+                    readOnly
+                    value={referralLink}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm bg-gray-50 font-mono"
+                    onFocus={(e) => e.target.select()}
+                  />
+                  <button
+                    onClick={handleCopy}
+                    className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium"
+                  >
+                    {copied ? 'Copied' : 'Copy'}
+                  </button>
+                </div>
+                <p className="text-gray-500">
+                  {summary.referredCount} signed up · {summary.rewardedCount} rewarded · ${summary.totalEarned.toFixed(2)} earned
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+    </div>
+  );
+}
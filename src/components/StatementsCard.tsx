@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useBillingDocuments } from '@/hooks/useBillingDocuments';
+
+// How many past months can be picked
+const STATEMENT_MONTHS = 12;
+
+export default function StatementsCard() {
+  const { user, loading: authLoading } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const { download, email, busyKey, message, error } = useBillingDocuments();
+
+  // Current month first; statements use UTC months like the server
+  const months = useMemo(() => {
+    const now = new Date();
+    return Array.from({ length: STATEMENT_MONTHS }, (_, index) => {
+      const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - index, 1));
+      return {
+        value: date.toISOString().slice(0, 7),
+        label: date.toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+      };
+    });
+  }, []);
+  const [month, setMonth] = useState(months[0].value);
+
+  // Don't render card if loading or no user
+  if (authLoading || !user) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Statements</h2>
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-blue-500 hover:text-blue-700 text-sm font-medium focus:outline-none"
+            aria-expanded={isOpen}
+            aria-controls="statements-card-content"
+          >
+            {isOpen ? 'Hide' : 'Show'}
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className={`inline-block h-4 w-4 ml-1 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+              fill="none" viewBox="0 0 24 24" stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Collapsible Content */}
+        {isOpen && (
+          <div id="statements-card-content" className="pt-2 border-t border-gray-100 text-sm">
+            {error && (
+              <div className="mb-3 p-2 bg-red-100 text-red-700 text-sm rounded-md">
+                Error: {error}
+              </div>
+            )}
+            {message && <p className="mb-3 text-green-600">{message}</p>}
+
+            <p className="text-gray-500 mb-3">
+              Monthly statements show your opening balance, top-ups, call charges and closing balance.
+              Receipts for each top-up are in your transaction history.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {months.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => download('statement', `/api/statements?month=${month}`, `statement-${month}.pdf`)}
+                disabled={busyKey !== null}
+                className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+              >
+                {busyKey === 'statement' ? 'Preparing...' : 'Download PDF'}
+              </button>
+              <button
+                onClick={() => email('statement-email', '/api/statements', { month })}
+                disabled={busyKey !== null}
+                className="px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm font-medium disabled:opacity-50"
+              >
+                {busyKey === 'statement-email' ? 'Sending...' : 'Email'}
+              </button>
+            </div>
+          </div>
+        )}
+    </div>
+  );
+}
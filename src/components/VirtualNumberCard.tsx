@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
+import { VirtualNumberState } from '@/hooks/useVirtualNumber';
+
+interface VirtualNumberCardProps {
+  virtualNumber: VirtualNumberState; // From useVirtualNumber, shared with the dialer
+}
+
+export default function VirtualNumberCard({ virtualNumber }: VirtualNumberCardProps) {
+  const { user, loading: authLoading } = useAuth();
+  const { formatAmount } = useDisplayCurrency();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedNumber, setSelectedNumber] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Don't render card if loading or no user
+  if (authLoading || !user) {
+    return null;
+  }
+
+  const { virtualNumber: rental, available, enabled, monthlyFee, inboundRatePerMinute } = virtualNumber;
+
+  const submit = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    setFormError(null);
+    try {
+      await action();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRent = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedNumber) return;
+    if (!confirm(`Rent ${selectedNumber} for ${formatAmount(monthlyFee)} a month? The first month is charged from your balance now.`)) return;
+    submit(async () => {
+      await virtualNumber.rentNumber(selectedNumber);
+      setSelectedNumber('');
+    });
+  };
+
+  const handleRelease = () => {
+    if (!rental) return;
+    if (!confirm(`Release ${rental.number}? Calls to it will stop reaching you and the rest of this month isn't refunded.`)) return;
+    submit(() => virtualNumber.releaseNumber());
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Your Number</h2>
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-blue-500 hover:text-blue-700 text-sm font-medium focus:outline-none"
+            aria-expanded={isOpen}
+            aria-controls="virtual-number-card-content"
+          >
+            {isOpen ? 'Hide' : 'Show'}
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className={`inline-block h-4 w-4 ml-1 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+              fill="none" viewBox="0 0 24 24" stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Collapsible Content */}
+        {isOpen && (
+          <div id="virtual-number-card-content" className="pt-2 border-t border-gray-100 text-sm space-y-3">
+            {virtualNumber.error && (
+              <div className="p-2 bg-red-100 text-red-700 text-sm rounded-md">
+                Error: {virtualNumber.error}
+              </div>
+            )}
+
+            {virtualNumber.isLoading ? (
+              <p className="text-gray-500">Loading...</p>
+            ) : rental ? (
+              <div className="space-y-2">
+                <p className="text-lg font-mono font-semibold">{rental.number}</p>
+                <p className="text-gray-600">
+                  Calls to this number ring here while you&apos;re signed in, and go to voicemail if you don&apos;t answer. Answered calls cost {formatAmount(inboundRatePerMinute)}/min.
+                  You can also choose it under &quot;Call from&quot; in the dialer.
+                </p>
+                <p className="text-gray-600">
+                  Renews {new Date(rental.renewsAt).toLocaleDateString()} for {formatAmount(rental.monthlyFee)}.
+                  Keep enough balance to cover it, or the number is released.
+                </p>
+                <button
+                  onClick={handleRelease}
+                  disabled={isSubmitting}
+                  className="px-3 py-2 bg-red-100 text-red-700 rounded-md hover:bg-red-200 font-medium disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Releasing...' : 'Release number'}
+                </button>
+              </div>
+            ) : !enabled ? (
+              <p className="text-gray-600">Number rental isn&apos;t available right now.</p>
+            ) : (
+              <form onSubmit={handleRent} className="space-y-2">
+                <p className="text-gray-600">
+                  Rent a number people can call you on. Calls ring here in your browser while you&apos;re signed in.
+                  {' '}{formatAmount(monthlyFee)}/month from your balance, plus {formatAmount(inboundRatePerMinute)}/min for answered calls.
+                </p>
+                {available.length === 0 ? (
+                  <p className="text-gray-500">No numbers are available right now. Please check back later.</p>
+                ) : (
+                  <div className="flex gap-2">
+                    <select
+                      value={selectedNumber}
+                      onChange={(e) => setSelectedNumber(e.target.value)}
+                      required
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono"
+                    >
+                      <option value="">Choose a number</option>
+                      {available.map(option => (
+                        <option key={option.number} value={option.number}>
+                          {option.number}{option.country ? ` (${option.country})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={isSubmitting || !selectedNumber}
+                      className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 font-medium disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Renting...' : 'Rent'}
+                    </button>
+                  </div>
+                )}
+              </form>
+            )}
+
+            {formError && <p className="text-red-600">{formError}</p>}
+          </div>
+        )}
+    </div>
+  );
+}
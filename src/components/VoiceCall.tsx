@@ -22,6 +22,8 @@ interface VoiceCallProps {
   userId?: string;
   hideHistory?: boolean;
   onHistoryUpdate?: (newCall: CallHistoryEntry) => void;
+  contactNames?: Record<string, string>; // E.164 number -> contact name
+  callerIds?: string[]; // The user's rented and verified numbers, offered as caller ID
 }
 
 // Define the handle type for the forwarded ref
@@ -43,15 +45,17 @@ const VoiceCall: ForwardRefRenderFunction<VoiceCallHandle, VoiceCallProps> = (
   { 
     title = "Phone", 
     userId = "", 
-    hideHistory = false 
+    hideHistory = false,
+    contactNames = {},
+    callerIds = []
   }, 
   ref
 ) => {
   const { user } = useAuth();
   const [nationalPhoneNumber, setNationalPhoneNumber] = useState('');
-  // Keep isIncomingCall state but mark it as intentionally unused
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [isIncomingCall, setIsIncomingCall] = useState(false);
+  // Set while ringing or on an answered call to the user's rented number
+  const [isInboundCall, setIsInboundCall] = useState(false);
   const [callStartTime, setCallStartTime] = useState<number | null>(null);
   const [showDialpad, setShowDialpad] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
@@ -75,12 +79,15 @@ const VoiceCall: ForwardRefRenderFunction<VoiceCallHandle, VoiceCallProps> = (
   // eslint-disable-next-line @typescript-eslint/no-unused-vars -- Used for call tracking, needed by Twilio callback
   const [activeCallNumber, setActiveCallNumber] = useState<string>('');
   const isCallEndingRef = useRef(false); // <-- Add the ref flag
+  // Verified number to call from; empty means a random pool number
+  const [selectedCallerId, setSelectedCallerId] = useState<string>('');
 
   const {
     isReady,
     isConnecting,
     isConnected,
     isAccepted,
+    isIncoming,
     waitingForMicPermission,
     makeCall,
     hangupCall,
@@ -154,13 +161,20 @@ const VoiceCall: ForwardRefRenderFunction<VoiceCallHandle, VoiceCallProps> = (
 
   }, [user]); // Re-run effect if user object changes
 
-  // Check for incoming calls - we don't need to handle these anymore since we auto-reject
+  // Ring for calls to the user's rented number; the call stays inbound until it ends
   useEffect(() => {
-    // Auto-rejection is handled at the device level, no need to set UI state for incoming calls
-    if (call && !isConnected && !isConnecting) {
-      console.log('Incoming call detected but will be automatically rejected');
+    setIsIncomingCall(isIncoming);
+    if (isIncoming) {
+      console.log('[VoiceCall] Incoming call ringing');
+      setIsInboundCall(true);
+    } else if (!call) {
+      setIsInboundCall(false);
     }
-  }, [call, isConnected, isConnecting]);
+  }, [isIncoming, call]);
+
+  // The other party: the caller on inbound calls, otherwise the number dialled
+  const inboundCaller = isInboundCall ? call?.parameters?.From || '' : '';
+  const displayNumber = isInboundCall ? inboundCaller : validatedE164Number;
 
   // Monitor connection state changes to detect call start/end for UI purposes
   useEffect(() => {
@@ -300,7 +314,8 @@ const VoiceCall: ForwardRefRenderFunction<VoiceCallHandle, VoiceCallProps> = (
     console.log(`[startCall] Calling makeCall hook function with: ${e164Number}`);
     setValidatedE164Number(e164Number); // Ensure validated number is stored for history
     setActiveCallNumber(e164Number); // Also store in the dedicated state variable
-    await makeCall(e164Number);
+    // Ignore a selection the user has since removed from their verified numbers
+    await makeCall(e164Number, callerIds.includes(selectedCallerId) ? selectedCallerId : undefined);
   };
 
   const handleDigitPressed = (digit: string) => {
@@ -582,9 +597,12 @@ const VoiceCall: ForwardRefRenderFunction<VoiceCallHandle, VoiceCallProps> = (
               <div>
                 <div className="text-center mb-4">
                   <h3 className="text-xl font-bold">
-                    {/* Display the validated E.164 number */} 
-                    {validatedE164Number || 'Unknown Number'} 
+                    {/* Display the contact's name if saved, otherwise the E.164 number */} 
+                    {contactNames[displayNumber] || displayNumber || 'Unknown Number'} 
                   </h3>
+                  {contactNames[displayNumber] && (
+                    <p className="text-sm text-gray-600 font-mono">{displayNumber}</p>
+                  )}
                   <p className="text-sm text-gray-500">
                     {isConnecting && !isConnected ? 'Connecting...' : isConnected && isAccepted ? 'In Progress' : 'Ringing...'}
                   </p>
@@ -599,8 +617,8 @@ const VoiceCall: ForwardRefRenderFunction<VoiceCallHandle, VoiceCallProps> = (
                 
                 <AudioVisualizer isActive={isConnected} />
                 
-                {/* Add pricing component to active call view */}
-                {isConnected && isAccepted && (
+                {/* Add pricing component to active call view (outbound rates only) */}
+                {isConnected && isAccepted && !isInboundCall && (
                   <div className="mt-4 mb-3">
                     <CallPricing 
                       phoneNumber={validatedE164Number}
@@ -647,7 +665,12 @@ const VoiceCall: ForwardRefRenderFunction<VoiceCallHandle, VoiceCallProps> = (
                   <PhoneIcon className="h-12 w-12 text-green-500 mx-auto" />
                 </div>
                 <h3 className="text-xl font-semibold mb-2">Incoming Call</h3>
-                <p className="text-lg mb-6">Unknown Caller</p>
+                <div className="mb-6">
+                  <p className="text-lg">{contactNames[inboundCaller] || inboundCaller || 'Unknown Caller'}</p>
+                  {contactNames[inboundCaller] && (
+                    <p className="text-sm text-gray-600 font-mono">{inboundCaller}</p>
+                  )}
+                </div>
                 
                 <div className="flex justify-center space-x-4">
                   <button
@@ -754,6 +777,23 @@ const VoiceCall: ForwardRefRenderFunction<VoiceCallHandle, VoiceCallProps> = (
                   </div>
                 )}
                 
+                {callerIds.length > 0 && (
+                  <div className="mt-4 flex items-center justify-between text-sm">
+                    <label htmlFor="caller-id-select" className="text-gray-600">Call from</label>
+                    <select
+                      id="caller-id-select"
+                      value={callerIds.includes(selectedCallerId) ? selectedCallerId : ''}
+                      onChange={(e) => setSelectedCallerId(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-md font-mono"
+                    >
+                      <option value="">ZippCall number</option>
+                      {callerIds.map(number => (
+                        <option key={number} value={number}>{number}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 {/* Call Button */}
                 <button
                   onClick={handleCallSubmit} 
@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PhoneIcon, PlayIcon, EnvelopeIcon, EnvelopeOpenIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/context/AuthContext';
+import { VoicemailsState } from '@/hooks/useVoicemails';
+
+interface VoicemailCardProps {
+  voicemails: VoicemailsState;            // From useVoicemails
+  onCall: (phoneNumber: string) => void;  // Prepares the call in VoiceCall
+  contactNames?: Record<string, string>;  // E.164 number -> contact name
+}
+
+// Anonymous and withheld callers can't be called back
+const isCallable = (number: string) => /^\+\d{6,15}$/.test(number);
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export default function VoicemailCard({ voicemails, onCall, contactNames = {} }: VoicemailCardProps) {
+  const { user, loading: authLoading } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  // One message plays at a time, from an object URL released when it's replaced
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (playing) URL.revokeObjectURL(playing.url);
+    };
+  }, [playing]);
+
+  // Don't render card if loading or no user
+  if (authLoading || !user) {
+    return null;
+  }
+
+  const runAction = async (action: () => Promise<void>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    }
+  };
+
+  const handlePlay = (voicemailId: string, read: boolean) => {
+    setLoadingId(voicemailId);
+    runAction(async () => {
+      try {
+        const url = await voicemails.loadRecording(voicemailId);
+        setPlaying({ id: voicemailId, url });
+        if (!read) await voicemails.setRead(voicemailId, true);
+      } finally {
+        setLoadingId(null);
+      }
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">
+            Voicemail
+            {voicemails.unreadCount > 0 && (
+              <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-blue-600 text-white rounded-full align-middle">
+                {voicemails.unreadCount} new
+              </span>
+            )}
+          </h2>
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-blue-500 hover:text-blue-700 text-sm font-medium focus:outline-none"
+            aria-expanded={isOpen}
+            aria-controls="voicemail-card-content"
+          >
+            {isOpen ? 'Hide' : 'Show'}
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className={`inline-block h-4 w-4 ml-1 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+              fill="none" viewBox="0 0 24 24" stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Collapsible Content */}
+        {isOpen && (
+          <div id="voicemail-card-content" className="pt-2 border-t border-gray-100 text-sm space-y-3">
+            <div className="flex justify-between items-center">
+              <p className="text-gray-600">Callers leave a message when you don&apos;t answer your number.</p>
+              <button
+                onClick={() => voicemails.refresh()}
+                disabled={voicemails.isLoading}
+                className="p-1 text-blue-500 hover:text-blue-700 disabled:opacity-50"
+                title="Check for new messages"
+              >
+                <ArrowPathIcon className="h-4 w-4" />
+              </button>
+            </div>
+
+            {voicemails.error && (
+              <div className="p-2 bg-red-100 text-red-700 text-sm rounded-md">
+                Error: {voicemails.error}
+              </div>
+            )}
+            {actionError && (
+              <div className="p-2 bg-red-100 text-red-700 text-sm rounded-md">
+                Error: {actionError}
+              </div>
+            )}
+
+            {voicemails.isLoading && voicemails.voicemails.length === 0 ? (
+              <p className="text-gray-500">Loading...</p>
+            ) : voicemails.voicemails.length === 0 ? (
+              <p className="text-gray-500 text-center py-2">No voicemails.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {voicemails.voicemails.map(voicemail => (
+                  <li key={voicemail.id} className="py-2 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <div className={voicemail.read ? 'text-gray-700' : 'font-semibold text-gray-900'}>
+                        {contactNames[voicemail.from] || voicemail.from || 'Unknown caller'}
+                        {contactNames[voicemail.from] && (
+                          <span className="ml-1 text-xs text-gray-500 font-normal font-mono">{voicemail.from}</span>
+                        )}
+                        <div className="text-xs text-gray-500 font-normal">
+                          {new Date(voicemail.createdAt).toLocaleString()} &middot; {formatDuration(voicemail.durationSeconds)}
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => handlePlay(voicemail.id, voicemail.read)}
+                          disabled={loadingId === voicemail.id}
+                          className="p-1 bg-blue-100 text-blue-600 rounded hover:bg-blue-200 transition-colors disabled:opacity-50"
+                          title="Play"
+                        >
+                          <PlayIcon className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={() => runAction(() => voicemails.setRead(voicemail.id, !voicemail.read))}
+                          className="p-1 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 transition-colors"
+                          title={voicemail.read ? 'Mark as unread' : 'Mark as read'}
+                        >
+                          {voicemail.read ? <EnvelopeIcon className="h-3 w-3" /> : <EnvelopeOpenIcon className="h-3 w-3" />}
+                        </button>
+                        {isCallable(voicemail.from) && (
+                          <button
+                            onClick={() => onCall(voicemail.from)}
+                            className="p-1 bg-green-100 text-green-600 rounded hover:bg-green-200 transition-colors"
+                            title="Call back"
+                          >
+                            <PhoneIcon className="h-3 w-3" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {voicemail.transcription && (
+                      <p className="text-gray-600 italic">&ldquo;{voicemail.transcription}&rdquo;</p>
+                    )}
+                    {playing?.id === voicemail.id && (
+                      <audio controls autoPlay src={playing.url} className="w-full h-8" />
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useState } from 'react';
+import { TwilioPriceData } from '@/types/pricing';
+import { getAdminAuthHeader } from '@/lib/admin/auth-utils';
+
+interface BillingSettingsFormProps {
+  countryPriceData: TwilioPriceData;
+  onSaved: () => void;
+}
+
+/**
+ * Edit a country's billing increments (e.g. 60/60, 30/6, 1/1) and connection fee
+ */
+export default function BillingSettingsForm({ countryPriceData, onSaved }: BillingSettingsFormProps) {
+  const [initialIncrement, setInitialIncrement] = useState<string>(String(countryPriceData.initialIncrement ?? 60));
+  const [subsequentIncrement, setSubsequentIncrement] = useState<string>(String(countryPriceData.subsequentIncrement ?? 60));
+  const [connectionFee, setConnectionFee] = useState<string>(String(countryPriceData.connectionFee ?? 0));
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/pricing/billing-settings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': await getAdminAuthHeader()
+        },
+        body: JSON.stringify({
+          countryCode: countryPriceData.countryCode,
+          initialIncrement: parseInt(initialIncrement, 10),
+          subsequentIncrement: parseInt(subsequentIncrement, 10),
+          connectionFee: parseFloat(connectionFee)
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save billing settings');
+      }
+
+      onSaved();
+    } catch (err) {
+      console.error('Error saving billing settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save billing settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} onClick={(e) => e.stopPropagation()} className="mb-4">
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Billing for {countryPriceData.countryName}</h4>
+      {error && (
+        <div className="mb-2 p-2 bg-red-100 border border-red-300 text-red-600 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="text-sm text-gray-700">
+          Initial increment (s)
+          <input
+            type="number"
+            value={initialIncrement}
+            onChange={(e) => setInitialIncrement(e.target.value)}
+            min="1"
+            step="1"
+            required
+            className="block mt-1 w-28 px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Subsequent increment (s)
+          <input
+            type="number"
+            value={subsequentIncrement}
+            onChange={(e) => setSubsequentIncrement(e.target.value)}
+            min="1"
+            step="1"
+            required
+            className="block mt-1 w-28 px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Connection fee (USD)
+          <input
+            type="number"
+            value={connectionFee}
+            onChange={(e) => setConnectionFee(e.target.value)}
+            min="0"
+            step="0.0001"
+            required
+            className="block mt-1 w-28 px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+        >
+          {isSaving ? 'Saving...' : 'Save Billing'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { SUPPORTED_CURRENCIES } from '@/types/pricing';
+import { getExchangeRates } from '@/lib/pricing/pricing-db-client';
+import { getAdminAuthHeader } from '@/lib/admin/auth-utils';
+
+// USD is the base currency and always 1
+const EDITABLE_CURRENCIES = SUPPORTED_CURRENCIES.filter(currency => currency !== 'USD');
+
+export default function ExchangeRatesSettings() {
+  const [rates, setRates] = useState<Record<string, string>>({});
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+  const [updatedBy, setUpdatedBy] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const loadRates = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const table = await getExchangeRates();
+      setRates(Object.fromEntries(
+        EDITABLE_CURRENCIES.map(currency => [currency, table.rates[currency] ? String(table.rates[currency]) : ''])
+      ));
+      setUpdatedAt(table.updatedBy ? (table.updatedAt as Date) : null);
+      setUpdatedBy(table.updatedBy);
+    } catch (err) {
+      console.error('Error loading exchange rates:', err);
+      setError('Failed to load exchange rates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      // Currencies left blank are unavailable for display and top-ups
+      const parsedRates: Record<string, number> = {};
+      Object.entries(rates).forEach(([currency, value]) => {
+        if (value.trim() !== '') {
+          parsedRates[currency] = parseFloat(value);
+        }
+      });
+
+      const response = await fetch('/api/admin/pricing/exchange-rates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': await getAdminAuthHeader()
+        },
+        body: JSON.stringify({
+          rates: parsedRates
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save exchange rates');
+      }
+
+      setSuccessMessage('Exchange rates saved');
+      await loadRates();
+    } catch (err) {
+      console.error('Error saving exchange rates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save exchange rates');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading && Object.keys(rates).length === 0) {
+    return (
+      <div className="p-6 bg-white shadow rounded-lg">
+        <div className="flex justify-center items-center h-40">
+          <div className="animate-spin h-8 w-8 border-4 border-blue-500 rounded-full border-t-transparent"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 bg-white shadow rounded-lg">
+      <h2 className="text-xl font-semibold text-gray-800 mb-2">Exchange Rates</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Units of each currency per 1 USD. Balances are kept in USD; these rates convert displayed prices
+        and top-ups paid in other currencies.
+        {updatedAt && ` Last updated ${updatedAt.toLocaleString()}${updatedBy ? ` by ${updatedBy}` : ''}.`}
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-600 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-600 rounded-md">
+          {successMessage}
+        </div>
+      )}
+
+      <form onSubmit={handleSave}>
+        <div className="flex flex-wrap items-end gap-3">
+          {EDITABLE_CURRENCIES.map(currency => (
+            <label key={currency} className="text-sm text-gray-700">
+              {currency}
+              <input
+                type="number"
+                value={rates[currency] ?? ''}
+                onChange={(e) => setRates({ ...rates, [currency]: e.target.value })}
+                min="0"
+                step="0.0001"
+                placeholder="Not offered"
+                className="block mt-1 w-32 px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+          ))}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+          >
+            {isSaving ? 'Saving...' : 'Save Rates'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
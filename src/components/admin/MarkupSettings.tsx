@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { MarkupConfig } from '@/types/pricing';
 import { getMarkupConfig } from '@/lib/pricing/pricing-db-client';
+import { getAdminAuthHeader } from '@/lib/admin/auth-utils';
 
 export default function MarkupSettings() {
   const [markupConfig, setMarkupConfig] = useState<MarkupConfig>({
@@ -49,16 +50,11 @@ export default function MarkupSettings() {
     setSuccess(null);
     
     try {
-      const adminToken = process.env.NEXT_PUBLIC_ADMIN_TOKEN;
-      if (!adminToken) {
-        throw new Error('Admin token not configured in .env.local');
-      }
-
       const response = await fetch('/api/admin/pricing/markup-config', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${adminToken}`
+          'Authorization': await getAdminAuthHeader()
         },
         body: JSON.stringify(markupConfig)
       });
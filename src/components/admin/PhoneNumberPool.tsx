@@ -79,7 +79,7 @@ export default function PhoneNumberPool() {
         <div>
           <div className="mb-3 flex justify-between text-sm text-gray-500">
             <span>Total active numbers: {phoneNumbers.length}</span>
-            <span>All numbers will be used randomly for outgoing calls</span>
+            <span>Calls use a number from the destination&apos;s country or area code when one is free</span>
           </div>
 
           {phoneNumbers.length === 0 ? (
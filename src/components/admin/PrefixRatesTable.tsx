@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { MarkupConfig, PrefixRate, TwilioPriceData } from '@/types/pricing';
+import { getPrefixRates } from '@/lib/pricing/pricing-db-client';
+import { applyMarkup, formatPrice } from '@/lib/pricing/pricing-engine';
+
+interface PrefixRatesTableProps {
+  countryPriceData: TwilioPriceData;
+  markupConfig: MarkupConfig | null;
+}
+
+/**
+ * Shows the destination prefix rates imported for a single country
+ */
+export default function PrefixRatesTable({ countryPriceData, markupConfig }: PrefixRatesTableProps) {
+  const [rates, setRates] = useState<PrefixRate[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    setIsLoading(true);
+    setError(null);
+
+    getPrefixRates(countryPriceData.countryCode)
+      .then(result => {
+        if (!isMounted) return;
+        // Sort by prefix so related ranges sit together
+        const sortedRates = [...(result?.rates ?? [])].sort((a, b) => a.prefix.localeCompare(b.prefix));
+        setRates(sortedRates);
+      })
+      .catch(err => {
+        console.error('Error loading prefix rates:', err);
+        if (isMounted) setError('Failed to load prefix rates.');
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [countryPriceData.countryCode]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-4">
+        <div className="animate-spin h-6 w-6 border-4 border-blue-500 rounded-full border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="p-3 bg-red-100 border border-red-300 text-red-600 rounded-md text-sm">{error}</div>;
+  }
+
+  if (rates.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 py-2">
+        No prefix rates imported for {countryPriceData.countryName}. The country-level price is used for all numbers.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto max-h-80 overflow-y-auto border border-gray-200 rounded-md">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-100 sticky top-0">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prefix</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Base Price</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Our Price</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rates.map(rate => {
+            const ourPrice = markupConfig
+              ? applyMarkup({ ...countryPriceData, basePrice: rate.basePrice }, markupConfig).finalPrice
+              : rate.basePrice;
+            return (
+              <tr key={rate.prefix}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-mono text-gray-900">+{rate.prefix}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{rate.description}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{formatPrice(rate.basePrice, countryPriceData.currency)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{formatPrice(ourPrice, countryPriceData.currency)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { PriceBookSummary, PriceImportDiff } from '@/types/pricing';
+import { getAdminAuthHeader } from '@/lib/admin/auth-utils';
+import PriceDiffTable from '@/components/admin/PriceDiffTable';
+
+// Price book dates arrive as ISO strings from the API
+const formatDate = (value: unknown) => {
+  if (!value) return '—';
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? '—' : date.toLocaleString();
+};
+
+const sourceLabels: Record<string, string> = {
+  csv_import: 'CSV import',
+  manual_edit: 'Manual edit'
+};
+
+export default function PriceBookHistory() {
+  const [priceBooks, setPriceBooks] = useState<PriceBookSummary[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromVersion, setFromVersion] = useState<string>('');
+  const [toVersion, setToVersion] = useState<string>('');
+  const [comparison, setComparison] = useState<PriceImportDiff | null>(null);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [rollingBackVersion, setRollingBackVersion] = useState<number | null>(null);
+
+  const loadPriceBooks = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/pricing/price-books', {
+        headers: { 'Authorization': await getAdminAuthHeader() }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load price books');
+      }
+
+      const books: PriceBookSummary[] = data.priceBooks ?? [];
+      setPriceBooks(books);
+
+      // Default the comparison to the two most recent versions
+      if (books.length >= 2) {
+        setFromVersion(String(books[1].version));
+        setToVersion(String(books[0].version));
+      }
+    } catch (err) {
+      console.error('Error loading price books:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load price books');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPriceBooks();
+  }, [loadPriceBooks]);
+
+  const handleCompare = async () => {
+    if (!fromVersion || !toVersion) return;
+
+    setIsComparing(true);
+    setError(null);
+    setComparison(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/pricing/price-books/compare?from=${fromVersion}&to=${toVersion}`,
+        { headers: { 'Authorization': await getAdminAuthHeader() } }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compare price books');
+      }
+
+      setComparison(data.diff);
+    } catch (err) {
+      console.error('Error comparing price books:', err);
+      setError(err instanceof Error ? err.message : 'Failed to compare price books');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (!window.confirm(`Make price book v${version} the active pricing? All quotes and new calls will use it immediately.`)) {
+      return;
+    }
+
+    setRollingBackVersion(version);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/pricing/price-books/rollback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': await getAdminAuthHeader()
+        },
+        body: JSON.stringify({
+          version
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to roll back');
+      }
+
+      await loadPriceBooks();
+    } catch (err) {
+      console.error('Error rolling back price book:', err);
+      setError(err instanceof Error ? err.message : 'Failed to roll back');
+    } finally {
+      setRollingBackVersion(null);
+    }
+  };
+
+  if (isLoading && priceBooks.length === 0) {
+    return (
+      <div className="p-6 bg-white shadow rounded-lg">
+        <div className="flex justify-center items-center h-40">
+          <div className="animate-spin h-8 w-8 border-4 border-blue-500 rounded-full border-t-transparent"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 bg-white shadow rounded-lg">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-800">Price Book History</h2>
+        <button
+          onClick={loadPriceBooks}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-600 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {priceBooks.length === 0 ? (
+        <p className="text-sm text-gray-500">No price books yet. Commit a CSV import to create the first version.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-6">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rows</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {priceBooks.map(book => (
+                  <tr key={book.version} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">v{book.version}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(book.createdAt)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{book.createdBy || 'Unknown'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {sourceLabels[book.source] || book.source}
+                      {book.sourceFileName && <div className="text-xs text-gray-400">{book.sourceFileName}</div>}
+                      {book.basedOnVersion && <div className="text-xs text-gray-400">from v{book.basedOnVersion}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {book.countryCount} countries, {book.prefixCount} prefixes
+                      {book.rowErrorCount > 0 && (
+                        <div className="text-xs text-yellow-600">{book.rowErrorCount} rows skipped</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {book.isActive ? (
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                          Active
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => handleRollback(book.version)}
+                          disabled={rollingBackVersion !== null}
+                          className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                        >
+                          {rollingBackVersion === book.version ? 'Activating...' : 'Roll back to this version'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Compare two versions */}
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-lg font-medium text-gray-700 mb-3">Compare Versions</h3>
+            <div className="flex flex-wrap items-end gap-3 mb-4">
+              <label className="text-sm text-gray-700">
+                From
+                <select
+                  value={fromVersion}
+                  onChange={(e) => setFromVersion(e.target.value)}
+                  className="block mt-1 px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Select…</option>
+                  {priceBooks.map(book => (
+                    <option key={book.version} value={book.version}>v{book.version}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                To
+                <select
+                  value={toVersion}
+                  onChange={(e) => setToVersion(e.target.value)}
+                  className="block mt-1 px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Select…</option>
+                  {priceBooks.map(book => (
+                    <option key={book.version} value={book.version}>v{book.version}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleCompare}
+                disabled={!fromVersion || !toVersion || isComparing}
+                className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+              >
+                {isComparing ? 'Comparing...' : 'Compare'}
+              </button>
+            </div>
+
+            {comparison && (
+              <div>
+                <p className="text-sm text-gray-500 mb-3">
+                  {comparison.increased.length} increased, {comparison.decreased.length} decreased,{' '}
+                  {comparison.added.length} added, {comparison.removed.length} removed,{' '}
+                  {comparison.unchangedCount} unchanged
+                </p>
+                <PriceDiffTable title="Price increases" entries={comparison.increased} colorClass="text-red-600" previousLabel={`v${fromVersion}`} newLabel={`v${toVersion}`} />
+                <PriceDiffTable title="Price decreases" entries={comparison.decreased} colorClass="text-blue-600" previousLabel={`v${fromVersion}`} newLabel={`v${toVersion}`} />
+                <PriceDiffTable title="Added" entries={comparison.added} colorClass="text-green-600" previousLabel={`v${fromVersion}`} newLabel={`v${toVersion}`} />
+                <PriceDiffTable title="Removed" entries={comparison.removed} colorClass="text-gray-600" previousLabel={`v${fromVersion}`} newLabel={`v${toVersion}`} />
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
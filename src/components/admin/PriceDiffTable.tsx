@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import { PriceChangeEntry } from '@/types/pricing';
+
+// Format a base price with enough precision for Twilio rates (e.g., $0.0112)
+const formatBasePrice = (price: number | null) =>
+  price === null ? '—' : `$${price.toFixed(4)}`;
+
+const formatPercentage = (percentage: number | null) =>
+  percentage === null ? '—' : `${percentage > 0 ? '+' : ''}${percentage.toFixed(1)}%`;
+
+interface PriceDiffTableProps {
+  title: string;
+  entries: PriceChangeEntry[];
+  colorClass: string;
+  previousLabel?: string;
+  newLabel?: string;
+}
+
+/**
+ * Table of countries whose base price differs between two sets of pricing data
+ */
+export default function PriceDiffTable({
+  title,
+  entries,
+  colorClass,
+  previousLabel = 'Current',
+  newLabel = 'New'
+}: PriceDiffTableProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <h4 className={`text-sm font-medium mb-2 ${colorClass}`}>{title} ({entries.length})</h4>
+      <div className="overflow-x-auto max-h-60 overflow-y-auto border border-gray-200 rounded-md">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Country</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{previousLabel}</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{newLabel}</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {entries.map(entry => (
+              <tr key={entry.countryCode}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{entry.countryName} ({entry.countryCode})</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{formatBasePrice(entry.previousBasePrice)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{formatBasePrice(entry.newBasePrice)}</td>
+                <td className={`px-4 py-2 whitespace-nowrap text-sm ${colorClass}`}>{formatPercentage(entry.percentageChange)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
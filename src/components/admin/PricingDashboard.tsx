@@ -1,10 +1,12 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { CountryPricingCache, TwilioPriceData, UNSUPPORTED_COUNTRIES } from '@/types/pricing';
-import { getCountryPricing } from '@/lib/pricing/pricing-db-client';
-import { formatPrice } from '@/lib/pricing/pricing-engine';
+import { CountryPricingCache, MarkupConfig, TwilioPriceData, UNSUPPORTED_COUNTRIES } from '@/types/pricing';
+import { getCountryPricing, getMarkupConfig } from '@/lib/pricing/pricing-db-client';
+import { applyMarkup, formatPrice } from '@/lib/pricing/pricing-engine';
 import MobileCardView from '@/components/admin/MobileCardView';
+import PrefixRatesTable from '@/components/admin/PrefixRatesTable';
+import BillingSettingsForm from '@/components/admin/BillingSettingsForm';
 import { Timestamp } from 'firebase/firestore';
 
 interface PricingDashboardProps {
@@ -37,12 +39,19 @@ const formatDate = (dateInput: Date | string | null | undefined): string => {
 
 export default function PricingDashboard({ pricingData: initialPricingData, topWidget }: PricingDashboardProps) {
   const [pricingData, setPricingData] = useState<CountryPricingCache | null>(null);
+  const [markupConfig, setMarkupConfig] = useState<MarkupConfig | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [sortField, setSortField] = useState<string>('countryName');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [showZeroPriceOnly, setShowZeroPriceOnly] = useState<boolean>(false);
+  const [expandedCountry, setExpandedCountry] = useState<string | null>(null);
+  
+  useEffect(() => {
+    // Load the live markup config so "Our Price" matches what users are quoted
+    getMarkupConfig().then(setMarkupConfig);
+  }, []);
   
   useEffect(() => {
     // If initialPricingData has content, use it instead of loading from API
@@ -106,15 +115,20 @@ export default function PricingDashboard({ pricingData: initialPricingData, topW
     
     // Convert object to array
     const pricingArray = Object.values(pricingData.data).map(item => {
-      const ourPrice = isNaN(item.finalPrice) ? 0 : item.finalPrice;
+      const basePrice = typeof item.basePrice === 'number' && !isNaN(item.basePrice) ? item.basePrice : 0;
+      const priced = markupConfig ? applyMarkup(item, markupConfig) : null;
+      const ourPrice = priced ? priced.finalPrice : (item.finalPrice ?? 0);
       const isUnsupported = UNSUPPORTED_COUNTRIES.includes(item.countryCode);
 
       return {
         id: item.countryCode,
         countryCode: item.countryCode,
         countryName: item.countryName,
-        basePrice: ourPrice,
-        ourPrice: ourPrice,
+        basePrice,
+        ourPrice: isNaN(ourPrice) ? 0 : ourPrice,
+        markup: priced?.markup ?? 0,
+        billing: `${item.initialIncrement ?? 60}/${item.subsequentIncrement ?? 60}`,
+        connectionFee: item.connectionFee ?? 0,
         currency: item.currency,
         lastUpdated: item.lastUpdated instanceof Date 
           ? item.lastUpdated 
@@ -166,7 +180,7 @@ export default function PricingDashboard({ pricingData: initialPricingData, topW
     });
     
     return sortedArray;
-  }, [pricingData, searchQuery, sortField, sortDirection, showZeroPriceOnly]);
+  }, [pricingData, markupConfig, searchQuery, sortField, sortDirection, showZeroPriceOnly]);
   
   // Update filtered countries when search query changes
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -325,11 +339,23 @@ export default function PricingDashboard({ pricingData: initialPricingData, topW
                   onClick={() => handleSort('basePrice')}
                   className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
                 >
-                  Our Price
+                  Base Price
                   {sortField === 'basePrice' && (
                     <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
                   )}
                 </th>
+                <th 
+                  onClick={() => handleSort('ourPrice')}
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                >
+                  Our Price
+                  {sortField === 'ourPrice' && (
+                    <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                  )}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Billing
+                </th>
                 <th 
                   onClick={() => handleSort('countryName')}
                   className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
@@ -350,14 +376,20 @@ export default function PricingDashboard({ pricingData: initialPricingData, topW
             <tbody className="bg-white divide-y divide-gray-200">
               {formatPricingForDisplay().length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
                     {searchQuery ? 'No countries match your search.' : 'No pricing data available.'}
                   </td>
                 </tr>
               ) : (
                 formatPricingForDisplay().map((item) => (
-                  <tr key={item.countryCode} className="hover:bg-gray-50">
+                  <React.Fragment key={item.countryCode}>
+                  <tr
+                    onClick={() => setExpandedCountry(expandedCountry === item.countryCode ? null : item.countryCode)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                    title="Show billing settings and destination prefixes"
+                  >
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      <span className="inline-block w-4 text-gray-400">{expandedCountry === item.countryCode ? '▾' : '▸'}</span>
                       {item.countryCode}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -366,6 +398,18 @@ export default function PricingDashboard({ pricingData: initialPricingData, topW
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {formatPrice(item.basePrice, item.currency)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatPrice(item.ourPrice, item.currency)}
+                      {item.markup > 0 && (
+                        <span className="ml-1 text-xs text-gray-400">(+{item.markup}%)</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {item.billing}
+                      {item.connectionFee > 0 && (
+                        <span className="ml-1 text-xs text-gray-400">+{formatPrice(item.connectionFee, item.currency)}/call</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {item.isUnsupported && (
                         <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
@@ -377,6 +421,21 @@ export default function PricingDashboard({ pricingData: initialPricingData, topW
                       {formatDate(item.lastUpdated)}
                     </td>
                   </tr>
+                  {expandedCountry === item.countryCode && pricingData?.data[item.countryCode] && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={7} className="px-6 py-4">
+                        <BillingSettingsForm
+                          countryPriceData={pricingData.data[item.countryCode]}
+                          onSaved={loadPricingData}
+                        />
+                        <PrefixRatesTable
+                          countryPriceData={pricingData.data[item.countryCode]}
+                          markupConfig={markupConfig}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 ))
               )}
             </tbody>
@@ -407,7 +466,9 @@ export default function PricingDashboard({ pricingData: initialPricingData, topW
                     id: item.id,
                     fields: [
                       { label: 'Country Name', value: `${item.countryName} (${item.countryCode})` },
-                      { label: 'Our Price', value: formatPrice(item.basePrice, item.currency) },
+                      { label: 'Base Price', value: formatPrice(item.basePrice, item.currency) },
+                      { label: 'Our Price', value: formatPrice(item.ourPrice, item.currency) },
+                      { label: 'Billing', value: item.connectionFee > 0 ? `${item.billing} +${formatPrice(item.connectionFee, item.currency)}/call` : item.billing },
                       { 
                         label: 'Status', 
                         value: item.isUnsupported ? 
@@ -0,0 +1,318 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { PricingPlan } from '@/types/pricing';
+import { getAdminAuthHeader } from '@/lib/admin/auth-utils';
+
+interface PlanFormState {
+  id: string;
+  name: string;
+  description: string;
+  defaultMarkup: string;  // Empty means use the global markup settings
+  countryMarkups: string; // One "CC=value" per line
+  fixedRates: string;     // One "CC=value" per line
+}
+
+const emptyForm: PlanFormState = {
+  id: '',
+  name: '',
+  description: '',
+  defaultMarkup: '',
+  countryMarkups: '',
+  fixedRates: ''
+};
+
+// Country maps are edited as "GB=25" lines
+const formatCountryRates = (rates: Record<string, number>) =>
+  Object.entries(rates).map(([countryCode, value]) => `${countryCode}=${value}`).join('\n');
+
+const parseCountryRates = (text: string): Record<string, number> => {
+  const rates: Record<string, number> = {};
+  text.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+    const [countryCode, value] = line.split('=').map(part => part.trim());
+    const rate = parseFloat(value);
+    if (!countryCode || isNaN(rate)) {
+      throw new Error(`Invalid line "${line}". Use CC=value, e.g. GB=25`);
+    }
+    rates[countryCode.toUpperCase()] = rate;
+  });
+  return rates;
+};
+
+export default function PricingPlansManager() {
+  const [plans, setPlans] = useState<PricingPlan[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<PlanFormState | null>(null);
+  const [isNewPlan, setIsNewPlan] = useState<boolean>(false);
+
+  const loadPlans = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/pricing/plans', {
+        headers: { 'Authorization': await getAdminAuthHeader() }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load pricing plans');
+      }
+
+      setPlans(data.plans ?? []);
+    } catch (err) {
+      console.error('Error loading pricing plans:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load pricing plans');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  const startEdit = (plan: PricingPlan | null) => {
+    setError(null);
+    setIsNewPlan(plan === null);
+    setForm(plan ? {
+      id: plan.id,
+      name: plan.name,
+      description: plan.description ?? '',
+      defaultMarkup: plan.defaultMarkup === null ? '' : String(plan.defaultMarkup),
+      countryMarkups: formatCountryRates(plan.countryMarkups),
+      fixedRates: formatCountryRates(plan.fixedRates)
+    } : emptyForm);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/pricing/plans', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': await getAdminAuthHeader()
+        },
+        body: JSON.stringify({
+          id: form.id.trim(),
+          name: form.name,
+          description: form.description,
+          defaultMarkup: form.defaultMarkup.trim() === '' ? null : parseFloat(form.defaultMarkup),
+          countryMarkups: parseCountryRates(form.countryMarkups),
+          fixedRates: parseCountryRates(form.fixedRates)
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save pricing plan');
+      }
+
+      setForm(null);
+      await loadPlans();
+    } catch (err) {
+      console.error('Error saving pricing plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save pricing plan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (plan: PricingPlan) => {
+    if (!window.confirm(`Delete the "${plan.name}" plan? Users assigned to it will pay standard rates.`)) {
+      return;
+    }
+
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/pricing/plans?id=${encodeURIComponent(plan.id)}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': await getAdminAuthHeader() }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete pricing plan');
+      }
+
+      await loadPlans();
+    } catch (err) {
+      console.error('Error deleting pricing plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete pricing plan');
+    }
+  };
+
+  if (isLoading && plans.length === 0) {
+    return (
+      <div className="p-6 bg-white shadow rounded-lg">
+        <div className="flex justify-center items-center h-40">
+          <div className="animate-spin h-8 w-8 border-4 border-blue-500 rounded-full border-t-transparent"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 bg-white shadow rounded-lg">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-800">Pricing Plans</h2>
+        <button
+          onClick={() => startEdit(null)}
+          className="px-3 py-1.5 bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 transition-colors text-sm"
+        >
+          New Plan
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Custom rates for partners and high-volume accounts. Assign plans to users on the Users page.
+        A fixed rate replaces the price for the whole country; otherwise the plan&apos;s markup replaces the global markup.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-600 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {plans.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          No pricing plans yet.
+        </div>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plan</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Default Markup</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Country Overrides</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {plans.map(plan => (
+                <tr key={plan.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {plan.name}
+                    <div className="text-xs text-gray-400">{plan.id}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {plan.defaultMarkup === null ? 'Global' : `${plan.defaultMarkup}%`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {Object.keys(plan.countryMarkups).length} markups, {Object.keys(plan.fixedRates).length} fixed rates
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <button onClick={() => startEdit(plan)} className="text-blue-600 hover:text-blue-800 mr-4">
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(plan)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {form && (
+        <form onSubmit={handleSave} className="border-t border-gray-200 pt-4">
+          <h3 className="text-lg font-medium text-gray-700 mb-3">{isNewPlan ? 'New Plan' : `Edit ${form.name}`}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <label className="text-sm text-gray-700">
+              Plan ID
+              <input
+                type="text"
+                value={form.id}
+                onChange={(e) => setForm({ ...form, id: e.target.value.toLowerCase() })}
+                disabled={!isNewPlan}
+                placeholder="partner-acme"
+                required
+                className="block mt-1 w-full px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Name
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+                className="block mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Description
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="block mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Default markup (%)
+              <input
+                type="number"
+                value={form.defaultMarkup}
+                onChange={(e) => setForm({ ...form, defaultMarkup: e.target.value })}
+                placeholder="Use global markup"
+                step="0.1"
+                className="block mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Country markups (%), one per line
+              <textarea
+                value={form.countryMarkups}
+                onChange={(e) => setForm({ ...form, countryMarkups: e.target.value })}
+                placeholder={'GB=20\nUS=15'}
+                rows={4}
+                className="block mt-1 w-full px-3 py-2 border border-gray-300 rounded-md font-mono"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Fixed rates (USD / min), one per line
+              <textarea
+                value={form.fixedRates}
+                onChange={(e) => setForm({ ...form, fixedRates: e.target.value })}
+                placeholder={'IN=0.02'}
+                rows={4}
+                className="block mt-1 w-full px-3 py-2 border border-gray-300 rounded-md font-mono"
+              />
+            </label>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              {isSaving ? 'Saving...' : 'Save Plan'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              disabled={isSaving}
+              className="px-4 py-2 rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
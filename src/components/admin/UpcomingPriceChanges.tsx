@@ -0,0 +1,244 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ScheduledPriceChange, TwilioPriceData } from '@/types/pricing';
+import { getCountryPricing, getPendingPriceChanges } from '@/lib/pricing/pricing-db-client';
+import { formatPrice } from '@/lib/pricing/pricing-engine';
+import { getAdminAuthHeader } from '@/lib/admin/auth-utils';
+
+export default function UpcomingPriceChanges() {
+  const [changes, setChanges] = useState<ScheduledPriceChange[]>([]);
+  const [currentPrices, setCurrentPrices] = useState<Record<string, TwilioPriceData>>({});
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [countryCode, setCountryCode] = useState<string>('');
+  const [basePrice, setBasePrice] = useState<string>('');
+  const [effectiveAt, setEffectiveAt] = useState<string>('');
+  const [isScheduling, setIsScheduling] = useState<boolean>(false);
+
+  const loadChanges = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [pendingChanges, pricingCache] = await Promise.all([
+        getPendingPriceChanges(),
+        getCountryPricing()
+      ]);
+      setChanges(pendingChanges);
+      setCurrentPrices(pricingCache?.data ?? {});
+    } catch (err) {
+      console.error('Error loading scheduled price changes:', err);
+      setError('Failed to load scheduled price changes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadChanges();
+  }, [loadChanges]);
+
+  const handleCancel = async (id: string) => {
+    if (!window.confirm('Cancel this scheduled price change?')) {
+      return;
+    }
+
+    setCancellingId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/pricing/scheduled-changes?id=${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': await getAdminAuthHeader() }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel scheduled change');
+      }
+
+      await loadChanges();
+    } catch (err) {
+      console.error('Error cancelling scheduled price change:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel scheduled change');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsScheduling(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/pricing/scheduled-changes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': await getAdminAuthHeader()
+        },
+        body: JSON.stringify({
+          type: 'country',
+          countryCode,
+          basePrice: parseFloat(basePrice),
+          // datetime-local values are in the admin's local time zone
+          effectiveAt: new Date(effectiveAt).toISOString()
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to schedule price change');
+      }
+
+      setCountryCode('');
+      setBasePrice('');
+      setEffectiveAt('');
+      await loadChanges();
+    } catch (err) {
+      console.error('Error scheduling price change:', err);
+      setError(err instanceof Error ? err.message : 'Failed to schedule price change');
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  const describeChange = (change: ScheduledPriceChange) => {
+    if (change.type === 'price_book') {
+      return `Price book v${change.priceBookVersion} (${Object.keys(change.data ?? {}).length} countries)`;
+    }
+
+    const countryCode = change.countryCode as string;
+    const currentBasePrice = currentPrices[countryCode]?.basePrice;
+    const newBasePrice = change.priceData?.basePrice ?? 0;
+    return `${change.priceData?.countryName || countryCode}: ${
+      typeof currentBasePrice === 'number' ? `${formatPrice(currentBasePrice, 'USD')} → ` : ''
+    }${formatPrice(newBasePrice, 'USD')} base`;
+  };
+
+  if (isLoading && changes.length === 0) {
+    return (
+      <div className="p-6 bg-white shadow rounded-lg">
+        <div className="flex justify-center items-center h-40">
+          <div className="animate-spin h-8 w-8 border-4 border-blue-500 rounded-full border-t-transparent"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 bg-white shadow rounded-lg">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-800">Upcoming Price Changes</h2>
+        <button
+          onClick={loadChanges}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-600 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {changes.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          No price changes scheduled.
+        </div>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Effective</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {changes.map(change => {
+                const isInForce = (change.effectiveAt as Date).getTime() <= Date.now();
+                return (
+                  <tr key={change.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {(change.effectiveAt as Date).toLocaleString()}
+                      {isInForce && (
+                        <div className="text-xs text-green-600">In force, applying shortly</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{describeChange(change)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{change.createdBy || 'Unknown'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => handleCancel(change.id)}
+                        disabled={cancellingId !== null}
+                        className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+                      >
+                        {cancellingId === change.id ? 'Cancelling...' : 'Cancel'}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Schedule a single country's base price change */}
+      <form onSubmit={handleSchedule} className="border-t border-gray-200 pt-4">
+        <h3 className="text-lg font-medium text-gray-700 mb-3">Schedule Country Price Change</h3>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-sm text-gray-700">
+            Country code
+            <input
+              type="text"
+              value={countryCode}
+              onChange={(e) => setCountryCode(e.target.value.toUpperCase())}
+              maxLength={2}
+              placeholder="GB"
+              required
+              className="block mt-1 w-20 px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            New base price / min (USD)
+            <input
+              type="number"
+              value={basePrice}
+              onChange={(e) => setBasePrice(e.target.value)}
+              min="0"
+              step="0.0001"
+              required
+              className="block mt-1 w-36 px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Effective at
+            <input
+              type="datetime-local"
+              value={effectiveAt}
+              onChange={(e) => setEffectiveAt(e.target.value)}
+              required
+              className="block mt-1 px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isScheduling}
+            className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+          >
+            {isScheduling ? 'Scheduling...' : 'Schedule'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
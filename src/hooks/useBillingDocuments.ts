@@ -0,0 +1,63 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+
+/**
+ * Download or email receipts and statements
+ * The PDF endpoints need the user's ID token, so downloads are fetched and saved
+ * through an object URL rather than linked directly.
+ */
+export function useBillingDocuments() {
+  const { user } = useAuth();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (key: string, action: (token: string) => Promise<void>) => {
+    if (!user) return;
+    setBusyKey(key);
+    setMessage(null);
+    setError(null);
+    try {
+      await action(await user.getIdToken());
+    } catch (err) {
+      console.error('[useBillingDocuments] Error:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setBusyKey(null);
+    }
+  }, [user]);
+
+  const download = useCallback((key: string, url: string, filename: string) => run(key, async (token) => {
+    const response = await fetch(url, { headers: { 'Authorization': `Bearer ${token}` } });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Download failed');
+    }
+    const objectUrl = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(objectUrl);
+  }), [run]);
+
+  const email = useCallback((key: string, url: string, body: object) => run(key, async (token) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Email failed');
+    }
+    setMessage(`Sent to ${user?.email}.`);
+  }), [run, user]);
+
+  return { download, email, busyKey, message, error };
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { CallerIdVerificationChannel } from '@/types/caller-id';
+
+// Verified caller ID as returned by the API (date serialized as an ISO string)
+export interface CallerIdData {
+  number: string;
+  verifiedAt: string;
+}
+
+/**
+ * Load the user's verified caller IDs and verify new ones through /api/caller-ids
+ */
+export function useCallerIds() {
+  const { user } = useAuth();
+  const [callerIds, setCallerIds] = useState<CallerIdData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const callApi = useCallback(async (path: string, init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data;
+  }, [user]);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setCallerIds([]);
+      return;
+    }
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callApi('/api/caller-ids');
+      setCallerIds(data.callerIds);
+    } catch (err) {
+      console.error('[useCallerIds] Error loading caller IDs:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, callApi]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // These throw so the verification form can show the error next to the fields
+  const sendCode = useCallback(async (phoneNumber: string, channel: CallerIdVerificationChannel) => {
+    await callApi('/api/caller-ids/verify', {
+      method: 'POST',
+      body: JSON.stringify({ phoneNumber, channel }),
+    });
+  }, [callApi]);
+
+  const confirmCode = useCallback(async (phoneNumber: string, code: string) => {
+    await callApi('/api/caller-ids/verify', {
+      method: 'PUT',
+      body: JSON.stringify({ phoneNumber, code }),
+    });
+    await refresh();
+  }, [callApi, refresh]);
+
+  const removeCallerId = useCallback(async (number: string) => {
+    await callApi(`/api/caller-ids?number=${encodeURIComponent(number)}`, { method: 'DELETE' });
+    await refresh();
+  }, [callApi, refresh]);
+
+  return { callerIds, isLoading, error, refresh, sendCode, confirmCode, removeCallerId };
+}
+
+export type CallerIdsState = ReturnType<typeof useCallerIds>;
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { Contact, ContactFileFormat, ContactInput } from '@/types/contact';
+
+// Contact as returned by the API (dates serialized as ISO strings)
+export type ContactData = Omit<Contact, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface ContactImportResult {
+  imported: number;
+  skipped: { name: string; reason: string }[];
+}
+
+/**
+ * Load the user's contacts and change them through /api/contacts
+ * Also maps each E.164 number to its contact's name, for call history and the call screen.
+ */
+export function useContacts() {
+  const { user } = useAuth();
+  const [contacts, setContacts] = useState<ContactData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const callApi = useCallback(async (path: string, init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data;
+  }, [user]);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setContacts([]);
+      return;
+    }
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callApi('/api/contacts');
+      setContacts(data.contacts);
+    } catch (err) {
+      console.error('[useContacts] Error loading contacts:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, callApi]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Saving and deleting throw so the form can show the error next to the fields
+  const saveContact = useCallback(async (input: ContactInput, contactId?: string) => {
+    await callApi(contactId ? `/api/contacts?contactId=${contactId}` : '/api/contacts', {
+      method: contactId ? 'PUT' : 'POST',
+      body: JSON.stringify(input),
+    });
+    await refresh();
+  }, [callApi, refresh]);
+
+  const deleteContact = useCallback(async (contactId: string) => {
+    await callApi(`/api/contacts?contactId=${contactId}`, { method: 'DELETE' });
+    await refresh();
+  }, [callApi, refresh]);
+
+  const importFile = useCallback(async (file: File): Promise<ContactImportResult> => {
+    const format: ContactFileFormat = /\.csv$/i.test(file.name) ? 'csv' : 'vcard';
+    const data = await callApi('/api/contacts/import', {
+      method: 'POST',
+      body: JSON.stringify({ format, data: await file.text() }),
+    });
+    await refresh();
+    return { imported: data.imported, skipped: data.skipped };
+  }, [callApi, refresh]);
+
+  const exportContacts = useCallback(async (format: ContactFileFormat) => {
+    if (!user) return;
+    const token = await user.getIdToken();
+    const response = await fetch(`/api/contacts/export?format=${format}`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Export failed');
+    }
+    const objectUrl = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = `contacts.${format === 'vcard' ? 'vcf' : 'csv'}`;
+    link.click();
+    URL.revokeObjectURL(objectUrl);
+  }, [user]);
+
+  const contactNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    contacts.forEach(contact => {
+      contact.numbers.forEach(number => {
+        names[number.number] = contact.name;
+      });
+    });
+    return names;
+  }, [contacts]);
+
+  return { contacts, contactNames, isLoading, error, refresh, saveContact, deleteContact, importFile, exportContacts };
+}
+
+export type ContactsState = ReturnType<typeof useContacts>;
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/AuthContext';
+import { ExchangeRateTable } from '@/types/pricing';
+import { getExchangeRates } from '@/lib/pricing/pricing-db-client';
+import { convertFromUsd, formatPrice } from '@/lib/pricing/pricing-engine';
+
+interface UseDisplayCurrencyReturn {
+  displayCurrency: string;  // Currency prices and balances are shown in
+  walletCurrency: string;   // Currency top-ups are charged in
+  exchangeRates: ExchangeRateTable | null;
+  formatAmount: (amountUsd: number) => string; // Format a USD amount in the display currency
+}
+
+/**
+ * The signed-in user's currency preferences plus the admin-maintained exchange rates
+ * Amounts are stored in USD everywhere; this only converts them for display.
+ */
+export function useDisplayCurrency(): UseDisplayCurrencyReturn {
+  const { user } = useAuth();
+  const [displayCurrency, setDisplayCurrency] = useState<string>('USD');
+  const [walletCurrency, setWalletCurrency] = useState<string>('USD');
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable | null>(null);
+
+  useEffect(() => {
+    getExchangeRates().then(setExchangeRates);
+  }, []);
+
+  // Follow the user document so preference changes apply immediately
+  useEffect(() => {
+    if (!user) {
+      setDisplayCurrency('USD');
+      setWalletCurrency('USD');
+      return;
+    }
+
+    const unsubscribe = onSnapshot(doc(db, 'users', user.uid),
+      (docSnap) => {
+        const data = docSnap.data();
+        const display = data?.displayCurrency || 'USD';
+        setDisplayCurrency(display);
+        setWalletCurrency(data?.walletCurrency || display);
+      },
+      (error) => {
+        console.error('[useDisplayCurrency] Error listening to user preferences:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  const formatAmount = useCallback((amountUsd: number) => {
+    if (!exchangeRates) {
+      return formatPrice(amountUsd, 'USD');
+    }
+    const converted = convertFromUsd(amountUsd, displayCurrency, exchangeRates);
+    return formatPrice(converted.amount, converted.currency);
+  }, [displayCurrency, exchangeRates]);
+
+  return { displayCurrency, walletCurrency, exchangeRates, formatAmount };
+}
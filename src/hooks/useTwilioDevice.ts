@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Device, Call } from '@twilio/voice-sdk';
+import { auth } from '@/lib/firebase';
 
 // Keep simpler interface for the expected error structure
 interface PotentialTwilioError {
@@ -24,9 +25,10 @@ interface UseTwilioDeviceReturn {
   isConnecting: boolean;
   isConnected: boolean;
   isAccepted: boolean;
+  isIncoming: boolean; // An inbound call to the user's rented number is ringing
   error: string | null;
   waitingForMicPermission: boolean;
-  makeCall: (to: string) => Promise<void>;
+  makeCall: (to: string, callerId?: string) => Promise<void>; // callerId: a verified number, otherwise the server picks one from the pool
   hangupCall: () => boolean;
   answerCall: () => void;
   rejectCall: () => void;
@@ -41,6 +43,7 @@ export function useTwilioDevice({ userId }: UseTwilioDeviceProps): UseTwilioDevi
   const [isConnecting, setIsConnecting] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [isAccepted, setIsAccepted] = useState(false);
+  const [isIncoming, setIsIncoming] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [waitingForMicPermission, setWaitingForMicPermission] = useState(false);
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -121,6 +124,7 @@ export function useTwilioDevice({ userId }: UseTwilioDeviceProps): UseTwilioDevi
     setIsConnecting(false);
     setIsConnected(false);
     setIsAccepted(false);
+    setIsIncoming(false);
     setCall(null);
     setError(null);
     
@@ -235,10 +239,16 @@ export function useTwilioDevice({ userId }: UseTwilioDeviceProps): UseTwilioDevi
       // By now we should have permission - proceed with token fetch
       try {
         console.log('[useTwilioDevice] Fetching Twilio token...');
+        const idToken = await auth.currentUser?.getIdToken();
+        if (!idToken) {
+          throw new Error('You must be signed in to use the phone');
+        }
         const response = await fetch('/api/twilio-token', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ userId }),
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${idToken}`,
+          },
         });
           
         if (!response.ok) {
@@ -492,13 +502,37 @@ export function useTwilioDevice({ userId }: UseTwilioDeviceProps): UseTwilioDevi
     };
 
     const handleIncoming = (connection: Call) => {
-      console.log('[useTwilioDevice] Event: Incoming call - automatically rejecting');
-      
-      // Automatically reject all incoming calls
-      connection.reject();
-      
-      // Log the rejection
-      console.log('[useTwilioDevice] Incoming call automatically rejected');
+      // Already on a call: the caller hears no answer and the call is logged as missed
+      if (device.isBusy) {
+        console.log('[useTwilioDevice] Event: Incoming call while busy - rejecting');
+        connection.reject();
+        return;
+      }
+
+      console.log('[useTwilioDevice] Event: Incoming call from', connection.parameters.From);
+      setCall(connection);
+      setIsIncoming(true);
+      setError(null);
+
+      connection.on('accept', () => {
+        console.log('[useTwilioDevice] Incoming call accepted');
+        setIsIncoming(false);
+        setIsAccepted(true);
+        setIsConnected(true);
+      });
+
+      // Hung up after answering, rejected here, or the caller gave up while it rang
+      const resetIncoming = () => {
+        console.log('[useTwilioDevice] Incoming call ended');
+        setCall(null);
+        setIsIncoming(false);
+        setIsConnected(false);
+        setIsConnecting(false);
+        setIsAccepted(false);
+      };
+      connection.on('disconnect', resetIncoming);
+      connection.on('cancel', resetIncoming);
+      connection.on('reject', resetIncoming);
     };
 
     // Attach Listeners
@@ -524,7 +558,7 @@ export function useTwilioDevice({ userId }: UseTwilioDeviceProps): UseTwilioDevi
   }, [device, isReady]); // Re-run ONLY if device instance or isReady state changes
 
   // Make an outgoing call
-  const makeCall = useCallback(async (to: string) => {
+  const makeCall = useCallback(async (to: string, callerId?: string) => {
     if (!device) {
       setError('Device not available.');
       console.error('[useTwilioDevice] makeCall: Device not available.');
@@ -576,31 +610,13 @@ export function useTwilioDevice({ userId }: UseTwilioDeviceProps): UseTwilioDevi
       setIsConnecting(true);
       setError(null);
       
-      // Fetch a random number from our pool to use as the caller ID
-      let callerId;
-      try {
-        const response = await fetch('/api/twilio-numbers', {
-          method: 'POST',
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          callerId = data.phoneNumber;
-          console.log(`[useTwilioDevice] Using caller ID from pool: ${callerId}`);
-        } else {
-          console.warn('[useTwilioDevice] Failed to fetch caller ID from pool, will use default');
-        }
-      } catch (error) {
-        console.warn('[useTwilioDevice] Error fetching caller ID:', error);
-        // Continue with default caller ID
-      }
-      
-      // Connect with a params object including the caller ID if available
+      // Connect with a params object including the user's verified caller ID if chosen
+      // (otherwise /api/voice picks a pool number for the destination).
+      // /api/voice bills the token's identity, so the user ID isn't sent.
       const outgoingCall = await device.connect({ 
         params: { 
           To: to,
-          ...(callerId && { CallerId: callerId }),
-          UserId: userId 
+          ...(callerId && { CallerId: callerId })
         } 
       });
       
@@ -638,7 +654,7 @@ export function useTwilioDevice({ userId }: UseTwilioDeviceProps): UseTwilioDevi
       setIsConnecting(false);
       setCall(null);
     }
-  }, [device, isReady, userId]);
+  }, [device, isReady]);
 
   // Hang up the current call
   const hangupCall = useCallback(() => {
@@ -668,6 +684,7 @@ export function useTwilioDevice({ userId }: UseTwilioDeviceProps): UseTwilioDevi
     setIsConnecting(false);
     setIsConnected(false);
     setIsAccepted(false);
+    setIsIncoming(false);
     setCall(null);
     setError(null);
     
@@ -720,6 +737,7 @@ export function useTwilioDevice({ userId }: UseTwilioDeviceProps): UseTwilioDevi
     isConnecting,
     isConnected,
     isAccepted,
+    isIncoming,
     error,
     waitingForMicPermission,
     makeCall,
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { AvailableVirtualNumber } from '@/types/virtual-number';
+
+// Rented number as returned by the API (dates serialized as ISO strings)
+export interface VirtualNumberData {
+  number: string;
+  monthlyFee: number;
+  rentedAt: string;
+  renewsAt: string;
+}
+
+/**
+ * Load the user's rented number and rent or release one through /api/virtual-number
+ */
+export function useVirtualNumber() {
+  const { user } = useAuth();
+  const [virtualNumber, setVirtualNumber] = useState<VirtualNumberData | null>(null);
+  const [available, setAvailable] = useState<AvailableVirtualNumber[]>([]);
+  const [enabled, setEnabled] = useState(false);
+  const [monthlyFee, setMonthlyFee] = useState(0);
+  const [inboundRatePerMinute, setInboundRatePerMinute] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const callApi = useCallback(async (path: string, init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data;
+  }, [user]);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setVirtualNumber(null);
+      setAvailable([]);
+      return;
+    }
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callApi('/api/virtual-number');
+      setVirtualNumber(data.virtualNumber);
+      setAvailable(data.available);
+      setEnabled(data.enabled);
+      setMonthlyFee(data.monthlyFee);
+      setInboundRatePerMinute(data.inboundRatePerMinute);
+    } catch (err) {
+      console.error('[useVirtualNumber] Error loading virtual number:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, callApi]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // These throw so the card can show the error next to the action
+  const rentNumber = useCallback(async (number: string) => {
+    await callApi('/api/virtual-number', {
+      method: 'POST',
+      body: JSON.stringify({ number }),
+    });
+    await refresh();
+  }, [callApi, refresh]);
+
+  const releaseNumber = useCallback(async () => {
+    await callApi('/api/virtual-number', { method: 'DELETE' });
+    await refresh();
+  }, [callApi, refresh]);
+
+  return {
+    virtualNumber,
+    available,
+    enabled,
+    monthlyFee,
+    inboundRatePerMinute,
+    isLoading,
+    error,
+    refresh,
+    rentNumber,
+    releaseNumber
+  };
+}
+
+export type VirtualNumberState = ReturnType<typeof useVirtualNumber>;
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { Voicemail } from '@/types/voicemail';
+
+// Voicemail as returned by the API (date serialized as an ISO string, no recording URL)
+export type VoicemailData = Omit<Voicemail, 'createdAt' | 'recordingUrl'> & {
+  createdAt: string;
+};
+
+/**
+ * Load the user's voicemail inbox and play or mark messages through /api/voicemails
+ */
+export function useVoicemails() {
+  const { user } = useAuth();
+  const [voicemails, setVoicemails] = useState<VoicemailData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const callApi = useCallback(async (path: string, init?: RequestInit) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return data;
+  }, [user]);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setVoicemails([]);
+      return;
+    }
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await callApi('/api/voicemails');
+      setVoicemails(data.voicemails);
+    } catch (err) {
+      console.error('[useVoicemails] Error loading voicemails:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, callApi]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // These throw so the inbox can show the error next to the message
+  const setRead = useCallback(async (voicemailId: string, read: boolean) => {
+    await callApi(`/api/voicemails?voicemailId=${encodeURIComponent(voicemailId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ read }),
+    });
+    setVoicemails(current => current.map(voicemail => (voicemail.id === voicemailId ? { ...voicemail, read } : voicemail)));
+  }, [callApi]);
+
+  // The audio needs the auth header, so it's fetched here and played from an object URL
+  const loadRecording = useCallback(async (voicemailId: string) => {
+    if (!user) {
+      throw new Error('You must be signed in.');
+    }
+    const token = await user.getIdToken();
+    const response = await fetch(`/api/voicemails/recording?voicemailId=${encodeURIComponent(voicemailId)}`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Request failed: ${response.statusText}`);
+    }
+    return URL.createObjectURL(await response.blob());
+  }, [user]);
+
+  const unreadCount = voicemails.filter(voicemail => !voicemail.read).length;
+
+  return { voicemails, unreadCount, isLoading, error, refresh, setRead, loadRecording };
+}
+
+export type VoicemailsState = ReturnType<typeof useVoicemails>;
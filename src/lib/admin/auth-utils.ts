@@ -1,19 +1,21 @@
+import { auth } from '@/lib/firebase';
+
 /**
  * Authentication utilities for admin operations
  */
 
 /**
  * Gets the authorization header for admin API requests
- * Uses the NEXT_PUBLIC_ADMIN_TOKEN environment variable
+ * Sends the signed-in admin's Firebase ID token; the routes check it and the user's isAdmin flag.
  * 
  * @returns {Promise<string>} Authorization header value
  */
 export async function getAdminAuthHeader(): Promise<string> {
-  const adminToken = process.env.NEXT_PUBLIC_ADMIN_TOKEN || '';
+  const user = auth.currentUser;
   
-  if (!adminToken) {
-    console.warn('Admin token is not configured. Please check your .env.local file.');
+  if (!user) {
+    throw new Error('You must be signed in as an administrator.');
   }
   
-  return `Bearer ${adminToken}`;
-} 
\ No newline at end of file
+  return `Bearer ${await user.getIdToken()}`;
+}
@@ -0,0 +1,393 @@
+import Stripe from 'stripe';
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentReference, Timestamp } from 'firebase-admin/firestore';
+import { postLedgerEntryOnce } from '@/lib/ledger';
+import { recordCardFingerprint } from '@/lib/referrals';
+import { getBillingDetails, parseTaxMetadata, quoteTax, taxQuoteMetadata } from '@/lib/tax';
+import { checkTopUpAllowed, getTopUpPolicy } from '@/lib/top-up-policy';
+import { AUTO_RECHARGE_MAX_THRESHOLD, AUTO_RECHARGE_MIN_THRESHOLD } from '@/types/billing';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+// Checked when used so the call callback still works without Stripe configured
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
+  apiVersion: "2025-02-24.acacia",
+});
+
+const USERS_COLLECTION = 'users';
+const LOOPS_API_KEY = process.env.LOOPS_API_KEY || '';
+const LOOPS_TRANSACTIONAL_ENDPOINT = 'https://app.loops.so/api/v1/transactional';
+
+// Turn auto-recharge off after this many declines in a row
+export const MAX_AUTO_RECHARGE_FAILURES = 3;
+
+// Don't start another charge while one may still be settling (credited by the Stripe webhook)
+const AUTO_RECHARGE_COOLDOWN_MS = 10 * 60 * 1000;
+
+// Marks our PaymentIntents and setup sessions so the webhook can recognize them
+export const AUTO_RECHARGE_PURPOSE = 'auto_recharge';
+export const AUTO_RECHARGE_SETUP_PURPOSE = 'auto_recharge_setup';
+
+/**
+ * Get the user's Stripe customer, creating one the first time
+ */
+export async function getOrCreateStripeCustomer(userId: string, email?: string): Promise<string> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+  const userSnap = await userRef.get();
+  const existingCustomerId = userSnap.data()?.stripeCustomerId;
+
+  if (existingCustomerId) {
+    return existingCustomerId;
+  }
+
+  const customer = await stripe.customers.create({
+    email,
+    metadata: { userId }
+  });
+  await userRef.update({ stripeCustomerId: customer.id });
+  console.log(`[AutoRecharge] Created Stripe customer ${customer.id} for user ${userId}`);
+  return customer.id;
+}
+
+/**
+ * Create a Checkout session in setup mode to save a card for auto-recharge
+ * @returns The Checkout URL to redirect the user to
+ */
+export async function createAutoRechargeSetupSession(userId: string, email: string | undefined, appUrl: string): Promise<string> {
+  const customerId = await getOrCreateStripeCustomer(userId, email);
+
+  const session = await stripe.checkout.sessions.create({
+    mode: 'setup',
+    payment_method_types: ['card'],
+    customer: customerId,
+    success_url: `${appUrl}/dashboard?auto_recharge=saved`,
+    cancel_url: `${appUrl}/dashboard`,
+    metadata: {
+      userId,
+      purpose: AUTO_RECHARGE_SETUP_PURPOSE
+    }
+  });
+
+  if (!session.url) {
+    throw new Error('Stripe did not return a Checkout URL.');
+  }
+  return session.url;
+}
+
+/**
+ * Save the card from a completed setup session as the user's auto-recharge card
+ */
+export async function saveAutoRechargePaymentMethod(userId: string, setupIntentId: string): Promise<void> {
+  const setupIntent = await stripe.setupIntents.retrieve(setupIntentId, {
+    expand: ['payment_method']
+  });
+  const paymentMethod = setupIntent.payment_method as Stripe.PaymentMethod | null;
+
+  if (!paymentMethod) {
+    throw new Error(`SetupIntent ${setupIntentId} has no payment method.`);
+  }
+
+  await adminDb.collection(USERS_COLLECTION).doc(userId).update({
+    'autoRecharge.paymentMethodId': paymentMethod.id,
+    'autoRecharge.cardBrand': paymentMethod.card?.brand || null,
+    'autoRecharge.cardLast4': paymentMethod.card?.last4 || null,
+    'autoRecharge.failureCount': 0,
+    'autoRecharge.lastFailureReason': null
+  });
+  // Saved cards count as the user's own for referral checks
+  if (paymentMethod.card?.fingerprint) {
+    await recordCardFingerprint(userId, paymentMethod.card.fingerprint);
+  }
+  console.log(`[AutoRecharge] Saved payment method ${paymentMethod.id} for user ${userId}`);
+}
+
+/**
+ * Validate and save the user's threshold and amount, turning auto-recharge on or off
+ * @returns An error message, or null if saved
+ */
+export async function updateAutoRechargeSettings(
+  userId: string,
+  settings: { enabled: boolean; threshold: number; amount: number }
+): Promise<string | null> {
+  const { enabled, threshold, amount } = settings;
+
+  if (typeof enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+  if (typeof threshold !== 'number' || threshold < AUTO_RECHARGE_MIN_THRESHOLD || threshold > AUTO_RECHARGE_MAX_THRESHOLD) {
+    return `Threshold must be between $${AUTO_RECHARGE_MIN_THRESHOLD} and $${AUTO_RECHARGE_MAX_THRESHOLD}`;
+  }
+  // Recharges are charged in USD, in one of the amounts the top-up policy offers
+  const { amounts } = await getTopUpPolicy();
+  if (!amounts.includes(amount)) {
+    return `Amount must be one of: ${amounts.map(value => `$${value}`).join(', ')}`;
+  }
+
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+  const userSnap = await userRef.get();
+  if (enabled && !userSnap.data()?.autoRecharge?.paymentMethodId) {
+    return 'Save a card before turning on auto-recharge';
+  }
+  // Tax is charged by billing country, as for Checkout top-ups
+  if (enabled && !(await getBillingDetails(userId))) {
+    return 'Add your billing country in Account Details before turning on auto-recharge';
+  }
+
+  await userRef.update({
+    'autoRecharge.enabled': enabled,
+    'autoRecharge.threshold': threshold,
+    'autoRecharge.amount': amount,
+    // Re-enabling after declines starts the count again
+    ...(enabled && { 'autoRecharge.failureCount': 0 })
+  });
+  return null;
+}
+
+/**
+ * Detach the saved card and turn auto-recharge off
+ */
+export async function removeAutoRechargePaymentMethod(userId: string): Promise<void> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+  const paymentMethodId = (await userRef.get()).data()?.autoRecharge?.paymentMethodId;
+
+  if (paymentMethodId) {
+    await stripe.paymentMethods.detach(paymentMethodId);
+  }
+
+  await userRef.update({
+    'autoRecharge.enabled': false,
+    'autoRecharge.paymentMethodId': null,
+    'autoRecharge.cardBrand': null,
+    'autoRecharge.cardLast4': null
+  });
+  console.log(`[AutoRecharge] Removed payment method for user ${userId}`);
+}
+
+/**
+ * Charge the saved card if the balance has dropped below the user's threshold
+ * The charge is credited when Stripe sends payment_intent.succeeded to the webhook, and an
+ * asynchronous decline is recorded from payment_intent.payment_failed (see recordAutoRechargeDecline).
+ * Never throws; failures are recorded on the user and emailed to them.
+ */
+export async function maybeTriggerAutoRecharge(userId: string, balance: number): Promise<void> {
+  try {
+    const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+    // Claim the attempt in a transaction so concurrent call callbacks charge only once
+    const claimed = await adminDb.runTransaction(async (transaction) => {
+      const userSnap = await transaction.get(userRef);
+      const data = userSnap.data();
+      const settings = data?.autoRecharge;
+
+      if (!settings?.enabled || !settings.paymentMethodId || !data?.stripeCustomerId) {
+        return null;
+      }
+      if (balance >= settings.threshold) {
+        return null;
+      }
+      const lastAttemptAt = settings.lastAttemptAt instanceof Timestamp ? settings.lastAttemptAt.toMillis() : 0;
+      if (Date.now() - lastAttemptAt < AUTO_RECHARGE_COOLDOWN_MS) {
+        return null;
+      }
+
+      const claimedAt = Timestamp.now();
+      transaction.update(userRef, { 'autoRecharge.lastAttemptAt': claimedAt });
+      return {
+        // Identifies this attempt, so a retried request can't charge the card twice
+        claimId: `${userId}_${claimedAt.toMillis()}`,
+        customerId: data.stripeCustomerId as string,
+        paymentMethodId: settings.paymentMethodId as string,
+        amount: settings.amount as number
+      };
+    });
+
+    if (!claimed) {
+      return;
+    }
+
+    // Over the top-up limits, the charge is skipped rather than declined, so it doesn't count
+    // towards turning auto-recharge off and is tried again after the next call
+    const policyError = await checkTopUpAllowed(userId, claimed.amount, claimed.amount);
+    if (policyError) {
+      console.warn(`[AutoRecharge] Skipping charge for user ${userId}: ${policyError}`);
+      await userRef.update({ 'autoRecharge.lastFailureReason': policyError });
+      return;
+    }
+
+    // Charged in USD, with the same VAT/GST as a manual top-up, so it needs a billing country like Checkout does
+    const taxQuote = await quoteTax(userId, claimed.amount, 1);
+    if (!taxQuote.country) {
+      const reason = 'Add your billing country in Account Details to use auto-recharge.';
+      console.warn(`[AutoRecharge] Skipping charge for user ${userId}: no billing country`);
+      await userRef.update({ 'autoRecharge.lastFailureReason': reason });
+      return;
+    }
+
+    console.log(`[AutoRecharge] Balance ${balance} for user ${userId} is below threshold. Charging $${claimed.amount}`);
+
+    try {
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: Math.round(taxQuote.total * 100),
+        currency: 'usd',
+        customer: claimed.customerId,
+        payment_method: claimed.paymentMethodId,
+        off_session: true,
+        confirm: true,
+        description: `ZippCall auto-recharge of $${claimed.amount.toFixed(2)}`,
+        metadata: {
+          userId,
+          amountToAdd: claimed.amount.toString(),
+          purpose: AUTO_RECHARGE_PURPOSE,
+          ...taxQuoteMetadata(taxQuote)
+        }
+      }, {
+        idempotencyKey: `auto-recharge-${claimed.claimId}`
+      });
+
+      // Nobody is there to authenticate an off-session charge, so a bank asking for it (SCA) is a decline
+      if (paymentIntent.status === 'requires_action') {
+        await recordAutoRechargeFailure(
+          userId,
+          claimed.amount,
+          'Your bank asked to confirm the payment, which can\'t be done automatically. Top up manually or use another card.',
+          paymentIntent.id
+        );
+        await stripe.paymentIntents.cancel(paymentIntent.id).catch(error => {
+          console.error(`[AutoRecharge] Failed to cancel PaymentIntent ${paymentIntent.id}:`, error);
+        });
+      }
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : 'The payment could not be completed';
+      // Card declines also arrive as payment_intent.payment_failed; the PaymentIntent ID keeps them from counting twice
+      const paymentIntentId = error instanceof Stripe.errors.StripeError ? error.payment_intent?.id : undefined;
+      await recordAutoRechargeFailure(userId, claimed.amount, reason, paymentIntentId);
+    }
+  } catch (error) {
+    console.error(`[AutoRecharge] Error checking auto-recharge for user ${userId}:`, error);
+  }
+}
+
+/**
+ * Credit a successful auto-recharge PaymentIntent to the user's balance, once per idempotency key
+ */
+export async function creditAutoRecharge(
+  paymentIntent: Stripe.PaymentIntent,
+  idempotencyRefs: DocumentReference[]
+): Promise<void> {
+  const userId = paymentIntent.metadata.userId;
+  const amountToAdd = parseFloat(paymentIntent.metadata.amountToAdd);
+
+  if (!userId || isNaN(amountToAdd) || amountToAdd <= 0) {
+    throw new Error(`Invalid auto-recharge metadata on PaymentIntent ${paymentIntent.id}`);
+  }
+
+  const tax = parseTaxMetadata(paymentIntent.metadata);
+  const balanceAfter = await postLedgerEntryOnce(userId, {
+    type: 'deposit',
+    amount: amountToAdd,
+    counterAccount: 'stripe_clearing',
+    source: 'auto_recharge',
+    taxAmount: tax.taxAmount,
+    details: { ...tax.details, stripePaymentIntentId: paymentIntent.id }
+  }, idempotencyRefs, { paymentIntentId: paymentIntent.id });
+
+  if (balanceAfter === null) {
+    console.log(`[AutoRecharge] PaymentIntent ${paymentIntent.id} was already credited. Skipping.`);
+    return;
+  }
+  await adminDb.collection(USERS_COLLECTION).doc(userId).update({
+    'autoRecharge.failureCount': 0,
+    'autoRecharge.lastFailureReason': null
+  });
+  console.log(`[AutoRecharge] Credited $${amountToAdd} to user ${userId} from PaymentIntent ${paymentIntent.id}`);
+}
+
+/**
+ * Record an auto-recharge PaymentIntent that Stripe declined after it was created (payment_intent.payment_failed)
+ */
+export async function recordAutoRechargeDecline(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  const userId = paymentIntent.metadata.userId;
+  const amount = parseFloat(paymentIntent.metadata.amountToAdd);
+
+  if (!userId || isNaN(amount)) {
+    throw new Error(`Invalid auto-recharge metadata on PaymentIntent ${paymentIntent.id}`);
+  }
+
+  const reason = paymentIntent.last_payment_error?.message || 'The payment could not be completed';
+  await recordAutoRechargeFailure(userId, amount, reason, paymentIntent.id);
+}
+
+/**
+ * Count a declined auto-recharge, turn auto-recharge off at the limit and email the user
+ * A failure with a PaymentIntent ID is counted once, however many times it is reported.
+ */
+async function recordAutoRechargeFailure(userId: string, amount: number, reason: string, paymentIntentId?: string): Promise<void> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+  const recorded = await adminDb.runTransaction(async (transaction) => {
+    const data = (await transaction.get(userRef)).data();
+    if (paymentIntentId && data?.autoRecharge?.lastFailedPaymentIntentId === paymentIntentId) {
+      return null;
+    }
+
+    const failureCount = (data?.autoRecharge?.failureCount || 0) + 1;
+    const disabled = failureCount >= MAX_AUTO_RECHARGE_FAILURES;
+    transaction.update(userRef, {
+      'autoRecharge.failureCount': failureCount,
+      'autoRecharge.lastFailureReason': reason,
+      ...(paymentIntentId && { 'autoRecharge.lastFailedPaymentIntentId': paymentIntentId }),
+      ...(disabled && { 'autoRecharge.enabled': false })
+    });
+    return { failureCount, disabled, email: (data?.email as string | undefined) || null };
+  });
+
+  if (!recorded) {
+    console.log(`[AutoRecharge] Failure of PaymentIntent ${paymentIntentId} was already recorded. Skipping.`);
+    return;
+  }
+  const { failureCount, disabled, email } = recorded;
+  console.warn(`[AutoRecharge] Charge failed for user ${userId} (${failureCount}/${MAX_AUTO_RECHARGE_FAILURES}): ${reason}${disabled ? '. Auto-recharge disabled.' : ''}`);
+
+  if (email) {
+    await sendAutoRechargeFailedEmail(email, amount, reason, disabled);
+  }
+}
+
+/**
+ * Send the "auto-recharge failed" transactional email through Loops
+ */
+async function sendAutoRechargeFailedEmail(email: string, amount: number, reason: string, disabled: boolean): Promise<void> {
+  const transactionalId = process.env.LOOPS_AUTO_RECHARGE_FAILED_ID;
+
+  if (!LOOPS_API_KEY || !transactionalId) {
+    console.warn('[AutoRecharge] Loops API key or LOOPS_AUTO_RECHARGE_FAILED_ID missing. Skipping failure email.');
+    return;
+  }
+
+  try {
+    const response = await fetch(LOOPS_TRANSACTIONAL_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOOPS_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        transactionalId,
+        email,
+        dataVariables: {
+          amount: `$${amount.toFixed(2)}`,
+          reason,
+          autoRechargeDisabled: disabled ? 'yes' : 'no'
+        }
+      })
+    });
+
+    if (!response.ok) {
+      console.error(`[AutoRecharge] Loops failure email returned status ${response.status}`);
+    }
+  } catch (error) {
+    console.error('[AutoRecharge] Error sending failure email:', error);
+  }
+}
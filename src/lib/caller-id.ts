@@ -0,0 +1,228 @@
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import twilio from 'twilio';
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentData, Timestamp } from 'firebase-admin/firestore';
+import { isPoolNumber } from '@/lib/twilio-numbers';
+import { getUserVirtualNumber } from '@/lib/virtual-numbers';
+import { normalizeToE164 } from '@/utils/phoneValidation';
+import {
+  CALLER_ID_CODE_LENGTH,
+  CALLER_ID_CODE_TTL_MINUTES,
+  CallerIdVerificationChannel,
+  MAX_CALLER_ID_CODE_ATTEMPTS,
+  MAX_CALLER_ID_CODES_PER_HOUR,
+  MAX_CALLER_ID_CODES_PER_NUMBER_PER_HOUR,
+  MAX_VERIFIED_CALLER_IDS,
+  VerifiedCallerId
+} from '@/types/caller-id';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const VERIFICATIONS_COLLECTION = 'caller_id_verifications'; // One pending verification per user, keyed by uid
+const DESTINATIONS_COLLECTION = 'caller_id_destinations'; // Codes sent to each number, keyed by E.164 number
+
+/**
+ * Convert stored caller IDs' timestamps back to Dates
+ */
+function toCallerIds(data: DocumentData | undefined): VerifiedCallerId[] {
+  const callerIds: DocumentData[] = Array.isArray(data?.verifiedCallerIds) ? data.verifiedCallerIds : [];
+  return callerIds.map(callerId => ({
+    number: callerId.number,
+    verifiedAt: callerId.verifiedAt instanceof Timestamp ? callerId.verifiedAt.toDate() : new Date()
+  }));
+}
+
+/**
+ * Keep the send times from the last hour
+ */
+function recentSendTimes(data: DocumentData | undefined): Timestamp[] {
+  const hourAgo = Date.now() - 60 * 60 * 1000;
+  return ((data?.sentAt || []) as Timestamp[]).filter(sentAt => sentAt.toMillis() > hourAgo);
+}
+
+// Codes are stored hashed, bound to the user and number they were sent for
+const hashCode = (userId: string, number: string, code: string) =>
+  createHash('sha256').update(`${userId}:${number}:${code}`).digest();
+
+/**
+ * Deliver a verification code by SMS or voice call from the default caller ID
+ * Set CALLER_ID_VERIFICATION_SENDER=console to log codes instead (local development).
+ */
+async function sendVerificationCode(number: string, code: string, channel: CallerIdVerificationChannel): Promise<void> {
+  if (process.env.CALLER_ID_VERIFICATION_SENDER === 'console') {
+    console.log(`[caller-id] Verification code for ${number} (${channel}): ${code}`);
+    return;
+  }
+
+  const from = process.env.TWILIO_CALLER_ID;
+  if (!from) {
+    throw new Error('TWILIO_CALLER_ID is not configured');
+  }
+  const client = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN);
+
+  if (channel === 'sms') {
+    await client.messages.create({
+      to: number,
+      from,
+      body: `Your ZippCall verification code is ${code}. It expires in ${CALLER_ID_CODE_TTL_MINUTES} minutes.`
+    });
+  } else {
+    // Read the digits one at a time, twice
+    const twiml = new twilio.twiml.VoiceResponse();
+    const spoken = code.split('').join(', ');
+    twiml.say('Your Zipp Call verification code is');
+    twiml.say(spoken);
+    twiml.pause({ length: 1 });
+    twiml.say('Again, your code is');
+    twiml.say(spoken);
+    await client.calls.create({ to: number, from, twiml: twiml.toString() });
+  }
+}
+
+/**
+ * Get the user's verified caller IDs
+ */
+export async function getVerifiedCallerIds(userId: string): Promise<VerifiedCallerId[]> {
+  const userDoc = await adminDb.collection(USERS_COLLECTION).doc(userId).get();
+  return toCallerIds(userDoc.data());
+}
+
+/**
+ * Send a code to a number the user wants to call from
+ * Replaces any verification already in progress.
+ * @returns An error message, or null if the code was sent
+ */
+export async function startCallerIdVerification(
+  userId: string,
+  phoneNumber: string,
+  channel: CallerIdVerificationChannel
+): Promise<string | null> {
+  const number = normalizeToE164(phoneNumber);
+  if (!number) {
+    return 'Enter a valid international number (e.g. +44 20 7946 0000)';
+  }
+  if (channel !== 'sms' && channel !== 'call') {
+    return 'Channel must be sms or call';
+  }
+
+  const callerIds = await getVerifiedCallerIds(userId);
+  if (callerIds.some(callerId => callerId.number === number)) {
+    return 'This number is already verified';
+  }
+  if (callerIds.length >= MAX_VERIFIED_CALLER_IDS) {
+    return `You can verify up to ${MAX_VERIFIED_CALLER_IDS} numbers`;
+  }
+  if (await isPoolNumber(number)) {
+    return 'This is a ZippCall number and can\'t be verified';
+  }
+
+  const verificationRef = adminDb.collection(VERIFICATIONS_COLLECTION).doc(userId);
+  const destinationRef = adminDb.collection(DESTINATIONS_COLLECTION).doc(number);
+  const code = randomInt(0, 10 ** CALLER_ID_CODE_LENGTH).toString().padStart(CALLER_ID_CODE_LENGTH, '0');
+
+  // Claim the send against both hourly limits before calling Twilio, so parallel requests can't all pass.
+  // A send that then fails still counts.
+  const limitError = await adminDb.runTransaction(async (transaction) => {
+    const userSends = recentSendTimes((await transaction.get(verificationRef)).data());
+    const numberSends = recentSendTimes((await transaction.get(destinationRef)).data());
+    if (userSends.length >= MAX_CALLER_ID_CODES_PER_HOUR) {
+      return 'Too many codes requested. Please try again in an hour.';
+    }
+    if (numberSends.length >= MAX_CALLER_ID_CODES_PER_NUMBER_PER_HOUR) {
+      return 'Too many codes have been sent to this number. Please try again in an hour.';
+    }
+
+    const now = Timestamp.now();
+    transaction.set(verificationRef, {
+      number,
+      channel,
+      codeHash: hashCode(userId, number, code).toString('hex'),
+      attempts: 0,
+      expiresAt: Timestamp.fromMillis(now.toMillis() + CALLER_ID_CODE_TTL_MINUTES * 60 * 1000),
+      sentAt: [...userSends, now]
+    });
+    transaction.set(destinationRef, { sentAt: [...numberSends, now] });
+    return null;
+  });
+  if (limitError) {
+    return limitError;
+  }
+
+  await sendVerificationCode(number, code, channel);
+  console.log(`[caller-id] Sent ${channel} verification code to ${number} for user ${userId}`);
+  return null;
+}
+
+/**
+ * Check a code and, if it matches, add the number to the user's verified caller IDs
+ * @returns An error message, or null if the number is now verified
+ */
+export async function confirmCallerIdVerification(userId: string, phoneNumber: string, code: string): Promise<string | null> {
+  const number = normalizeToE164(phoneNumber);
+  const verificationRef = adminDb.collection(VERIFICATIONS_COLLECTION).doc(userId);
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const verification = (await transaction.get(verificationRef)).data();
+    if (!number || !verification?.codeHash || verification.number !== number) {
+      return 'No verification in progress for this number. Request a new code.';
+    }
+    if ((verification.expiresAt as Timestamp).toMillis() < Date.now()) {
+      return 'This code has expired. Request a new code.';
+    }
+    if (verification.attempts >= MAX_CALLER_ID_CODE_ATTEMPTS) {
+      return 'Too many incorrect attempts. Request a new code.';
+    }
+
+    const expected = Buffer.from(verification.codeHash, 'hex');
+    if (!timingSafeEqual(expected, hashCode(userId, number, String(code).trim()))) {
+      transaction.update(verificationRef, { attempts: verification.attempts + 1 });
+      return 'Incorrect code';
+    }
+
+    const callerIds = toCallerIds((await transaction.get(userRef)).data());
+    if (!callerIds.some(callerId => callerId.number === number)) {
+      if (callerIds.length >= MAX_VERIFIED_CALLER_IDS) {
+        return `You can verify up to ${MAX_VERIFIED_CALLER_IDS} numbers`;
+      }
+      callerIds.push({ number, verifiedAt: new Date() });
+    }
+    transaction.update(userRef, { verifiedCallerIds: callerIds });
+    // Keep the send history so the hourly limit still applies
+    transaction.update(verificationRef, { number: null, codeHash: null, attempts: 0 });
+    console.log(`[caller-id] User ${userId} verified caller ID ${number}`);
+    return null;
+  });
+}
+
+/**
+ * Remove a verified caller ID
+ * @returns False if the user hadn't verified this number
+ */
+export async function removeCallerId(userId: string, number: string): Promise<boolean> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+  return adminDb.runTransaction(async (transaction) => {
+    const callerIds = toCallerIds((await transaction.get(userRef)).data());
+    const remaining = callerIds.filter(callerId => callerId.number !== number);
+    if (remaining.length === callerIds.length) {
+      return false;
+    }
+    transaction.update(userRef, { verifiedCallerIds: remaining });
+    return true;
+  });
+}
+
+/**
+ * Whether a user may present this caller ID: numbers they verified, or the number they rent
+ * (other pool numbers are chosen by /api/voice, never by the client)
+ */
+export async function isCallerIdAllowed(userId: string, callerId: string): Promise<boolean> {
+  const callerIds = await getVerifiedCallerIds(userId);
+  if (callerIds.some(verified => verified.number === callerId)) {
+    return true;
+  }
+  return (await getUserVirtualNumber(userId))?.number === callerId;
+}
@@ -0,0 +1,195 @@
+import { Contact, ContactInput, ContactNumberLabel } from '@/types/contact';
+
+/**
+ * Reading and writing contacts as vCard (.vcf) and CSV files
+ * Parsed numbers are left as written; the contacts API normalizes them to E.164.
+ */
+
+function toLabel(type: string): ContactNumberLabel {
+  if (/cell|mobile/i.test(type)) return 'mobile';
+  if (/home/i.test(type)) return 'home';
+  if (/work/i.test(type)) return 'work';
+  return 'other';
+}
+
+// --- vCard ---
+
+const unescapeVCard = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+const escapeVCard = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+/**
+ * Parse every VCARD in a .vcf file (versions 2.1, 3.0 and 4.0)
+ */
+export function parseVCards(text: string): ContactInput[] {
+  // Long lines are folded onto the next line with a leading space or tab
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const contacts: ContactInput[] = [];
+  let current: (ContactInput & { structuredName: string }) | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const [property, ...params] = line.slice(0, separator).split(';');
+    const name = property.replace(/^item\d+\./i, '').toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (name === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      current = { name: '', structuredName: '', numbers: [], notes: '', favorite: false };
+    } else if (name === 'END' && current) {
+      const { structuredName, ...contact } = current;
+      contacts.push({ ...contact, name: contact.name || structuredName });
+      current = null;
+    } else if (!current) {
+      continue;
+    } else if (name === 'FN') {
+      current.name = unescapeVCard(value);
+    } else if (name === 'N') {
+      // Family;Given;Additional;Prefix;Suffix
+      const [family = '', given = ''] = value.split(';').map(unescapeVCard);
+      current.structuredName = `${given} ${family}`.trim();
+    } else if (name === 'TEL') {
+      current.numbers.push({ label: toLabel(params.join(';')), number: value.replace(/^tel:/i, '') });
+    } else if (name === 'NOTE') {
+      current.notes = unescapeVCard(value);
+    } else if (name === 'X-ZIPPCALL-FAVORITE') {
+      current.favorite = value === '1' || value.toLowerCase() === 'true';
+    }
+  }
+
+  return contacts;
+}
+
+/**
+ * Write contacts as a vCard 3.0 file
+ */
+export function toVCards(contacts: Contact[]): string {
+  return contacts.map(contact => [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeVCard(contact.name)}`,
+    `N:;${escapeVCard(contact.name)};;;`,
+    ...contact.numbers.map(number => `TEL;TYPE=${number.label === 'mobile' ? 'CELL' : number.label.toUpperCase()}:${number.number}`),
+    ...(contact.notes ? [`NOTE:${escapeVCard(contact.notes)}`] : []),
+    ...(contact.favorite ? ['X-ZIPPCALL-FAVORITE:1'] : []),
+    'END:VCARD'
+  ].join('\r\n')).join('\r\n') + '\r\n';
+}
+
+// --- CSV ---
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields with commas, quotes and newlines
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+const escapeCsv = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Parse a CSV with a header row
+ * Reads our own export and Google Contacts exports ("Phone 1 - Type", "Phone 1 - Value", ...),
+ * as well as simple files with Name and Phone (or Number) columns.
+ */
+export function parseContactsCsv(text: string): ContactInput[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+  const columns = header.map(column => column.trim().toLowerCase());
+  const find = (...names: string[]) => columns.findIndex(column => names.includes(column));
+
+  const nameColumn = find('name', 'full name', 'display name');
+  const firstNameColumn = find('first name', 'given name');
+  const lastNameColumn = find('last name', 'family name');
+  const notesColumn = find('notes', 'note');
+  const favoriteColumn = find('favorite', 'favourite', 'starred');
+
+  // Numbered phone columns, each with an optional type column
+  const phoneColumns: { value: number; type: number }[] = [];
+  columns.forEach((column, index) => {
+    const match = /^phone (\d+) - value$/.exec(column);
+    if (match) {
+      phoneColumns.push({ value: index, type: columns.indexOf(`phone ${match[1]} - type`) });
+    } else if (['phone', 'number', 'phone number', 'mobile'].includes(column)) {
+      phoneColumns.push({ value: index, type: -1 });
+    }
+  });
+
+  return rows.map(row => {
+    const cell = (index: number) => (index >= 0 ? (row[index] || '').trim() : '');
+    const name = cell(nameColumn) || `${cell(firstNameColumn)} ${cell(lastNameColumn)}`.trim();
+    const numbers = phoneColumns.flatMap(column =>
+      // Google joins several numbers of the same type with " ::: "
+      cell(column.value).split(':::').map(value => value.trim()).filter(Boolean).map(number => ({
+        label: toLabel(cell(column.type) || columns[column.value]),
+        number
+      }))
+    );
+    return {
+      name,
+      numbers,
+      notes: cell(notesColumn),
+      favorite: /^(1|true|yes)$/i.test(cell(favoriteColumn))
+    };
+  });
+}
+
+/**
+ * Write contacts as CSV, with columns compatible with Google Contacts
+ */
+export function toContactsCsv(contacts: Contact[]): string {
+  const phoneCount = Math.max(1, ...contacts.map(contact => contact.numbers.length));
+  const header = ['Name', 'Notes', 'Favorite'];
+  for (let i = 1; i <= phoneCount; i++) {
+    header.push(`Phone ${i} - Type`, `Phone ${i} - Value`);
+  }
+
+  const rows = contacts.map(contact => {
+    const row = [contact.name, contact.notes, contact.favorite ? 'true' : ''];
+    for (let i = 0; i < phoneCount; i++) {
+      const number = contact.numbers[i];
+      row.push(number ? number.label : '', number ? number.number : '');
+    }
+    return row;
+  });
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,183 @@
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentData, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { normalizeToE164 } from '@/utils/phoneValidation';
+import {
+  Contact,
+  CONTACT_NUMBER_LABELS,
+  ContactInput,
+  ContactNumber,
+  ContactNumberLabel,
+  MAX_CONTACT_NAME_LENGTH,
+  MAX_CONTACT_NOTES_LENGTH,
+  MAX_CONTACT_NUMBERS,
+  MAX_CONTACTS
+} from '@/types/contact';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const CONTACTS_SUBCOLLECTION = 'contacts';
+
+// Firestore batches are limited to 500 writes
+const IMPORT_BATCH_SIZE = 400;
+
+const contactsRef = (userId: string) =>
+  adminDb.collection(USERS_COLLECTION).doc(userId).collection(CONTACTS_SUBCOLLECTION);
+
+/**
+ * Convert a stored contact's timestamps back to Dates
+ */
+function toContact(id: string, data: DocumentData): Contact {
+  return {
+    id,
+    name: data.name,
+    numbers: data.numbers || [],
+    notes: data.notes || '',
+    favorite: data.favorite === true,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
+  };
+}
+
+/**
+ * Validate a contact and normalize its numbers to E.164
+ * @returns The cleaned contact, or an error message
+ */
+export function validateContactInput(input: Partial<ContactInput>): ContactInput | string {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > MAX_CONTACT_NAME_LENGTH) {
+    return `Name must be 1-${MAX_CONTACT_NAME_LENGTH} characters`;
+  }
+
+  const notes = typeof input.notes === 'string' ? input.notes.trim() : '';
+  if (notes.length > MAX_CONTACT_NOTES_LENGTH) {
+    return `Notes can be at most ${MAX_CONTACT_NOTES_LENGTH} characters`;
+  }
+
+  if (!Array.isArray(input.numbers) || input.numbers.length === 0 || input.numbers.length > MAX_CONTACT_NUMBERS) {
+    return `Add between 1 and ${MAX_CONTACT_NUMBERS} phone numbers`;
+  }
+  const numbers: ContactNumber[] = [];
+  for (const entry of input.numbers) {
+    const number = typeof entry?.number === 'string' ? normalizeToE164(entry.number) : undefined;
+    if (!number) {
+      return `${entry?.number || 'Phone number'} isn't a valid international number (e.g. +44 20 7946 0000)`;
+    }
+    const label: ContactNumberLabel = Object.hasOwn(CONTACT_NUMBER_LABELS, entry.label) ? entry.label : 'other';
+    if (!numbers.some(existing => existing.number === number)) {
+      numbers.push({ label, number });
+    }
+  }
+
+  return { name, numbers, notes, favorite: input.favorite === true };
+}
+
+/**
+ * List the user's contacts, favorites first, then by name
+ */
+export async function listContacts(userId: string): Promise<Contact[]> {
+  const snapshot = await contactsRef(userId).orderBy('name').get();
+  const contacts = snapshot.docs.map(doc => toContact(doc.id, doc.data()));
+  return contacts.sort((a, b) => Number(b.favorite) - Number(a.favorite));
+}
+
+/**
+ * Create a contact
+ * @returns The new contact, or an error message
+ */
+export async function createContact(userId: string, input: Partial<ContactInput>): Promise<Contact | string> {
+  const contact = validateContactInput(input);
+  if (typeof contact === 'string') {
+    return contact;
+  }
+
+  const countSnap = await contactsRef(userId).count().get();
+  if (countSnap.data().count >= MAX_CONTACTS) {
+    return `You can save up to ${MAX_CONTACTS} contacts`;
+  }
+
+  const contactRef = contactsRef(userId).doc();
+  await contactRef.set({
+    ...contact,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp()
+  });
+  return toContact(contactRef.id, { ...contact, createdAt: Timestamp.now(), updatedAt: Timestamp.now() });
+}
+
+/**
+ * Replace a contact's details
+ * @returns An error message, or null if saved
+ */
+export async function updateContact(userId: string, contactId: string, input: Partial<ContactInput>): Promise<string | null> {
+  const contact = validateContactInput(input);
+  if (typeof contact === 'string') {
+    return contact;
+  }
+
+  const contactRef = contactsRef(userId).doc(contactId);
+  if (!(await contactRef.get()).exists) {
+    return 'Contact not found';
+  }
+  await contactRef.update({ ...contact, updatedAt: FieldValue.serverTimestamp() });
+  return null;
+}
+
+/**
+ * Delete a contact
+ * @returns False if it didn't exist
+ */
+export async function deleteContact(userId: string, contactId: string): Promise<boolean> {
+  const contactRef = contactsRef(userId).doc(contactId);
+  if (!(await contactRef.get()).exists) {
+    return false;
+  }
+  await contactRef.delete();
+  return true;
+}
+
+/**
+ * Import parsed contacts, skipping invalid entries and numbers already in the address book
+ * @returns How many were imported, and why the others were skipped
+ */
+export async function importContacts(
+  userId: string,
+  inputs: ContactInput[]
+): Promise<{ imported: number; skipped: { name: string; reason: string }[] }> {
+  const existing = await listContacts(userId);
+  const knownNumbers = new Set(existing.flatMap(contact => contact.numbers.map(number => number.number)));
+  const skipped: { name: string; reason: string }[] = [];
+  const toCreate: ContactInput[] = [];
+
+  for (const input of inputs) {
+    // Import the numbers that are valid rather than rejecting the whole contact
+    const validNumbers = (input.numbers || []).filter(number => normalizeToE164(number.number));
+    const contact = validateContactInput({ ...input, numbers: validNumbers.slice(0, MAX_CONTACT_NUMBERS) });
+    if (typeof contact === 'string') {
+      skipped.push({ name: input.name || '(no name)', reason: validNumbers.length ? contact : 'No valid international numbers' });
+    } else if (contact.numbers.every(number => knownNumbers.has(number.number))) {
+      skipped.push({ name: contact.name, reason: 'Already in contacts' });
+    } else if (existing.length + toCreate.length >= MAX_CONTACTS) {
+      skipped.push({ name: contact.name, reason: `Contact limit of ${MAX_CONTACTS} reached` });
+    } else {
+      contact.numbers.forEach(number => knownNumbers.add(number.number));
+      toCreate.push(contact);
+    }
+  }
+
+  for (let i = 0; i < toCreate.length; i += IMPORT_BATCH_SIZE) {
+    const batch = adminDb.batch();
+    toCreate.slice(i, i + IMPORT_BATCH_SIZE).forEach(contact => {
+      batch.set(contactsRef(userId).doc(), {
+        ...contact,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+    });
+    await batch.commit();
+  }
+
+  return { imported: toCreate.length, skipped };
+}
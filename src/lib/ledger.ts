@@ -0,0 +1,222 @@
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentData, DocumentReference, DocumentSnapshot, FieldValue, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { LedgerEntryInput, LedgerPosting } from '@/types/ledger';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const TRANSACTIONS_SUBCOLLECTION = 'transactions';
+
+// Amounts are kept to 4 decimal places, matching calculateCallCost
+const roundAmount = (amount: number) => Math.round(amount * 10000) / 10000;
+
+/**
+ * Build the balanced postings for a wallet change
+ * Tax collected with a top-up comes out of the counter account too, and is posted to tax_payable.
+ */
+export function buildPostings(entry: LedgerEntryInput): LedgerPosting[] {
+  const amount = roundAmount(entry.amount);
+  const taxAmount = roundAmount(entry.taxAmount || 0);
+  if (taxAmount === 0) {
+    return [
+      { account: 'user_wallet', amount },
+      { account: entry.counterAccount, amount: -amount }
+    ];
+  }
+  return [
+    { account: 'user_wallet', amount },
+    { account: 'tax_payable', amount: taxAmount },
+    { account: entry.counterAccount, amount: roundAmount(-amount - taxAmount) }
+  ];
+}
+
+/**
+ * Record a ledger entry inside an existing Firestore transaction
+ * The caller must have read the user document (userSnap) in the same transaction, and must
+ * do any other reads first since Firestore requires all reads before writes.
+ * Writes the transaction record with its postings and the resulting balance, and sets
+ * users/{uid}.balance to that balance.
+ * @returns The balance after the entry
+ */
+export function recordLedgerEntry(
+  transaction: Transaction,
+  userSnap: DocumentSnapshot,
+  entry: LedgerEntryInput
+): number {
+  if (!userSnap.exists) {
+    throw new Error('User document does not exist.');
+  }
+
+  const amount = roundAmount(entry.amount);
+  const balanceBefore = userSnap.data()?.balance || 0;
+  const balanceAfter = roundAmount(balanceBefore + amount);
+  const transactionRef = userSnap.ref.collection(TRANSACTIONS_SUBCOLLECTION).doc();
+
+  transaction.update(userSnap.ref, { balance: balanceAfter });
+  transaction.set(transactionRef, {
+    ...entry.details,
+    type: entry.type,
+    amount,
+    currency: 'usd',
+    status: entry.status || 'completed',
+    source: entry.source,
+    ...(entry.taxAmount && { taxAmount: roundAmount(entry.taxAmount) }),
+    postings: buildPostings(entry),
+    balanceAfter,
+    createdAt: FieldValue.serverTimestamp()
+  });
+
+  return balanceAfter;
+}
+
+/**
+ * Record a ledger entry in its own Firestore transaction
+ * @returns The balance after the entry
+ */
+export async function postLedgerEntry(userId: string, entry: LedgerEntryInput): Promise<number> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const userSnap = await transaction.get(userRef);
+    return recordLedgerEntry(transaction, userSnap, entry);
+  });
+}
+
+/**
+ * Record a ledger entry at most once per idempotency key (e.g. a Stripe event or session ID)
+ * The keys are checked and written in the same Firestore transaction as the entry, so a
+ * redelivered webhook can never apply the same change twice.
+ * @param idempotencyRefs Documents marking the keys as processed; created with keyData
+ * @returns The balance after the entry, or null if any key was already processed
+ */
+export async function postLedgerEntryOnce(
+  userId: string,
+  entry: LedgerEntryInput,
+  idempotencyRefs: DocumentReference[],
+  keyData: Record<string, unknown> = {}
+): Promise<number | null> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const userSnap = await transaction.get(userRef);
+    const keySnaps = await Promise.all(idempotencyRefs.map(ref => transaction.get(ref)));
+
+    if (keySnaps.some(keySnap => keySnap.exists)) {
+      return null;
+    }
+
+    const balanceAfter = recordLedgerEntry(transaction, userSnap, entry);
+    idempotencyRefs.forEach(ref => transaction.set(ref, {
+      ...keyData,
+      userId,
+      processedAt: FieldValue.serverTimestamp()
+    }));
+    return balanceAfter;
+  });
+}
+
+/**
+ * Sum the wallet changes in a set of transaction documents
+ * Transactions written before the ledger have no postings; their amount is the wallet change.
+ */
+function sumWalletChanges(docs: QueryDocumentSnapshot[]): number {
+  let balance = 0;
+  docs.forEach(doc => {
+    const data = doc.data();
+    if (data.status && data.status !== 'completed') {
+      return;
+    }
+    balance += typeof data.amount === 'number' ? data.amount : 0;
+  });
+  return roundAmount(balance);
+}
+
+/**
+ * Recompute a user's balance from their transaction history
+ * @param before Only count transactions before this time (e.g. an opening balance for a statement)
+ */
+export async function computeLedgerBalance(userId: string, before?: Date): Promise<number> {
+  const transactionsRef = adminDb
+    .collection(USERS_COLLECTION)
+    .doc(userId)
+    .collection(TRANSACTIONS_SUBCOLLECTION);
+  const snapshot = before
+    ? await transactionsRef.where('createdAt', '<', before).get()
+    : await transactionsRef.get();
+
+  return sumWalletChanges(snapshot.docs);
+}
+
+/**
+ * Read a user's stored balance and recompute it from their transactions at the same point in time
+ * Both are read in one read-only transaction, so a call billed in between can't show up as drift.
+ * @returns null if the user document no longer exists
+ */
+export async function readBalanceAndLedger(
+  userId: string
+): Promise<{ userData: DocumentData; storedBalance: number; ledgerBalance: number } | null> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const userSnap = await transaction.get(userRef);
+    const userData = userSnap.data();
+    if (!userData) {
+      return null;
+    }
+    const transactionsSnap = await transaction.get(userRef.collection(TRANSACTIONS_SUBCOLLECTION));
+
+    return {
+      userData,
+      storedBalance: typeof userData.balance === 'number' ? userData.balance : 0,
+      ledgerBalance: sumWalletChanges(transactionsSnap.docs)
+    };
+  }, { readOnly: true });
+}
+
+/**
+ * Bring a user's transaction history in line with their stored balance
+ * Records the missing difference as an adjustment without changing users/{uid}.balance,
+ * for drift left by balance writes that never produced a transaction.
+ * @returns The amount recorded (0 if the history already matched)
+ */
+export async function postBalanceCorrection(userId: string, adminUid: string): Promise<number> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const userSnap = await transaction.get(userRef);
+    if (!userSnap.exists) {
+      throw new Error('User document does not exist.');
+    }
+    const transactionsSnap = await transaction.get(userRef.collection(TRANSACTIONS_SUBCOLLECTION));
+
+    const storedBalance = roundAmount(userSnap.data()?.balance || 0);
+    const drift = roundAmount(storedBalance - sumWalletChanges(transactionsSnap.docs));
+    if (drift === 0) {
+      return 0;
+    }
+
+    const entry: LedgerEntryInput = {
+      type: 'adjustment',
+      amount: drift,
+      counterAccount: 'adjustments',
+      source: 'reconciliation'
+    };
+    transaction.set(userRef.collection(TRANSACTIONS_SUBCOLLECTION).doc(), {
+      type: entry.type,
+      amount: drift,
+      currency: 'usd',
+      status: 'completed',
+      source: entry.source,
+      category: 'correction',
+      reason: 'Balance reconciliation',
+      adminUid,
+      postings: buildPostings(entry),
+      balanceAfter: storedBalance,
+      createdAt: FieldValue.serverTimestamp()
+    });
+
+    return drift;
+  });
+}
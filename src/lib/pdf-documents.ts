@@ -0,0 +1,211 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const LINE_HEIGHT = 16;
+
+const GRAY = rgb(0.42, 0.45, 0.5);
+const BLACK = rgb(0.07, 0.09, 0.15);
+
+export interface CompanyDetails {
+  name: string;
+  address: string | null; // May contain newlines
+  taxId: string | null;
+  email: string | null;
+}
+
+export interface ReceiptDocument {
+  company: CompanyDetails;
+  receiptNumber: string;
+  date: Date;
+  billedTo: string;
+  billingCountry: string | null;
+  customerVatId: string | null;
+  description: string;
+  subtotal: number;          // USD, before tax
+  taxAmount: number;         // USD
+  taxLabel: string;          // e.g. "VAT (20%)"
+  reverseCharge: boolean;    // No tax charged because the customer accounts for it
+  total: number;             // USD credited to the balance plus tax
+  charged: string | null;    // e.g. "45.00 EUR at 0.92 EUR per USD", when paid in another currency
+  paymentReference: string;  // Stripe PaymentIntent or Checkout Session ID
+}
+
+export interface StatementLine {
+  date: Date;
+  description: string;
+  amount: number;            // USD, signed
+  balanceAfter: number | null;
+}
+
+export interface StatementDocument {
+  company: CompanyDetails;
+  accountName: string;
+  periodLabel: string;       // e.g. "September 2026"
+  openingBalance: number;
+  deposits: number;
+  callCharges: number;       // Negative
+  otherChanges: number;      // Promo credits, refunds, adjustments...
+  closingBalance: number;
+  lines: StatementLine[];
+}
+
+// The standard fonts only cover Latin-1, so anything else (e.g. in names) is replaced
+const toPdfText = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+const formatUsd = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Writes text top to bottom, starting a new page when the current one is full
+ */
+function createWriter(doc: PDFDocument, font: PDFFont, boldFont: PDFFont) {
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = () => {
+    if (y - LINE_HEIGHT < MARGIN) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  return {
+    /** Write one line of columns; a column is right-aligned at x when align is 'right' */
+    line(columns: { text: string; x?: number; align?: 'right'; bold?: boolean; size?: number; color?: typeof GRAY }[]) {
+      ensureSpace();
+      for (const column of columns) {
+        const columnFont = column.bold ? boldFont : font;
+        const text = toPdfText(column.text);
+        const size = column.size ?? 10;
+        const x = column.align === 'right'
+          ? (column.x ?? PAGE_WIDTH - MARGIN) - columnFont.widthOfTextAtSize(text, size)
+          : column.x ?? MARGIN;
+        page.drawText(text, { x, y, size, font: columnFont, color: column.color ?? BLACK });
+      }
+      y -= LINE_HEIGHT;
+    },
+    space(lines = 1) {
+      y -= lines * LINE_HEIGHT;
+    },
+    rule() {
+      ensureSpace();
+      page.drawLine({
+        start: { x: MARGIN, y: y + LINE_HEIGHT / 2 },
+        end: { x: PAGE_WIDTH - MARGIN, y: y + LINE_HEIGHT / 2 },
+        thickness: 0.5,
+        color: GRAY
+      });
+      y -= LINE_HEIGHT / 2;
+    }
+  };
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+function writeCompanyHeader(writer: Writer, company: CompanyDetails, title: string) {
+  writer.line([
+    { text: company.name, bold: true, size: 16 },
+    { text: title, align: 'right', bold: true, size: 16 }
+  ]);
+  writer.space(0.5);
+  (company.address || '').split('\n').filter(Boolean).forEach(addressLine => {
+    writer.line([{ text: addressLine, color: GRAY }]);
+  });
+  if (company.taxId) writer.line([{ text: `Tax ID: ${company.taxId}`, color: GRAY }]);
+  if (company.email) writer.line([{ text: company.email, color: GRAY }]);
+  writer.space();
+}
+
+/**
+ * Render a receipt for a single top-up
+ */
+export async function renderReceiptPdf(receipt: ReceiptDocument): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Receipt ${receipt.receiptNumber}`);
+  doc.setAuthor(receipt.company.name);
+  const writer = createWriter(doc, await doc.embedFont(StandardFonts.Helvetica), await doc.embedFont(StandardFonts.HelveticaBold));
+
+  writeCompanyHeader(writer, receipt.company, 'Receipt');
+
+  writer.line([{ text: 'Receipt number', color: GRAY }, { text: receipt.receiptNumber, x: 170 }]);
+  writer.line([{ text: 'Date', color: GRAY }, { text: formatDate(receipt.date), x: 170 }]);
+  writer.line([{ text: 'Billed to', color: GRAY }, { text: receipt.billedTo, x: 170 }]);
+  if (receipt.billingCountry) writer.line([{ text: 'Country', color: GRAY }, { text: receipt.billingCountry, x: 170 }]);
+  if (receipt.customerVatId) writer.line([{ text: 'Customer VAT ID', color: GRAY }, { text: receipt.customerVatId, x: 170 }]);
+  writer.line([{ text: 'Payment reference', color: GRAY }, { text: receipt.paymentReference, x: 170 }]);
+  writer.space();
+
+  writer.line([{ text: 'Description', bold: true }, { text: 'Amount', align: 'right', bold: true }]);
+  writer.rule();
+  writer.line([{ text: receipt.description }, { text: formatUsd(receipt.subtotal), align: 'right' }]);
+  writer.space(0.5);
+  writer.rule();
+  writer.line([{ text: 'Subtotal', x: 330 }, { text: formatUsd(receipt.subtotal), align: 'right' }]);
+  writer.line([{ text: receipt.taxLabel, x: 330 }, { text: formatUsd(receipt.taxAmount), align: 'right' }]);
+  writer.line([{ text: 'Total', x: 330, bold: true }, { text: formatUsd(receipt.total), align: 'right', bold: true }]);
+
+  if (receipt.reverseCharge) {
+    writer.space();
+    writer.line([{ text: 'Reverse charge: the customer is liable to account for the tax.', color: GRAY }]);
+  }
+
+  if (receipt.charged) {
+    writer.space();
+    writer.line([{ text: `Charged ${receipt.charged}.`, color: GRAY }]);
+  }
+
+  writer.space();
+  writer.line([{ text: 'Thank you. This amount was added to your prepaid calling balance.', color: GRAY }]);
+
+  return doc.save();
+}
+
+/**
+ * Render a monthly statement: summary first, then every transaction in the month
+ */
+export async function renderStatementPdf(statement: StatementDocument): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Statement ${statement.periodLabel}`);
+  doc.setAuthor(statement.company.name);
+  const writer = createWriter(doc, await doc.embedFont(StandardFonts.Helvetica), await doc.embedFont(StandardFonts.HelveticaBold));
+
+  writeCompanyHeader(writer, statement.company, 'Statement');
+
+  writer.line([{ text: 'Account', color: GRAY }, { text: statement.accountName, x: 170 }]);
+  writer.line([{ text: 'Period', color: GRAY }, { text: statement.periodLabel, x: 170 }]);
+  writer.space();
+
+  writer.line([{ text: 'Summary', bold: true }]);
+  writer.rule();
+  writer.line([{ text: 'Opening balance' }, { text: formatUsd(statement.openingBalance), align: 'right' }]);
+  writer.line([{ text: 'Deposits' }, { text: formatUsd(statement.deposits), align: 'right' }]);
+  writer.line([{ text: 'Call charges' }, { text: formatUsd(statement.callCharges), align: 'right' }]);
+  writer.line([{ text: 'Other credits and adjustments' }, { text: formatUsd(statement.otherChanges), align: 'right' }]);
+  writer.line([{ text: 'Closing balance', bold: true }, { text: formatUsd(statement.closingBalance), align: 'right', bold: true }]);
+  writer.space();
+
+  writer.line([
+    { text: 'Date', bold: true },
+    { text: 'Description', x: 130, bold: true },
+    { text: 'Amount', x: 460, align: 'right', bold: true },
+    { text: 'Balance', align: 'right', bold: true }
+  ]);
+  writer.rule();
+
+  if (statement.lines.length === 0) {
+    writer.line([{ text: 'No transactions this month.', color: GRAY }]);
+  }
+  statement.lines.forEach(line => {
+    writer.line([
+      { text: formatDate(line.date) },
+      { text: line.description.length > 55 ? `${line.description.slice(0, 52)}...` : line.description, x: 130 },
+      { text: formatUsd(line.amount), x: 460, align: 'right' },
+      { text: line.balanceAfter !== null ? formatUsd(line.balanceAfter) : '', align: 'right' }
+    ]);
+  });
+
+  return doc.save();
+}
@@ -0,0 +1,359 @@
+import { createHash } from 'crypto';
+import { PrefixRate, PriceImportParseError, TwilioPriceData } from '@/types/pricing';
+
+/**
+ * Result of parsing a Twilio voice pricing CSV
+ */
+export type PricingCSVParseResult =
+  | {
+      ok: true;
+      pricing: Record<string, TwilioPriceData>;   // Country-level (fallback) prices
+      prefixRates: Record<string, PrefixRate[]>;  // Destination prefix rates per country
+      successCount: number;                       // Countries imported
+      parseErrors: PriceImportParseError[];       // Lines that could not be imported
+    }
+  | {
+      ok: false;
+      error: string;
+      foundColumns?: string[];
+    };
+
+/**
+ * Parse a Twilio Programmable Voice outbound prices CSV
+ * Contains columns like: ISO, Country, Description, Price / min, Origination Prefixes, Destination Prefixes
+ */
+export function parsePricingCSV(csvText: string, now: Date = new Date()): PricingCSVParseResult {
+  const lines = csvText.split('\n');
+  
+  // Skip header row and parse data
+  if (lines.length <= 1) {
+    return { ok: false, error: 'CSV file is empty or invalid' };
+  }
+  
+  // Parse header to figure out column positions
+  const header = parseCSVLine(lines[0]);
+  console.log('CSV Headers:', header);
+  
+  const isoIndex = findColumnIndex(header, ['iso']);
+  const countryNameIndex = findColumnIndex(header, ['country']);
+  // Import Twilio's raw cost; our markup is applied by the pricing engine at quote time
+  const priceIndex = findColumnIndex(header, ['price / min', 'price/min', 'price per minute']);
+  const descriptionIndex = findColumnIndex(header, ['description']);
+  const prefixesIndex = findColumnIndex(header, ['destination prefixes', 'destination prefix']);
+  
+  if (countryNameIndex === -1 || priceIndex === -1) {
+    return {
+      ok: false,
+      error: 'CSV file is missing required columns (Country and Price / min)',
+      foundColumns: header
+    };
+  }
+  
+  const pricing: Record<string, TwilioPriceData> = {};
+  const prefixRates: Record<string, PrefixRate[]> = {};
+  const genericRowCountries = new Set<string>(); // Countries whose price came from the plain country row
+  const parseErrors: PriceImportParseError[] = [];
+  let successCount = 0;
+  
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue; // Skip empty lines
+    const lineNumber = i + 1;
+    
+    try {
+      const values = parseCSVLine(lines[i]);
+      
+      // Skip rows with not enough columns
+      if (values.length < Math.max(countryNameIndex, priceIndex) + 1) {
+        parseErrors.push({ line: lineNumber, message: 'Not enough columns' });
+        continue;
+      }
+      
+      const countryName = values[countryNameIndex].replace(/"/g, '').trim();
+      
+      // Skip if country name is missing or is a header
+      if (!countryName || countryName.toLowerCase() === 'country') {
+        continue;
+      }
+      
+      // Get the country code either from ISO column or extract from country name
+      let countryCode = "";
+      if (isoIndex !== -1 && values.length > isoIndex) {
+        countryCode = values[isoIndex].replace(/"/g, '').trim();
+      }
+      
+      // If ISO column is empty, try to extract from country name
+      if (!countryCode || countryCode.length !== 2) {
+        countryCode = extractCountryCode(countryName);
+      }
+      
+      if (!countryCode) {
+        parseErrors.push({ line: lineNumber, message: `Could not determine country code for ${countryName}` });
+        continue;
+      }
+      
+      const priceStr = values[priceIndex].replace(/"/g, '').trim();
+      
+      // Skip rows without price
+      if (!priceStr) {
+        parseErrors.push({ line: lineNumber, message: `Missing price for ${countryName}` });
+        continue;
+      }
+      
+      // Parse price - handle different formats (e.g., 0.0112, $0.0112, etc.)
+      const basePrice = parseFloat(priceStr.replace(/[^0-9.]/g, ''));
+      
+      if (isNaN(basePrice)) {
+        parseErrors.push({ line: lineNumber, message: `Invalid price format "${priceStr}" for ${countryName}` });
+        continue;
+      }
+      
+      const description = descriptionIndex !== -1 && values.length > descriptionIndex
+        ? values[descriptionIndex].replace(/"/g, '').trim()
+        : '';
+      
+      // Collect prefix-level rates (e.g., "United Kingdom - Mobile" for 447...)
+      if (prefixesIndex !== -1 && values.length > prefixesIndex) {
+        const prefixes = parsePrefixes(values[prefixesIndex]);
+        const countryPrefixes = prefixRates[countryCode] ?? (prefixRates[countryCode] = []);
+        prefixes.forEach(prefix => {
+          if (!countryPrefixes.some(rate => rate.prefix === prefix)) {
+            countryPrefixes.push({ prefix, description: description || countryName, basePrice });
+          }
+        });
+      }
+      
+      // The country-level price is only a fallback for numbers without a matching prefix.
+      // Prefer the plain country row (no "- Mobile" style qualifier) over the first row seen.
+      const isGenericRow = !description || description.toLowerCase() === countryName.toLowerCase();
+      const previousEntryExists = !!pricing[countryCode];
+      if (!previousEntryExists || (isGenericRow && !genericRowCountries.has(countryCode))) {
+        pricing[countryCode] = {
+          countryCode,
+          countryName,
+          basePrice,
+          currency: 'USD',  // Assume USD for now, adjust if needed
+          lastUpdated: now
+        };
+        if (isGenericRow) {
+          genericRowCountries.add(countryCode);
+        }
+      }
+      
+      if (!previousEntryExists) {
+        successCount++;
+      }
+    } catch (error) {
+      console.error(`Error parsing line ${lineNumber}:`, error);
+      parseErrors.push({ line: lineNumber, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  
+  return { ok: true, pricing, prefixRates, successCount, parseErrors };
+}
+
+/**
+ * Keep each country's billing increments and connection fee from the current prices
+ * Twilio's CSV only carries per-minute rates, so these are set in the admin dashboard
+ * and must survive re-imports.
+ */
+export function carryOverBillingSettings(
+  pricing: Record<string, TwilioPriceData>,
+  currentPricing: Record<string, TwilioPriceData>
+): Record<string, TwilioPriceData> {
+  const merged: Record<string, TwilioPriceData> = {};
+  
+  for (const [countryCode, priceData] of Object.entries(pricing)) {
+    const current = currentPricing[countryCode];
+    merged[countryCode] = {
+      ...priceData,
+      ...(current?.initialIncrement !== undefined && { initialIncrement: current.initialIncrement }),
+      ...(current?.subsequentIncrement !== undefined && { subsequentIncrement: current.subsequentIncrement }),
+      ...(current?.connectionFee !== undefined && { connectionFee: current.connectionFee })
+    };
+  }
+  
+  return merged;
+}
+
+/**
+ * Fingerprint the live pricing an import was previewed against
+ * Keys are sorted so the same prices always hash the same, whatever order Firestore returns them in.
+ */
+export function hashPricingBaseline(currentPricing: Record<string, TwilioPriceData>): string {
+  const canonical = JSON.stringify(currentPricing, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]))
+      : value
+  );
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Helper function to find the index of a column by its name
+ */
+function findColumnIndex(headers: string[], possibleNames: string[]): number {
+  for (const name of possibleNames) {
+    const index = headers.findIndex(h => 
+      h.toLowerCase().includes(name.toLowerCase())
+    );
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+/**
+ * Split a "Destination Prefixes" cell (e.g., "447, 4475") into digit-only prefixes
+ */
+function parsePrefixes(value: string): string[] {
+  return value
+    .replace(/"/g, '')
+    .split(/[,;\s]+/)
+    .map(prefix => prefix.replace(/\D/g, ''))
+    .filter(prefix => prefix.length > 0);
+}
+
+/**
+ * Parse a CSV line correctly handling quoted values
+ */
+function parseCSVLine(line: string): string[] {
+  const result: string[] = [];
+  let currentValue = '';
+  let insideQuotes = false;
+  
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    
+    if (char === '"') {
+      insideQuotes = !insideQuotes;
+    } else if (char === ',' && !insideQuotes) {
+      result.push(currentValue);
+      currentValue = '';
+    } else {
+      currentValue += char;
+    }
+  }
+  
+  // Don't forget the last value
+  result.push(currentValue);
+  
+  return result;
+}
+
+/**
+ * Extract country code from country name
+ */
+function extractCountryCode(countryName: string): string {
+  // Common country codes mapping
+  const countryMap: Record<string, string> = {
+    'united states': 'US',
+    'united kingdom': 'GB',
+    'canada': 'CA',
+    'australia': 'AU',
+    'germany': 'DE',
+    'france': 'FR',
+    'spain': 'ES',
+    'italy': 'IT',
+    'japan': 'JP',
+    'china': 'CN',
+    'brazil': 'BR',
+    'india': 'IN',
+    'mexico': 'MX',
+    'russia': 'RU',
+    'south korea': 'KR',
+    'netherlands': 'NL',
+    'switzerland': 'CH',
+    'sweden': 'SE',
+    'norway': 'NO',
+    'denmark': 'DK',
+    'finland': 'FI',
+    'ireland': 'IE',
+    'belgium': 'BE',
+    'austria': 'AT',
+    'portugal': 'PT',
+    'greece': 'GR',
+    'new zealand': 'NZ',
+    'singapore': 'SG',
+    'hong kong': 'HK',
+    'south africa': 'ZA',
+    'israel': 'IL',
+    'poland': 'PL',
+    'turkey': 'TR',
+    'argentina': 'AR',
+    'chile': 'CL',
+    'colombia': 'CO',
+    'peru': 'PE',
+    'venezuela': 'VE',
+    'thailand': 'TH',
+    'malaysia': 'MY',
+    'philippines': 'PH',
+    'indonesia': 'ID',
+    'vietnam': 'VN',
+    'pakistan': 'PK',
+    'bangladesh': 'BD',
+    'sri lanka': 'LK',
+    'nepal': 'NP',
+    'egypt': 'EG',
+    'nigeria': 'NG',
+    'kenya': 'KE',
+    'ghana': 'GH',
+    'morocco': 'MA',
+    'algeria': 'DZ',
+    'tunisia': 'TN',
+    'saudi arabia': 'SA',
+    'united arab emirates': 'AE',
+    'jordan': 'JO',
+    'lebanon': 'LB',
+    'qatar': 'QA',
+    'kuwait': 'KW',
+    'oman': 'OM',
+    'bahrain': 'BH',
+    'iran': 'IR',
+    'ukraine': 'UA',
+    'czech republic': 'CZ',
+    'romania': 'RO',
+    'hungary': 'HU',
+    'bulgaria': 'BG',
+    'slovakia': 'SK',
+    'croatia': 'HR',
+    'slovenia': 'SI',
+    'serbia': 'RS',
+    'bosnia': 'BA',
+    'albania': 'AL',
+    'lithuania': 'LT',
+    'latvia': 'LV',
+    'estonia': 'EE',
+    'malta': 'MT',
+    'cyprus': 'CY',
+    'iceland': 'IS',
+    'luxembourg': 'LU',
+    'monaco': 'MC',
+    'andorra': 'AD',
+    'liechtenstein': 'LI',
+    'san marino': 'SM',
+    'vatican city': 'VA',
+    'gibraltar': 'GI',
+  };
+  
+  // Try direct lookup in our mapping
+  const normalizedName = countryName.toLowerCase().trim();
+  
+  // Check for exact match first
+  if (countryMap[normalizedName]) {
+    return countryMap[normalizedName];
+  }
+  
+  // Check for partial matches
+  for (const [key, code] of Object.entries(countryMap)) {
+    if (normalizedName.includes(key) || key.includes(normalizedName)) {
+      return code;
+    }
+  }
+  
+  // Look for country code in parentheses - common format in some CSVs
+  const codeMatch = countryName.match(/\(([A-Z]{2})\)/);
+  if (codeMatch && codeMatch[1]) {
+    return codeMatch[1];
+  }
+  
+  return '';
+}
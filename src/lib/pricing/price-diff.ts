@@ -0,0 +1,122 @@
+import { PriceChangeEntry, PriceImportDiff, PriceUpdateRecord, TwilioPriceData } from '@/types/pricing';
+
+/**
+ * Get the raw base price for a country entry
+ * Legacy entries without a basePrice fall back to their stored finalPrice.
+ */
+export function getBasePrice(priceData: TwilioPriceData): number {
+  if (typeof priceData.basePrice === 'number' && !isNaN(priceData.basePrice)) {
+    return priceData.basePrice;
+  }
+  return typeof priceData.finalPrice === 'number' && !isNaN(priceData.finalPrice) ? priceData.finalPrice : 0;
+}
+
+/**
+ * Percentage change between two prices (0 when the previous price is 0)
+ */
+export function calculatePercentageChange(previousPrice: number, newPrice: number): number {
+  return previousPrice > 0 ? ((newPrice - previousPrice) / previousPrice) * 100 : 0;
+}
+
+/**
+ * Whether a price change should be flagged for review (more than 5% or from/to zero)
+ */
+export function isSignificantPriceChange(previousPrice: number, newPrice: number): boolean {
+  return Math.abs(calculatePercentageChange(previousPrice, newPrice)) > 5 ||
+    previousPrice === 0 ||
+    newPrice === 0;
+}
+
+/**
+ * Build a PriceUpdateRecord for a country's base price change
+ */
+export function buildPriceUpdateRecord(
+  countryCode: string,
+  previousBasePrice: number,
+  newBasePrice: number,
+  timestamp: Date = new Date()
+): PriceUpdateRecord {
+  return {
+    id: `${countryCode}-${timestamp.getTime()}`,
+    timestamp,
+    countryCode,
+    previousBasePrice,
+    newBasePrice,
+    percentageChange: calculatePercentageChange(previousBasePrice, newBasePrice),
+    isSignificant: isSignificantPriceChange(previousBasePrice, newBasePrice)
+  };
+}
+
+/**
+ * Build PriceUpdateRecords for every country whose base price changed in a diff
+ * Added countries are recorded as a change from 0 and removed countries as a change to 0.
+ */
+export function buildPriceUpdateRecords(diff: PriceImportDiff, timestamp: Date = new Date()): PriceUpdateRecord[] {
+  return [...diff.increased, ...diff.decreased, ...diff.added, ...diff.removed].map(entry =>
+    buildPriceUpdateRecord(entry.countryCode, entry.previousBasePrice ?? 0, entry.newBasePrice ?? 0, timestamp)
+  );
+}
+
+/**
+ * Compare current pricing data against a candidate set of prices
+ */
+export function computePriceDiff(
+  current: Record<string, TwilioPriceData>,
+  next: Record<string, TwilioPriceData>
+): PriceImportDiff {
+  const diff: PriceImportDiff = { added: [], removed: [], increased: [], decreased: [], unchangedCount: 0 };
+
+  Object.values(next).forEach(nextData => {
+    const currentData = current[nextData.countryCode];
+    const newBasePrice = getBasePrice(nextData);
+
+    if (!currentData) {
+      diff.added.push({
+        countryCode: nextData.countryCode,
+        countryName: nextData.countryName,
+        previousBasePrice: null,
+        newBasePrice,
+        percentageChange: null
+      });
+      return;
+    }
+
+    const previousBasePrice = getBasePrice(currentData);
+    // Compare at the precision prices are stored with to ignore float noise
+    if (Math.round(previousBasePrice * 10000) === Math.round(newBasePrice * 10000)) {
+      diff.unchangedCount++;
+      return;
+    }
+
+    const entry: PriceChangeEntry = {
+      countryCode: nextData.countryCode,
+      countryName: nextData.countryName,
+      previousBasePrice,
+      newBasePrice,
+      percentageChange: calculatePercentageChange(previousBasePrice, newBasePrice)
+    };
+    (newBasePrice > previousBasePrice ? diff.increased : diff.decreased).push(entry);
+  });
+
+  Object.values(current).forEach(currentData => {
+    if (!next[currentData.countryCode]) {
+      diff.removed.push({
+        countryCode: currentData.countryCode,
+        countryName: currentData.countryName,
+        previousBasePrice: getBasePrice(currentData),
+        newBasePrice: null,
+        percentageChange: null
+      });
+    }
+  });
+
+  // Largest movements first so surprises are easy to spot
+  const byMagnitude = (a: PriceChangeEntry, b: PriceChangeEntry) =>
+    Math.abs(b.percentageChange ?? 0) - Math.abs(a.percentageChange ?? 0);
+  diff.increased.sort(byMagnitude);
+  diff.decreased.sort(byMagnitude);
+  diff.added.sort((a, b) => a.countryName.localeCompare(b.countryName));
+  diff.removed.sort((a, b) => a.countryName.localeCompare(b.countryName));
+
+  return diff;
+}
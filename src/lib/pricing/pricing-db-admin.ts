@@ -1,7 +1,8 @@
-import { CountryPricingCache, MarkupConfig, PriceUpdateRecord, TwilioPriceData } from '@/types/pricing';
+import { CountryPricingCache, ExchangeRateTable, MarkupConfig, PrefixRate, PriceBook, PriceBookSource, PriceBookSummary, PriceUpdateRecord, PricingPlan, TwilioPriceData } from '@/types/pricing';
 import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin'; // Import Admin SDK helpers
-import { Timestamp as AdminTimestamp } from 'firebase-admin/firestore'; // Import Admin Timestamp
+import { DocumentData, Timestamp as AdminTimestamp } from 'firebase-admin/firestore'; // Import Admin Timestamp
 import { Timestamp as ClientTimestamp } from 'firebase/firestore'; // Need this for type checking in helper
+import { buildPriceUpdateRecords, computePriceDiff } from './price-diff';
 
 // Initialize Admin SDK (idempotent)
 initializeFirebaseAdmin();
@@ -11,7 +12,20 @@ const adminDb = getAdminFirestore(); // Get Admin Firestore instance
 const PRICING_COLLECTION = 'pricing';
 const COUNTRY_PRICES_DOC = 'country_prices';
 const MARKUP_CONFIG_DOC = 'markup_config';
+const EXCHANGE_RATES_DOC = 'exchange_rates';
 const PRICE_UPDATES_COLLECTION = 'price_updates';
+const PREFIX_RATES_COLLECTION = 'prefix_rates';
+const PRICE_BOOKS_COLLECTION = 'price_books';
+const PRICE_BOOK_META_DOC = 'price_book_meta';
+const SCHEDULED_PRICE_CHANGES_COLLECTION = 'scheduled_price_changes';
+const PRICING_PLANS_COLLECTION = 'pricing_plans';
+const USERS_COLLECTION = 'users';
+
+// Scheduled changes are materialized this long after effectiveAt. Until then the pricing
+// engine layers them on by call start time, so a call that started before effectiveAt
+// is never billed at the new price. Matches Twilio's maximum call length (4 hours).
+export const SCHEDULED_CHANGE_APPLY_DELAY_MS = 4 * 60 * 60 * 1000;
+const MAX_BATCH_SIZE = 400; // Firestore allows 500 writes per batch
 
 // ---> ADDITION: Define HasToDate interface locally
 interface HasToDate {
@@ -47,6 +61,7 @@ function ensureAdminTimestamp(dateOrTimestamp: unknown): AdminTimestamp {
 /**
  * Save country pricing data to Firestore using Admin SDK
  * (Writes should use Admin SDK to bypass rules)
+ * The country map is replaced, so countries missing from pricingData are removed.
  */
 export async function saveCountryPricing(pricingData: CountryPricingCache): Promise<boolean> {
   try {
@@ -70,13 +85,14 @@ export async function saveCountryPricing(pricingData: CountryPricingCache): Prom
     // Use Admin SDK for the write operation
     const docRef = adminDb.collection(PRICING_COLLECTION).doc(COUNTRY_PRICES_DOC);
     
-    // Try set with merge, or update as fallback (common pattern for admin writes)
+    // Try set, or update as fallback (common pattern for admin writes).
+    // Both replace the whole `data` map rather than merging country entries.
     try {
-      await docRef.set(firestoreData, { merge: true }); 
-      console.log('Successfully saved pricing data with Admin SDK set(merge:true)');
+      await docRef.set(firestoreData); 
+      console.log('Successfully saved pricing data with Admin SDK set()');
       return true;
     } catch (setError) {
-        console.warn('Admin SDK set(merge:true) failed, trying update:', setError);
+        console.warn('Admin SDK set() failed, trying update:', setError);
         try {
             await docRef.update(firestoreData);
             console.log('Successfully saved pricing data with Admin SDK update()');
@@ -97,6 +113,47 @@ export async function saveCountryPricing(pricingData: CountryPricingCache): Prom
 }
 
 
+/**
+ * Save destination prefix rates (one document per country) using Admin SDK
+ * Countries that are no longer in prefixRates have their documents deleted.
+ */
+export async function savePrefixRates(
+  prefixRates: Record<string, PrefixRate[]>,
+  lastUpdated: Date = new Date()
+): Promise<boolean> {
+  try {
+    const countryCodes = Object.keys(prefixRates);
+    console.log('Saving prefix rates for', countryCodes.length, 'countries using Admin SDK');
+
+    // Remove tables for countries that are no longer in the import
+    const existingDocs = await adminDb.collection(PREFIX_RATES_COLLECTION).listDocuments();
+    const staleDocs = existingDocs.filter(docRef => !prefixRates[docRef.id]);
+    for (let i = 0; i < staleDocs.length; i += MAX_BATCH_SIZE) {
+      const batch = adminDb.batch();
+      staleDocs.slice(i, i + MAX_BATCH_SIZE).forEach(docRef => batch.delete(docRef));
+      await batch.commit();
+    }
+
+    for (let i = 0; i < countryCodes.length; i += MAX_BATCH_SIZE) {
+      const batch = adminDb.batch();
+      countryCodes.slice(i, i + MAX_BATCH_SIZE).forEach(countryCode => {
+        const docRef = adminDb.collection(PREFIX_RATES_COLLECTION).doc(countryCode);
+        batch.set(docRef, {
+          countryCode,
+          rates: prefixRates[countryCode],
+          lastUpdated: ensureAdminTimestamp(lastUpdated)
+        });
+      });
+      await batch.commit();
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error saving prefix rates using Admin SDK:', error);
+    return false;
+  }
+}
+
 /**
  * Save markup configuration using Admin SDK
  */
@@ -111,6 +168,22 @@ export async function saveMarkupConfig(config: MarkupConfig): Promise<boolean> {
   }
 }
 
+/**
+ * Save the exchange rate table using Admin SDK
+ */
+export async function saveExchangeRates(exchangeRates: ExchangeRateTable): Promise<boolean> {
+  try {
+    await adminDb.collection(PRICING_COLLECTION).doc(EXCHANGE_RATES_DOC).set({
+      ...exchangeRates,
+      updatedAt: ensureAdminTimestamp(exchangeRates.updatedAt)
+    });
+    return true;
+  } catch (error) {
+    console.error('Error saving exchange rates:', error);
+    return false;
+  }
+}
+
 /**
  * Record a price update using Admin SDK
  */
@@ -129,6 +202,31 @@ export async function recordPriceUpdate(update: PriceUpdateRecord): Promise<bool
   }
 }
 
+/**
+ * Record several price updates in batches using Admin SDK
+ */
+export async function recordPriceUpdates(updates: PriceUpdateRecord[]): Promise<boolean> {
+  try {
+    for (let i = 0; i < updates.length; i += MAX_BATCH_SIZE) {
+      const batch = adminDb.batch();
+      updates.slice(i, i + MAX_BATCH_SIZE).forEach(update => {
+        const docRef = adminDb.collection(PRICE_UPDATES_COLLECTION).doc(); // Auto-generate ID
+        batch.set(docRef, {
+          ...update,
+          timestamp: ensureAdminTimestamp(update.timestamp),
+          id: docRef.id
+        });
+      });
+      await batch.commit();
+    }
+    console.log(`Recorded ${updates.length} price updates`);
+    return true;
+  } catch (error) {
+    console.error('Error recording price updates:', error);
+    return false;
+  }
+}
+
 /**
  * Save a price update record (Alias)
  */
@@ -136,28 +234,486 @@ export async function savePriceUpdateRecord(update: PriceUpdateRecord): Promise<
   return recordPriceUpdate(update);
 }
 
+/**
+ * Input for creating a new price book
+ */
+export interface CreatePriceBookInput {
+  data: Record<string, TwilioPriceData>;
+  prefixRates?: Record<string, PrefixRate[]>; // Omit to reuse the prefix rates of basedOnVersion
+  source: PriceBookSource;
+  createdBy: string | null;
+  sourceFileName?: string | null;
+  basedOnVersion?: number | null;
+  rowErrorCount?: number;
+}
+
+/**
+ * Convert a price book document to a summary with Date fields
+ */
+function toPriceBookSummary(data: DocumentData): PriceBookSummary {
+  return {
+    version: data.version,
+    createdAt: data.createdAt?.toDate?.() ?? new Date(),
+    createdBy: data.createdBy ?? null,
+    source: data.source,
+    sourceFileName: data.sourceFileName ?? null,
+    basedOnVersion: data.basedOnVersion ?? null,
+    prefixRatesVersion: data.prefixRatesVersion ?? data.version,
+    countryCount: data.countryCount ?? 0,
+    prefixCount: data.prefixCount ?? 0,
+    rowErrorCount: data.rowErrorCount ?? 0,
+    isActive: data.isActive === true,
+    activatedAt: data.activatedAt?.toDate?.() ?? null,
+    activatedBy: data.activatedBy ?? null
+  };
+}
+
+/**
+ * Create an immutable, numbered price book using Admin SDK
+ * The book is not activated; call activatePriceBook to make it live.
+ * Returns the new version number, or null on failure.
+ */
+export async function createPriceBook(input: CreatePriceBookInput): Promise<number | null> {
+  try {
+    const metaRef = adminDb.collection(PRICING_COLLECTION).doc(PRICE_BOOK_META_DOC);
+    const countryPricesRef = adminDb.collection(PRICING_COLLECTION).doc(COUNTRY_PRICES_DOC);
+
+    // Allocate the next version number atomically. Numbering continues after the
+    // live cache version so legacy calls priced at that version stay unambiguous.
+    const version = await adminDb.runTransaction(async (transaction) => {
+      const [metaDoc, countryPricesDoc] = await Promise.all([
+        transaction.get(metaRef),
+        transaction.get(countryPricesRef)
+      ]);
+      const latestVersion = Math.max(
+        metaDoc.data()?.latestVersion ?? 0,
+        countryPricesDoc.data()?.version ?? 0
+      );
+      const nextVersion = latestVersion + 1;
+      transaction.set(metaRef, { latestVersion: nextVersion }, { merge: true });
+      return nextVersion;
+    });
+
+    const bookRef = adminDb.collection(PRICE_BOOKS_COLLECTION).doc(String(version));
+
+    // Prefix rates are stored once per import; manual edits point at the book they came from
+    let prefixRatesVersion = version;
+    let prefixCount = 0;
+    if (input.prefixRates) {
+      const countryCodes = Object.keys(input.prefixRates);
+      for (let i = 0; i < countryCodes.length; i += MAX_BATCH_SIZE) {
+        const batch = adminDb.batch();
+        countryCodes.slice(i, i + MAX_BATCH_SIZE).forEach(countryCode => {
+          batch.set(bookRef.collection(PREFIX_RATES_COLLECTION).doc(countryCode), {
+            countryCode,
+            rates: input.prefixRates![countryCode]
+          });
+        });
+        await batch.commit();
+      }
+      prefixCount = Object.values(input.prefixRates).reduce((total, rates) => total + rates.length, 0);
+    } else if (input.basedOnVersion) {
+      const baseDoc = await adminDb.collection(PRICE_BOOKS_COLLECTION).doc(String(input.basedOnVersion)).get();
+      if (baseDoc.exists) {
+        prefixRatesVersion = baseDoc.data()?.prefixRatesVersion ?? input.basedOnVersion;
+        prefixCount = baseDoc.data()?.prefixCount ?? 0;
+      }
+    }
+
+    const now = new Date();
+    await bookRef.set({
+      version,
+      createdAt: ensureAdminTimestamp(now),
+      createdBy: input.createdBy,
+      source: input.source,
+      sourceFileName: input.sourceFileName ?? null,
+      basedOnVersion: input.basedOnVersion ?? null,
+      prefixRatesVersion,
+      countryCount: Object.keys(input.data).length,
+      prefixCount,
+      rowErrorCount: input.rowErrorCount ?? 0,
+      isActive: false,
+      activatedAt: null,
+      activatedBy: null,
+      data: Object.fromEntries(
+        Object.entries(input.data).map(([key, value]) => [
+          key,
+          { ...value, lastUpdated: ensureAdminTimestamp(value.lastUpdated) }
+        ])
+      )
+    });
+
+    console.log(`Created price book v${version} (${input.source}) with ${Object.keys(input.data).length} countries`);
+    return version;
+  } catch (error) {
+    console.error('Error creating price book:', error);
+    return null;
+  }
+}
+
+/**
+ * Make a price book the live pricing data using Admin SDK
+ * Copies the book into pricing/country_prices and prefix_rates, marks it as the only
+ * active book, and records a PriceUpdateRecord for every base price that changes.
+ * Also used to roll back to an older version.
+ */
+export async function activatePriceBook(version: number, activatedBy: string | null): Promise<boolean> {
+  try {
+    const booksRef = adminDb.collection(PRICE_BOOKS_COLLECTION);
+    const bookDoc = await booksRef.doc(String(version)).get();
+
+    if (!bookDoc.exists) {
+      console.error(`Price book v${version} not found`);
+      return false;
+    }
+
+    const book = bookDoc.data()!;
+    const now = new Date();
+
+    // Capture the prices being replaced so we can record what changed
+    const currentDoc = await adminDb.collection(PRICING_COLLECTION).doc(COUNTRY_PRICES_DOC).get();
+    const currentData: Record<string, TwilioPriceData> = currentDoc.data()?.data ?? {};
+
+    const saved = await saveCountryPricing({ version, lastUpdated: now, data: book.data });
+    if (!saved) {
+      return false;
+    }
+
+    const prefixSnapshot = await booksRef
+      .doc(String(book.prefixRatesVersion ?? version))
+      .collection(PREFIX_RATES_COLLECTION)
+      .get();
+    const prefixRates: Record<string, PrefixRate[]> = Object.fromEntries(
+      prefixSnapshot.docs.map(doc => [doc.id, doc.data().rates as PrefixRate[]])
+    );
+    if (!await savePrefixRates(prefixRates, now)) {
+      return false;
+    }
+
+    // Flip the active flag so exactly one book is marked active
+    const activeSnapshot = await booksRef.where('isActive', '==', true).get();
+    const batch = adminDb.batch();
+    activeSnapshot.docs
+      .filter(doc => doc.id !== String(version))
+      .forEach(doc => batch.update(doc.ref, { isActive: false }));
+    batch.update(bookDoc.ref, {
+      isActive: true,
+      activatedAt: ensureAdminTimestamp(now),
+      activatedBy
+    });
+    batch.set(
+      adminDb.collection(PRICING_COLLECTION).doc(PRICE_BOOK_META_DOC),
+      { activeVersion: version },
+      { merge: true }
+    );
+    await batch.commit();
+
+    const priceUpdates = buildPriceUpdateRecords(computePriceDiff(currentData, book.data), now);
+    if (priceUpdates.length > 0) {
+      await recordPriceUpdates(priceUpdates);
+    }
+
+    console.log(`Activated price book v${version}`);
+    return true;
+  } catch (error) {
+    console.error(`Error activating price book v${version}:`, error);
+    return false;
+  }
+}
+
+/**
+ * List price books (newest first) without their price data using Admin SDK
+ */
+export async function getPriceBooks(maxResults: number = 50): Promise<PriceBookSummary[]> {
+  try {
+    const snapshot = await adminDb.collection(PRICE_BOOKS_COLLECTION)
+      .orderBy('version', 'desc')
+      .limit(maxResults)
+      .select(
+        'version', 'createdAt', 'createdBy', 'source', 'sourceFileName', 'basedOnVersion',
+        'prefixRatesVersion', 'countryCount', 'prefixCount', 'rowErrorCount',
+        'isActive', 'activatedAt', 'activatedBy'
+      )
+      .get();
+
+    return snapshot.docs.map(doc => toPriceBookSummary(doc.data()));
+  } catch (error) {
+    console.error('Error listing price books:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a single price book, including its price data, using Admin SDK
+ */
+export async function getPriceBook(version: number): Promise<PriceBook | null> {
+  try {
+    const doc = await adminDb.collection(PRICE_BOOKS_COLLECTION).doc(String(version)).get();
+    if (!doc.exists) {
+      return null;
+    }
+    const data = doc.data()!;
+    return { ...toPriceBookSummary(data), data: data.data ?? {} };
+  } catch (error) {
+    console.error(`Error fetching price book v${version}:`, error);
+    return null;
+  }
+}
+
 /**
  * Update a specific country price using Admin SDK
+ * Creates and activates a new price book derived from the active one.
  */
 export async function updateCountryPrice(
   countryCode: string, 
-  priceData: TwilioPriceData
+  priceData: TwilioPriceData,
+  updatedBy: string | null = null
 ): Promise<boolean> {
   try {
-    const docRef = adminDb.collection(PRICING_COLLECTION).doc(COUNTRY_PRICES_DOC);
+    const currentDoc = await adminDb.collection(PRICING_COLLECTION).doc(COUNTRY_PRICES_DOC).get();
+    const current = currentDoc.data();
     
-    // Use Field Path for nested update
-    await docRef.update({
-      [`data.${countryCode}`]: {
-        ...priceData,
-        lastUpdated: ensureAdminTimestamp(priceData.lastUpdated)
+    const version = await createPriceBook({
+      data: {
+        ...(current?.data ?? {}),
+        [countryCode]: { ...priceData, lastUpdated: new Date() }
       },
-      lastUpdated: ensureAdminTimestamp(new Date())
+      source: 'manual_edit',
+      createdBy: updatedBy,
+      basedOnVersion: current?.version ?? null
     });
     
-    return true;
+    if (version === null) {
+      return false;
+    }
+    
+    return await activatePriceBook(version, updatedBy);
   } catch (error) {
     console.error(`Error updating price for ${countryCode}:`, error);
     return false;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Stage an existing price book to become active at effectiveAt using Admin SDK
+ * Returns the scheduled change ID, or null on failure.
+ */
+export async function schedulePriceBook(
+  version: number,
+  effectiveAt: Date,
+  createdBy: string | null
+): Promise<string | null> {
+  try {
+    const bookDoc = await adminDb.collection(PRICE_BOOKS_COLLECTION).doc(String(version)).get();
+    if (!bookDoc.exists) {
+      console.error(`Cannot schedule missing price book v${version}`);
+      return null;
+    }
+    const book = bookDoc.data()!;
+
+    // The country prices are copied so the pricing engine can resolve them without reading price_books
+    const docRef = adminDb.collection(SCHEDULED_PRICE_CHANGES_COLLECTION).doc();
+    await docRef.set({
+      id: docRef.id,
+      type: 'price_book',
+      effectiveAt: ensureAdminTimestamp(effectiveAt),
+      status: 'pending',
+      priceBookVersion: version,
+      prefixRatesVersion: book.prefixRatesVersion ?? version,
+      data: book.data,
+      countryCode: null,
+      priceData: null,
+      createdAt: ensureAdminTimestamp(new Date()),
+      createdBy,
+      appliedAt: null
+    });
+
+    console.log(`Scheduled price book v${version} for ${effectiveAt.toISOString()}`);
+    return docRef.id;
+  } catch (error) {
+    console.error(`Error scheduling price book v${version}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Stage a single country's price change for effectiveAt using Admin SDK
+ * Returns the scheduled change ID, or null on failure.
+ */
+export async function scheduleCountryPriceChange(
+  countryCode: string,
+  priceData: TwilioPriceData,
+  effectiveAt: Date,
+  createdBy: string | null
+): Promise<string | null> {
+  try {
+    const docRef = adminDb.collection(SCHEDULED_PRICE_CHANGES_COLLECTION).doc();
+    await docRef.set({
+      id: docRef.id,
+      type: 'country',
+      effectiveAt: ensureAdminTimestamp(effectiveAt),
+      status: 'pending',
+      priceBookVersion: null,
+      prefixRatesVersion: null,
+      data: null,
+      countryCode,
+      priceData: { ...priceData, lastUpdated: ensureAdminTimestamp(priceData.lastUpdated) },
+      createdAt: ensureAdminTimestamp(new Date()),
+      createdBy,
+      appliedAt: null
+    });
+
+    console.log(`Scheduled price change for ${countryCode} at ${effectiveAt.toISOString()}`);
+    return docRef.id;
+  } catch (error) {
+    console.error(`Error scheduling price change for ${countryCode}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Cancel a pending scheduled price change using Admin SDK
+ */
+export async function cancelScheduledPriceChange(id: string): Promise<boolean> {
+  try {
+    const docRef = adminDb.collection(SCHEDULED_PRICE_CHANGES_COLLECTION).doc(id);
+    const doc = await docRef.get();
+    if (!doc.exists || doc.data()?.status !== 'pending') {
+      console.warn(`Scheduled price change ${id} is not pending`);
+      return false;
+    }
+    await docRef.update({ status: 'cancelled' });
+    return true;
+  } catch (error) {
+    console.error(`Error cancelling scheduled price change ${id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Apply scheduled price changes whose effectiveAt is more than
+ * SCHEDULED_CHANGE_APPLY_DELAY_MS in the past, oldest first
+ * Returns the number of changes applied.
+ */
+export async function applyDueScheduledPriceChanges(now: Date = new Date()): Promise<number> {
+  const cutoff = now.getTime() - SCHEDULED_CHANGE_APPLY_DELAY_MS;
+  const snapshot = await adminDb.collection(SCHEDULED_PRICE_CHANGES_COLLECTION)
+    .where('status', '==', 'pending')
+    .get();
+
+  const dueChanges = snapshot.docs
+    .map(doc => doc.data())
+    .filter(change => change.effectiveAt.toDate().getTime() <= cutoff)
+    .sort((a, b) => a.effectiveAt.toDate().getTime() - b.effectiveAt.toDate().getTime());
+
+  let appliedCount = 0;
+  for (const change of dueChanges) {
+    const actor = change.createdBy ? `${change.createdBy} (scheduled)` : 'scheduled';
+    const success = change.type === 'price_book'
+      ? await activatePriceBook(change.priceBookVersion, actor)
+      : await updateCountryPrice(change.countryCode, change.priceData, actor);
+
+    if (!success) {
+      // Leave it pending so the next run retries; later changes must wait to keep ordering
+      console.error(`Failed to apply scheduled price change ${change.id}`);
+      break;
+    }
+
+    await adminDb.collection(SCHEDULED_PRICE_CHANGES_COLLECTION).doc(change.id).update({
+      status: 'applied',
+      appliedAt: ensureAdminTimestamp(now)
+    });
+    appliedCount++;
+  }
+
+  return appliedCount;
+}
+
+/**
+ * Convert a pricing plan document to a PricingPlan
+ */
+function toPricingPlan(id: string, data: DocumentData): PricingPlan {
+  return {
+    id,
+    name: data.name || id,
+    description: data.description || undefined,
+    defaultMarkup: typeof data.defaultMarkup === 'number' ? data.defaultMarkup : null,
+    countryMarkups: data.countryMarkups || {},
+    fixedRates: data.fixedRates || {},
+    updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date()
+  };
+}
+
+/**
+ * Get all pricing plans using Admin SDK
+ */
+export async function getPricingPlans(): Promise<PricingPlan[]> {
+  try {
+    const snapshot = await adminDb.collection(PRICING_PLANS_COLLECTION).orderBy('name').get();
+    return snapshot.docs.map(doc => toPricingPlan(doc.id, doc.data()));
+  } catch (error) {
+    console.error('Error fetching pricing plans:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a single pricing plan using Admin SDK
+ */
+export async function getPricingPlan(id: string): Promise<PricingPlan | null> {
+  try {
+    const doc = await adminDb.collection(PRICING_PLANS_COLLECTION).doc(id).get();
+    return doc.exists ? toPricingPlan(doc.id, doc.data()!) : null;
+  } catch (error) {
+    console.error(`Error fetching pricing plan ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the pricing plan assigned to a user, or null if they pay standard rates
+ */
+export async function getUserPricingPlan(userId: string): Promise<PricingPlan | null> {
+  try {
+    const userDoc = await adminDb.collection(USERS_COLLECTION).doc(userId).get();
+    const pricingPlanId = userDoc.data()?.pricingPlanId;
+    return pricingPlanId ? await getPricingPlan(pricingPlanId) : null;
+  } catch (error) {
+    console.error(`Error fetching pricing plan for user ${userId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Create or update a pricing plan using Admin SDK
+ */
+export async function savePricingPlan(plan: PricingPlan): Promise<boolean> {
+  try {
+    await adminDb.collection(PRICING_PLANS_COLLECTION).doc(plan.id).set({
+      name: plan.name,
+      description: plan.description ?? null,
+      defaultMarkup: plan.defaultMarkup,
+      countryMarkups: plan.countryMarkups,
+      fixedRates: plan.fixedRates,
+      updatedAt: ensureAdminTimestamp(new Date())
+    });
+    return true;
+  } catch (error) {
+    console.error(`Error saving pricing plan ${plan.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Delete a pricing plan using Admin SDK
+ * Users still assigned to it fall back to standard rates.
+ */
+export async function deletePricingPlan(id: string): Promise<boolean> {
+  try {
+    await adminDb.collection(PRICING_PLANS_COLLECTION).doc(id).delete();
+    return true;
+  } catch (error) {
+    console.error(`Error deleting pricing plan ${id}:`, error);
+    return false;
+  }
+}
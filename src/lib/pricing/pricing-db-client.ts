@@ -1,11 +1,23 @@
-import { Timestamp as ClientTimestamp, doc as clientDoc, getDoc as clientGetDoc } from 'firebase/firestore';
+import {
+  Timestamp as ClientTimestamp,
+  doc as clientDoc,
+  getDoc as clientGetDoc,
+  collection as clientCollection,
+  query as clientQuery,
+  where as clientWhere,
+  getDocs as clientGetDocs
+} from 'firebase/firestore';
 import { db as clientDb } from '@/lib/firebase'; // Client SDK DB instance
-import { CountryPricingCache, MarkupConfig } from '@/types/pricing';
+import { CountryPrefixRates, CountryPricingCache, ExchangeRateTable, MarkupConfig, ScheduledPriceChange } from '@/types/pricing';
 
 // Collection paths
 const PRICING_COLLECTION = 'pricing';
 const COUNTRY_PRICES_DOC = 'country_prices';
 const MARKUP_CONFIG_DOC = 'markup_config';
+const EXCHANGE_RATES_DOC = 'exchange_rates';
+const PREFIX_RATES_COLLECTION = 'prefix_rates';
+const PRICE_BOOKS_COLLECTION = 'price_books';
+const SCHEDULED_PRICE_CHANGES_COLLECTION = 'scheduled_price_changes';
 
 // Define HasToDate interface locally
 interface HasToDate {
@@ -104,4 +116,88 @@ export async function getMarkupConfig(): Promise<MarkupConfig> {
       minimumFinalPrice: 0.15
     };
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Get the destination prefix rates for a country using Client SDK
+ * Reads the live rates, or a specific price book's rates when priceBookVersion is given.
+ * Returns null when the country has no prefix-level pricing.
+ */
+export async function getPrefixRates(
+  countryCode: string,
+  priceBookVersion?: number | null
+): Promise<CountryPrefixRates | null> {
+  try {
+    const docRef = priceBookVersion
+      ? clientDoc(clientDb, PRICE_BOOKS_COLLECTION, String(priceBookVersion), PREFIX_RATES_COLLECTION, countryCode)
+      : clientDoc(clientDb, PREFIX_RATES_COLLECTION, countryCode);
+    const docSnap = await clientGetDoc(docRef);
+
+    if (!docSnap.exists()) {
+      return null;
+    }
+
+    const data = docSnap.data();
+    return {
+      countryCode,
+      rates: Array.isArray(data.rates) ? data.rates : [],
+      lastUpdated: data.lastUpdated instanceof ClientTimestamp ? data.lastUpdated.toDate() : new Date()
+    };
+  } catch (error) {
+    console.error(`Error fetching prefix rates for ${countryCode}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get scheduled price changes that have not been applied yet, oldest effectiveAt first
+ */
+export async function getPendingPriceChanges(): Promise<ScheduledPriceChange[]> {
+  try {
+    const changesQuery = clientQuery(
+      clientCollection(clientDb, SCHEDULED_PRICE_CHANGES_COLLECTION),
+      clientWhere('status', '==', 'pending')
+    );
+    const snapshot = await clientGetDocs(changesQuery);
+
+    const changes = snapshot.docs.map(docSnap => {
+      const data = docSnap.data();
+      return {
+        ...data,
+        id: docSnap.id,
+        effectiveAt: data.effectiveAt instanceof ClientTimestamp ? data.effectiveAt.toDate() : new Date(data.effectiveAt),
+        createdAt: data.createdAt instanceof ClientTimestamp ? data.createdAt.toDate() : new Date(),
+        appliedAt: null
+      } as ScheduledPriceChange;
+    });
+
+    return changes.sort((a, b) => (a.effectiveAt as Date).getTime() - (b.effectiveAt as Date).getTime());
+  } catch (error) {
+    console.error('Error fetching scheduled price changes:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the exchange rate table from Firestore
+ * Returns a USD-only table when none has been saved.
+ */
+export async function getExchangeRates(): Promise<ExchangeRateTable> {
+  try {
+    const docSnap = await clientGetDoc(clientDoc(clientDb, PRICING_COLLECTION, EXCHANGE_RATES_DOC));
+    
+    if (docSnap.exists()) {
+      const data = docSnap.data();
+      return {
+        baseCurrency: 'USD',
+        rates: { ...(data.rates || {}), USD: 1 },
+        updatedAt: data.updatedAt instanceof ClientTimestamp ? data.updatedAt.toDate() : new Date(),
+        updatedBy: data.updatedBy || null
+      };
+    }
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+  }
+  
+  return { baseCurrency: 'USD', rates: { USD: 1 }, updatedAt: new Date(), updatedBy: null };
+}
@@ -1,18 +1,157 @@
-import { PhoneNumberPriceResponse, TwilioPriceData, UNSUPPORTED_COUNTRIES } from '@/types/pricing';
-import { getCountryPricing } from './pricing-db-client';
+import { ExchangeRateTable, FinalPriceData, MarkupConfig, PhoneNumberPriceResponse, PrefixRate, PricingPlan, TwilioPriceData, UNSUPPORTED_COUNTRIES } from '@/types/pricing';
+import { getCountryPricing, getMarkupConfig, getPendingPriceChanges, getPrefixRates } from './pricing-db-client';
 import { parsePhoneNumber } from 'libphonenumber-js';
 
 /**
- * Get country pricing data from our Firestore pricing cache
+ * Round a per-minute price to 4 decimal places
  */
-export async function getCountryPriceData(countryCode: string): Promise<TwilioPriceData | null> {
+function roundPrice(price: number): number {
+  return Math.round(price * 10000) / 10000;
+}
+
+// Per-minute billing unless a country says otherwise
+const DEFAULT_BILLING_INCREMENT = 60;
+
+// Twilio's own cap on a <Dial> timeLimit (4 hours)
+export const MAX_CALL_DURATION_SECONDS = 14400;
+
+/**
+ * A country's billing increments and connection fee, with defaults filled in
+ */
+function getBillingSettings(priceData: TwilioPriceData) {
+  const isPositive = (value: unknown): value is number => typeof value === 'number' && value > 0;
+  const subsequentIncrement = isPositive(priceData.subsequentIncrement) ? priceData.subsequentIncrement : DEFAULT_BILLING_INCREMENT;
+
+  return {
+    billingIncrement: subsequentIncrement,
+    initialIncrement: isPositive(priceData.initialIncrement) ? priceData.initialIncrement : DEFAULT_BILLING_INCREMENT,
+    subsequentIncrement,
+    connectionFee: isPositive(priceData.connectionFee) ? priceData.connectionFee : 0
+  };
+}
+
+/**
+ * Apply the markup configuration to a country's base price
+ * Country-specific markups override the default, but never go below minimumMarkup,
+ * and the result is never cheaper than minimumFinalPrice.
+ *
+ * A pricing plan is negotiated per account, so its fixed rates are used as-is and its
+ * markups are not held to minimumMarkup (minimumFinalPrice still applies).
+ */
+export function applyMarkup(
+  priceData: TwilioPriceData,
+  markupConfig: MarkupConfig,
+  plan?: PricingPlan | null
+): FinalPriceData {
+  const hasBasePrice = typeof priceData.basePrice === 'number' && !isNaN(priceData.basePrice);
+  const fixedRate = plan?.fixedRates?.[priceData.countryCode];
+
+  if (typeof fixedRate === 'number') {
+    const basePrice = hasBasePrice ? priceData.basePrice as number : fixedRate;
+    return {
+      ...priceData,
+      markup: basePrice > 0 ? roundPrice((fixedRate / basePrice - 1) * 100) : 0,
+      markupAmount: roundPrice(fixedRate - basePrice),
+      finalPrice: roundPrice(fixedRate),
+      ...getBillingSettings(priceData)
+    };
+  }
+
+  // Entries imported before base prices were stored already include our margin
+  if (!hasBasePrice) {
+    const legacyPrice = typeof priceData.finalPrice === 'number' && !isNaN(priceData.finalPrice) ? priceData.finalPrice : 0;
+    return {
+      ...priceData,
+      markup: 0,
+      markupAmount: 0,
+      finalPrice: roundPrice(Math.max(legacyPrice, markupConfig.minimumFinalPrice)),
+      ...getBillingSettings(priceData)
+    };
+  }
+
+  const basePrice = priceData.basePrice as number;
+  const planMarkup = plan?.countryMarkups?.[priceData.countryCode] ?? plan?.defaultMarkup;
+  const countryMarkup = markupConfig.countrySpecificMarkups?.[priceData.countryCode];
+  const markup = typeof planMarkup === 'number'
+    ? planMarkup
+    : Math.max(
+      typeof countryMarkup === 'number' ? countryMarkup : markupConfig.defaultMarkup,
+      markupConfig.minimumMarkup
+    );
+
+  const finalPrice = roundPrice(Math.max(basePrice * (1 + markup / 100), markupConfig.minimumFinalPrice));
+
+  return {
+    ...priceData,
+    markup,
+    markupAmount: roundPrice(finalPrice - basePrice),
+    finalPrice,
+    ...getBillingSettings(priceData)
+  };
+}
+
+/**
+ * Options for looking up a price
+ */
+export interface PriceLookupOptions {
+  at?: Date; // Point in time to price at (e.g., the call's start time); defaults to now
+  plan?: PricingPlan | null; // The caller's pricing plan, loaded server-side
+}
+
+/**
+ * A country's pricing as it stood at a point in time
+ */
+interface ResolvedCountryPricing {
+  priceData: TwilioPriceData;
+  priceBookVersion: number | null;
+  prefixRatesVersion: number | null; // null means the live prefix_rates collection
+}
+
+/**
+ * Resolve a country's pricing at a point in time
+ * Starts from the active price book and layers on scheduled changes that were due by `at`
+ * but have not been applied yet (the scheduled job applies them some time after effectiveAt).
+ */
+async function resolveCountryPricing(countryCode: string, at: Date): Promise<ResolvedCountryPricing | null> {
+  const [pricingCache, pendingChanges] = await Promise.all([
+    getCountryPricing(),
+    getPendingPriceChanges()
+  ]);
+  
+  let priceData: TwilioPriceData | null = pricingCache?.data?.[countryCode] ?? null;
+  let priceBookVersion: number | null = pricingCache?.version ?? null;
+  let prefixRatesVersion: number | null = null;
+  
+  // Pending changes are sorted by effectiveAt, so later changes win
+  for (const change of pendingChanges) {
+    if ((change.effectiveAt as Date).getTime() > at.getTime()) {
+      break;
+    }
+    if (change.type === 'price_book') {
+      priceData = change.data?.[countryCode] ?? null;
+      priceBookVersion = change.priceBookVersion;
+      prefixRatesVersion = change.prefixRatesVersion;
+    } else if (change.countryCode === countryCode && change.priceData) {
+      priceData = change.priceData;
+    }
+  }
+  
+  return priceData ? { priceData, priceBookVersion, prefixRatesVersion } : null;
+}
+
+/**
+ * Get country pricing data in force at a point in time (defaults to now)
+ */
+export async function getCountryPriceData(
+  countryCode: string,
+  at: Date = new Date()
+): Promise<TwilioPriceData | null> {
   try {
-    // Get all pricing data from Firestore
-    const pricingCache = await getCountryPricing();
+    const resolved = await resolveCountryPricing(countryCode, at);
     
     // If we have pricing data for this country, return it
-    if (pricingCache?.data && pricingCache.data[countryCode]) {
-      return pricingCache.data[countryCode];
+    if (resolved) {
+      return resolved.priceData;
     }
     
     console.log(`No pricing data found for ${countryCode}`);
@@ -23,11 +162,47 @@ export async function getCountryPriceData(countryCode: string): Promise<TwilioPr
   }
 }
 
+/**
+ * Get the marked-up price for a country using the live markup configuration
+ */
+export async function getFinalPriceData(
+  countryCode: string,
+  markupConfig?: MarkupConfig
+): Promise<FinalPriceData | null> {
+  const priceData = await getCountryPriceData(countryCode);
+
+  if (!priceData) {
+    return null;
+  }
+
+  // Always read the markup config so margin changes apply without a re-import
+  const config = markupConfig ?? await getMarkupConfig();
+  return applyMarkup(priceData, config);
+}
+
+/**
+ * Find the most specific (longest) destination prefix matching an E.164 number
+ */
+export function matchPrefixRate(phoneNumber: string, rates: PrefixRate[]): PrefixRate | null {
+  const digits = phoneNumber.replace(/\D/g, '');
+  let bestMatch: PrefixRate | null = null;
+
+  for (const rate of rates) {
+    if (digits.startsWith(rate.prefix) && (!bestMatch || rate.prefix.length > bestMatch.prefix.length)) {
+      bestMatch = rate;
+    }
+  }
+
+  return bestMatch;
+}
+
 /**
  * Get price for a specific phone number
+ * Uses the longest matching destination prefix rate, falling back to the country-level price.
  */
 export async function getPriceForPhoneNumber(
-  phoneNumber: string
+  phoneNumber: string,
+  options: PriceLookupOptions = {}
 ): Promise<PhoneNumberPriceResponse | null> {
   try {
     // Parse the phone number to get country
@@ -60,13 +235,26 @@ export async function getPriceForPhoneNumber(
       };
     }
     
-    // Get base price for this country
-    const priceData = await getCountryPriceData(countryCode);
+    // Get base price for this country in force at the requested time
+    const resolved = await resolveCountryPricing(countryCode, options.at ?? new Date());
     
-    if (!priceData) {
+    if (!resolved) {
       console.error(`No price data available for ${countryCode}`);
       return null;
     }
+    const countryPriceData = resolved.priceData;
+    
+    // Look for a prefix-level rate (e.g., mobile vs landline)
+    const prefixRates = await getPrefixRates(countryCode, resolved.prefixRatesVersion);
+    const prefixRate = prefixRates ? matchPrefixRate(parsedNumber.number, prefixRates.rates) : null;
+    
+    // Apply the live markup (and the caller's plan) to whichever base price applies
+    const markupConfig = await getMarkupConfig();
+    const priceData = applyMarkup(
+      prefixRate ? { ...countryPriceData, basePrice: prefixRate.basePrice } : countryPriceData,
+      markupConfig,
+      options.plan
+    );
     
     // Return formatted response
     return {
@@ -75,8 +263,16 @@ export async function getPriceForPhoneNumber(
       countryName: priceData.countryName,
       finalPrice: priceData.finalPrice,
       currency: priceData.currency,
-      billingIncrement: 60,
-      isEstimate: false  // This is accurate for the country
+      billingIncrement: priceData.billingIncrement,
+      initialIncrement: priceData.initialIncrement,
+      connectionFee: priceData.connectionFee,
+      isEstimate: false,  // This is accurate for the destination
+      priceBookVersion: resolved.priceBookVersion ?? undefined,
+      pricingPlanId: options.plan?.id,
+      ...(prefixRate && {
+        destinationPrefix: prefixRate.prefix,
+        description: prefixRate.description
+      })
     };
   } catch (error) {
     console.error('Error getting price for phone number:', error);
@@ -86,24 +282,89 @@ export async function getPriceForPhoneNumber(
 
 /**
  * Calculate price for a call
+ * The first initialIncrement seconds are always billed (a minimum duration), then time is
+ * rounded up to the next billingIncrement, e.g. 30/6 billing. The connection fee is added
+ * to any call with a duration.
  */
 export function calculateCallCost(
   pricePerMinute: number,
   durationSeconds: number,
-  billingIncrement: number = 60
+  billingIncrement: number = DEFAULT_BILLING_INCREMENT,
+  initialIncrement: number = billingIncrement,
+  connectionFee: number = 0
 ): number {
-  // Calculate billable minutes according to the billing increment
+  if (durationSeconds <= 0) {
+    return 0;
+  }
+  
+  // Calculate billable seconds according to the billing increments
   // Most providers round up to the next billing increment
-  const billableIncrements = Math.ceil(durationSeconds / billingIncrement);
-  const billableMinutes = (billableIncrements * billingIncrement) / 60;
+  const remainingSeconds = Math.max(durationSeconds - initialIncrement, 0);
+  const billableSeconds = initialIncrement + Math.ceil(remainingSeconds / billingIncrement) * billingIncrement;
   
   // Calculate cost
-  const cost = pricePerMinute * billableMinutes;
+  const cost = pricePerMinute * (billableSeconds / 60) + connectionFee;
   
   // Round to 4 decimal places
   return Math.round(cost * 10000) / 10000;
 }
 
+/**
+ * Calculate the longest call a balance can pay for, in seconds
+ * Mirrors calculateCallCost: returns 0 when the balance doesn't cover the connection fee and
+ * the first increment, otherwise the end of the last increment the balance fully covers.
+ */
+export function calculateMaxCallDuration(
+  pricePerMinute: number,
+  balance: number,
+  billingIncrement: number = DEFAULT_BILLING_INCREMENT,
+  initialIncrement: number = billingIncrement,
+  connectionFee: number = 0
+): number {
+  // Allow for floating point drift in stored balances
+  const tolerance = 0.0001;
+  const firstIncrementCost = pricePerMinute * (initialIncrement / 60) + connectionFee;
+  
+  if (balance < firstIncrementCost - tolerance) {
+    return 0;
+  }
+  
+  const incrementCost = pricePerMinute * (billingIncrement / 60);
+  if (incrementCost <= 0) {
+    return MAX_CALL_DURATION_SECONDS;
+  }
+  
+  const additionalIncrements = Math.floor((balance - firstIncrementCost + tolerance) / incrementCost);
+  return Math.min(initialIncrement + additionalIncrements * billingIncrement, MAX_CALL_DURATION_SECONDS);
+}
+
+/**
+ * Get the units of a currency per 1 USD, or null if admins haven't set a rate
+ */
+export function getExchangeRate(currency: string, exchangeRates: ExchangeRateTable): number | null {
+  const code = currency.toUpperCase();
+  if (code === 'USD') {
+    return 1;
+  }
+  const rate = exchangeRates.rates[code];
+  return typeof rate === 'number' && rate > 0 ? rate : null;
+}
+
+/**
+ * Convert a USD amount for display in another currency
+ * Falls back to USD when there is no rate for the currency.
+ */
+export function convertFromUsd(
+  amountUsd: number,
+  currency: string,
+  exchangeRates: ExchangeRateTable
+): { amount: number; currency: string } {
+  const rate = getExchangeRate(currency, exchangeRates);
+  return rate === null
+    ? { amount: amountUsd, currency: 'USD' }
+    : { amount: amountUsd * rate, currency: currency.toUpperCase() };
+}
+
 /**
  * Format price for display
  */
@@ -123,6 +384,8 @@ export function formatPrice(
     'EUR': '€',
     'GBP': '£',
     'JPY': '¥',
+    'CAD': 'CA$',
+    'AUD': 'A$',
     // Add more currencies as needed
   };
   
@@ -140,6 +403,9 @@ export async function getPricesForCountries(
 ): Promise<Record<string, PhoneNumberPriceResponse>> {
   const results: Record<string, PhoneNumberPriceResponse> = {};
   
+  // Load the markup config once for the whole request
+  const markupConfig = await getMarkupConfig();
+  
   // Process in batches to avoid overwhelming the system
   const batchSize = 10;
   for (let i = 0; i < countryCodes.length; i += batchSize) {
@@ -165,7 +431,7 @@ export async function getPricesForCountries(
           };
         }
         
-        const priceData = await getCountryPriceData(countryCode);
+        const priceData = await getFinalPriceData(countryCode, markupConfig);
         
         if (!priceData) {
           console.log(`No price data for ${countryCode}`);
@@ -180,7 +446,9 @@ export async function getPricesForCountries(
             countryName: priceData.countryName,
             finalPrice: priceData.finalPrice,
             currency: priceData.currency,
-            billingIncrement: 60,
+            billingIncrement: priceData.billingIncrement,
+            initialIncrement: priceData.initialIncrement,
+            connectionFee: priceData.connectionFee,
             isEstimate: true  // This is a country-level estimate
           } as PhoneNumberPriceResponse
         };
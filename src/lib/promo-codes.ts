@@ -0,0 +1,267 @@
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentData, DocumentReference, FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { recordLedgerEntry } from '@/lib/ledger';
+import {
+  MAX_PROMO_BONUS_PERCENT,
+  MAX_PROMO_FIXED_CREDIT,
+  PROMO_CODE_PATTERN,
+  PromoCode,
+  PromoCodeInput
+} from '@/types/promo';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const TRANSACTIONS_SUBCOLLECTION = 'transactions';
+const PROMO_CODES_COLLECTION = 'promo_codes';
+const REDEMPTIONS_SUBCOLLECTION = 'redemptions'; // One document per user: { count, lastRedeemedAt }
+
+export type PromoRedemptionResult =
+  | { success: true; promo: PromoCode; credit: number }
+  | { success: false; error: string };
+
+/**
+ * Normalize a code as typed by a user or admin
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Convert a stored promo code's timestamps back to Dates
+ */
+function toPromoCode(data: DocumentData): PromoCode {
+  return {
+    code: data.code,
+    type: data.type,
+    value: data.value,
+    maxRedemptions: data.maxRedemptions ?? null,
+    perUserLimit: data.perUserLimit ?? 1,
+    expiresAt: data.expiresAt instanceof Timestamp ? data.expiresAt.toDate() : null,
+    newUsersOnly: data.newUsersOnly === true,
+    active: data.active === true,
+    redemptionCount: data.redemptionCount || 0,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    createdBy: data.createdBy || 'unknown'
+  };
+}
+
+/**
+ * Validate a new promo code
+ * @returns An error message, or null if the input is valid
+ */
+function validatePromoCodeInput(input: PromoCodeInput): string | null {
+  if (!PROMO_CODE_PATTERN.test(input.code)) {
+    return 'Codes must be 3-32 letters, numbers, dashes or underscores.';
+  }
+  if (input.type !== 'fixed_credit' && input.type !== 'percentage_bonus') {
+    return 'Invalid promo code type.';
+  }
+  const maxValue = input.type === 'fixed_credit' ? MAX_PROMO_FIXED_CREDIT : MAX_PROMO_BONUS_PERCENT;
+  if (typeof input.value !== 'number' || !(input.value > 0) || input.value > maxValue) {
+    return input.type === 'fixed_credit'
+      ? `Credit must be between $0 and $${MAX_PROMO_FIXED_CREDIT}.`
+      : `Bonus must be between 0% and ${MAX_PROMO_BONUS_PERCENT}%.`;
+  }
+  if (input.maxRedemptions !== null && (!Number.isInteger(input.maxRedemptions) || input.maxRedemptions < 1)) {
+    return 'Max redemptions must be a whole number of at least 1, or empty for unlimited.';
+  }
+  if (!Number.isInteger(input.perUserLimit) || input.perUserLimit < 1) {
+    return 'Per-user limit must be a whole number of at least 1.';
+  }
+  if (input.expiresAt !== null && isNaN(new Date(input.expiresAt).getTime())) {
+    return 'Invalid expiry date.';
+  }
+  return null;
+}
+
+/**
+ * Create a promo code
+ * @returns An error message, or null if the code was created
+ */
+export async function createPromoCode(input: PromoCodeInput, adminUid: string): Promise<string | null> {
+  const code = normalizePromoCode(input.code || '');
+  const validationError = validatePromoCodeInput({ ...input, code });
+  if (validationError) {
+    return validationError;
+  }
+
+  const promoRef = adminDb.collection(PROMO_CODES_COLLECTION).doc(code);
+  return adminDb.runTransaction(async (transaction) => {
+    const existing = await transaction.get(promoRef);
+    if (existing.exists) {
+      return `Promo code ${code} already exists.`;
+    }
+
+    transaction.set(promoRef, {
+      code,
+      type: input.type,
+      value: input.value,
+      maxRedemptions: input.maxRedemptions,
+      perUserLimit: input.perUserLimit,
+      expiresAt: input.expiresAt ? Timestamp.fromDate(new Date(input.expiresAt)) : null,
+      newUsersOnly: input.newUsersOnly === true,
+      active: true,
+      redemptionCount: 0,
+      createdAt: FieldValue.serverTimestamp(),
+      createdBy: adminUid
+    });
+    return null;
+  });
+}
+
+/**
+ * Get all promo codes, newest first
+ */
+export async function listPromoCodes(): Promise<PromoCode[]> {
+  const snapshot = await adminDb.collection(PROMO_CODES_COLLECTION).orderBy('createdAt', 'desc').get();
+  return snapshot.docs.map(doc => toPromoCode(doc.data()));
+}
+
+/**
+ * Turn a promo code on or off; codes are never deleted so past redemptions keep their reference
+ * @returns False if the code doesn't exist
+ */
+export async function setPromoCodeActive(code: string, active: boolean): Promise<boolean> {
+  const promoRef = adminDb.collection(PROMO_CODES_COLLECTION).doc(normalizePromoCode(code));
+  const promoSnap = await promoRef.get();
+  if (!promoSnap.exists) {
+    return false;
+  }
+  await promoRef.update({ active });
+  return true;
+}
+
+/**
+ * The code's document and the user's redemption count under it
+ */
+function getPromoRefs(userId: string, code: string) {
+  const promoRef = adminDb.collection(PROMO_CODES_COLLECTION).doc(normalizePromoCode(code));
+  return { promoRef, redemptionRef: promoRef.collection(REDEMPTIONS_SUBCOLLECTION).doc(userId) };
+}
+
+/**
+ * Check whether a user can redeem a code, reading everything inside the given transaction
+ * @param topUpAmount USD top-up a percentage bonus applies to; without it the bonus credit is 0
+ * @param stripeSessionId The top-up being paid, which doesn't count against newUsersOnly
+ */
+async function evaluatePromoCode(
+  transaction: Transaction,
+  userId: string,
+  code: string,
+  topUpAmount?: number,
+  stripeSessionId?: string
+): Promise<PromoRedemptionResult> {
+  const { promoRef, redemptionRef } = getPromoRefs(userId, code);
+
+  const promoSnap = await transaction.get(promoRef);
+  if (!promoSnap.exists) {
+    return { success: false, error: 'This promo code is not valid.' };
+  }
+  const promo = toPromoCode(promoSnap.data()!);
+
+  if (!promo.active) {
+    return { success: false, error: 'This promo code is no longer active.' };
+  }
+  if (promo.expiresAt && (promo.expiresAt as Date).getTime() < Date.now()) {
+    return { success: false, error: 'This promo code has expired.' };
+  }
+  if (promo.maxRedemptions !== null && promo.redemptionCount >= promo.maxRedemptions) {
+    return { success: false, error: 'This promo code has been fully redeemed.' };
+  }
+
+  const redemptionSnap = await transaction.get(redemptionRef);
+  if ((redemptionSnap.data()?.count || 0) >= promo.perUserLimit) {
+    return { success: false, error: 'You have already used this promo code.' };
+  }
+
+  if (promo.newUsersOnly) {
+    const depositsSnap = await transaction.get(
+      adminDb.collection(USERS_COLLECTION).doc(userId)
+        .collection(TRANSACTIONS_SUBCOLLECTION).where('type', '==', 'deposit').limit(2)
+    );
+    const hasToppedUp = depositsSnap.docs.some(doc => !stripeSessionId || doc.data().stripeSessionId !== stripeSessionId);
+    if (hasToppedUp) {
+      return { success: false, error: 'This promo code is only for new customers.' };
+    }
+  }
+
+  const credit = promo.type === 'percentage_bonus'
+    ? Math.round((topUpAmount || 0) * promo.value) / 100
+    : promo.value;
+
+  return { success: true, promo, credit };
+}
+
+/**
+ * Check a code without redeeming it (e.g. before sending the user to Checkout with a bonus code)
+ */
+export async function checkPromoCode(userId: string, code: string, topUpAmount?: number): Promise<PromoRedemptionResult> {
+  return adminDb.runTransaction(async (transaction) => {
+    return evaluatePromoCode(transaction, userId, code, topUpAmount);
+  });
+}
+
+/**
+ * Redeem a code and credit the user's balance as a 'promo' transaction against promo_liability
+ * Fixed credits are redeemed directly; percentage bonuses are redeemed by the Stripe webhook
+ * once the top-up is paid.
+ * @param options.idempotencyRef Marks the redemption as processed (e.g. for a Stripe session), so it applies once
+ */
+export async function redeemPromoCode(
+  userId: string,
+  code: string,
+  options: { topUpAmount?: number; stripeSessionId?: string; idempotencyRef?: DocumentReference } = {}
+): Promise<PromoRedemptionResult> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    // All reads first: user, idempotency key, then the code itself
+    const userSnap = await transaction.get(userRef);
+    if (options.idempotencyRef) {
+      const keySnap = await transaction.get(options.idempotencyRef);
+      if (keySnap.exists) {
+        return { success: false, error: 'This promo code has already been applied.' };
+      }
+    }
+
+    const evaluation = await evaluatePromoCode(transaction, userId, code, options.topUpAmount, options.stripeSessionId);
+    if (!evaluation.success) {
+      return evaluation;
+    }
+    const { promo, credit } = evaluation;
+    const { promoRef, redemptionRef } = getPromoRefs(userId, code);
+
+    if (credit <= 0) {
+      return { success: false, error: 'This promo code applies to top-ups. Choose an amount and pay to receive the bonus.' };
+    }
+
+    recordLedgerEntry(transaction, userSnap, {
+      type: 'promo',
+      amount: credit,
+      counterAccount: 'promo_liability',
+      source: 'promo_code',
+      details: {
+        promoCode: promo.code,
+        promoType: promo.type,
+        ...(options.stripeSessionId && { stripeSessionId: options.stripeSessionId })
+      }
+    });
+    transaction.update(promoRef, { redemptionCount: FieldValue.increment(1) });
+    transaction.set(redemptionRef, {
+      count: FieldValue.increment(1),
+      lastRedeemedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+    if (options.idempotencyRef) {
+      transaction.set(options.idempotencyRef, {
+        userId,
+        promoCode: promo.code,
+        processedAt: FieldValue.serverTimestamp()
+      });
+    }
+
+    return { success: true, promo, credit };
+  });
+}
@@ -0,0 +1,236 @@
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentData, Timestamp } from 'firebase-admin/firestore';
+import { computeLedgerBalance } from '@/lib/ledger';
+import { CompanyDetails, renderReceiptPdf, renderStatementPdf, StatementLine } from '@/lib/pdf-documents';
+import { ADJUSTMENT_CATEGORY_LABELS, AdjustmentCategory } from '@/types/ledger';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const TRANSACTIONS_SUBCOLLECTION = 'transactions';
+const LOOPS_API_KEY = process.env.LOOPS_API_KEY || '';
+const LOOPS_TRANSACTIONAL_ENDPOINT = 'https://app.loops.so/api/v1/transactional';
+
+export interface PdfFile {
+  filename: string;
+  pdf: Uint8Array;
+}
+
+/**
+ * The seller details printed on receipts and statements, from the COMPANY_* environment variables
+ */
+function getCompanyDetails(): CompanyDetails {
+  return {
+    name: process.env.COMPANY_NAME || 'ZippCall',
+    // Env files can't hold real newlines, so addresses use "\n" between lines
+    address: process.env.COMPANY_ADDRESS?.replace(/\\n/g, '\n') || null,
+    taxId: process.env.COMPANY_TAX_ID || null,
+    email: process.env.COMPANY_EMAIL || null
+  };
+}
+
+/**
+ * One-line description of a transaction, matching the dashboard history
+ */
+function describeTransaction(data: DocumentData): string {
+  switch (data.type) {
+    case 'deposit':
+      return data.source === 'auto_recharge' ? 'Auto-recharge top-up' : 'Balance top-up';
+    case 'call':
+      return data.phoneNumber ? `Call ${data.direction === 'incoming' ? 'from' : 'to'} ${data.phoneNumber}` : 'Phone call';
+    case 'number_rental':
+      return data.phoneNumber ? `Number rental (${data.phoneNumber})` : 'Number rental';
+    case 'adjustment':
+      return data.category
+        ? `${ADJUSTMENT_CATEGORY_LABELS[data.category as AdjustmentCategory] ?? 'Balance adjustment'}${data.reason ? `: ${data.reason}` : ''}`
+        : 'Balance adjustment';
+    case 'promo':
+      return data.promoCode ? `Promo code ${data.promoCode}` : 'Promo credit';
+    case 'referral':
+      return 'Referral reward';
+    case 'refund':
+      return 'Top-up refunded';
+    case 'dispute':
+      return data.amount >= 0 ? 'Disputed payment released' : 'Disputed payment held';
+    default:
+      return 'Transaction';
+  }
+}
+
+const toDate = (value: unknown) => (value instanceof Timestamp ? value.toDate() : new Date());
+
+/**
+ * Parse a statement month ("YYYY-MM") into its UTC start and end
+ * @returns null for malformed months and months that haven't started yet
+ */
+export function parseStatementMonth(month: string): { start: Date; end: Date; label: string } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match) {
+    return null;
+  }
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+  if (monthIndex < 0 || monthIndex > 11) {
+    return null;
+  }
+
+  const start = new Date(Date.UTC(year, monthIndex, 1));
+  const end = new Date(Date.UTC(year, monthIndex + 1, 1));
+  if (start.getTime() > Date.now()) {
+    return null;
+  }
+  const label = start.toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  return { start, end, label };
+}
+
+/**
+ * Build the PDF receipt for one of the user's top-ups
+ * @returns null if the transaction doesn't exist or isn't a deposit
+ */
+export async function buildReceiptPdf(userId: string, transactionId: string): Promise<PdfFile | null> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+  const [userSnap, transactionSnap] = await Promise.all([
+    userRef.get(),
+    userRef.collection(TRANSACTIONS_SUBCOLLECTION).doc(transactionId).get()
+  ]);
+  const data = transactionSnap.data();
+
+  if (!userSnap.exists || !data || data.type !== 'deposit') {
+    return null;
+  }
+
+  // Tax fields are stored on the deposit by the Stripe webhook (see src/lib/tax.ts)
+  const subtotal = data.amount || 0;
+  const taxAmount = data.taxAmount || 0;
+  const taxName = data.taxName || 'Tax';
+  const originalCurrency = data.originalCurrency ? String(data.originalCurrency).toUpperCase() : null;
+  const originalTotal = Number(data.originalAmount) + (Number(data.originalTaxAmount) || 0);
+  const pdf = await renderReceiptPdf({
+    company: getCompanyDetails(),
+    receiptNumber: transactionId,
+    date: toDate(data.createdAt),
+    billedTo: userSnap.data()?.displayName || userSnap.data()?.email || userId,
+    billingCountry: data.taxCountry || userSnap.data()?.billingDetails?.country || null,
+    customerVatId: data.vatId || null,
+    description: describeTransaction(data),
+    subtotal,
+    taxAmount,
+    reverseCharge: data.reverseCharge === true,
+    taxLabel: data.reverseCharge ? `${taxName} (reverse charge)` : `${taxName} (${data.taxRate || 0}%)`,
+    total: Math.round((subtotal + taxAmount) * 100) / 100,
+    charged: originalCurrency
+      ? `${originalTotal.toFixed(2)} ${originalCurrency} at ${data.exchangeRate} ${originalCurrency} per USD`
+      : null,
+    paymentReference: data.stripePaymentIntentId || data.stripeSessionId || transactionId
+  });
+
+  return { filename: `receipt-${transactionId}.pdf`, pdf };
+}
+
+/**
+ * Build the user's statement for a month: opening balance, deposits, call charges, other
+ * changes and closing balance, followed by every completed transaction in the month
+ * @param month "YYYY-MM", checked with parseStatementMonth
+ */
+export async function buildStatementPdf(userId: string, month: string): Promise<PdfFile | null> {
+  const period = parseStatementMonth(month);
+  const userSnap = await adminDb.collection(USERS_COLLECTION).doc(userId).get();
+  if (!period || !userSnap.exists) {
+    return null;
+  }
+
+  const [openingBalance, transactionsSnap] = await Promise.all([
+    computeLedgerBalance(userId, period.start),
+    userSnap.ref.collection(TRANSACTIONS_SUBCOLLECTION)
+      .where('createdAt', '>=', period.start)
+      .where('createdAt', '<', period.end)
+      .orderBy('createdAt', 'asc')
+      .get()
+  ]);
+
+  let deposits = 0;
+  let callCharges = 0;
+  let otherChanges = 0;
+  const lines: StatementLine[] = [];
+
+  transactionsSnap.docs.forEach(doc => {
+    const data = doc.data();
+    if (data.status && data.status !== 'completed') {
+      return;
+    }
+    const amount = typeof data.amount === 'number' ? data.amount : 0;
+    if (data.type === 'deposit') {
+      deposits += amount;
+    } else if (data.type === 'call') {
+      callCharges += amount;
+    } else {
+      otherChanges += amount;
+    }
+    lines.push({
+      date: toDate(data.createdAt),
+      description: describeTransaction(data),
+      amount,
+      balanceAfter: typeof data.balanceAfter === 'number' ? data.balanceAfter : null
+    });
+  });
+
+  const round = (amount: number) => Math.round(amount * 10000) / 10000;
+  const pdf = await renderStatementPdf({
+    company: getCompanyDetails(),
+    accountName: userSnap.data()?.email || userId,
+    periodLabel: period.label,
+    openingBalance,
+    deposits: round(deposits),
+    callCharges: round(callCharges),
+    otherChanges: round(otherChanges),
+    closingBalance: round(openingBalance + deposits + callCharges + otherChanges),
+    lines
+  });
+
+  return { filename: `statement-${month}.pdf`, pdf };
+}
+
+/**
+ * Email a receipt or statement as an attachment through Loops
+ * Uses the LOOPS_RECEIPT_EMAIL_ID or LOOPS_STATEMENT_EMAIL_ID template (variable: documentName).
+ * @returns False if email isn't configured or Loops rejected it
+ */
+export async function emailPdf(email: string, kind: 'receipt' | 'statement', file: PdfFile, documentName: string): Promise<boolean> {
+  const transactionalId = kind === 'receipt' ? process.env.LOOPS_RECEIPT_EMAIL_ID : process.env.LOOPS_STATEMENT_EMAIL_ID;
+
+  if (!LOOPS_API_KEY || !transactionalId) {
+    console.warn(`[Receipts] Loops API key or ${kind} email ID missing. Skipping email.`);
+    return false;
+  }
+
+  try {
+    const response = await fetch(LOOPS_TRANSACTIONAL_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOOPS_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        transactionalId,
+        email,
+        dataVariables: { documentName },
+        attachments: [{
+          filename: file.filename,
+          contentType: 'application/pdf',
+          data: Buffer.from(file.pdf).toString('base64')
+        }]
+      })
+    });
+
+    if (!response.ok) {
+      console.error(`[Receipts] Loops ${kind} email returned status ${response.status}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error(`[Receipts] Error sending ${kind} email:`, error);
+    return false;
+  }
+}
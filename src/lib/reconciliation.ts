@@ -0,0 +1,199 @@
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentData, FieldPath, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { postBalanceCorrection, readBalanceAndLedger } from '@/lib/ledger';
+import { BalanceDrift, ReconciliationReport } from '@/types/ledger';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const RECONCILIATION_REPORTS_COLLECTION = 'reconciliation_reports';
+
+// Differences smaller than this are rounding noise, not drift
+export const BALANCE_DRIFT_TOLERANCE = 0.01;
+
+// Users are checked a page at a time, and a request stops paging once it has used this long,
+// saving its place on the report so the next request (cron or admin) carries on from there
+const RECONCILIATION_PAGE_SIZE = 100;
+const RECONCILIATION_TIME_BUDGET_MS = 40 * 1000;
+// Extra time a request keeps its claim on the run after its budget, to finish the page it's on
+const RECONCILIATION_LEASE_SLACK_MS = 60 * 1000;
+
+/**
+ * Convert a stored report's timestamps back to Dates
+ */
+function toReport(id: string, data: DocumentData): ReconciliationReport {
+  return {
+    id,
+    runAt: data.runAt instanceof Timestamp ? data.runAt.toDate() : new Date(),
+    triggeredBy: data.triggeredBy || 'unknown',
+    usersChecked: data.usersChecked || 0,
+    tolerance: data.tolerance ?? BALANCE_DRIFT_TOLERANCE,
+    cursor: data.cursor || null,
+    // Reports from before runs were paged were always finished in one go
+    completedAt: data.completedAt instanceof Timestamp ? data.completedAt.toDate() : (data.cursor === undefined ? new Date() : null),
+    drifts: (data.drifts || []).map((drift: BalanceDrift) => ({
+      ...drift,
+      ...(drift.correctedAt instanceof Timestamp && { correctedAt: drift.correctedAt.toDate() })
+    }))
+  };
+}
+
+/**
+ * Recompute users' balances from their transactions and record the users that drifted
+ * Carries on the run in progress if there is one, otherwise starts a new one. The nightly cron
+ * starts at most one run per UTC day and keeps calling this until the run completes.
+ * @param triggeredBy 'cron' or the admin's uid
+ * @returns The report so far; completedAt is null while users are left to check
+ */
+export async function reconcileBalances(triggeredBy: string): Promise<ReconciliationReport> {
+  const startedAt = Date.now();
+  const today = new Date().toISOString().slice(0, 10);
+
+  // Claimed in a transaction with a lease, so the cron and an admin never page through the same run at once
+  const claimed = await adminDb.runTransaction(async (transaction) => {
+    const latestSnap = await transaction.get(
+      adminDb.collection(RECONCILIATION_REPORTS_COLLECTION).orderBy('runAt', 'desc').limit(1)
+    );
+    const latest = latestSnap.empty ? null : latestSnap.docs[0];
+    const latestReport = latest ? toReport(latest.id, latest.data()) : null;
+    const leaseUntil = Timestamp.fromMillis(startedAt + RECONCILIATION_TIME_BUDGET_MS + RECONCILIATION_LEASE_SLACK_MS);
+
+    if (latest && latestReport && !latestReport.completedAt) {
+      const leasedUntil = latest.data().leasedUntil;
+      if (leasedUntil instanceof Timestamp && leasedUntil.toMillis() > startedAt) {
+        return { report: latestReport, owned: false };
+      }
+      transaction.update(latest.ref, { leasedUntil: leaseUntil });
+      return { report: latestReport, owned: true };
+    }
+    if (triggeredBy === 'cron' && latestReport && (latestReport.runAt as Date).toISOString().slice(0, 10) === today) {
+      // Today's run is already done
+      return { report: latestReport, owned: false };
+    }
+
+    const reportRef = adminDb.collection(RECONCILIATION_REPORTS_COLLECTION).doc();
+    const runAt = new Date(startedAt);
+    transaction.set(reportRef, {
+      runAt: Timestamp.fromDate(runAt),
+      triggeredBy,
+      usersChecked: 0,
+      tolerance: BALANCE_DRIFT_TOLERANCE,
+      drifts: [],
+      cursor: null,
+      completedAt: null,
+      leasedUntil: leaseUntil
+    });
+    const report: ReconciliationReport = {
+      id: reportRef.id,
+      runAt,
+      triggeredBy,
+      usersChecked: 0,
+      tolerance: BALANCE_DRIFT_TOLERANCE,
+      drifts: [],
+      cursor: null,
+      completedAt: null
+    };
+    return { report, owned: true };
+  });
+
+  const { report } = claimed;
+  if (!claimed.owned) {
+    return report;
+  }
+
+  // Pages in document ID order, from where the last request stopped
+  while (!report.completedAt && Date.now() - startedAt < RECONCILIATION_TIME_BUDGET_MS) {
+    let query = adminDb.collection(USERS_COLLECTION).orderBy(FieldPath.documentId()).limit(RECONCILIATION_PAGE_SIZE);
+    if (report.cursor) {
+      query = query.startAfter(report.cursor);
+    }
+    const pageSnapshot = await query.select().get();
+    const pageDrifts: BalanceDrift[] = [];
+
+    for (const userDoc of pageSnapshot.docs) {
+      const snapshot = await readBalanceAndLedger(userDoc.id);
+      if (!snapshot) {
+        continue;
+      }
+      const { userData, storedBalance, ledgerBalance } = snapshot;
+      const drift = Math.round((storedBalance - ledgerBalance) * 10000) / 10000;
+
+      if (Math.abs(drift) > BALANCE_DRIFT_TOLERANCE) {
+        pageDrifts.push({
+          userId: userDoc.id,
+          email: userData.email || null,
+          storedBalance,
+          ledgerBalance,
+          drift
+        });
+      }
+    }
+
+    report.drifts.push(...pageDrifts);
+    report.usersChecked += pageSnapshot.size;
+    report.cursor = pageSnapshot.empty ? report.cursor : pageSnapshot.docs[pageSnapshot.size - 1].id;
+    if (pageSnapshot.size < RECONCILIATION_PAGE_SIZE) {
+      report.completedAt = new Date();
+    }
+
+    await adminDb.collection(RECONCILIATION_REPORTS_COLLECTION).doc(report.id).update({
+      usersChecked: report.usersChecked,
+      // Appended, so a correction recorded on an earlier drift mid-run isn't overwritten
+      ...(pageDrifts.length > 0 && { drifts: FieldValue.arrayUnion(...pageDrifts) }),
+      cursor: report.cursor,
+      completedAt: report.completedAt ? Timestamp.fromDate(report.completedAt as Date) : null
+    });
+  }
+
+  if (!report.completedAt) {
+    // Let the next request carry on straight away
+    await adminDb.collection(RECONCILIATION_REPORTS_COLLECTION).doc(report.id).update({ leasedUntil: null });
+  }
+
+  console.log(`[Reconciliation] Report ${report.id}: checked ${report.usersChecked} users so far, ${report.drifts.length} drifted beyond ${BALANCE_DRIFT_TOLERANCE}${report.completedAt ? ' (complete)' : ''}`);
+  return report;
+}
+
+/**
+ * Get the most recent reconciliation report, or null if none has run
+ */
+export async function getLatestReconciliationReport(): Promise<ReconciliationReport | null> {
+  const snapshot = await adminDb
+    .collection(RECONCILIATION_REPORTS_COLLECTION)
+    .orderBy('runAt', 'desc')
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) {
+    return null;
+  }
+
+  return toReport(snapshot.docs[0].id, snapshot.docs[0].data());
+}
+
+/**
+ * Record a corrective adjustment for a drifted user and mark it on the report
+ * @returns The amount recorded on the user's ledger
+ */
+export async function correctBalanceDrift(reportId: string, userId: string, adminUid: string): Promise<number> {
+  const reportRef = adminDb.collection(RECONCILIATION_REPORTS_COLLECTION).doc(reportId);
+  const reportSnap = await reportRef.get();
+
+  if (!reportSnap.exists) {
+    throw new Error(`Reconciliation report ${reportId} not found.`);
+  }
+
+  const amount = await postBalanceCorrection(userId, adminUid);
+
+  const drifts = (reportSnap.data()?.drifts || []) as BalanceDrift[];
+  await reportRef.update({
+    drifts: drifts.map(drift => drift.userId === userId
+      ? { ...drift, correctedAt: Timestamp.now(), correctedBy: adminUid }
+      : drift)
+  });
+
+  console.log(`[Reconciliation] Admin ${adminUid} recorded a ${amount} correction for user ${userId}`);
+  return amount;
+}
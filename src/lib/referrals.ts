@@ -0,0 +1,378 @@
+import { randomInt } from 'crypto';
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentData, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { recordLedgerEntry } from '@/lib/ledger';
+import {
+  DEFAULT_REFERRAL_SETTINGS,
+  Referral,
+  ReferralRejectedReason,
+  ReferralSettings
+} from '@/types/referral';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const TRANSACTIONS_SUBCOLLECTION = 'transactions';
+const REFERRALS_COLLECTION = 'referrals';           // One document per referred user
+const REFERRAL_CODES_COLLECTION = 'referral_codes'; // Code -> { userId }
+const CARD_FINGERPRINTS_COLLECTION = 'card_fingerprints'; // Stripe card fingerprint -> { userIds }
+const SETTINGS_COLLECTION = 'settings';
+const REFERRAL_SETTINGS_DOC = 'referral_program';
+
+// Codes avoid characters that are easy to misread (0/O, 1/I/L)
+const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const REFERRAL_CODE_LENGTH = 8;
+
+// A referral can only be attributed to an account this new
+const ATTRIBUTION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert a stored referral's timestamps back to Dates
+ */
+function toReferral(data: DocumentData): Referral {
+  return {
+    refereeId: data.refereeId,
+    referrerId: data.referrerId,
+    code: data.code,
+    status: data.status || 'pending',
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    settledAt: data.settledAt instanceof Timestamp ? data.settledAt.toDate() : null,
+    rejectedReason: data.rejectedReason || null,
+    referrerReward: data.referrerReward || 0,
+    refereeReward: data.refereeReward || 0,
+    stripeSessionId: data.stripeSessionId || null,
+    reversedAt: data.reversedAt instanceof Timestamp ? data.reversedAt.toDate() : null
+  };
+}
+
+/**
+ * Get the referral program settings, falling back to the defaults
+ */
+export async function getReferralSettings(): Promise<ReferralSettings> {
+  const settingsSnap = await adminDb.collection(SETTINGS_COLLECTION).doc(REFERRAL_SETTINGS_DOC).get();
+  return { ...DEFAULT_REFERRAL_SETTINGS, ...settingsSnap.data() };
+}
+
+/**
+ * Validate and save the referral program settings
+ * @returns An error message, or null if saved
+ */
+export async function saveReferralSettings(settings: ReferralSettings, adminUid: string): Promise<string | null> {
+  const { enabled, referrerReward, refereeReward, maxRewardsPerReferrer } = settings;
+
+  if (typeof enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+  if (typeof referrerReward !== 'number' || referrerReward < 0 || referrerReward > 100 ||
+      typeof refereeReward !== 'number' || refereeReward < 0 || refereeReward > 100) {
+    return 'Rewards must be between $0 and $100';
+  }
+  if (!Number.isInteger(maxRewardsPerReferrer) || maxRewardsPerReferrer < 1) {
+    return 'Max rewards per referrer must be a whole number of at least 1';
+  }
+
+  await adminDb.collection(SETTINGS_COLLECTION).doc(REFERRAL_SETTINGS_DOC).set({
+    enabled,
+    referrerReward,
+    refereeReward,
+    maxRewardsPerReferrer,
+    updatedAt: FieldValue.serverTimestamp(),
+    updatedBy: adminUid
+  });
+  return null;
+}
+
+/**
+ * Get the user's referral code, creating one the first time
+ */
+export async function getOrCreateReferralCode(userId: string): Promise<string> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+  // Retry on the rare collision with an existing code
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate = Array.from(
+      { length: REFERRAL_CODE_LENGTH },
+      () => REFERRAL_CODE_ALPHABET[randomInt(REFERRAL_CODE_ALPHABET.length)]
+    ).join('');
+    const codeRef = adminDb.collection(REFERRAL_CODES_COLLECTION).doc(candidate);
+
+    const code = await adminDb.runTransaction(async (transaction) => {
+      const userSnap = await transaction.get(userRef);
+      if (!userSnap.exists) {
+        throw new Error('User document does not exist.');
+      }
+      const existingCode = userSnap.data()?.referralCode;
+      if (existingCode) {
+        return existingCode as string;
+      }
+
+      const codeSnap = await transaction.get(codeRef);
+      if (codeSnap.exists) {
+        return null;
+      }
+
+      transaction.set(codeRef, { userId, createdAt: FieldValue.serverTimestamp() });
+      transaction.update(userRef, { referralCode: candidate });
+      return candidate;
+    });
+
+    if (code) {
+      return code;
+    }
+  }
+
+  throw new Error('Could not generate a unique referral code.');
+}
+
+/**
+ * Record that a new user signed up with a referral code
+ * Only new accounts that haven't topped up can be attributed, and only once.
+ * @returns An error message, or null if attributed
+ */
+export async function attributeReferral(refereeId: string, code: string): Promise<string | null> {
+  const settings = await getReferralSettings();
+  if (!settings.enabled) {
+    return 'The referral program is not running.';
+  }
+
+  const refereeRef = adminDb.collection(USERS_COLLECTION).doc(refereeId);
+  const referralRef = adminDb.collection(REFERRALS_COLLECTION).doc(refereeId);
+  const codeRef = adminDb.collection(REFERRAL_CODES_COLLECTION).doc(code.trim().toUpperCase());
+
+  return adminDb.runTransaction(async (transaction) => {
+    const [refereeSnap, referralSnap, codeSnap, depositsSnap] = await Promise.all([
+      transaction.get(refereeRef),
+      transaction.get(referralRef),
+      transaction.get(codeRef),
+      transaction.get(refereeRef.collection(TRANSACTIONS_SUBCOLLECTION).where('type', '==', 'deposit').limit(1))
+    ]);
+
+    if (!refereeSnap.exists) {
+      return 'User document does not exist.';
+    }
+    if (referralSnap.exists || refereeSnap.data()?.referredBy) {
+      return 'This account already has a referral.';
+    }
+    if (!codeSnap.exists) {
+      return 'Referral code not found.';
+    }
+
+    const referrerId = codeSnap.data()?.userId;
+    if (referrerId === refereeId) {
+      return 'You cannot refer yourself.';
+    }
+
+    const createdAt = refereeSnap.data()?.createdAt;
+    const createdAtMs = createdAt instanceof Timestamp ? createdAt.toMillis() : 0;
+    if (Date.now() - createdAtMs > ATTRIBUTION_WINDOW_MS || !depositsSnap.empty) {
+      return 'Referrals only apply to new accounts.';
+    }
+
+    transaction.set(referralRef, {
+      refereeId,
+      referrerId,
+      code: codeRef.id,
+      status: 'pending',
+      createdAt: FieldValue.serverTimestamp(),
+      settledAt: null,
+      rejectedReason: null,
+      referrerReward: 0,
+      refereeReward: 0,
+      stripeSessionId: null,
+      reversedAt: null
+    });
+    transaction.update(refereeRef, { referredBy: referrerId });
+    return null;
+  });
+}
+
+/**
+ * Remember which users have paid with a card, so referrals between them can be spotted
+ * @param fingerprint Stripe's card fingerprint, the same for every use of the same card number
+ */
+export async function recordCardFingerprint(userId: string, fingerprint: string): Promise<void> {
+  await adminDb.collection(CARD_FINGERPRINTS_COLLECTION).doc(fingerprint).set({
+    userIds: FieldValue.arrayUnion(userId),
+    lastSeenAt: FieldValue.serverTimestamp()
+  }, { merge: true });
+}
+
+/**
+ * Settle a pending referral when the referee's first paid top-up clears
+ * Credits both users as 'referral' transactions against promo_liability, unless the
+ * top-up was paid with a card the referrer has used, or the referrer hit the reward limit.
+ * Does nothing if the user wasn't referred or the referral is already settled.
+ * @param cardFingerprint Fingerprint of the card that paid, recorded beforehand with recordCardFingerprint
+ */
+export async function settleReferral(
+  refereeId: string,
+  stripeSessionId: string,
+  cardFingerprint: string | null
+): Promise<Referral | null> {
+  const referralRef = adminDb.collection(REFERRALS_COLLECTION).doc(refereeId);
+  const settings = await getReferralSettings();
+
+  return adminDb.runTransaction(async (transaction) => {
+    const referralSnap = await transaction.get(referralRef);
+    if (!referralSnap.exists || referralSnap.data()?.status !== 'pending') {
+      return null;
+    }
+    const referral = toReferral(referralSnap.data()!);
+
+    const referrerRef = adminDb.collection(USERS_COLLECTION).doc(referral.referrerId);
+    const refereeRef = adminDb.collection(USERS_COLLECTION).doc(refereeId);
+    const [referrerSnap, refereeSnap, fingerprintSnap, rewardedSnap] = await Promise.all([
+      transaction.get(referrerRef),
+      transaction.get(refereeRef),
+      cardFingerprint ? transaction.get(adminDb.collection(CARD_FINGERPRINTS_COLLECTION).doc(cardFingerprint)) : null,
+      transaction.get(adminDb.collection(REFERRALS_COLLECTION)
+        .where('referrerId', '==', referral.referrerId)
+        .where('status', '==', 'rewarded')
+        .limit(settings.maxRewardsPerReferrer))
+    ]);
+
+    let rejectedReason: ReferralRejectedReason | null = null;
+    if (!settings.enabled) {
+      rejectedReason = 'program_disabled';
+    } else if ((fingerprintSnap?.data()?.userIds || []).includes(referral.referrerId)) {
+      rejectedReason = 'same_card';
+    } else if (rewardedSnap.size >= settings.maxRewardsPerReferrer) {
+      rejectedReason = 'limit_reached';
+    }
+
+    const settled: Referral = {
+      ...referral,
+      status: rejectedReason ? 'rejected' : 'rewarded',
+      settledAt: new Date(),
+      rejectedReason,
+      // A deleted referrer forfeits their side of the reward
+      referrerReward: rejectedReason || !referrerSnap.exists ? 0 : settings.referrerReward,
+      refereeReward: rejectedReason ? 0 : settings.refereeReward,
+      stripeSessionId
+    };
+
+    if (!rejectedReason) {
+      const details = { refereeId, referrerId: referral.referrerId, stripeSessionId };
+      if (settled.referrerReward > 0) {
+        recordLedgerEntry(transaction, referrerSnap, {
+          type: 'referral',
+          amount: settled.referrerReward,
+          counterAccount: 'promo_liability',
+          source: 'referral',
+          details
+        });
+      }
+      if (settled.refereeReward > 0) {
+        recordLedgerEntry(transaction, refereeSnap, {
+          type: 'referral',
+          amount: settled.refereeReward,
+          counterAccount: 'promo_liability',
+          source: 'referral',
+          details
+        });
+      }
+    }
+
+    transaction.update(referralRef, {
+      status: settled.status,
+      settledAt: FieldValue.serverTimestamp(),
+      rejectedReason,
+      referrerReward: settled.referrerReward,
+      refereeReward: settled.refereeReward,
+      stripeSessionId
+    });
+    return settled;
+  });
+}
+
+/**
+ * Take back both rewards of a referral when the top-up that settled it is fully refunded or lost to a dispute
+ * Posted as negative 'referral' transactions against promo_liability; either balance can go below zero.
+ * Does nothing unless the referral was rewarded by this session, so it only ever reverses once.
+ * @returns The reversed referral, or null if there was nothing to reverse
+ */
+export async function reverseReferral(refereeId: string, stripeSessionId: string): Promise<Referral | null> {
+  const referralRef = adminDb.collection(REFERRALS_COLLECTION).doc(refereeId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const referralSnap = await transaction.get(referralRef);
+    const data = referralSnap.data();
+    if (!data || data.status !== 'rewarded' || data.stripeSessionId !== stripeSessionId) {
+      return null;
+    }
+    const referral = toReferral(data);
+
+    const [referrerSnap, refereeSnap] = await Promise.all([
+      transaction.get(adminDb.collection(USERS_COLLECTION).doc(referral.referrerId)),
+      transaction.get(adminDb.collection(USERS_COLLECTION).doc(refereeId))
+    ]);
+
+    const details = { refereeId, referrerId: referral.referrerId, stripeSessionId, reversal: true };
+    if (referral.referrerReward > 0 && referrerSnap.exists) {
+      recordLedgerEntry(transaction, referrerSnap, {
+        type: 'referral',
+        amount: -referral.referrerReward,
+        counterAccount: 'promo_liability',
+        source: 'referral',
+        details
+      });
+    }
+    if (referral.refereeReward > 0) {
+      recordLedgerEntry(transaction, refereeSnap, {
+        type: 'referral',
+        amount: -referral.refereeReward,
+        counterAccount: 'promo_liability',
+        source: 'referral',
+        details
+      });
+    }
+
+    transaction.update(referralRef, { status: 'reversed', reversedAt: FieldValue.serverTimestamp() });
+    return { ...referral, status: 'reversed', reversedAt: new Date() };
+  });
+}
+
+/**
+ * Get a user's referral link details and what they've earned
+ */
+export async function getReferralSummary(userId: string) {
+  const [code, settings, referralsSnap] = await Promise.all([
+    getOrCreateReferralCode(userId),
+    getReferralSettings(),
+    adminDb.collection(REFERRALS_COLLECTION).where('referrerId', '==', userId).get()
+  ]);
+  const referrals = referralsSnap.docs.map(doc => toReferral(doc.data()));
+
+  return {
+    code,
+    settings,
+    referredCount: referrals.length,
+    rewardedCount: referrals.filter(referral => referral.status === 'rewarded').length,
+    totalEarned: referrals
+      .filter(referral => referral.status === 'rewarded')
+      .reduce((sum, referral) => sum + referral.referrerReward, 0)
+  };
+}
+
+/**
+ * Get all referrals with both users' emails, newest first, for the admin payout report
+ */
+export async function listReferrals(): Promise<(Referral & { referrerEmail: string | null; refereeEmail: string | null })[]> {
+  const referralsSnap = await adminDb.collection(REFERRALS_COLLECTION).orderBy('createdAt', 'desc').get();
+  const referrals = referralsSnap.docs.map(doc => toReferral(doc.data()));
+
+  // Look each user up once
+  const userIds = Array.from(new Set(referrals.flatMap(referral => [referral.referrerId, referral.refereeId])));
+  const userSnaps = userIds.length > 0
+    ? await adminDb.getAll(...userIds.map(id => adminDb.collection(USERS_COLLECTION).doc(id)))
+    : [];
+  const emails = new Map(userSnaps.map(snap => [snap.id, (snap.data()?.email as string) || null]));
+
+  return referrals.map(referral => ({
+    ...referral,
+    referrerEmail: emails.get(referral.referrerId) ?? null,
+    refereeEmail: emails.get(referral.refereeId) ?? null
+  }));
+}
@@ -0,0 +1,174 @@
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import Stripe from 'stripe';
+import {
+  BillingDetails,
+  COUNTRY_CODE_PATTERN,
+  MAX_TAX_RATE_PERCENT,
+  TaxQuote,
+  TaxRate,
+  VAT_ID_PATTERN
+} from '@/types/tax';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const SETTINGS_COLLECTION = 'settings';
+const TAX_RATES_DOC = 'tax_rates';
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Get the configured tax rates, one per country
+ */
+export async function getTaxRates(): Promise<TaxRate[]> {
+  const settingsSnap = await adminDb.collection(SETTINGS_COLLECTION).doc(TAX_RATES_DOC).get();
+  return (settingsSnap.data()?.rates as TaxRate[] | undefined) || [];
+}
+
+/**
+ * Validate and replace the tax rates
+ * @returns An error message, or null if saved
+ */
+export async function saveTaxRates(rates: TaxRate[], adminUid: string): Promise<string | null> {
+  if (!Array.isArray(rates)) {
+    return 'rates must be a list';
+  }
+
+  const seen = new Set<string>();
+  const normalized: TaxRate[] = [];
+  for (const rate of rates) {
+    const country = typeof rate?.country === 'string' ? rate.country.trim().toUpperCase() : '';
+    const name = typeof rate?.name === 'string' ? rate.name.trim() : '';
+
+    if (!COUNTRY_CODE_PATTERN.test(country)) {
+      return `Invalid country code: ${rate?.country}`;
+    }
+    if (seen.has(country)) {
+      return `${country} has more than one rate`;
+    }
+    if (!name || name.length > 20) {
+      return `Tax name for ${country} must be 1-20 characters`;
+    }
+    if (typeof rate.rate !== 'number' || !Number.isFinite(rate.rate) || rate.rate < 0 || rate.rate > MAX_TAX_RATE_PERCENT) {
+      return `Rate for ${country} must be between 0% and ${MAX_TAX_RATE_PERCENT}%`;
+    }
+
+    seen.add(country);
+    normalized.push({ country, name, rate: rate.rate, reverseCharge: rate.reverseCharge === true });
+  }
+
+  normalized.sort((a, b) => a.country.localeCompare(b.country));
+  await adminDb.collection(SETTINGS_COLLECTION).doc(TAX_RATES_DOC).set({
+    rates: normalized,
+    updatedAt: FieldValue.serverTimestamp(),
+    updatedBy: adminUid
+  });
+  return null;
+}
+
+/**
+ * Get the user's billing country and VAT ID, if they've set them
+ */
+export async function getBillingDetails(userId: string): Promise<BillingDetails | null> {
+  const userSnap = await adminDb.collection(USERS_COLLECTION).doc(userId).get();
+  const billingDetails = userSnap.data()?.billingDetails;
+  if (!billingDetails?.country) {
+    return null;
+  }
+  return {
+    country: billingDetails.country,
+    vatId: billingDetails.vatId || null,
+    updatedAt: billingDetails.updatedAt instanceof Timestamp ? billingDetails.updatedAt.toDate() : undefined
+  };
+}
+
+/**
+ * Validate and save the user's billing details
+ * VAT IDs are only format-checked; the country prefix is optional.
+ * @returns An error message, or null if saved
+ */
+export async function saveBillingDetails(userId: string, details: { country: string; vatId?: string | null }): Promise<string | null> {
+  const country = typeof details.country === 'string' ? details.country.trim().toUpperCase() : '';
+  if (!COUNTRY_CODE_PATTERN.test(country)) {
+    return 'Billing country must be a two-letter country code';
+  }
+
+  const vatId = typeof details.vatId === 'string' ? details.vatId.toUpperCase().replace(/[^A-Z0-9]/g, '') : '';
+  if (vatId && !VAT_ID_PATTERN.test(vatId)) {
+    return 'VAT ID must be 4-15 letters and digits';
+  }
+
+  await adminDb.collection(USERS_COLLECTION).doc(userId).update({
+    billingDetails: {
+      country,
+      vatId: vatId || null,
+      updatedAt: FieldValue.serverTimestamp()
+    }
+  });
+  return null;
+}
+
+/**
+ * Work out the tax on a top-up from the user's billing country
+ * Tax is charged on top of the amount, which is what gets credited to the balance.
+ * @param amount Top-up amount in the checkout currency
+ * @param exchangeRate Units of the checkout currency per USD (1 for USD)
+ */
+export async function quoteTax(userId: string, amount: number, exchangeRate: number): Promise<TaxQuote> {
+  const [billingDetails, rates] = await Promise.all([getBillingDetails(userId), getTaxRates()]);
+  const taxRate = billingDetails ? rates.find(rate => rate.country === billingDetails.country) : undefined;
+  const reverseCharge = Boolean(taxRate?.reverseCharge && billingDetails?.vatId);
+  const ratePercent = taxRate && !reverseCharge ? taxRate.rate : 0;
+  const taxAmount = roundCents(amount * ratePercent / 100);
+
+  return {
+    country: billingDetails?.country || null,
+    taxName: taxRate?.name || 'Tax',
+    taxRate: ratePercent,
+    taxAmount,
+    taxAmountUsd: roundCents(taxAmount / exchangeRate),
+    total: roundCents(amount + taxAmount),
+    reverseCharge,
+    vatId: billingDetails?.vatId || null
+  };
+}
+
+/**
+ * Stripe metadata recording a quote, so the webhook can store the tax on the deposit
+ */
+export function taxQuoteMetadata(quote: TaxQuote): Record<string, string> {
+  return {
+    taxAmount: quote.taxAmountUsd.toString(),
+    originalTaxAmount: quote.taxAmount.toString(),
+    taxRate: quote.taxRate.toString(),
+    taxName: quote.taxName,
+    ...(quote.country && { taxCountry: quote.country }),
+    ...(quote.vatId && { vatId: quote.vatId }),
+    ...(quote.reverseCharge && { reverseCharge: 'true' })
+  };
+}
+
+/**
+ * Read the tax recorded by taxQuoteMetadata back from a Checkout Session or PaymentIntent
+ * @returns The USD tax for the ledger entry and the fields stored on the deposit
+ */
+export function parseTaxMetadata(metadata: Stripe.Metadata | null | undefined): { taxAmount: number; details: Record<string, unknown> } {
+  const taxAmount = metadata?.taxAmount ? parseFloat(metadata.taxAmount) : 0;
+  if (!metadata?.taxName || isNaN(taxAmount)) {
+    return { taxAmount: 0, details: {} };
+  }
+  return {
+    taxAmount,
+    details: {
+      taxRate: parseFloat(metadata.taxRate) || 0,
+      taxName: metadata.taxName,
+      ...(metadata.originalTaxAmount && { originalTaxAmount: parseFloat(metadata.originalTaxAmount) }),
+      ...(metadata.taxCountry && { taxCountry: metadata.taxCountry }),
+      ...(metadata.vatId && { vatId: metadata.vatId }),
+      ...(metadata.reverseCharge === 'true' && { reverseCharge: true })
+    }
+  };
+}
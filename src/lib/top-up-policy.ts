@@ -0,0 +1,241 @@
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentData, FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { DEFAULT_TOP_UP_POLICY, TopUpPolicy } from '@/types/billing';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const TRANSACTIONS_SUBCOLLECTION = 'transactions';
+const SETTINGS_COLLECTION = 'settings';
+const TOP_UP_POLICY_DOC = 'top_up_policy';
+// One document per user (uid) holding the Checkout sessions that haven't been paid or expired yet
+const TOP_UP_RESERVATIONS_COLLECTION = 'top_up_reservations';
+
+// Checkout sessions are created to expire with their reservation (Stripe's minimum is 30 minutes)
+const TOP_UP_RESERVATION_MINUTES = 35;
+// Bank debits and other delayed methods can take days to succeed or fail after checkout completes
+const ASYNC_PAYMENT_RESERVATION_DAYS = 14;
+
+// Sanity bound for any single amount or limit an admin can set
+const MAX_POLICY_AMOUNT = 10000;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+const isValidAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= MAX_POLICY_AMOUNT;
+
+/**
+ * Get the top-up policy, falling back to the defaults
+ */
+export async function getTopUpPolicy(): Promise<TopUpPolicy> {
+  const settingsSnap = await adminDb.collection(SETTINGS_COLLECTION).doc(TOP_UP_POLICY_DOC).get();
+  return { ...DEFAULT_TOP_UP_POLICY, ...settingsSnap.data() };
+}
+
+/**
+ * Validate and save the top-up policy
+ * @returns An error message, or null if saved
+ */
+export async function saveTopUpPolicy(policy: TopUpPolicy, adminUid: string): Promise<string | null> {
+  const { amounts, minAmount, maxAmount, dailyLimit, monthlyLimit, firstTopUpMaxAmount } = policy;
+
+  if (!isValidAmount(minAmount) || !isValidAmount(maxAmount) || minAmount > maxAmount) {
+    return `Minimum and maximum must be between $0 and $${MAX_POLICY_AMOUNT}, with the minimum no higher than the maximum`;
+  }
+  if (!Array.isArray(amounts) || amounts.length === 0 || amounts.length > 12) {
+    return 'Offer between 1 and 12 amounts';
+  }
+  if (amounts.some(amount => !isValidAmount(amount) || amount < minAmount || amount > maxAmount)) {
+    return 'Every offered amount must be between the minimum and maximum';
+  }
+  if (!isValidAmount(dailyLimit) || !isValidAmount(monthlyLimit) || dailyLimit > monthlyLimit) {
+    return 'Daily and monthly limits must be positive, with the daily limit no higher than the monthly one';
+  }
+  if (!isValidAmount(firstTopUpMaxAmount)) {
+    return 'First top-up limit must be positive';
+  }
+
+  await adminDb.collection(SETTINGS_COLLECTION).doc(TOP_UP_POLICY_DOC).set({
+    amounts: Array.from(new Set(amounts.map(roundCents))).sort((a, b) => a - b),
+    minAmount,
+    maxAmount,
+    dailyLimit,
+    monthlyLimit,
+    firstTopUpMaxAmount,
+    updatedAt: FieldValue.serverTimestamp(),
+    updatedBy: adminUid
+  });
+  return null;
+}
+
+const reservationsRef = (userId: string) => adminDb.collection(TOP_UP_RESERVATIONS_COLLECTION).doc(userId);
+
+/**
+ * The reservations in a user's reservation document that haven't expired, keyed by reservation ID
+ */
+function liveReservations(data: DocumentData | undefined): Record<string, { amountUsd: number; expiresAt: Timestamp }> {
+  const now = Date.now();
+  return Object.fromEntries(
+    Object.entries(data?.reservations || {}).filter(([, reservation]) => {
+      const { amountUsd, expiresAt } = reservation as { amountUsd?: unknown; expiresAt?: unknown };
+      return typeof amountUsd === 'number' && expiresAt instanceof Timestamp && expiresAt.toMillis() > now;
+    })
+  ) as Record<string, { amountUsd: number; expiresAt: Timestamp }>;
+}
+
+/**
+ * How much more the user can top up now (USD), from their deposits this UTC day and month
+ * Open Checkout sessions hold their amount against every limit until they're paid or expire,
+ * so several unpaid sessions can't add up to more than the limits allow.
+ * @param transaction Read inside this transaction, when the result is used to reserve a top-up
+ */
+export async function getRemainingTopUpAllowance(
+  userId: string,
+  policy: TopUpPolicy,
+  transaction?: Transaction
+): Promise<{ remaining: number; limitReason: string | null }> {
+  const now = new Date();
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const transactionsRef = adminDb.collection(USERS_COLLECTION).doc(userId).collection(TRANSACTIONS_SUBCOLLECTION);
+  // Filtered by type here rather than in the query, so no composite index is needed
+  const monthQuery = transactionsRef.where('createdAt', '>=', monthStart);
+  const firstDepositQuery = transactionsRef.where('type', '==', 'deposit').limit(1);
+
+  const [monthSnap, firstDepositSnap, reservationsSnap] = transaction
+    ? await Promise.all([transaction.get(monthQuery), transaction.get(firstDepositQuery), transaction.get(reservationsRef(userId))])
+    : await Promise.all([monthQuery.get(), firstDepositQuery.get(), reservationsRef(userId).get()]);
+
+  let depositedToday = 0;
+  let depositedThisMonth = 0;
+  monthSnap.docs.forEach(doc => {
+    const data = doc.data();
+    if (data.type !== 'deposit' || (data.status && data.status !== 'completed')) {
+      return;
+    }
+    depositedThisMonth += data.amount || 0;
+    if (data.createdAt?.toDate() >= dayStart) {
+      depositedToday += data.amount || 0;
+    }
+  });
+
+  const reserved = Object.values(liveReservations(reservationsSnap.data()))
+    .reduce((total, reservation) => total + reservation.amountUsd, 0);
+
+  const limits = [
+    { remaining: policy.dailyLimit - depositedToday - reserved, reason: `Daily top-up limit of $${policy.dailyLimit}` },
+    { remaining: policy.monthlyLimit - depositedThisMonth - reserved, reason: `Monthly top-up limit of $${policy.monthlyLimit}` },
+    ...(firstDepositSnap.empty
+      ? [{ remaining: policy.firstTopUpMaxAmount - reserved, reason: `First top-ups are limited to $${policy.firstTopUpMaxAmount}` }]
+      : [])
+  ];
+  const tightest = limits.reduce((lowest, limit) => (limit.remaining < lowest.remaining ? limit : lowest));
+  return { remaining: Math.max(0, roundCents(tightest.remaining)), limitReason: tightest.reason };
+}
+
+/**
+ * Check an amount against the offered amounts and the min and max
+ */
+function checkAmount(policy: TopUpPolicy, amount: number): string | null {
+  if (amount < policy.minAmount || amount > policy.maxAmount) {
+    return `Top-ups must be between ${policy.minAmount} and ${policy.maxAmount}.`;
+  }
+  if (!policy.amounts.includes(amount)) {
+    return `Choose one of the offered amounts: ${policy.amounts.join(', ')}.`;
+  }
+  return null;
+}
+
+/**
+ * Check a USD amount against what the user has left under their limits
+ */
+function checkRemaining(amountUsd: number, remaining: number, limitReason: string | null): string | null {
+  if (amountUsd > remaining) {
+    return remaining > 0
+      ? `${limitReason}: you can add up to $${remaining.toFixed(2)} right now.`
+      : `${limitReason} reached. Please try again later.`;
+  }
+  return null;
+}
+
+/**
+ * Check a top-up against the policy before charging or crediting it (auto-recharge, charged straight away)
+ * @param amount The top-up in the checkout currency, checked against the offered amounts
+ * @param amountUsd The USD it will credit, checked against the user's limits
+ * @returns An error message, or null if allowed
+ */
+export async function checkTopUpAllowed(userId: string, amount: number, amountUsd: number): Promise<string | null> {
+  const policy = await getTopUpPolicy();
+
+  const amountError = checkAmount(policy, amount);
+  if (amountError) {
+    return amountError;
+  }
+
+  const { remaining, limitReason } = await getRemainingTopUpAllowance(userId, policy);
+  return checkRemaining(amountUsd, remaining, limitReason);
+}
+
+/**
+ * Check a Checkout top-up against the policy and hold its amount until the session is paid or expires
+ * Checked and held in one transaction, so sessions opened at the same time can't both use the last of a limit.
+ * @returns The reservation to put in the session metadata and when the session must expire, or an error message
+ */
+export async function reserveTopUp(
+  userId: string,
+  amount: number,
+  amountUsd: number
+): Promise<{ reservationId: string; expiresAt: Date } | string> {
+  const policy = await getTopUpPolicy();
+
+  const amountError = checkAmount(policy, amount);
+  if (amountError) {
+    return amountError;
+  }
+
+  const reservationId = adminDb.collection(TOP_UP_RESERVATIONS_COLLECTION).doc().id;
+  const expiresAt = new Date(Date.now() + TOP_UP_RESERVATION_MINUTES * 60 * 1000);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const reservationsSnap = await transaction.get(reservationsRef(userId));
+    const { remaining, limitReason } = await getRemainingTopUpAllowance(userId, policy, transaction);
+    const limitError = checkRemaining(amountUsd, remaining, limitReason);
+    if (limitError) {
+      return limitError;
+    }
+
+    // Rewritten whole, which also drops expired reservations
+    transaction.set(reservationsRef(userId), {
+      reservations: {
+        ...liveReservations(reservationsSnap.data()),
+        [reservationId]: { amountUsd, expiresAt: Timestamp.fromDate(expiresAt) }
+      }
+    });
+    return { reservationId, expiresAt };
+  });
+}
+
+/**
+ * Keep holding a reservation while a delayed payment (e.g. a bank debit) settles
+ */
+export async function extendTopUpReservation(userId: string, reservationId: string): Promise<void> {
+  await adminDb.runTransaction(async (transaction) => {
+    const reservations = liveReservations((await transaction.get(reservationsRef(userId))).data());
+    const reservation = reservations[reservationId];
+    if (!reservation) {
+      return;
+    }
+    const expiresAt = Timestamp.fromMillis(Date.now() + ASYNC_PAYMENT_RESERVATION_DAYS * 24 * 60 * 60 * 1000);
+    transaction.set(reservationsRef(userId), {
+      reservations: { ...reservations, [reservationId]: { ...reservation, expiresAt } }
+    });
+  });
+}
+
+/**
+ * Stop holding a reservation, once its session is credited, expires or fails
+ */
+export async function releaseTopUpReservation(userId: string, reservationId: string): Promise<void> {
+  await reservationsRef(userId).set({ reservations: { [reservationId]: FieldValue.delete() } }, { merge: true });
+}
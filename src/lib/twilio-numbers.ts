@@ -0,0 +1,155 @@
+import twilio from 'twilio';
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getNumberLocation } from '@/utils/phoneValidation';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const POOL_USAGE_COLLECTION = 'pool_numbers'; // Pool number (E.164) -> usage counters
+const VIRTUAL_NUMBERS_COLLECTION = 'virtual_numbers'; // Numbers rented by users, kept out of rotation
+
+// A number that placed a call this recently is only reused if every number is resting
+const COOL_DOWN_MS = 60 * 1000;
+// Calls per number per UTC day before it rests until tomorrow
+const MAX_DAILY_CALLS_PER_NUMBER = 100;
+
+// Cache for phone numbers to avoid frequent API calls
+let phoneNumbersCache: string[] = [];
+let lastCacheTime = 0;
+const CACHE_TTL = 1000 * 60 * 10; // 10 minutes
+
+/**
+ * Fetches active Twilio phone numbers and caches them
+ */
+export async function fetchPoolNumbers(): Promise<string[]> {
+  try {
+    // If cache is still valid, return cached numbers
+    const now = Date.now();
+    if (phoneNumbersCache.length > 0 && now - lastCacheTime < CACHE_TTL) {
+      console.log('[twilio-numbers] Using cached phone numbers');
+      return phoneNumbersCache;
+    }
+
+    console.log('[twilio-numbers] Fetching phone numbers from Twilio');
+
+    // Created here rather than at import so routes that only check numbers load without Twilio credentials
+    const twilioClient = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN);
+
+    // Fetch incoming phone numbers from Twilio
+    const incomingPhoneNumbers = await twilioClient.incomingPhoneNumbers.list({
+      limit: 100, // Adjust if you have more numbers
+    });
+
+    // Extract phone numbers in E.164 format
+    const phoneNumbers = incomingPhoneNumbers.map(number => number.phoneNumber);
+
+    // Update cache
+    phoneNumbersCache = phoneNumbers;
+    lastCacheTime = now;
+
+    console.log(`[twilio-numbers] Fetched ${phoneNumbers.length} phone numbers from Twilio`);
+    return phoneNumbers;
+  } catch (error) {
+    console.error('Error fetching Twilio phone numbers:', error);
+
+    // If error occurred but we have cached numbers, return those
+    if (phoneNumbersCache.length > 0) {
+      console.log('[twilio-numbers] Using cached phone numbers due to error');
+      return phoneNumbersCache;
+    }
+
+    // If no cached numbers, return empty array or throw
+    throw new Error('Failed to fetch Twilio phone numbers');
+  }
+}
+
+/**
+ * Whether a number is one of ours: in the Twilio pool or the default TWILIO_CALLER_ID
+ */
+export async function isPoolNumber(phoneNumber: string): Promise<boolean> {
+  if (phoneNumber === process.env.TWILIO_CALLER_ID) {
+    return true;
+  }
+  try {
+    return (await fetchPoolNumbers()).includes(phoneNumber);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the pool number to call a destination from, leaving out rented numbers
+ * Prefers, in order: a number that isn't resting (cooling down or at its daily cap), then one in the
+ * destination's area code, country, or calling code (e.g. +1 across the US and Canada), then the
+ * number used least today. Records the use against the chosen number.
+ * @returns The caller ID, or TWILIO_CALLER_ID if the pool is empty or unavailable
+ */
+export async function selectPoolNumber(destination: string): Promise<string | undefined> {
+  let pool: string[];
+  try {
+    pool = await fetchPoolNumbers();
+  } catch {
+    pool = [];
+  }
+  // A rented number rings its renter when called back, so only they call from it
+  if (pool.length > 0) {
+    const rentalSnaps = await adminDb.getAll(...pool.map(number => adminDb.collection(VIRTUAL_NUMBERS_COLLECTION).doc(number)));
+    pool = pool.filter((_, index) => !rentalSnaps[index].exists);
+  }
+  if (pool.length === 0) {
+    return process.env.TWILIO_CALLER_ID;
+  }
+
+  const target = getNumberLocation(destination);
+  const today = new Date().toISOString().slice(0, 10);
+  const now = Date.now();
+  const usageDocs = await adminDb.getAll(...pool.map(number => adminDb.collection(POOL_USAGE_COLLECTION).doc(number)));
+
+  const candidates = pool.map((number, index) => {
+    const usage = usageDocs[index].data();
+    const dailyCount = usage?.day === today ? usage.dailyCount || 0 : 0;
+    const lastUsedAt = usage?.lastUsedAt instanceof Timestamp ? usage.lastUsedAt.toMillis() : 0;
+    const location = getNumberLocation(number);
+
+    // 0 = same area code ... 3 = elsewhere
+    let proximity = 3;
+    if (target && location?.country === target.country) {
+      proximity = target.areaCode && location.areaCode === target.areaCode ? 0 : 1;
+    } else if (target && location?.callingCode === target.callingCode) {
+      proximity = 2;
+    }
+
+    const resting = now - lastUsedAt < COOL_DOWN_MS || dailyCount >= MAX_DAILY_CALLS_PER_NUMBER;
+    return { number, resting, proximity, dailyCount, lastUsedAt };
+  });
+
+  candidates.sort((a, b) =>
+    Number(a.resting) - Number(b.resting) ||
+    a.proximity - b.proximity ||
+    a.dailyCount - b.dailyCount ||
+    a.lastUsedAt - b.lastUsedAt
+  );
+  const selected = candidates[0];
+
+  await recordPoolNumberUse(selected.number, today);
+  console.log(`[twilio-numbers] Selected ${selected.number} for ${destination} (proximity ${selected.proximity}, ${selected.dailyCount} calls today${selected.resting ? ', all numbers resting' : ''})`);
+  return selected.number;
+}
+
+/**
+ * Count a call against a pool number, resetting its daily count on a new UTC day
+ */
+async function recordPoolNumberUse(number: string, today: string): Promise<void> {
+  const usageRef = adminDb.collection(POOL_USAGE_COLLECTION).doc(number);
+  await adminDb.runTransaction(async (transaction) => {
+    const usage = (await transaction.get(usageRef)).data();
+    transaction.set(usageRef, {
+      day: today,
+      dailyCount: usage?.day === today ? FieldValue.increment(1) : 1,
+      totalCount: FieldValue.increment(1),
+      lastUsedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+  });
+}
@@ -1,6 +1,7 @@
 import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
 import { db } from './firebase';
 import { User } from 'firebase/auth';
+import { REFERRAL_CODE_STORAGE_KEY } from '@/types/referral';
 
 // Constants for Loops API
 const LOOPS_API_KEY = process.env.LOOPS_API_KEY || '';
@@ -76,6 +77,33 @@ export async function ensureUserDocument(user: User): Promise<void> {
       }
       // --- End Loops Trigger --- 
 
+      // --- Record the referral code the user arrived with ---
+      const referralCode = typeof window !== 'undefined' ? localStorage.getItem(REFERRAL_CODE_STORAGE_KEY) : null;
+      if (referralCode) {
+        try {
+          const idToken = await user.getIdToken();
+          const response = await fetch('/api/referrals/attribute', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${idToken}`,
+            },
+            body: JSON.stringify({ code: referralCode }),
+          });
+          const result = await response.json();
+          if (response.ok) {
+            console.log(`[ensureUserDocument] Recorded referral code ${referralCode} for ${user.uid}`);
+          } else {
+            console.warn(`[ensureUserDocument] Referral code ${referralCode} not recorded for ${user.uid}: ${result.error || 'Unknown error'}`);
+          }
+        } catch (referralError) {
+          console.error(`[ensureUserDocument] Exception recording referral for ${user.uid}:`, referralError);
+        } finally {
+          // One attempt only; a rejected code shouldn't follow the user to another account
+          localStorage.removeItem(REFERRAL_CODE_STORAGE_KEY);
+        }
+      }
+
     } else {
       console.log(`[ensureUserDocument] User document exists, updating lastLogin for ${user.uid}`);
       // Update the lastLogin field
@@ -188,4 +216,23 @@ export async function isUserAdmin(userId: string): Promise<boolean> {
     console.error('Error checking admin status:', error);
     return false;
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Saves a user's currency preferences
+ * @param userId The user ID to update
+ * @param preferences displayCurrency (prices and balance) and/or walletCurrency (top-up charges)
+ * @returns True if saved, false otherwise
+ */
+export async function updateCurrencyPreferences(
+  userId: string,
+  preferences: { displayCurrency?: string; walletCurrency?: string }
+): Promise<boolean> {
+  try {
+    const userRef = doc(db, 'users', userId);
+    await updateDoc(userRef, preferences);
+    return true;
+  } catch (error) {
+    console.error('Error saving currency preferences:', error);
+    return false;
+  }
+}
@@ -0,0 +1,272 @@
+import { addMonths } from 'date-fns';
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentData, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { recordLedgerEntry } from '@/lib/ledger';
+import { maybeTriggerAutoRecharge } from '@/lib/auto-recharge';
+import { fetchPoolNumbers } from '@/lib/twilio-numbers';
+import { getNumberLocation } from '@/utils/phoneValidation';
+import {
+  AvailableVirtualNumber,
+  DEFAULT_VIRTUAL_NUMBER_SETTINGS,
+  RENEWAL_GRACE_DAYS,
+  VirtualNumber,
+  VirtualNumberSettings
+} from '@/types/virtual-number';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const VIRTUAL_NUMBERS_COLLECTION = 'virtual_numbers'; // E.164 number -> rental, deleted on release
+const SETTINGS_COLLECTION = 'settings';
+const VIRTUAL_NUMBER_SETTINGS_DOC = 'virtual_numbers';
+
+// Sanity bounds for what an admin can charge
+const MAX_MONTHLY_FEE = 100;
+const MAX_INBOUND_RATE = 5;
+
+const toDate = (value: unknown) => (value instanceof Timestamp ? value.toDate() : new Date());
+
+/**
+ * Convert a stored rental's timestamps back to Dates
+ */
+function toVirtualNumber(data: DocumentData): VirtualNumber {
+  return {
+    number: data.number,
+    userId: data.userId,
+    monthlyFee: data.monthlyFee,
+    rentedAt: toDate(data.rentedAt),
+    renewsAt: toDate(data.renewsAt)
+  };
+}
+
+/**
+ * Get the virtual number settings, falling back to the defaults
+ */
+export async function getVirtualNumberSettings(): Promise<VirtualNumberSettings> {
+  const settingsSnap = await adminDb.collection(SETTINGS_COLLECTION).doc(VIRTUAL_NUMBER_SETTINGS_DOC).get();
+  return { ...DEFAULT_VIRTUAL_NUMBER_SETTINGS, ...settingsSnap.data() };
+}
+
+/**
+ * Validate and save the virtual number settings
+ * A new monthly fee applies from each rental's next renewal.
+ * @returns An error message, or null if saved
+ */
+export async function saveVirtualNumberSettings(settings: VirtualNumberSettings, adminUid: string): Promise<string | null> {
+  const { enabled, monthlyFee, inboundRatePerMinute } = settings;
+
+  if (typeof enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+  if (typeof monthlyFee !== 'number' || !Number.isFinite(monthlyFee) || monthlyFee < 0 || monthlyFee > MAX_MONTHLY_FEE) {
+    return `Monthly fee must be between $0 and $${MAX_MONTHLY_FEE}`;
+  }
+  if (typeof inboundRatePerMinute !== 'number' || !Number.isFinite(inboundRatePerMinute) || inboundRatePerMinute < 0 || inboundRatePerMinute > MAX_INBOUND_RATE) {
+    return `Inbound rate must be between $0 and $${MAX_INBOUND_RATE} per minute`;
+  }
+
+  await adminDb.collection(SETTINGS_COLLECTION).doc(VIRTUAL_NUMBER_SETTINGS_DOC).set({
+    enabled,
+    monthlyFee: Math.round(monthlyFee * 100) / 100,
+    inboundRatePerMinute: Math.round(inboundRatePerMinute * 10000) / 10000,
+    updatedAt: FieldValue.serverTimestamp(),
+    updatedBy: adminUid
+  });
+  return null;
+}
+
+/**
+ * Get the rental for a number, if it's rented
+ */
+export async function getRentalForNumber(number: string): Promise<VirtualNumber | null> {
+  const rentalSnap = await adminDb.collection(VIRTUAL_NUMBERS_COLLECTION).doc(number).get();
+  return rentalSnap.exists ? toVirtualNumber(rentalSnap.data()!) : null;
+}
+
+/**
+ * Get the number a user rents, if any
+ */
+export async function getUserVirtualNumber(userId: string): Promise<VirtualNumber | null> {
+  const userDoc = await adminDb.collection(USERS_COLLECTION).doc(userId).get();
+  const number = userDoc.data()?.virtualNumber;
+  if (!number) {
+    return null;
+  }
+  const rental = await getRentalForNumber(number);
+  return rental?.userId === userId ? rental : null;
+}
+
+/**
+ * List every current rental, soonest renewal first (admin view)
+ */
+export async function listRentals(): Promise<VirtualNumber[]> {
+  const snapshot = await adminDb.collection(VIRTUAL_NUMBERS_COLLECTION).orderBy('renewsAt').get();
+  return snapshot.docs.map(doc => toVirtualNumber(doc.data()));
+}
+
+/**
+ * List pool numbers nobody rents
+ * The default TWILIO_CALLER_ID is kept back, since it's the fallback caller ID for everyone.
+ */
+export async function listAvailableVirtualNumbers(): Promise<AvailableVirtualNumber[]> {
+  const pool = (await fetchPoolNumbers()).filter(number => number !== process.env.TWILIO_CALLER_ID);
+  if (pool.length === 0) {
+    return [];
+  }
+  const rentalSnaps = await adminDb.getAll(...pool.map(number => adminDb.collection(VIRTUAL_NUMBERS_COLLECTION).doc(number)));
+  return pool
+    .filter((_, index) => !rentalSnaps[index].exists)
+    .map(number => ({ number, country: getNumberLocation(number)?.country ?? null }))
+    .sort((a, b) => (a.country || '').localeCompare(b.country || '') || a.number.localeCompare(b.number));
+}
+
+/**
+ * Rent a pool number, charging the first month's fee from the balance
+ * @returns The rental, or an error message
+ */
+export async function rentVirtualNumber(userId: string, number: string): Promise<VirtualNumber | string> {
+  const settings = await getVirtualNumberSettings();
+  if (!settings.enabled) {
+    return 'Number rental is not available right now';
+  }
+  const available = await listAvailableVirtualNumbers();
+  if (!available.some(candidate => candidate.number === number)) {
+    return 'This number is not available';
+  }
+
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+  const rentalRef = adminDb.collection(VIRTUAL_NUMBERS_COLLECTION).doc(number);
+  const now = new Date();
+  const renewsAt = addMonths(now, 1);
+
+  const result = await adminDb.runTransaction(async (transaction) => {
+    const [userSnap, rentalSnap] = await Promise.all([transaction.get(userRef), transaction.get(rentalRef)]);
+    if (rentalSnap.exists) {
+      return 'This number is not available';
+    }
+    if (userSnap.data()?.virtualNumber) {
+      return 'You already rent a number. Release it before renting another.';
+    }
+    if ((userSnap.data()?.balance || 0) < settings.monthlyFee) {
+      return `Your balance must cover the first month ($${settings.monthlyFee.toFixed(2)})`;
+    }
+
+    const balanceAfter = settings.monthlyFee > 0
+      ? recordLedgerEntry(transaction, userSnap, {
+          type: 'number_rental',
+          amount: -settings.monthlyFee,
+          counterAccount: 'revenue',
+          source: 'system',
+          details: { phoneNumber: number, periodEnd: Timestamp.fromDate(renewsAt) }
+        })
+      : userSnap.data()?.balance || 0;
+    transaction.set(rentalRef, {
+      number,
+      userId,
+      monthlyFee: settings.monthlyFee,
+      rentedAt: Timestamp.fromDate(now),
+      renewsAt: Timestamp.fromDate(renewsAt)
+    });
+    transaction.update(userRef, { virtualNumber: number });
+    return balanceAfter;
+  });
+
+  if (typeof result === 'string') {
+    return result;
+  }
+  console.log(`[virtual-numbers] User ${userId} rented ${number} until ${renewsAt.toISOString()}`);
+  await maybeTriggerAutoRecharge(userId, result);
+  return { number, userId, monthlyFee: settings.monthlyFee, rentedAt: now, renewsAt };
+}
+
+/**
+ * Give up a rented number. The current month isn't refunded.
+ * @returns False if the user doesn't rent a number
+ */
+export async function releaseVirtualNumber(userId: string, reason: string): Promise<boolean> {
+  const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const number = (await transaction.get(userRef)).data()?.virtualNumber;
+    if (!number) {
+      return false;
+    }
+    const rentalRef = adminDb.collection(VIRTUAL_NUMBERS_COLLECTION).doc(number);
+    const rentalSnap = await transaction.get(rentalRef);
+    if (rentalSnap.data()?.userId === userId) {
+      transaction.delete(rentalRef);
+    }
+    transaction.update(userRef, { virtualNumber: FieldValue.delete() });
+    console.log(`[virtual-numbers] User ${userId} released ${number} (${reason})`);
+    return true;
+  });
+}
+
+/**
+ * Charge the monthly fee for every rental that's due
+ * A rental the balance can't cover is retried on later runs, and released once it's
+ * RENEWAL_GRACE_DAYS overdue.
+ */
+export async function renewDueVirtualNumbers(): Promise<{ renewed: number; released: number; unpaid: number }> {
+  const settings = await getVirtualNumberSettings();
+  const now = new Date();
+  const dueSnap = await adminDb.collection(VIRTUAL_NUMBERS_COLLECTION).where('renewsAt', '<=', Timestamp.fromDate(now)).get();
+  const summary = { renewed: 0, released: 0, unpaid: 0 };
+
+  for (const dueDoc of dueSnap.docs) {
+    const { number, userId } = dueDoc.data();
+    const userRef = adminDb.collection(USERS_COLLECTION).doc(userId);
+
+    try {
+      const outcome = await adminDb.runTransaction(async (transaction) => {
+        const [rentalSnap, userSnap] = await Promise.all([transaction.get(dueDoc.ref), transaction.get(userRef)]);
+        const renewsAt = rentalSnap.data()?.renewsAt as Timestamp | undefined;
+        if (!rentalSnap.exists || !renewsAt || renewsAt.toMillis() > now.getTime()) {
+          return { status: 'skipped' as const }; // Released or renewed since the query
+        }
+
+        const balance = userSnap.data()?.balance || 0;
+        if (balance < settings.monthlyFee) {
+          const overdueDays = (now.getTime() - renewsAt.toMillis()) / (24 * 60 * 60 * 1000);
+          if (overdueDays < RENEWAL_GRACE_DAYS) {
+            return { status: 'unpaid' as const, balance };
+          }
+          transaction.delete(dueDoc.ref);
+          transaction.update(userRef, { virtualNumber: FieldValue.delete() });
+          return { status: 'released' as const };
+        }
+
+        const nextRenewal = addMonths(renewsAt.toDate(), 1);
+        const balanceAfter = settings.monthlyFee > 0
+          ? recordLedgerEntry(transaction, userSnap, {
+              type: 'number_rental',
+              amount: -settings.monthlyFee,
+              counterAccount: 'revenue',
+              source: 'system',
+              details: { phoneNumber: number, periodEnd: Timestamp.fromDate(nextRenewal) }
+            })
+          : balance;
+        transaction.update(dueDoc.ref, { renewsAt: Timestamp.fromDate(nextRenewal), monthlyFee: settings.monthlyFee });
+        return { status: 'renewed' as const, balance: balanceAfter };
+      });
+
+      if (outcome.status === 'renewed') {
+        summary.renewed++;
+        await maybeTriggerAutoRecharge(userId, outcome.balance);
+      } else if (outcome.status === 'unpaid') {
+        summary.unpaid++;
+        // Give auto-recharge a chance to cover the fee before the next run
+        await maybeTriggerAutoRecharge(userId, outcome.balance);
+      } else if (outcome.status === 'released') {
+        summary.released++;
+        console.warn(`[virtual-numbers] Released ${number} from user ${userId}: renewal unpaid for ${RENEWAL_GRACE_DAYS} days`);
+      }
+    } catch (error) {
+      console.error(`[virtual-numbers] Error renewing ${number} for user ${userId}:`, error);
+    }
+  }
+
+  return summary;
+}
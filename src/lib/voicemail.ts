@@ -0,0 +1,130 @@
+import twilio from 'twilio';
+import { initializeFirebaseAdmin, getAdminFirestore } from '@/lib/firebase-admin';
+import { DocumentData, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { MAX_VOICEMAILS_LISTED, Voicemail, VOICEMAIL_MAX_LENGTH_SECONDS } from '@/types/voicemail';
+
+// Initialize Admin SDK (idempotent)
+initializeFirebaseAdmin();
+const adminDb = getAdminFirestore();
+
+const USERS_COLLECTION = 'users';
+const VOICEMAILS_SUBCOLLECTION = 'voicemails';
+
+// Same production URL as /api/voice, so Twilio's callbacks don't hit preview deployments
+const appBaseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://app.zippcall.com';
+
+const voicemailsRef = (userId: string) =>
+  adminDb.collection(USERS_COLLECTION).doc(userId).collection(VOICEMAILS_SUBCOLLECTION);
+
+/**
+ * Convert a stored voicemail's timestamp back to a Date
+ */
+function toVoicemail(id: string, data: DocumentData): Voicemail {
+  return {
+    id,
+    from: data.from || '',
+    to: data.to || '',
+    durationSeconds: data.durationSeconds || 0,
+    recordingUrl: data.recordingUrl,
+    transcription: data.transcription ?? null,
+    read: data.read === true,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date()
+  };
+}
+
+/**
+ * Play the voicemail greeting and record a message for the renter of a number
+ * The recording and its transcription are saved by /api/voicemail-callback.
+ */
+export function appendVoicemailPrompt(
+  twiml: twilio.twiml.VoiceResponse,
+  userId: string,
+  virtualNumber: string,
+  from: string
+): void {
+  const callbackParams = new URLSearchParams({ UserId: userId, VirtualNumber: virtualNumber, From: from || '' });
+  const callbackUrl = (event: 'recording' | 'transcription') =>
+    `${appBaseUrl}/api/voicemail-callback?${callbackParams.toString()}&Event=${event}`;
+
+  twiml.say({ voice: 'alice', language: 'en-US' },
+    'The person you are calling is not available. Please leave a message after the tone.');
+  twiml.record({
+    maxLength: VOICEMAIL_MAX_LENGTH_SECONDS,
+    playBeep: true,
+    trim: 'trim-silence',
+    recordingStatusCallback: callbackUrl('recording'),
+    recordingStatusCallbackMethod: 'POST',
+    recordingStatusCallbackEvent: ['completed'],
+    transcribe: true,
+    transcribeCallback: callbackUrl('transcription')
+  });
+  twiml.hangup();
+}
+
+/**
+ * Save a finished recording to the user's inbox
+ * Keyed by RecordingSid so a repeated callback doesn't add a second message.
+ */
+export async function saveVoicemailRecording(
+  userId: string,
+  recording: { recordingSid: string; recordingUrl: string; durationSeconds: number; from: string; to: string; callSid: string }
+): Promise<void> {
+  const voicemailRef = voicemailsRef(userId).doc(recording.recordingSid);
+  await adminDb.runTransaction(async (transaction) => {
+    const existing = await transaction.get(voicemailRef);
+    transaction.set(voicemailRef, {
+      from: recording.from,
+      to: recording.to,
+      durationSeconds: recording.durationSeconds,
+      recordingUrl: recording.recordingUrl,
+      callSid: recording.callSid,
+      // The transcription callback may already have created the document
+      ...(!existing.data()?.createdAt && { read: false, createdAt: FieldValue.serverTimestamp() })
+    }, { merge: true });
+  });
+  console.log(`[voicemail] Saved ${recording.recordingSid} (${recording.durationSeconds}s from ${recording.from}) for user ${userId}`);
+}
+
+/**
+ * Attach Twilio's transcription to a voicemail (null if transcription failed)
+ */
+export async function saveVoicemailTranscription(userId: string, recordingSid: string, transcription: string | null): Promise<void> {
+  await voicemailsRef(userId).doc(recordingSid).set({ transcription }, { merge: true });
+}
+
+/**
+ * List the user's most recent voicemails, newest first
+ */
+export async function listVoicemails(userId: string): Promise<Voicemail[]> {
+  const snapshot = await voicemailsRef(userId).orderBy('createdAt', 'desc').limit(MAX_VOICEMAILS_LISTED).get();
+  return snapshot.docs
+    .filter(doc => doc.data().recordingUrl) // Skip a transcription that arrived before its recording
+    .map(doc => toVoicemail(doc.id, doc.data()));
+}
+
+/**
+ * Mark a voicemail as read or unread
+ * @returns False if the voicemail doesn't exist
+ */
+export async function setVoicemailRead(userId: string, voicemailId: string, read: boolean): Promise<boolean> {
+  const voicemailRef = voicemailsRef(userId).doc(voicemailId);
+  if (!(await voicemailRef.get()).exists) {
+    return false;
+  }
+  await voicemailRef.update({ read });
+  return true;
+}
+
+/**
+ * Fetch a voicemail's audio (MP3) from Twilio with the account credentials
+ * @returns The Twilio response, or null if the voicemail doesn't exist
+ */
+export async function fetchVoicemailAudio(userId: string, voicemailId: string): Promise<Response | null> {
+  const voicemailSnap = await voicemailsRef(userId).doc(voicemailId).get();
+  const recordingUrl = voicemailSnap.data()?.recordingUrl;
+  if (!recordingUrl) {
+    return null;
+  }
+  const credentials = Buffer.from(`${process.env.TWILIO_ACCOUNT_SID}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64');
+  return fetch(`${recordingUrl}.mp3`, { headers: { Authorization: `Basic ${credentials}` } });
+}
@@ -0,0 +1,54 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Auto-recharge settings, stored as users/{uid}.autoRecharge and written only by the server
+ * Amounts are in USD like the balance.
+ */
+export interface AutoRechargeSettings {
+  enabled: boolean;
+  threshold: number;                // Recharge when the balance drops below this
+  amount: number;                   // Amount to add each time
+  paymentMethodId: string | null;   // Saved Stripe card, charged off-session
+  cardBrand: string | null;
+  cardLast4: string | null;
+  failureCount: number;             // Consecutive declines; auto-recharge turns off at the limit
+  lastAttemptAt: Date | Timestamp | null;
+  lastFailureReason: string | null;
+  lastFailedPaymentIntentId?: string | null; // Keeps a decline reported twice from counting twice
+}
+
+// Limits shared by the settings form and the API
+export const AUTO_RECHARGE_MIN_THRESHOLD = 1;
+export const AUTO_RECHARGE_MAX_THRESHOLD = 50;
+
+/**
+ * Top-up amounts and limits, stored as settings/top_up_policy and enforced on every funding path
+ * Amounts are in the checkout currency; limits are in USD like the balance.
+ */
+export interface TopUpPolicy {
+  amounts: number[];            // Offered in the Add Funds modal and for auto-recharge
+  minAmount: number;
+  maxAmount: number;
+  dailyLimit: number;           // Per user, per UTC day
+  monthlyLimit: number;         // Per user, per UTC month
+  firstTopUpMaxAmount: number;  // Cap on a user's first top-up, to limit card testing and fraud
+}
+
+export const DEFAULT_TOP_UP_POLICY: TopUpPolicy = {
+  amounts: [5, 10, 15, 20, 30, 50],
+  minAmount: 5,
+  maxAmount: 100,
+  dailyLimit: 200,
+  monthlyLimit: 1000,
+  firstTopUpMaxAmount: 50
+};
+
+/**
+ * What a user can top up right now, as returned by /api/top-up-policy
+ */
+export interface TopUpAllowance {
+  amounts: number[];
+  minAmount: number;
+  maxAmount: number;            // The most this user can add now, in the checkout currency
+  limitReason: string | null;   // Why maxAmount is below the policy maximum, if it is
+}
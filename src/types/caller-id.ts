@@ -0,0 +1,20 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type CallerIdVerificationChannel = 'sms' | 'call';
+
+/**
+ * A phone number the user has proven they own, stored in users/{uid}.verifiedCallerIds
+ */
+export interface VerifiedCallerId {
+  number: string;  // E.164
+  verifiedAt: Date | Timestamp;
+}
+
+export const MAX_VERIFIED_CALLER_IDS = 5;
+export const CALLER_ID_CODE_LENGTH = 6;
+export const CALLER_ID_CODE_TTL_MINUTES = 10;
+export const MAX_CALLER_ID_CODE_ATTEMPTS = 5;
+// Codes sent to one user per hour, across all numbers
+export const MAX_CALLER_ID_CODES_PER_HOUR = 5;
+// Codes sent to one number per hour, across all users
+export const MAX_CALLER_ID_CODES_PER_NUMBER_PER_HOUR = 3;
@@ -0,0 +1,39 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type ContactNumberLabel = 'mobile' | 'home' | 'work' | 'other';
+
+export const CONTACT_NUMBER_LABELS: Record<ContactNumberLabel, string> = {
+  mobile: 'Mobile',
+  home: 'Home',
+  work: 'Work',
+  other: 'Other'
+};
+
+export interface ContactNumber {
+  label: ContactNumberLabel;
+  number: string;  // E.164, e.g. +442079460000
+}
+
+/**
+ * An address book entry, stored as users/{uid}/contacts/{contactId} and written only via /api/contacts
+ */
+export interface Contact {
+  id: string;
+  name: string;
+  numbers: ContactNumber[];
+  notes: string;
+  favorite: boolean;
+  createdAt: Date | Timestamp;
+  updatedAt: Date | Timestamp;
+}
+
+// What the client sends to create or update a contact
+export type ContactInput = Pick<Contact, 'name' | 'numbers' | 'notes' | 'favorite'>;
+
+export type ContactFileFormat = 'vcard' | 'csv';
+
+// Limits shared by the contact form and the API
+export const MAX_CONTACTS = 1000;
+export const MAX_CONTACT_NUMBERS = 5;
+export const MAX_CONTACT_NAME_LENGTH = 100;
+export const MAX_CONTACT_NOTES_LENGTH = 1000;
@@ -0,0 +1,98 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Ledger accounts. Every entry posts to the user's wallet and one counter account
+ * (plus tax_payable for taxed top-ups), and its postings always sum to zero.
+ */
+export type LedgerAccount =
+  | 'user_wallet'      // The user's prepaid balance (users/{uid}.balance)
+  | 'revenue'          // Call charges and number rental fees earned from the wallet
+  | 'stripe_clearing'  // Money collected by Stripe for top-ups
+  | 'promo_liability'  // Free credit we've granted (promo codes, referrals)
+  | 'adjustments'      // Manual corrections by admins
+  | 'tax_payable';     // VAT/GST collected on top-ups, owed to the tax authority
+
+export type LedgerTransactionType =
+  | 'deposit'        // Top-ups and auto-recharges
+  | 'call'           // Call charges, outgoing and incoming
+  | 'number_rental'  // Monthly fees for a rented virtual number
+  | 'adjustment'     // Admin and reconciliation changes
+  | 'refund'         // A top-up refunded to the card
+  | 'dispute'        // Funds held for a chargeback, and released if we win it
+  | 'promo'          // Promo code credit, kept apart from paid deposits
+  | 'referral';      // Referral rewards for the referrer and the new user
+
+/**
+ * Why an admin adjusted a balance
+ */
+export type AdjustmentCategory = 'refund' | 'goodwill_credit' | 'correction';
+
+export const ADJUSTMENT_CATEGORY_LABELS: Record<AdjustmentCategory, string> = {
+  refund: 'Refund',
+  goodwill_credit: 'Goodwill credit',
+  correction: 'Correction'
+};
+
+/**
+ * One side of a ledger entry. Amounts are in USD; a positive wallet posting adds to the balance.
+ */
+export interface LedgerPosting {
+  account: LedgerAccount;
+  amount: number;
+}
+
+/**
+ * A balance change to record against a user's wallet
+ */
+export interface LedgerEntryInput {
+  type: LedgerTransactionType;
+  amount: number;                 // Signed change to the wallet in USD, e.g. -0.25 for a call
+  counterAccount: LedgerAccount;  // Where the money comes from or goes to
+  source: string;                 // 'stripe', 'system', 'admin', ...
+  status?: string;                // Defaults to 'completed'
+  taxAmount?: number;             // USD tax collected on top of a deposit; never reaches the wallet
+  details?: Record<string, unknown>; // Extra fields stored on the transaction (callId, stripeSessionId, ...)
+}
+
+/**
+ * A transaction document in users/{uid}/transactions as written by the ledger
+ */
+export interface LedgerTransaction {
+  id: string;
+  type: LedgerTransactionType;
+  amount: number;
+  currency: 'usd';
+  status: string;
+  source: string;
+  postings: LedgerPosting[];
+  balanceAfter: number;           // The user's balance once this entry was applied
+  createdAt: Date | Timestamp;
+  [key: string]: unknown;
+}
+
+/**
+ * A user whose stored balance disagrees with the sum of their transactions
+ */
+export interface BalanceDrift {
+  userId: string;
+  email: string | null;
+  storedBalance: number;  // users/{uid}.balance
+  ledgerBalance: number;  // Sum of users/{uid}/transactions
+  drift: number;          // storedBalance - ledgerBalance
+  correctedAt?: Date | Timestamp;
+  correctedBy?: string;
+}
+
+/**
+ * The result of one reconciliation run, stored in reconciliation_reports
+ */
+export interface ReconciliationReport {
+  id: string;
+  runAt: Date | Timestamp;
+  triggeredBy: string;    // 'cron' or the admin's uid
+  usersChecked: number;
+  tolerance: number;
+  drifts: BalanceDrift[];
+  cursor: string | null;              // Last user ID checked; the run carries on after it
+  completedAt: Date | Timestamp | null; // Null while the run still has users to check
+}
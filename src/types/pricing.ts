@@ -10,9 +10,13 @@ import { Timestamp } from "firebase/firestore";
 export interface TwilioPriceData {
   countryCode: string;  // ISO country code (e.g., "US")
   countryName: string;  // Full country name (e.g., "United States")
-  finalPrice: number;   // Price in USD
+  basePrice?: number;   // Raw Twilio cost per minute in USD (before markup)
+  finalPrice?: number;  // Legacy: pre-marked-up price from older imports, used only when basePrice is missing
   currency: string;     // Currency code (typically "USD")
   lastUpdated: Date | Timestamp;    // When this price was last fetched from Twilio
+  initialIncrement?: number;    // Seconds billed for the first block, i.e. the minimum duration (default 60)
+  subsequentIncrement?: number; // Seconds per block after the first (default 60)
+  connectionFee?: number;       // Flat USD charge per answered call (default 0)
 }
 
 /**
@@ -22,7 +26,10 @@ export interface FinalPriceData extends TwilioPriceData {
   markup: number;       // Markup percentage (e.g., 20 for 20%)
   markupAmount: number; // Actual amount added to the base price
   finalPrice: number;   // Final price with markup applied
-  billingIncrement: number; // In seconds, typically 60 for per-minute billing
+  billingIncrement: number; // In seconds, typically 60 for per-minute billing (same as subsequentIncrement)
+  initialIncrement: number;
+  subsequentIncrement: number;
+  connectionFee: number;
 }
 
 /**
@@ -35,10 +42,34 @@ export interface PhoneNumberPriceResponse {
   finalPrice: number;        // Final price per minute
   currency: string;          // Currency (typically USD)
   billingIncrement: number;  // Billing increment in seconds
+  initialIncrement?: number; // First billed block in seconds (defaults to billingIncrement)
+  connectionFee?: number;    // Flat charge per answered call
   calculatedCost?: number;   // Optional precalculated total cost
   duration?: number;         // Optional call duration in seconds
   isEstimate: boolean;       // Whether this is an estimate or exact
   isUnsupported?: boolean;   // Whether this country is unsupported by Twilio
+  priceBookVersion?: number; // Version of the price book used for this quote
+  destinationPrefix?: string; // Matched destination prefix, if a prefix rate was used
+  description?: string;      // Destination description (e.g., "United Kingdom - Mobile")
+  pricingPlanId?: string;    // Custom pricing plan applied to this quote, if any
+}
+
+/**
+ * Rate for a destination prefix within a country (e.g., UK mobiles)
+ */
+export interface PrefixRate {
+  prefix: string;       // E.164 digits without "+" (e.g., "447")
+  description: string;  // Twilio destination description (e.g., "United Kingdom - Mobile")
+  basePrice: number;    // Raw Twilio cost per minute in USD
+}
+
+/**
+ * Prefix rate table for a single country
+ */
+export interface CountryPrefixRates {
+  countryCode: string;  // ISO country code
+  rates: PrefixRate[];
+  lastUpdated: Date | Timestamp;
 }
 
 /**
@@ -51,6 +82,21 @@ export interface MarkupConfig {
   minimumFinalPrice: number; // Minimum final price regardless of base price
 }
 
+/**
+ * Custom pricing for specific accounts (partners, high-volume users)
+ * Assigned to users via users/{uid}.pricingPlanId. Anything the plan leaves unset
+ * falls back to the global MarkupConfig.
+ */
+export interface PricingPlan {
+  id: string;
+  name: string;
+  description?: string;
+  defaultMarkup: number | null;          // Replaces the global default markup when set
+  countryMarkups: Record<string, number>; // Country code -> markup percentage
+  fixedRates: Record<string, number>;     // Country code -> fixed final price per minute (USD)
+  updatedAt: Date | Timestamp;
+}
+
 /**
  * Price update history
  */
@@ -64,6 +110,36 @@ export interface PriceUpdateRecord {
   isSignificant: boolean; // Flag for significant price changes
 }
 
+/**
+ * A CSV line that could not be imported
+ */
+export interface PriceImportParseError {
+  line: number;    // 1-based line number in the file
+  message: string;
+}
+
+/**
+ * A country whose base price differs between two sets of pricing data
+ */
+export interface PriceChangeEntry {
+  countryCode: string;
+  countryName: string;
+  previousBasePrice: number | null; // null when the country is new
+  newBasePrice: number | null;      // null when the country was removed
+  percentageChange: number | null;  // null when either side is missing
+}
+
+/**
+ * Structured diff between the current pricing data and a candidate import
+ */
+export interface PriceImportDiff {
+  added: PriceChangeEntry[];
+  removed: PriceChangeEntry[];
+  increased: PriceChangeEntry[];
+  decreased: PriceChangeEntry[];
+  unchangedCount: number;
+}
+
 /**
  * Format for caching country pricing
  */
@@ -73,6 +149,74 @@ export interface CountryPricingCache {
   data: Record<string, TwilioPriceData>;
 }
 
+/**
+ * How a price book was created
+ */
+export type PriceBookSource = 'csv_import' | 'manual_edit';
+
+/**
+ * Metadata for an immutable, numbered price book
+ */
+export interface PriceBookSummary {
+  version: number;
+  createdAt: Date | Timestamp;
+  createdBy: string | null;        // Email or UID of the admin, null when unknown
+  source: PriceBookSource;
+  sourceFileName: string | null;   // CSV file name for imports
+  basedOnVersion: number | null;   // Version this book was derived from (manual edits)
+  prefixRatesVersion: number;      // Version whose prefix rates belong to this book
+  countryCount: number;
+  prefixCount: number;
+  rowErrorCount: number;           // CSV lines that could not be imported
+  isActive: boolean;
+  activatedAt: Date | Timestamp | null;
+  activatedBy: string | null;
+}
+
+/**
+ * A complete price book, including its country prices
+ */
+export interface PriceBook extends PriceBookSummary {
+  data: Record<string, TwilioPriceData>;
+}
+
+/**
+ * A price change staged to take effect at a future time
+ * - price_book: activates a whole price book (data is a copy of its country prices)
+ * - country: replaces a single country's price in whichever book is active
+ */
+export interface ScheduledPriceChange {
+  id: string;
+  type: 'price_book' | 'country';
+  effectiveAt: Date | Timestamp;
+  status: 'pending' | 'applied' | 'cancelled';
+  priceBookVersion: number | null;            // price_book changes
+  prefixRatesVersion: number | null;          // price_book changes
+  data: Record<string, TwilioPriceData> | null; // price_book changes
+  countryCode: string | null;                 // country changes
+  priceData: TwilioPriceData | null;          // country changes
+  createdAt: Date | Timestamp;
+  createdBy: string | null;
+  appliedAt: Date | Timestamp | null;
+}
+
+/**
+ * Exchange rates maintained by admins (pricing/exchange_rates)
+ * Balances and prices are kept in USD; rates convert them for display and for
+ * charging top-ups in other currencies.
+ */
+export interface ExchangeRateTable {
+  baseCurrency: 'USD';
+  rates: Record<string, number>; // Currency code -> units of that currency per 1 USD
+  updatedAt: Date | Timestamp;
+  updatedBy: string | null;
+}
+
+/**
+ * Currencies users can display prices in and pay top-ups with
+ */
+export const SUPPORTED_CURRENCIES: string[] = ['USD', 'EUR', 'GBP', 'CAD', 'AUD'];
+
 /**
  * List of countries that are not supported by Twilio for outgoing calls
  * ISO country codes (e.g., "CN" for China)
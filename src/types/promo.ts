@@ -0,0 +1,48 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type PromoCodeType =
+  | 'fixed_credit'      // Adds a fixed USD amount when redeemed
+  | 'percentage_bonus'; // Adds a percentage of a top-up when it is paid
+
+/**
+ * Promo code, stored as promo_codes/{code} and written only by the server
+ */
+export interface PromoCode {
+  code: string;                   // Upper-case, also the document ID
+  type: PromoCodeType;
+  value: number;                  // USD for fixed_credit, percent for percentage_bonus
+  maxRedemptions: number | null;  // Across all users; null for unlimited
+  perUserLimit: number;
+  expiresAt: Date | Timestamp | null;
+  newUsersOnly: boolean;          // Only for users who haven't topped up before
+  active: boolean;
+  redemptionCount: number;
+  createdAt: Date | Timestamp;
+  createdBy: string;              // Admin uid
+}
+
+// Fields an admin sets when creating a code
+export type PromoCodeInput = Pick<
+  PromoCode,
+  'code' | 'type' | 'value' | 'maxRedemptions' | 'perUserLimit' | 'newUsersOnly'
+> & {
+  expiresAt: string | null; // ISO date
+};
+
+export const PROMO_CODE_TYPE_LABELS: Record<PromoCodeType, string> = {
+  fixed_credit: 'Fixed Credit',
+  percentage_bonus: 'Top-up Bonus'
+};
+
+// Response from /api/promo-codes/redeem
+export interface PromoCodeRedemption {
+  code: string;
+  type: PromoCodeType;
+  value: number;
+  credit?: number; // USD added, for fixed credits
+}
+
+// Limits shared by the admin form and the API
+export const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+export const MAX_PROMO_FIXED_CREDIT = 100;
+export const MAX_PROMO_BONUS_PERCENT = 100;
@@ -0,0 +1,53 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Referral program settings, stored as settings/referral_program
+ * Rewards are in USD like the balance.
+ */
+export interface ReferralSettings {
+  enabled: boolean;
+  referrerReward: number;         // Credit for the user who shared the link
+  refereeReward: number;          // Credit for the new user
+  maxRewardsPerReferrer: number;  // Rewarded referrals per referrer; later ones are rejected
+}
+
+export const DEFAULT_REFERRAL_SETTINGS: ReferralSettings = {
+  enabled: false,
+  referrerReward: 5,
+  refereeReward: 5,
+  maxRewardsPerReferrer: 20
+};
+
+export type ReferralStatus =
+  | 'pending'   // Signed up, waiting for their first paid top-up
+  | 'rewarded'  // Both users were credited
+  | 'rejected'  // Settled without a reward (see rejectedReason)
+  | 'reversed'; // Rewarded, then taken back because the top-up was refunded or lost to a dispute
+
+export type ReferralRejectedReason = 'same_card' | 'limit_reached' | 'program_disabled';
+
+/**
+ * A referred sign-up, stored as referrals/{refereeId}
+ */
+export interface Referral {
+  refereeId: string;
+  referrerId: string;
+  code: string;
+  status: ReferralStatus;
+  createdAt: Date | Timestamp;
+  settledAt: Date | Timestamp | null;
+  rejectedReason: ReferralRejectedReason | null;
+  referrerReward: number;          // Credited amounts; 0 unless rewarded
+  refereeReward: number;
+  stripeSessionId: string | null;  // The top-up that settled the referral
+  reversedAt: Date | Timestamp | null;
+}
+
+export const REFERRAL_REJECTED_REASON_LABELS: Record<ReferralRejectedReason, string> = {
+  same_card: 'Same payment card as referrer',
+  limit_reached: 'Referrer reached reward limit',
+  program_disabled: 'Program was disabled'
+};
+
+// Where the home page keeps a ?ref= code until the new user's document is created
+export const REFERRAL_CODE_STORAGE_KEY = 'referralCode';
@@ -0,0 +1,38 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * A VAT/GST rate for one country, stored in settings/tax_rates
+ */
+export interface TaxRate {
+  country: string;         // ISO 3166-1 alpha-2, e.g. 'GB'
+  name: string;            // Shown to users, e.g. 'VAT' or 'GST'
+  rate: number;            // Percent, e.g. 20
+  reverseCharge: boolean;  // Business customers with a VAT ID account for the tax themselves (e.g. EU B2B)
+}
+
+/**
+ * The user's billing details, stored as users/{uid}.billingDetails and written only by the server
+ */
+export interface BillingDetails {
+  country: string;         // ISO 3166-1 alpha-2
+  vatId: string | null;    // Normalized: uppercase, no spaces or punctuation. Format-checked only
+  updatedAt?: Date | Timestamp;
+}
+
+/**
+ * Tax due on a top-up, added on top of the amount credited to the balance
+ */
+export interface TaxQuote {
+  country: string | null;  // Billing country; null until the user sets one
+  taxName: string;
+  taxRate: number;         // Percent; 0 when no tax applies
+  taxAmount: number;       // In the checkout currency
+  taxAmountUsd: number;
+  total: number;           // Amount plus tax, in the checkout currency
+  reverseCharge: boolean;
+  vatId: string | null;
+}
+
+export const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+export const VAT_ID_PATTERN = /^[A-Z0-9]{4,15}$/;
+export const MAX_TAX_RATE_PERCENT = 50;
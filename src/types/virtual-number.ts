@@ -0,0 +1,43 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Virtual number rental settings, stored as settings/virtual_numbers
+ * Amounts are in USD like the balance.
+ */
+export interface VirtualNumberSettings {
+  enabled: boolean;             // Whether users can rent new numbers
+  monthlyFee: number;           // Charged when a number is rented and on each renewal
+  inboundRatePerMinute: number; // Charged for answered inbound calls, per started minute
+}
+
+export const DEFAULT_VIRTUAL_NUMBER_SETTINGS: VirtualNumberSettings = {
+  enabled: true,
+  monthlyFee: 3,
+  inboundRatePerMinute: 0.02
+};
+
+// Inbound calls are billed per started minute
+export const INBOUND_BILLING_INCREMENT = 60;
+
+// Days a renewal can stay unpaid before the number is released
+export const RENEWAL_GRACE_DAYS = 3;
+
+/**
+ * A pool number rented by a user, stored as virtual_numbers/{E.164 number} while rented
+ * The renter's users/{uid}.virtualNumber points back to it.
+ */
+export interface VirtualNumber {
+  number: string;       // E.164
+  userId: string;
+  monthlyFee: number;   // Fee at the last charge
+  rentedAt: Date | Timestamp;
+  renewsAt: Date | Timestamp;  // When the next monthly fee is due
+}
+
+/**
+ * A pool number a user can rent, as listed by /api/virtual-number
+ */
+export interface AvailableVirtualNumber {
+  number: string;
+  country: string | null;
+}
@@ -0,0 +1,22 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * A message left on a user's rented number, stored as users/{uid}/voicemails/{RecordingSid}
+ * Written by the Twilio recording and transcription callbacks; users only change `read` via /api/voicemails.
+ */
+export interface Voicemail {
+  id: string;                        // Twilio RecordingSid
+  from: string;                      // The caller's number as Twilio sent it (E.164, or e.g. "anonymous")
+  to: string;                        // The rented number that was called
+  durationSeconds: number;
+  recordingUrl: string;              // Twilio media URL; played back through /api/voicemails/recording
+  transcription: string | null;      // Set if Twilio's transcription succeeds
+  read: boolean;
+  createdAt: Date | Timestamp;
+}
+
+// Longest message a caller can leave (Twilio only transcribes recordings up to 2 minutes)
+export const VOICEMAIL_MAX_LENGTH_SECONDS = 120;
+
+// Most recent voicemails listed in the inbox
+export const MAX_VOICEMAILS_LISTED = 100;
@@ -183,4 +183,50 @@ export function extractNationalNumber(e164Number: string): string | undefined {
     console.error('[extractNationalNumber] Error parsing phone number:', error);
     return undefined;
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Converts a number typed or imported in international format (+44..., 0044...) to E.164
+ * @param input The phone number, with or without spaces and punctuation
+ * @returns The E.164 number, or undefined if it isn't a valid international number
+ */
+export function normalizeToE164(input: string): string | undefined {
+  const trimmed = input.trim().replace(/^00/, '+');
+  if (!trimmed.startsWith('+')) {
+    return undefined;
+  }
+
+  try {
+    const parsedNumber = phoneUtil.parse(trimmed);
+    if (!phoneUtil.isValidNumber(parsedNumber)) {
+      return undefined;
+    }
+    return phoneUtil.format(parsedNumber, PNF.E164);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Gets where an E.164 number is, for matching numbers by location
+ * @param e164Number The phone number in E.164 format
+ * @returns The region, calling code and geographic area code (empty when the number has none,
+ *          e.g. most mobiles), or undefined if the number can't be parsed
+ */
+export function getNumberLocation(e164Number: string): { country: string; callingCode: number; areaCode: string } | undefined {
+  try {
+    const parsedNumber = phoneUtil.parse(e164Number);
+    const country = phoneUtil.getRegionCodeForNumber(parsedNumber);
+    if (!country) {
+      return undefined;
+    }
+    const nationalNumber = parsedNumber.getNationalNumber()?.toString() || '';
+    const areaCodeLength = phoneUtil.getLengthOfGeographicalAreaCode(parsedNumber);
+    return {
+      country,
+      callingCode: parsedNumber.getCountryCode() || 0,
+      areaCode: nationalNumber.slice(0, areaCodeLength)
+    };
+  } catch {
+    return undefined;
+  }
+}